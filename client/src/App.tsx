@@ -8,8 +8,14 @@ import Admin from "@/pages/Admin";
 import AdminLogin from "@/pages/AdminLogin";
 import GetInvolved from "@/pages/GetInvolved";
 import ActiveCases from "@/pages/ActiveCases";
+import CaseDetail from "@/pages/CaseDetail";
+import CaseUpdatesUnsubscribe from "@/pages/CaseUpdatesUnsubscribe";
 import AboutUs from "@/pages/AboutUs";
 import ContactUs from "@/pages/ContactUs";
+import MyGiving from "@/pages/MyGiving";
+import ManageSubscription from "@/pages/ManageSubscription";
+import Fundraiser from "@/pages/Fundraiser";
+import Campaign from "@/pages/Campaign";
 import { DonationProvider } from "@/components/DonationContext";
 import TawkToChat from "@/components/TawkToChat";
 
@@ -46,9 +52,15 @@ function Router() {
       <Route path="/payment" component={Payment} />
       <Route path="/donation-success" component={DonationSuccess} />
       <Route path="/active-cases" component={ActiveCases} />
+      <Route path="/cases/:id" component={CaseDetail} />
+      <Route path="/fundraise/:slug" component={Fundraiser} />
+      <Route path="/campaigns/:slug" component={Campaign} />
+      <Route path="/case-updates/unsubscribe/:token" component={CaseUpdatesUnsubscribe} />
       <Route path="/get-involved" component={GetInvolved} />
       <Route path="/about" component={AboutUs} />
       <Route path="/contact" component={ContactUs} />
+      <Route path="/my-giving" component={MyGiving} />
+      <Route path="/manage-subscription/:token" component={ManageSubscription} />
       <Route path="/admin/login" component={AdminLogin} />
       {/* Make /admin come after /admin/login to ensure the right route is matched */}
       <Route path="/admin" component={Admin} />
@@ -0,0 +1,364 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { BASE_CURRENCY } from '@shared/currency';
+import { type CampaignPhase } from '@shared/campaigns';
+import { type Campaign, type Case, type Fund } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { ExternalLink, Loader2, Pencil } from 'lucide-react';
+
+const CAMPAIGNS_URL = '/api/admin/campaigns';
+
+const DONATION_TYPE_LABELS: Record<Fund, string> = {
+  zakaat: 'Zakaat',
+  sadqah: 'Sadqah',
+  interest: 'Interest purification',
+};
+
+const PHASE_BADGES: Record<CampaignPhase, { label: string; variant: 'default' | 'outline' | 'secondary' }> = {
+  upcoming: { label: 'Scheduled', variant: 'outline' },
+  live: { label: 'Live', variant: 'default' },
+  ended: { label: 'Ended', variant: 'secondary' },
+};
+
+type CampaignWithProgress = Campaign & {
+  phase: CampaignPhase;
+  raisedAmount: number;
+  donationCount: number;
+};
+
+// datetime-local inputs are in the admin's local time
+const toDateTimeInput = (date: string | Date) => {
+  const local = new Date(date);
+  local.setMinutes(local.getMinutes() - local.getTimezoneOffset());
+  return local.toISOString().slice(0, 16);
+};
+
+/**
+ * Set up and edit time-boxed campaigns, and see how far each is towards its goal
+ */
+export default function Campaigns() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [slug, setSlug] = useState('');
+  const [title, setTitle] = useState('');
+  const [summary, setSummary] = useState('');
+  const [heroImageUrl, setHeroImageUrl] = useState('');
+  const [heroContent, setHeroContent] = useState('');
+  const [goalAmount, setGoalAmount] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [donationTypes, setDonationTypes] = useState<Fund[]>(['sadqah']);
+  const [caseIds, setCaseIds] = useState<number[]>([]);
+
+  const { data: campaigns = [], isLoading } = useQuery<CampaignWithProgress[]>({
+    queryKey: [CAMPAIGNS_URL],
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ['/api/cases'],
+  });
+  const openCases = cases.filter((caseItem) => caseItem.status === 'open' || caseIds.includes(caseItem.id));
+
+  const resetForm = () => {
+    setEditingId(null);
+    setSlug('');
+    setTitle('');
+    setSummary('');
+    setHeroImageUrl('');
+    setHeroContent('');
+    setGoalAmount('');
+    setStartsAt('');
+    setEndsAt('');
+    setDonationTypes(['sadqah']);
+    setCaseIds([]);
+  };
+
+  const startEditing = (campaign: Campaign) => {
+    setEditingId(campaign.id);
+    setSlug(campaign.slug);
+    setTitle(campaign.title);
+    setSummary(campaign.summary);
+    setHeroImageUrl(campaign.heroImageUrl ?? '');
+    setHeroContent(campaign.heroContent);
+    setGoalAmount(String(campaign.goalAmount));
+    setStartsAt(toDateTimeInput(campaign.startsAt));
+    setEndsAt(toDateTimeInput(campaign.endsAt));
+    setDonationTypes(campaign.donationTypes);
+    setCaseIds(campaign.caseIds);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        slug,
+        title,
+        summary,
+        heroImageUrl: heroImageUrl.trim() || null,
+        heroContent,
+        goalAmount: parseFloat(goalAmount),
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        donationTypes,
+        caseIds,
+      };
+      const response = editingId
+        ? await apiRequest('PUT', `${CAMPAIGNS_URL}/${editingId}`, body)
+        : await apiRequest('POST', CAMPAIGNS_URL, body);
+      return response.json() as Promise<Campaign>;
+    },
+    onSuccess: (campaign) => {
+      queryClient.invalidateQueries({ queryKey: [CAMPAIGNS_URL] });
+      toast({
+        title: editingId ? 'Campaign updated' : 'Campaign created',
+        description: `Its page is at /campaigns/${campaign.slug}`,
+      });
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save campaign',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter((v) => v !== value);
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+  const formatMoney = (value: number) => `${BASE_CURRENCY} ${value.toFixed(2)}`;
+
+  const canSave =
+    slug.trim() !== '' &&
+    title.trim().length >= 3 &&
+    summary.trim() !== '' &&
+    heroContent.trim().length >= 20 &&
+    parseFloat(goalAmount) > 0 &&
+    startsAt !== '' &&
+    endsAt !== '' &&
+    donationTypes.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Campaign' : 'New Campaign'}</CardTitle>
+          <CardDescription>
+            A campaign runs between its dates with its own page to share. Donations made there are reported by campaign.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-4 md:grid-cols-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="campaign-title">Title</Label>
+              <Input
+                id="campaign-title"
+                maxLength={150}
+                placeholder="e.g. Ramadan 2027 Eye Camp"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-slug">Link</Label>
+              <div className="flex">
+                <div className="bg-muted flex items-center px-3 rounded-l-md border border-r-0 text-sm text-muted-foreground">
+                  /campaigns/
+                </div>
+                <Input
+                  id="campaign-slug"
+                  className="rounded-l-none"
+                  maxLength={80}
+                  placeholder="ramadan-2027-eye-camp"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="campaign-summary">Summary</Label>
+              <Input id="campaign-summary" maxLength={300} value={summary} onChange={(e) => setSummary(e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="campaign-content">Appeal</Label>
+              <Textarea
+                id="campaign-content"
+                rows={6}
+                maxLength={10000}
+                value={heroContent}
+                onChange={(e) => setHeroContent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-image">Hero image URL (optional)</Label>
+              <Input id="campaign-image" value={heroImageUrl} onChange={(e) => setHeroImageUrl(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-goal">Goal ({BASE_CURRENCY})</Label>
+              <Input
+                id="campaign-goal"
+                type="number"
+                min="1"
+                step="1"
+                value={goalAmount}
+                onChange={(e) => setGoalAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-starts">Starts</Label>
+              <Input
+                id="campaign-starts"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-ends">Ends</Label>
+              <Input
+                id="campaign-ends"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Donation types offered</Label>
+              {(Object.keys(DONATION_TYPE_LABELS) as Fund[]).map((type) => (
+                <div key={type} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`campaign-type-${type}`}
+                    checked={donationTypes.includes(type)}
+                    onCheckedChange={(checked) => setDonationTypes(toggle(donationTypes, type, checked === true))}
+                  />
+                  <Label htmlFor={`campaign-type-${type}`} className="font-normal">{DONATION_TYPE_LABELS[type]}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Linked cases (optional)</Label>
+              <div className="max-h-40 overflow-y-auto space-y-2">
+                {openCases.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">There are no open cases.</p>
+                ) : (
+                  openCases.map((caseItem) => (
+                    <div key={caseItem.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`campaign-case-${caseItem.id}`}
+                        checked={caseIds.includes(caseItem.id)}
+                        onCheckedChange={(checked) => setCaseIds(toggle(caseIds, caseItem.id, checked === true))}
+                      />
+                      <Label htmlFor={`campaign-case-${caseItem.id}`} className="font-normal">{caseItem.title}</Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2 md:col-span-2 md:justify-end">
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending || !canSave}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? 'Save changes' : 'Create campaign'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>What each campaign has raised, net of refunds</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : campaigns.length === 0 ? (
+            <p className="text-muted-foreground">There are no campaigns yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-56">Raised</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map((campaign) => (
+                  <TableRow key={campaign.id}>
+                    <TableCell>
+                      <div className="font-medium">{campaign.title}</div>
+                      <a
+                        href={`/campaigns/${campaign.slug}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center text-xs text-[#2D5A3D] hover:underline"
+                      >
+                        /campaigns/{campaign.slug}
+                        <ExternalLink className="h-3 w-3 ml-1" />
+                      </a>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      <div>{formatDate(campaign.startsAt)}</div>
+                      <div className="text-muted-foreground">to {formatDate(campaign.endsAt)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={PHASE_BADGES[campaign.phase].variant}>{PHASE_BADGES[campaign.phase].label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={Math.min((campaign.raisedAmount / campaign.goalAmount) * 100, 100)} className="h-2" />
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {formatMoney(campaign.raisedAmount)} of {formatMoney(campaign.goalAmount)} from {campaign.donationCount}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="ghost" onClick={() => startEditing(campaign)}>
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type Case, type CaseDisbursement } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+
+const METHOD_LABELS: Record<string, string> = {
+  bank_transfer: 'Bank transfer',
+  cheque: 'Cheque',
+  cash: 'Cash',
+  card: 'Card',
+  other: 'Other',
+};
+
+interface CaseDisbursementOverview {
+  funding: { currency: string; collected: number; disbursed: number; remaining: number };
+  fullyDisbursed: boolean;
+  completedAt: string | null;
+  disbursements: CaseDisbursement[];
+}
+
+interface CaseDisbursementsProps {
+  caseItem: Case | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Local date in the YYYY-MM-DD form date inputs use
+const today = () => new Date().toLocaleDateString('en-CA');
+
+export default function CaseDisbursements({ caseItem, onOpenChange }: CaseDisbursementsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState('');
+  const [paidAt, setPaidAt] = useState(today());
+  const [payee, setPayee] = useState('');
+  const [method, setMethod] = useState('bank_transfer');
+  const [documentReference, setDocumentReference] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const disbursementsUrl = `/api/admin/cases/${caseItem?.id}/disbursements`;
+  const { data, isLoading } = useQuery<CaseDisbursementOverview>({
+    queryKey: [disbursementsUrl],
+    enabled: !!caseItem,
+  });
+
+  const refreshCases = () => {
+    queryClient.invalidateQueries({ queryKey: [disbursementsUrl] });
+    queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/active-zakaat-cases'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/completed-cases'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update case disbursements',
+      variant: 'destructive',
+    });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', disbursementsUrl, {
+        amount: parseFloat(amount),
+        paidAt,
+        payee,
+        method,
+        ...(documentReference && { documentReference }),
+        ...(notes && { notes }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshCases();
+      setAmount('');
+      setPayee('');
+      setDocumentReference('');
+      setNotes('');
+      setPaidAt(today());
+      toast({ title: 'Disbursement recorded' });
+    },
+    onError,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/cases/${caseItem!.id}/complete`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshCases();
+      toast({ title: 'Case completed', description: `${caseItem?.title} now shows as completed` });
+    },
+    onError,
+  });
+
+  const currency = data?.funding.currency ?? caseItem?.currency ?? 'AUD';
+  const formatMoney = (value: number) =>
+    new Intl.NumberFormat('en-AU', { style: 'currency', currency }).format(value);
+  const isCompleted = !!data?.completedAt;
+  const canRecord = parseFloat(amount) > 0 && payee.trim() !== '' && paidAt !== '';
+
+  return (
+    <Dialog open={!!caseItem} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Disbursements: {caseItem?.title}</DialogTitle>
+          <DialogDescription>
+            Payments made from this case to the patient, hospital or supplier, in {currency}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="rounded-md border p-3">
+                <div className="text-xs text-muted-foreground">Collected</div>
+                <div className="text-lg font-semibold">{formatMoney(data.funding.collected)}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-xs text-muted-foreground">Disbursed</div>
+                <div className="text-lg font-semibold">{formatMoney(data.funding.disbursed)}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-xs text-muted-foreground">Remaining</div>
+                <div className="text-lg font-semibold">{formatMoney(data.funding.remaining)}</div>
+              </div>
+            </div>
+
+            {isCompleted ? (
+              <div className="flex items-center gap-2 rounded-md bg-green-50 p-3 text-sm text-green-800">
+                <CheckCircle2 className="h-4 w-4" />
+                Completed on {new Date(data.completedAt!).toLocaleDateString('en-AU')}
+              </div>
+            ) : (
+              <>
+                <form
+                  className="grid gap-4 md:grid-cols-3 md:items-end"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    recordMutation.mutate();
+                  }}
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="case-disbursement-amount">Amount ({currency})</Label>
+                    <Input
+                      id="case-disbursement-amount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="case-disbursement-date">Date paid</Label>
+                    <Input
+                      id="case-disbursement-date"
+                      type="date"
+                      max={today()}
+                      value={paidAt}
+                      onChange={(e) => setPaidAt(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="case-disbursement-method">Method</Label>
+                    <Select value={method} onValueChange={setMethod}>
+                      <SelectTrigger id="case-disbursement-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="case-disbursement-payee">Payee</Label>
+                    <Input
+                      id="case-disbursement-payee"
+                      maxLength={200}
+                      placeholder="Patient or hospital"
+                      value={payee}
+                      onChange={(e) => setPayee(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="case-disbursement-document">Document reference</Label>
+                    <Input
+                      id="case-disbursement-document"
+                      maxLength={200}
+                      placeholder="Invoice or receipt number"
+                      value={documentReference}
+                      onChange={(e) => setDocumentReference(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="case-disbursement-notes">Notes</Label>
+                    <Input
+                      id="case-disbursement-notes"
+                      maxLength={1000}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                    />
+                  </div>
+                  <Button type="submit" className="md:col-start-3" disabled={recordMutation.isPending || !canRecord}>
+                    {recordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Record payment
+                  </Button>
+                </form>
+
+                {data.fullyDisbursed && (
+                  <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 p-3 text-sm">
+                    <span>Everything collected has been paid out.</span>
+                    <Button size="sm" onClick={() => completeMutation.mutate()} disabled={completeMutation.isPending}>
+                      {completeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Mark as completed
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+
+            {data.disbursements.length === 0 ? (
+              <p className="text-muted-foreground text-sm">Nothing has been paid out of this case yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Payee</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.disbursements.map((disbursement) => (
+                    <TableRow key={disbursement.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(disbursement.paidAt).toLocaleDateString('en-AU')}</TableCell>
+                      <TableCell>
+                        <div>{disbursement.payee}</div>
+                        {disbursement.notes && <div className="text-xs text-muted-foreground">{disbursement.notes}</div>}
+                      </TableCell>
+                      <TableCell>{METHOD_LABELS[disbursement.method] ?? disbursement.method}</TableCell>
+                      <TableCell>
+                        <div>{disbursement.documentReference ?? '—'}</div>
+                        {disbursement.recordedBy && <div className="text-xs text-muted-foreground">{disbursement.recordedBy}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(disbursement.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { MAX_CASE_IMAGES, type CaseImageVariant } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Loader2, Star, Trash2 } from 'lucide-react';
+
+export const CASE_IMAGE_ACCEPT = 'image/jpeg,image/png,image/webp';
+
+export interface CaseImageWithUrls {
+  id: number;
+  caseId: number;
+  width: number;
+  height: number;
+  position: number;
+  uploadedBy: string | null;
+  createdAt: string;
+  urls: Record<CaseImageVariant, string>;
+  isCover?: boolean; // Only in a case's gallery listing
+}
+
+/**
+ * Upload a photo to a case's gallery. It is sent as the raw file, and the server strips its metadata.
+ */
+export async function uploadCaseImage(caseId: number, file: File): Promise<CaseImageWithUrls> {
+  const response = await fetch(`/api/admin/cases/${caseId}/images`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type },
+    body: file,
+    credentials: 'include',
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.message || `Failed to upload ${file.name}`);
+  }
+  return result as CaseImageWithUrls;
+}
+
+interface CaseImageManagerProps {
+  caseId: number;
+}
+
+export default function CaseImageManager({ caseId }: CaseImageManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const imagesUrl = `/api/cases/${caseId}/images`;
+
+  const { data: images = [], isLoading } = useQuery<CaseImageWithUrls[]>({
+    queryKey: [imagesUrl],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [imagesUrl] });
+    queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}`] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update the gallery',
+      variant: 'destructive',
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      // One at a time, so the gallery keeps the order the files were picked in
+      for (const file of files) {
+        await uploadCaseImage(caseId, file);
+      }
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      refresh();
+      onError(error);
+    },
+  });
+
+  const coverMutation = useMutation({
+    mutationFn: async (imageId: number) => {
+      await apiRequest('POST', `/api/admin/cases/${caseId}/images/${imageId}/cover`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (imageId: number) => {
+      await apiRequest('DELETE', `/api/admin/cases/${caseId}/images/${imageId}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const isPending = uploadMutation.isPending || coverMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin" />
+      ) : images.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {images.map((image) => (
+            <div key={image.id} className="relative group rounded-md overflow-hidden border">
+              <img src={image.urls.thumbnail} alt="" className="w-full aspect-[4/3] object-cover" />
+              {image.isCover && (
+                <Badge className="absolute top-1 left-1 text-[10px] px-1.5 py-0">Cover</Badge>
+              )}
+              <div className="absolute bottom-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {!image.isCover && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Use as cover"
+                    disabled={isPending}
+                    onClick={() => coverMutation.mutate(image.id)}
+                  >
+                    <Star className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Delete image"
+                  disabled={isPending}
+                  onClick={() => deleteMutation.mutate(image.id)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Input
+          type="file"
+          accept={CASE_IMAGE_ACCEPT}
+          multiple
+          disabled={isPending || images.length >= MAX_CASE_IMAGES}
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []).slice(0, MAX_CASE_IMAGES - images.length);
+            if (files.length > 0) {
+              uploadMutation.mutate(files);
+            }
+            e.target.value = '';
+          }}
+        />
+        {uploadMutation.isPending && <Loader2 className="h-5 w-5 animate-spin shrink-0" />}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Up to {MAX_CASE_IMAGES} JPEG, PNG or WebP photos. Location and camera details are removed when they are uploaded.
+      </p>
+    </div>
+  );
+}
@@ -3,7 +3,10 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { insertCaseSchema, type Case } from '@shared/schema';
+import { insertCaseSchema, MAX_CASE_IMAGES, CASE_CATEGORIES, CASE_URGENCIES, type Case, type CaseCategory, type CaseUrgency, type OverfundingPolicy } from '@shared/schema';
+import { caseCategoryLabels, caseUrgencyLabels } from '@/lib/caseOptions';
+import CaseImageManager, { CASE_IMAGE_ACCEPT, uploadCaseImage } from '@/components/CaseImageManager';
+import { BASE_CURRENCY } from '@shared/currency';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -25,17 +28,56 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
 
 const caseFormSchema = insertCaseSchema.extend({
   title: z.string().min(1, 'Title is required'),
   description: z.string().min(10, 'Description must be at least 10 characters'),
   amountRequired: z.number().min(1, 'Amount must be at least 1'),
-  imageUrl: z.string().optional(),
-});
+  deadline: z.string().optional(), // YYYY-MM-DD from the date input
+}).omit({ imageUrl: true }); // The cover image comes from the uploaded photos
+
+const OVERFUNDING_POLICY_LABELS: Record<OverfundingPolicy, string> = {
+  cap: 'Cap at the goal',
+  allow_surplus: 'Allow surplus',
+  redirect_to_case: 'Redirect surplus to a zakat-eligible case',
+  redirect_to_general_fund: 'Redirect surplus to the general fund',
+};
+
+const OVERFUNDING_POLICY_DESCRIPTIONS: Record<OverfundingPolicy, string> = {
+  cap: "Donations larger than what the case still needs are refused.",
+  allow_surplus: 'The case keeps everything, even past its goal.',
+  redirect_to_case: 'Anything past the goal goes to the zakat-eligible case furthest from its goal.',
+  redirect_to_general_fund: 'Anything past the goal stays in the general fund instead of the case.',
+};
 
 type CaseFormValues = z.infer<typeof caseFormSchema>;
 
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  funded: 'Funded',
+  closed: 'Closed',
+  completed: 'Completed',
+};
+
+const isAdminStatus = (status: string): status is 'draft' | 'open' | 'closed' =>
+  status === 'draft' || status === 'open' || status === 'closed';
+
+const toCaseRequest = (data: CaseFormValues) => ({
+  ...data,
+  // A deadline runs to the end of the chosen day
+  deadline: data.deadline ? new Date(`${data.deadline}T23:59:59`).toISOString() : null,
+  location: data.location || null,
+});
+
 interface CaseManagementFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -50,6 +92,8 @@ export default function CaseManagementForm({
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const isEditing = !!caseToEdit;
+  // Photos picked for a new case, uploaded once it has been created
+  const [pendingImages, setPendingImages] = useState<File[]>([]);
 
   const form = useForm<CaseFormValues>({
     resolver: zodResolver(caseFormSchema),
@@ -57,10 +101,15 @@ export default function CaseManagementForm({
       title: '',
       description: '',
       amountRequired: 0,
-      active: true,
+      currency: BASE_CURRENCY,
+      status: 'open',
+      deadline: '',
+      overfundingPolicy: 'allow_surplus',
+      category: 'other',
+      location: '',
+      urgency: 'medium',
       recurringAllowed: false,
       zakaatEligible: true,
-      imageUrl: '',
     },
   });
 
@@ -71,29 +120,51 @@ export default function CaseManagementForm({
         title: caseToEdit.title,
         description: caseToEdit.description,
         amountRequired: caseToEdit.amountRequired,
-        active: caseToEdit.active,
+        currency: caseToEdit.currency,
+        // Funded and completed are set by the lifecycle, so the status is only sent when an admin changes it
+        status: isAdminStatus(caseToEdit.status) ? caseToEdit.status : undefined,
+        deadline: caseToEdit.deadline ? new Date(caseToEdit.deadline).toLocaleDateString('en-CA') : '',
+        overfundingPolicy: caseToEdit.overfundingPolicy as OverfundingPolicy,
+        category: caseToEdit.category as CaseCategory,
+        location: caseToEdit.location ?? '',
+        urgency: caseToEdit.urgency as CaseUrgency,
         recurringAllowed: caseToEdit.recurringAllowed,
         zakaatEligible: caseToEdit.zakaatEligible ?? true,
-        imageUrl: caseToEdit.imageUrl || '',
       });
     } else {
       form.reset({
         title: '',
         description: '',
         amountRequired: 0,
-        active: true,
+        currency: BASE_CURRENCY,
+        status: 'open',
+        deadline: '',
+        overfundingPolicy: 'allow_surplus',
+        category: 'other',
+        location: '',
+        urgency: 'medium',
         recurringAllowed: false,
         zakaatEligible: true,
-        imageUrl: '',
       });
     }
+    setPendingImages([]);
   }, [caseToEdit, form]);
 
   // Create case mutation
   const createMutation = useMutation({
-    mutationFn: async (data: CaseFormValues) => {
+    mutationFn: async (data: ReturnType<typeof toCaseRequest>) => {
       const response = await apiRequest('POST', '/api/cases', data);
-      return response.json();
+      const newCase: Case = await response.json();
+      
+      // The case is kept even when a photo fails; the rest can be added by editing it
+      for (const file of pendingImages) {
+        try {
+          await uploadCaseImage(newCase.id, file);
+        } catch (error: any) {
+          toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        }
+      }
+      return newCase;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
@@ -104,6 +175,7 @@ export default function CaseManagementForm({
       });
       onOpenChange(false);
       form.reset();
+      setPendingImages([]);
     },
     onError: (error: any) => {
       toast({
@@ -116,13 +188,14 @@ export default function CaseManagementForm({
 
   // Update case mutation
   const updateMutation = useMutation({
-    mutationFn: async (data: CaseFormValues) => {
+    mutationFn: async (data: ReturnType<typeof toCaseRequest>) => {
       const response = await apiRequest('PUT', `/api/cases/${caseToEdit!.id}`, data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
       queryClient.invalidateQueries({ queryKey: ['/api/active-zakaat-cases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/zakat-compliance'] });
       toast({
         title: 'Success',
         description: 'Case updated successfully',
@@ -139,11 +212,7 @@ export default function CaseManagementForm({
   });
 
   const onSubmit = (data: CaseFormValues) => {
-    // Add placeholder image URL if none provided
-    const formData = {
-      ...data,
-      imageUrl: data.imageUrl || 'https://via.placeholder.com/400x300?text=No+Image'
-    };
+    const formData = toCaseRequest(data);
     
     if (isEditing) {
       updateMutation.mutate(formData);
@@ -202,50 +271,182 @@ export default function CaseManagementForm({
 
 
 
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input 
+                        maxLength={3}
+                        placeholder={BASE_CURRENCY}
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amountRequired"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Amount Required ({form.watch('currency') || BASE_CURRENCY})</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number"
+                        min="1"
+                        step="0.01"
+                        placeholder="0.00"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground -mt-4">
+              Donations in other currencies are converted into the case currency at the rate on the day they are made.
+            </p>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CASE_CATEGORIES.map((value) => (
+                          <SelectItem key={value} value={value}>{caseCategoryLabels[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="urgency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Urgency</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CASE_URGENCIES.map((value) => (
+                          <SelectItem key={value} value={value}>{caseUrgencyLabels[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Karachi, Pakistan" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={caseToEdit ? STATUS_LABELS[caseToEdit.status] : 'Choose a status'} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="draft">Draft</SelectItem>
+                        <SelectItem value="open">Open</SelectItem>
+                        <SelectItem value="closed">Closed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="deadline"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Deadline (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground -mt-4">
+              Open cases move to funded when they reach their goal and close at the end of their deadline.
+            </p>
+
             <FormField
               control={form.control}
-              name="amountRequired"
+              name="overfundingPolicy"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Amount Required (AUD)</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number"
-                      min="1"
-                      step="0.01"
-                      placeholder="0.00"
-                      {...field}
-                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                    />
-                  </FormControl>
+                  <FormLabel>Over-funding</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(OVERFUNDING_POLICY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {field.value && (
+                    <p className="text-sm text-muted-foreground">{OVERFUNDING_POLICY_DESCRIPTIONS[field.value]}</p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="active"
-              render={({ field }) => (
-                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                  <div className="space-y-0.5">
-                    <FormLabel className="text-base">
-                      Active Status
-                    </FormLabel>
-                    <div className="text-sm text-muted-foreground">
-                      Enable this case for donations
-                    </div>
-                  </div>
-                  <FormControl>
-                    <Switch
-                      checked={field.value}
-                      onCheckedChange={field.onChange}
-                    />
-                  </FormControl>
-                </FormItem>
-              )}
-            />
-
             <FormField
               control={form.control}
               name="recurringAllowed"
@@ -287,6 +488,27 @@ export default function CaseManagementForm({
               )}
             />
 
+            <div className="space-y-2">
+              <FormLabel>Photos</FormLabel>
+              {caseToEdit ? (
+                <CaseImageManager caseId={caseToEdit.id} />
+              ) : (
+                <>
+                  <Input
+                    type="file"
+                    accept={CASE_IMAGE_ACCEPT}
+                    multiple
+                    onChange={(e) => setPendingImages(Array.from(e.target.files ?? []).slice(0, MAX_CASE_IMAGES))}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    {pendingImages.length > 0
+                      ? `${pendingImages.length} photo${pendingImages.length === 1 ? '' : 's'} will be uploaded when the case is created; the first is the cover.`
+                      : `Up to ${MAX_CASE_IMAGES} JPEG, PNG or WebP photos. Location and camera details are removed when they are uploaded.`}
+                  </p>
+                </>
+              )}
+            </div>
+
             <DialogFooter>
               <Button
                 type="button"
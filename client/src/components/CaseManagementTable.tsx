@@ -23,7 +23,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Edit, Trash2, ToggleLeft, ToggleRight, Loader2 } from 'lucide-react';
+import { Edit, Trash2, ToggleLeft, ToggleRight, Loader2, HandCoins, MessageSquarePlus } from 'lucide-react';
+import CaseDisbursements from '@/components/CaseDisbursements';
+import CaseUpdates from '@/components/CaseUpdates';
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  closed: 'Closed',
+};
 
 interface CaseManagementTableProps {
   cases: Case[];
@@ -40,6 +48,8 @@ export default function CaseManagementTable({
   const queryClient = useQueryClient();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [caseToDelete, setCaseToDelete] = useState<Case | null>(null);
+  const [caseForDisbursements, setCaseForDisbursements] = useState<Case | null>(null);
+  const [caseForUpdates, setCaseForUpdates] = useState<Case | null>(null);
 
   // Toggle case status mutation
   const toggleStatusMutation = useMutation({
@@ -104,10 +114,10 @@ export default function CaseManagementTable({
     }
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string) => {
     return new Intl.NumberFormat('en-AU', {
       style: 'currency',
-      currency: 'AUD',
+      currency,
     }).format(amount);
   };
 
@@ -143,6 +153,7 @@ export default function CaseManagementTable({
               <TableHead>Progress</TableHead>
               <TableHead>Amount Required</TableHead>
               <TableHead>Amount Collected</TableHead>
+              <TableHead>Disbursed</TableHead>
               <TableHead>Created</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -156,9 +167,20 @@ export default function CaseManagementTable({
                   </div>
                 </TableCell>
                 <TableCell>
-                  <Badge variant={caseItem.active ? 'default' : 'secondary'}>
-                    {caseItem.active ? 'Active' : 'Inactive'}
-                  </Badge>
+                  {caseItem.status === 'completed' ? (
+                    <Badge variant="secondary" className="bg-green-100 text-green-800 border-green-200">Completed</Badge>
+                  ) : caseItem.status === 'funded' ? (
+                    <Badge variant="secondary" className="bg-blue-100 text-blue-800 border-blue-200">Funded</Badge>
+                  ) : (
+                    <Badge variant={caseItem.status === 'open' ? 'default' : 'secondary'}>
+                      {STATUS_LABELS[caseItem.status] ?? caseItem.status}
+                    </Badge>
+                  )}
+                  {caseItem.deadline && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      Until {new Date(caseItem.deadline).toLocaleDateString()}
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell>
                   {caseItem.recurringAllowed ? (
@@ -186,8 +208,14 @@ export default function CaseManagementTable({
                     </span>
                   </div>
                 </TableCell>
-                <TableCell>{formatCurrency(caseItem.amountRequired)}</TableCell>
-                <TableCell>{formatCurrency(caseItem.amountCollected)}</TableCell>
+                <TableCell>{formatCurrency(caseItem.amountRequired, caseItem.currency)}</TableCell>
+                <TableCell>{formatCurrency(caseItem.amountCollected, caseItem.currency)}</TableCell>
+                <TableCell>
+                  <div>{formatCurrency(caseItem.amountDisbursed, caseItem.currency)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatCurrency(Math.max(caseItem.amountCollected - caseItem.amountDisbursed, 0), caseItem.currency)} to pay out
+                  </div>
+                </TableCell>
                 <TableCell>{new Date(caseItem.createdAt).toLocaleDateString()}</TableCell>
                 <TableCell className="text-right">
                   <div className="flex items-center justify-end space-x-2">
@@ -199,6 +227,22 @@ export default function CaseManagementTable({
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Disbursements"
+                      onClick={() => setCaseForDisbursements(caseItem)}
+                    >
+                      <HandCoins className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Updates"
+                      onClick={() => setCaseForUpdates(caseItem)}
+                    >
+                      <MessageSquarePlus className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -229,6 +273,16 @@ export default function CaseManagementTable({
         </Table>
       </div>
 
+      <CaseDisbursements
+        caseItem={caseForDisbursements}
+        onOpenChange={(open) => !open && setCaseForDisbursements(null)}
+      />
+
+      <CaseUpdates
+        caseItem={caseForUpdates}
+        onOpenChange={(open) => !open && setCaseForUpdates(null)}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -1,8 +1,7 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import { useDonation } from '@/components/DonationContext';
 import { useCurrency } from '@/hooks/useCurrency';
-import { Case } from '@shared/schema';
+import { useCaseSearch } from '@/hooks/useCaseSearch';
 import { 
   Dialog, 
   DialogContent, 
@@ -30,11 +29,11 @@ export default function CaseSelector({ open, onOpenChange }: CaseSelectorProps)
     convertAmount
   } = useCurrency();
 
-  // Fetch active zakaat cases
-  const { data: cases = [], isLoading } = useQuery<Case[]>({
-    queryKey: ['/api/active-zakaat-cases'],
-    enabled: open, // Only fetch when dialog is open
-  });
+  // Zakat can only be allocated to eligible cases; the most urgent are shown first
+  const { cases, isLoading, hasNextPage, fetchNextPage } = useCaseSearch(
+    { zakaatEligible: true, sort: 'urgent', limit: 10 },
+    { enabled: open } // Only fetch when dialog is open
+  );
 
   useEffect(() => {
     // Reset current index when dialog opens
@@ -48,6 +47,10 @@ export default function CaseSelector({ open, onOpenChange }: CaseSelectorProps)
   };
 
   const handleNext = () => {
+    // Load the next page before reaching the end of the loaded cases
+    if (hasNextPage && currentIndex >= cases.length - 2) {
+      fetchNextPage();
+    }
     setCurrentIndex((prev) => (prev < cases.length - 1 ? prev + 1 : prev));
   };
 
@@ -61,9 +64,9 @@ export default function CaseSelector({ open, onOpenChange }: CaseSelectorProps)
   const currentCase = cases[currentIndex];
   
   // Format and convert currency from AUD to current currency
-  const formatAmount = (amount: number) => {
-    // First convert from AUD to current currency
-    const convertedAmount = convertAmount(amount);
+  const formatAmount = (amount: number, fromCurrency?: string) => {
+    // First convert from the case currency (AUD unless set) to current currency
+    const convertedAmount = convertAmount(amount, fromCurrency);
     // Then format with proper currency symbol
     return formatCurrencyAmount(convertedAmount);
   };
@@ -104,13 +107,13 @@ export default function CaseSelector({ open, onOpenChange }: CaseSelectorProps)
                 <div className="p-3 rounded-lg" style={{ backgroundColor: '#F0F9F4' }}>
                   <p className="text-sm" style={{ color: '#8A7A50' }}>Raised so far</p>
                   <p className="text-lg font-semibold" style={{ color: '#2D5A3D' }}>
-                    {currentCase && formatAmount(currentCase.amountCollected)}
+                    {currentCase && formatAmount(currentCase.amountCollected, currentCase.currency)}
                   </p>
                 </div>
                 <div className="p-3 rounded-lg" style={{ backgroundColor: '#FDF8EE' }}>
                   <p className="text-sm" style={{ color: '#8A7A50' }}>Still needed</p>
                   <p className="text-lg font-semibold" style={{ color: '#C8A850' }}>
-                    {currentCase && formatAmount(Math.max(0, currentCase.amountRequired - currentCase.amountCollected))}
+                    {currentCase && formatAmount(Math.max(0, currentCase.amountRequired - currentCase.amountCollected), currentCase.currency)}
                   </p>
                 </div>
               </div>
@@ -151,7 +154,7 @@ export default function CaseSelector({ open, onOpenChange }: CaseSelectorProps)
                     <ChevronRight size={20} />
                   </Button>
                   <span className="text-sm text-gray-500 py-2 px-3">
-                    {currentIndex + 1} of {cases.length}
+                    {currentIndex + 1} of {cases.length}{hasNextPage && '+'}
                   </span>
                 </div>
                 <div className="flex space-x-2">
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type Case, type CaseUpdate } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ExternalLink, Loader2 } from 'lucide-react';
+
+interface CaseUpdatesProps {
+  caseItem: Case | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CaseUpdates({ caseItem, onOpenChange }: CaseUpdatesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [body, setBody] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  const [notifyDonors, setNotifyDonors] = useState(true);
+
+  const updatesUrl = `/api/cases/${caseItem?.id}/updates`;
+  const { data: updates = [], isLoading } = useQuery<CaseUpdate[]>({
+    queryKey: [updatesUrl],
+    enabled: !!caseItem,
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/cases/${caseItem!.id}/updates`, {
+        body,
+        ...(imageUrl && { imageUrl }),
+        notifyDonors,
+      });
+      return response.json() as Promise<CaseUpdate & { queued: number }>;
+    },
+    onSuccess: (update) => {
+      queryClient.invalidateQueries({ queryKey: [updatesUrl] });
+      setBody('');
+      setImageUrl('');
+      toast({
+        title: 'Update posted',
+        description: notifyDonors ? `Emailing ${update.queued} donor(s)` : 'Donors were not emailed',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to post update',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <Dialog open={!!caseItem} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Updates: {caseItem?.title}</DialogTitle>
+          <DialogDescription>
+            Updates appear on the{' '}
+            <a href={`/cases/${caseItem?.id}`} target="_blank" rel="noreferrer" className="inline-flex items-center underline">
+              public case page <ExternalLink className="ml-1 h-3 w-3" />
+            </a>
+            {' '}and can be emailed to everyone who donated to this case.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            postMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="case-update-body">Update</Label>
+            <Textarea
+              id="case-update-body"
+              rows={5}
+              maxLength={5000}
+              placeholder="e.g. The surgery went well and she is now recovering at home."
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="case-update-image">Image URL (optional)</Label>
+            <Input
+              id="case-update-image"
+              type="url"
+              placeholder="https://example.com/image.jpg"
+              value={imageUrl}
+              onChange={(e) => setImageUrl(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="case-update-notify"
+              checked={notifyDonors}
+              onCheckedChange={(checked) => setNotifyDonors(checked === true)}
+            />
+            <Label htmlFor="case-update-notify">Email this update to the case's donors</Label>
+          </div>
+          <Button type="submit" disabled={postMutation.isPending || body.trim() === ''}>
+            {postMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Post update
+          </Button>
+        </form>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : updates.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No updates have been posted to this case yet.</p>
+          ) : (
+            updates.map((update) => (
+              <div key={update.id} className="rounded-md border p-3 text-sm">
+                <div className="text-xs text-muted-foreground mb-1">
+                  {formatDate(update.createdAt)}
+                  {update.postedBy && ` · ${update.postedBy}`}
+                  {` · ${update.notifiedDonors} donor(s) emailed`}
+                </div>
+                <p className="whitespace-pre-line">{update.body}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
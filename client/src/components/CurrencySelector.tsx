@@ -9,6 +9,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { trackEvent } from '@/lib/analytics';
+import { isDonationCurrency } from '@shared/money';
 
 // Map of currency codes to their symbols
 export const currencySymbols: Record<string, string> = {
@@ -47,7 +48,8 @@ export const currencyRegions: Record<string, string> = {
   AED: 'ae',
   MYR: 'my',
   SGD: 'sg',
-  ZAR: 'za'
+  ZAR: 'za',
+  ISK: 'is'
 };
 
 export default function CurrencySelector() {
@@ -70,7 +72,8 @@ export default function CurrencySelector() {
   
   // Synchronize detected currency with donation context
   useEffect(() => {
-    if (detectedCurrency && currencyData?.source) {
+    // A detected currency donors can't give in leaves the current one selected
+    if (detectedCurrency && currencyData?.source && isDonationCurrency(detectedCurrency)) {
       console.log(`Setting currency from ${currencyData.source}: ${detectedCurrency} (${detectedSymbol})`);
                   
       setCurrency(detectedCurrency);
@@ -0,0 +1,150 @@
+import { useQuery } from '@tanstack/react-query';
+import { type Dispute } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ExternalLink, Loader2 } from 'lucide-react';
+
+type DisputeWithDonation = Dispute & {
+  donation: {
+    id: number;
+    amount: number;
+    currency: string;
+    type: string;
+    caseId: number | null;
+    email: string | null;
+    name: string | null;
+  } | null;
+};
+
+const disputeStatusColors: Record<string, string> = {
+  warning_needs_response: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  needs_response: 'bg-red-100 text-red-800 border-red-200',
+  warning_under_review: 'bg-blue-100 text-blue-800 border-blue-200',
+  under_review: 'bg-blue-100 text-blue-800 border-blue-200',
+  warning_closed: 'bg-gray-100 text-gray-800 border-gray-200',
+  won: 'bg-green-100 text-green-800 border-green-200',
+  lost: 'bg-red-100 text-red-800 border-red-200',
+};
+
+// Evidence only matters while Stripe is still waiting for a response
+const AWAITING_RESPONSE_STATUSES = ['warning_needs_response', 'needs_response'];
+
+export default function DisputeList() {
+  const { data: disputes = [], isLoading } = useQuery<DisputeWithDonation[]>({
+    queryKey: ['/api/admin/disputes'],
+    refetchInterval: 30000, // Refresh every 30 seconds
+  });
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: currency || 'AUD',
+    }).format(amount);
+  };
+
+  const formatDate = (date: string | Date | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const isEvidenceDueSoon = (dispute: Dispute) => {
+    if (!dispute.evidenceDueBy || !AWAITING_RESPONSE_STATUSES.includes(dispute.status)) return false;
+    return new Date(dispute.evidenceDueBy).getTime() - Date.now() < 3 * 24 * 60 * 60 * 1000;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Disputes</CardTitle>
+        <CardDescription>
+          Chargebacks raised by donors' banks. Evidence has to be submitted in the Stripe dashboard before the due date. Lost disputes are taken off the case total like a refund.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : disputes.length === 0 ? (
+          <p className="text-muted-foreground">No disputes.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Opened</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Donation</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Evidence Due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Stripe</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {disputes.map((dispute) => (
+                <TableRow key={dispute.id}>
+                  <TableCell className="whitespace-nowrap">{formatDate(dispute.createdAt)}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{formatAmount(dispute.amount, dispute.currency)}</div>
+                    <div className="text-xs text-muted-foreground">{dispute.paymentIntentId || dispute.stripeChargeId || '—'}</div>
+                  </TableCell>
+                  <TableCell>
+                    {dispute.donation ? (
+                      <>
+                        <div>#{dispute.donation.id} · {formatAmount(dispute.donation.amount, dispute.donation.currency)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {dispute.donation.email || dispute.donation.name || 'Anonymous'}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">No matching donation</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{dispute.reason?.replace(/_/g, ' ') || '—'}</TableCell>
+                  <TableCell className={`whitespace-nowrap ${isEvidenceDueSoon(dispute) ? 'text-red-600 font-medium' : ''}`}>
+                    {formatDate(dispute.evidenceDueBy)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={disputeStatusColors[dispute.status] || 'bg-gray-100 text-gray-800'}>
+                      {dispute.status.replace(/_/g, ' ')}
+                    </Badge>
+                    {dispute.amountReversedAt && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Reversed {formatDate(dispute.amountReversedAt)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <a
+                      href={`https://dashboard.stripe.com/disputes/${dispute.stripeDisputeId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-sm text-primary hover:underline"
+                    >
+                      Open
+                      <ExternalLink className="h-3 w-3 ml-1" />
+                    </a>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
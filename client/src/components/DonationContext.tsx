@@ -1,12 +1,21 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { Case } from '@shared/schema';
+import { DONATION_CURRENCIES } from '@shared/money';
 import { getPresetsForCurrency } from '@/lib/donationPresets';
+import { apiRequest } from '@/lib/queryClient';
 
 type DonationType = 'zakaat' | 'sadqah' | 'interest';
 type FrequencyType = 'one-off' | 'weekly' | 'monthly';
 type PaymentMethodType = 'stripe' | 'paypal' | 'apple_pay' | 'google_pay';
 type DestinationProjectType = 'Clinic Operations' | 'Most deserving case';
 
+export interface FeeBreakdown {
+  processingFee: number;
+  totalWithFees: number;
+  donationAmount: number;
+  feeDescription: string;
+}
+
 interface DonationContextType {
   type: DonationType;
   setType: (type: DonationType) => void;
@@ -36,12 +45,7 @@ interface DonationContextType {
   availableCurrencies: string[];
   coverFees: boolean;
   setCoverFees: (cover: boolean) => void;
-  calculateFees: (amount: number, method: PaymentMethodType) => {
-    processingFee: number;
-    totalWithFees: number;
-    donationAmount: number;
-    feeDescription: string;
-  };
+  calculateFees: (amount: number, currency: string, method: PaymentMethodType) => Promise<FeeBreakdown>;
 }
 
 const DonationContext = createContext<DonationContextType | undefined>(undefined);
@@ -64,12 +68,7 @@ export function DonationProvider({ children }: { children: React.ReactNode }) {
   const [coverFees, setCoverFees] = useState<boolean>(true);
   
   // List of available currencies
-  const availableCurrencies = [
-    'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'HKD', 'SGD', 
-    'SEK', 'KRW', 'NOK', 'NZD', 'INR', 'MXN', 'TWD', 'ZAR', 'BRL', 'DKK',
-    'PLN', 'THB', 'IDR', 'HUF', 'CZK', 'ILS', 'CLP', 'PHP', 'AED', 'COP',
-    'SAR', 'MYR', 'RON', 'TRY', 'PKR'  // Added PKR for Pakistan
-  ];
+  const availableCurrencies: string[] = [...DONATION_CURRENCIES];
   
   // Initialize with currency based on location and set default amount to tier1
   useEffect(() => {
@@ -100,58 +99,22 @@ export function DonationProvider({ children }: { children: React.ReactNode }) {
     return `${(amt * exchangeRate).toFixed(2)}`;
   };
   
-  // Calculate payment processing fees based on payment method and amount
-  const calculateFees = (amt: number, method: PaymentMethodType) => {
-    // Base donation amount
-    let baseAmount = amt;
-    let processingFee = 0;
-    let totalWithFees = 0;
-    let finalDonationAmount = 0;
-    let feeDescription = "";
-    
-    // Fixed fee calculation for all payment methods
-    // Using a simplified flat rate of 3.5% + A$0.30
-    switch (method) {
-      case 'stripe':
-        // All cards: 3.5% + A$0.30
-        processingFee = baseAmount * 0.035 + 0.30;
-        feeDescription = "Payment processing fees: 3.5% + A$0.30";
-        break;
-        
-      case 'paypal':
-        // All cards: 3.5% + A$0.30 (standardized for simplicity)
-        processingFee = baseAmount * 0.035 + 0.30;
-        feeDescription = "Payment processing fees: 3.5% + A$0.30";
-        break;
-        
-      default:
-        processingFee = 0;
-        feeDescription = "No fee information available for this payment method";
-    }
-    
-    // Round to 2 decimal places
-    processingFee = Math.round(processingFee * 100) / 100;
+  // Processing fees are quoted by the server from its fee schedules, which also checks the total when charging
+  const calculateFees = useCallback(async (amt: number, currencyCode: string, method: PaymentMethodType): Promise<FeeBreakdown> => {
+    const params = new URLSearchParams({ amount: amt.toString(), currency: currencyCode, paymentMethod: method });
+    const response = await apiRequest('GET', `/api/fees/quote?${params}`);
+    const quote = await response.json();
     
     // If user chooses to cover fees, they pay donation + fees
-    // Otherwise, the organization still receives the full donation amount,
+    // Otherwise the charity receives the donation less the fee the provider deducts,
     // but we show the breakdown for transparency
-    if (coverFees) {
-      totalWithFees = baseAmount + processingFee;
-      finalDonationAmount = baseAmount;
-    } else {
-      totalWithFees = baseAmount;
-      // When user doesn't cover fees, charity still gets full amount in our display
-      // The actual deduction would happen on the payment provider's side
-      finalDonationAmount = baseAmount;
-    }
-    
     return {
-      processingFee,
-      totalWithFees,
-      donationAmount: finalDonationAmount,
-      feeDescription
+      processingFee: quote.fee,
+      totalWithFees: coverFees ? quote.totalWithFee : amt,
+      donationAmount: amt,
+      feeDescription: quote.description
     };
-  };
+  }, [coverFees]);
 
   const contextValue: DonationContextType = {
     type,
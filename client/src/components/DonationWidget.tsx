@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,15 +9,30 @@ import { useCurrency } from "@/hooks/useCurrency";
 import { apiRequest } from "@/lib/queryClient";
 import CurrencySelector from "@/components/CurrencySelector";
 import CaseSelector from "@/components/CaseSelector";
+import ZakatCalculator from "@/components/ZakatCalculator";
 import FeatureTour from "@/components/FeatureTour";
 import { useFeatureTours } from "@/hooks/useFeatureTours";
-import { ChevronRight } from "lucide-react";
+import { ChevronRight, Calculator, Gift } from "lucide-react";
 import { trackButtonClick, trackDonation, trackEvent } from "@/lib/analytics";
 
 type DonationMode = "general" | "islamic";
 type PaymentPath = "card" | "bank";
 type BankCountry = "au" | "pk";
 
+interface LiveMatchPledge {
+  id: number;
+  sponsorName: string;
+  ratio: number;
+  endsAt: string;
+}
+
+// Pledges stack, so a gift matched 1:1 by two sponsors is tripled
+const describeMatch = (ratio: number) => {
+  if (ratio === 1) return "doubled";
+  if (ratio === 2) return "tripled";
+  return `matched ${Number(ratio.toFixed(2))}:1`;
+};
+
 export default function DonationWidget() {
   const {
     type,
@@ -49,6 +65,14 @@ export default function DonationWidget() {
   const [islamicType, setIslamicType] = useState<"sadqah" | "zakaat" | "interest">("sadqah");
   const [paymentPath, setPaymentPath] = useState<PaymentPath>("card");
   const [bankCountry, setBankCountry] = useState<BankCountry>("au");
+  const [showZakatCalculator, setShowZakatCalculator] = useState(false);
+
+  // Gifts to a case are only made from the zakat tab, as in handleDonateClick
+  const matchCaseId = selectedCase && type === "zakaat" ? selectedCase.id : undefined;
+  const { data: matchPledges = [] } = useQuery<LiveMatchPledge[]>({
+    queryKey: [`/api/match-pledges/live?type=${type}${matchCaseId ? `&caseId=${matchCaseId}` : ""}`],
+  });
+  const matchRatio = matchPledges.reduce((sum, pledge) => sum + pledge.ratio, 0);
 
   useEffect(() => {
     const effectiveType = mode === "general" ? "sadqah" : islamicType;
@@ -56,6 +80,14 @@ export default function DonationWidget() {
     trackEvent({ category: "Donation", action: "SelectType", label: effectiveType });
   }, [mode, islamicType]);
 
+  // The zakat calculator sets the type directly, so bring the selected tab in line with it
+  useEffect(() => {
+    if (type === "zakaat") {
+      setMode("islamic");
+      setIslamicType("zakaat");
+    }
+  }, [type]);
+
   useEffect(() => {
     if (type !== "sadqah") setFrequency("one-off");
   }, [type, setFrequency]);
@@ -88,7 +120,7 @@ export default function DonationWidget() {
         category: "Donation", action: type, value: finalAmount,
         attributes: { currency, frequency, destinationProject, donationId: donation.id.toString(), ...(selectedCase ? { caseId: selectedCase.id.toString() } : {}) },
       });
-      sessionStorage.setItem("currentDonation", JSON.stringify({ id: donation.id, type, amount: finalAmount, currency, frequency, destinationProject, caseId: selectedCase?.id }));
+      sessionStorage.setItem("currentDonation", JSON.stringify({ id: donation.id, type, amount: finalAmount, currency, frequency, destinationProject, caseId: donation.caseId ?? undefined }));
       setLocation("/payment");
     } catch (error) {
       trackEvent({ category: "Donation", action: "Error", label: "APIError" });
@@ -198,6 +230,15 @@ export default function DonationWidget() {
                   </button>
                 </div>
 
+                {mode === "general" && (
+                  <button
+                    onClick={() => setShowZakatCalculator(true)}
+                    className="mb-4 inline-flex items-center gap-1 text-xs font-medium text-[#2D5A3D] underline"
+                  >
+                    <Calculator className="h-3 w-3" /> Paying zakat? Use the zakat calculator
+                  </button>
+                )}
+
                 {/* Islamic sub-type pills */}
                 {mode === "islamic" && (
                   <div className="flex gap-2 mb-4 flex-wrap">
@@ -237,7 +278,15 @@ export default function DonationWidget() {
                 {mode === "islamic" && islamicType === "zakaat" && (
                   <div className="bg-[#FDF8EE] border border-[#D8C89A] rounded-xl px-4 py-3 text-sm text-[#6B5020] mb-4 flex items-start gap-3">
                     <span className="mt-0.5">⭐</span>
-                    <p><strong>Zakaat</strong> allocated to the most deserving cases. Select a specific case or let us distribute.</p>
+                    <div>
+                      <p><strong>Zakaat</strong> allocated to the most deserving cases. Select a specific case or let us distribute.</p>
+                      <button
+                        onClick={() => setShowZakatCalculator(true)}
+                        className="mt-1.5 inline-flex items-center gap-1 text-xs font-medium text-[#2D5A3D] underline"
+                      >
+                        <Calculator className="h-3 w-3" /> Work out how much zakat you owe
+                      </button>
+                    </div>
                   </div>
                 )}
                 {mode === "islamic" && islamicType === "interest" && (
@@ -270,6 +319,7 @@ export default function DonationWidget() {
                   </div>
                 )}
                 <CaseSelector open={showCaseSelector} onOpenChange={setShowCaseSelector} />
+                <ZakatCalculator open={showZakatCalculator} onOpenChange={setShowZakatCalculator} />
 
                 {/* Frequency — only for sadqah */}
                 {(mode === "general" || (mode === "islamic" && islamicType === "sadqah")) && (
@@ -339,6 +389,20 @@ export default function DonationWidget() {
                   )}
                 </div>
 
+                {/* Live sponsor match */}
+                {matchPledges.length > 0 && (
+                  <div className="mb-3 flex items-start gap-2 rounded-xl border border-[#C8A850] bg-[#FDF6E3] p-3" data-testid="match-banner">
+                    <Gift className="h-4 w-4 text-[#8A6A20] mt-0.5 shrink-0" />
+                    <div className="text-sm text-[#1C3D28]">
+                      <span className="font-semibold">Your gift will be {describeMatch(matchRatio)}</span>
+                      <span className="text-[#6B5020]">
+                        {" "}thanks to {matchPledges.map(pledge => pledge.sponsorName).join(" and ")}, until{" "}
+                        {new Date(Math.min(...matchPledges.map(pledge => new Date(pledge.endsAt).getTime()))).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
                 {/* Donate button */}
                 <Button
                   className="w-full bg-[#1C3D28] hover:bg-[#2D5A3D] text-[#F5EDD6] font-bold py-3.5 rounded-xl text-base transition-all duration-200"
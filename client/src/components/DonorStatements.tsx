@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type DonorStatement, type StatementTotal } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, Loader2 } from 'lucide-react';
+
+const STATEMENTS_URL = '/api/admin/statements';
+
+type StatementWithLabel = DonorStatement & { periodLabel: string };
+
+type PeriodType = 'financial-year' | 'calendar-year';
+
+const statementStatusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  generated: 'bg-blue-100 text-blue-800 border-blue-200',
+  sent: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const typeLabels: Record<string, string> = {
+  zakaat: 'Zakaat',
+  sadqah: 'Sadqah',
+  interest: 'Interest',
+};
+
+// Financial years are named by the year they end in, so the one that finished most recently
+// ends this year from July onwards and last year before that
+const lastCompletedYear = (periodType: PeriodType) => {
+  const now = new Date();
+  if (periodType === 'financial-year') {
+    return now.getMonth() >= 6 ? now.getFullYear() : now.getFullYear() - 1;
+  }
+  return now.getFullYear() - 1;
+};
+
+export default function DonorStatements() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [periodType, setPeriodType] = useState<PeriodType>('financial-year');
+  const [year, setYear] = useState(String(lastCompletedYear('financial-year')));
+  const [email, setEmail] = useState('');
+  const [send, setSend] = useState(true);
+
+  const params = new URLSearchParams({ periodType });
+  if (year) params.set('year', year);
+
+  const { data: statements = [], isLoading } = useQuery<StatementWithLabel[]>({
+    queryKey: [`${STATEMENTS_URL}?${params.toString()}`],
+    refetchInterval: 10000, // Statements are issued in the background, so refresh every 10 seconds
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', STATEMENTS_URL, {
+        periodType,
+        year: parseInt(year),
+        send,
+        ...(email.trim() && { email: email.trim() }),
+      });
+      return response.json() as Promise<{ periodLabel: string; queued: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(STATEMENTS_URL),
+      });
+      toast({
+        title: result.queued === 0 ? 'No statements issued' : 'Statements queued',
+        description: result.queued === 0
+          ? `No completed donations with an email address in ${result.periodLabel}`
+          : `${result.queued} statement(s) for ${result.periodLabel} are being issued and will appear below as each one is done`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to generate statements',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: currency || 'AUD',
+    }).format(amount);
+  };
+
+  const formatDate = (date: string | Date | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const parsedYear = parseInt(year);
+  const isValidYear = !isNaN(parsedYear) && parsedYear >= 2000 && parsedYear <= 2100;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Yearly Statements</CardTitle>
+        <CardDescription>
+          One PDF per donor email listing every completed donation in the period, with totals by donation type and currency. Statements for the financial year are also sent automatically each July.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid gap-4 md:grid-cols-5 md:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            generateMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Period</Label>
+            <Select
+              value={periodType}
+              onValueChange={(value: PeriodType) => {
+                setPeriodType(value);
+                setYear(String(lastCompletedYear(value)));
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="financial-year">Financial year (1 Jul – 30 Jun)</SelectItem>
+                <SelectItem value="calendar-year">Calendar year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement-year">{periodType === 'financial-year' ? 'Year ending 30 June' : 'Year'}</Label>
+            <Input
+              id="statement-year"
+              type="number"
+              min="2000"
+              max="2100"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement-email">Donor email</Label>
+            <Input
+              id="statement-email"
+              type="email"
+              placeholder="All donors"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2 md:pb-2">
+            <Switch id="statement-send" checked={send} onCheckedChange={setSend} />
+            <Label htmlFor="statement-send">Email to donors</Label>
+          </div>
+          <Button type="submit" disabled={generateMutation.isPending || !isValidYear}>
+            {generateMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileText className="mr-2 h-4 w-4" />
+            )}
+            Generate
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : statements.length === 0 ? (
+          <p className="text-muted-foreground">No statements have been issued for this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Issued</TableHead>
+                <TableHead>Donor</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Totals</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">PDF</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statements.map((statement) => (
+                <TableRow key={statement.id}>
+                  <TableCell className="whitespace-nowrap">{formatDate(statement.createdAt)}</TableCell>
+                  <TableCell>
+                    <div>{statement.donorName || statement.donorEmail}</div>
+                    {statement.donorName && (
+                      <div className="text-xs text-muted-foreground">{statement.donorEmail}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div>{statement.periodLabel}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {statement.statementNumber} · {statement.donationCount} donation{statement.donationCount === 1 ? '' : 's'}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {(statement.totals as StatementTotal[]).map((total) => (
+                      <div key={`${total.type}-${total.currency}`}>
+                        {typeLabels[total.type] || total.type}: {formatAmount(total.amount, total.currency)}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={statementStatusColors[statement.status] || 'bg-gray-100 text-gray-800'}>
+                      {statement.status}
+                    </Badge>
+                    {statement.errorMessage && (
+                      <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={statement.errorMessage}>
+                        {statement.errorMessage}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <a href={`${STATEMENTS_URL}/${statement.id}/download`}>
+                      <Button variant="ghost" size="sm">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </a>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
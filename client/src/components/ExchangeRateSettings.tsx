@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type ExchangeRate } from '@shared/schema';
+import { BASE_CURRENCY } from '@shared/currency';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, RefreshCw, X } from 'lucide-react';
+
+const EXCHANGE_RATES_URL = '/api/admin/exchange-rates';
+
+interface ExchangeRateOverview {
+  base: string;
+  provider: string;
+  fetchedAt: string | null;
+  ageSeconds: number | null;
+  stale: boolean;
+  lastError: string | null;
+  table: ExchangeRate[];
+}
+
+export default function ExchangeRateSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [overrideCurrency, setOverrideCurrency] = useState('');
+  const [overrideRate, setOverrideRate] = useState('');
+
+  const { data, isLoading } = useQuery<ExchangeRateOverview>({
+    queryKey: [EXCHANGE_RATES_URL],
+  });
+
+  const invalidateRates = () => {
+    queryClient.invalidateQueries({ queryKey: [EXCHANGE_RATES_URL] });
+    queryClient.invalidateQueries({ queryKey: ['/api/exchange-rates'] });
+  };
+
+  const onError = (error: any) => {
+    invalidateRates();
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update exchange rates',
+      variant: 'destructive',
+    });
+  };
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${EXCHANGE_RATES_URL}/refresh`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRates();
+      toast({ title: 'Exchange rates refreshed', description: `Latest rates loaded from ${data?.provider}` });
+    },
+    onError,
+  });
+
+  const setOverrideMutation = useMutation({
+    mutationFn: async ({ currency, rate }: { currency: string; rate: number }) => {
+      const response = await apiRequest('PUT', `${EXCHANGE_RATES_URL}/${currency}/override`, { rate });
+      return response.json() as Promise<ExchangeRate>;
+    },
+    onSuccess: (exchangeRate) => {
+      invalidateRates();
+      setOverrideCurrency('');
+      setOverrideRate('');
+      toast({
+        title: 'Manual rate set',
+        description: `${exchangeRate.currency} now uses ${exchangeRate.overrideRate} per ${BASE_CURRENCY}`,
+      });
+    },
+    onError,
+  });
+
+  const clearOverrideMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiRequest('DELETE', `${EXCHANGE_RATES_URL}/${currency}/override`);
+      return response.json() as Promise<ExchangeRate>;
+    },
+    onSuccess: (exchangeRate) => {
+      invalidateRates();
+      toast({ title: 'Manual rate cleared', description: `${exchangeRate.currency} uses the provider rate again` });
+    },
+    onError,
+  });
+
+  const formatDate = (date: string | Date | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatRate = (rate: number | null) => (rate === null ? '—' : rate.toPrecision(6));
+
+  const rows = (data?.table ?? []).filter((row) =>
+    row.currency.includes(search.trim().toUpperCase())
+  );
+  const parsedRate = parseFloat(overrideRate);
+  const canSetOverride = /^[A-Za-z]{3}$/.test(overrideCurrency) && parsedRate > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Exchange Rates</CardTitle>
+            <CardDescription>
+              Units of each currency per 1 {BASE_CURRENCY}, used for donation conversions and case totals. Checkout keeps using the last stored rates when the provider is unreachable. A manual rate replaces the provider rate until it is cleared.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => refreshMutation.mutate()} disabled={refreshMutation.isPending}>
+            {refreshMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Refresh now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {data && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span>
+              Provider: <span className="font-medium">{data.provider}</span>
+            </span>
+            <span>Last refreshed: {formatDate(data.fetchedAt)}</span>
+            <Badge
+              variant="outline"
+              className={data.stale ? 'bg-red-100 text-red-800 border-red-200' : 'bg-green-100 text-green-800 border-green-200'}
+            >
+              {data.stale ? 'Stale' : 'Up to date'}
+            </Badge>
+            {data.lastError && (
+              <span className="text-red-600">Last refresh failed: {data.lastError}</span>
+            )}
+          </div>
+        )}
+
+        <form
+          className="grid gap-4 md:grid-cols-4 md:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setOverrideMutation.mutate({ currency: overrideCurrency.toUpperCase(), rate: parsedRate });
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="override-currency">Currency</Label>
+            <Input
+              id="override-currency"
+              maxLength={3}
+              placeholder="PKR"
+              value={overrideCurrency}
+              onChange={(e) => setOverrideCurrency(e.target.value.toUpperCase())}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-rate">Manual rate per {BASE_CURRENCY}</Label>
+            <Input
+              id="override-rate"
+              type="number"
+              min="0"
+              step="any"
+              value={overrideRate}
+              onChange={(e) => setOverrideRate(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={setOverrideMutation.isPending || !canSetOverride}>
+            {setOverrideMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set manual rate
+          </Button>
+          <Input
+            placeholder="Filter currencies"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground">No exchange rates have been stored yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Provider rate</TableHead>
+                <TableHead>Manual rate</TableHead>
+                <TableHead>Refreshed</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.currency}>
+                  <TableCell className="font-medium">{row.currency}</TableCell>
+                  <TableCell className={row.overrideRate !== null ? 'text-muted-foreground line-through' : ''}>
+                    {formatRate(row.rate)}
+                  </TableCell>
+                  <TableCell>
+                    {row.overrideRate !== null ? (
+                      <div>
+                        <div className="font-medium">{formatRate(row.overrideRate)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.overrideSetBy} · {formatDate(row.overrideSetAt)}
+                        </div>
+                      </div>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDate(row.fetchedAt)}</TableCell>
+                  <TableCell className="text-right">
+                    {row.overrideRate !== null && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => clearOverrideMutation.mutate(row.currency)}
+                        disabled={clearOverrideMutation.isPending}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Clear
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type FeeSchedule } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Trash2 } from 'lucide-react';
+
+const FEE_SCHEDULES_URL = '/api/admin/fee-schedules';
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  stripe: 'Card, Apple Pay & Google Pay (Stripe)',
+  paypal: 'PayPal',
+};
+
+interface FeeScheduleOverview {
+  baseCurrency: string;
+  defaultPercentage: number;
+  defaultFixedFee: number;
+  schedules: FeeSchedule[];
+}
+
+export default function FeeScheduleSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [paymentMethod, setPaymentMethod] = useState('stripe');
+  const [currency, setCurrency] = useState('');
+  const [percentage, setPercentage] = useState('');
+  const [fixedFee, setFixedFee] = useState('');
+
+  const { data, isLoading } = useQuery<FeeScheduleOverview>({
+    queryKey: [FEE_SCHEDULES_URL],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update fee schedules',
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (schedule: { paymentMethod: string; currency: string; percentage: number; fixedFee: number }) => {
+      const response = await apiRequest('PUT', FEE_SCHEDULES_URL, schedule);
+      return response.json() as Promise<FeeSchedule>;
+    },
+    onSuccess: (schedule) => {
+      queryClient.invalidateQueries({ queryKey: [FEE_SCHEDULES_URL] });
+      setCurrency('');
+      setPercentage('');
+      setFixedFee('');
+      toast({
+        title: 'Fee schedule saved',
+        description: `${PAYMENT_METHOD_LABELS[schedule.paymentMethod]} in ${schedule.currency}: ${schedule.percentage}% + ${schedule.fixedFee.toFixed(2)}`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `${FEE_SCHEDULES_URL}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [FEE_SCHEDULES_URL] });
+      toast({ title: 'Fee schedule removed' });
+    },
+    onError,
+  });
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const parsedPercentage = parseFloat(percentage);
+  const parsedFixedFee = fixedFee === '' ? 0 : parseFloat(fixedFee);
+  const canSave =
+    /^[A-Za-z]{3}$/.test(currency) &&
+    parsedPercentage >= 0 && parsedPercentage <= 100 &&
+    parsedFixedFee >= 0;
+  const baseCurrency = data?.baseCurrency ?? 'AUD';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Processing Fees</CardTitle>
+        <CardDescription>
+          Fees quoted to donors who choose to cover them, per payment method and currency. The server works out the fee when charging, so donors can't change it. A currency without its own schedule uses the {baseCurrency} schedule with the fixed fee converted at the current rate
+          {data && ` (${data.defaultPercentage}% + ${baseCurrency} ${data.defaultFixedFee.toFixed(2)} until one is saved)`}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid gap-4 md:grid-cols-5 md:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate({
+              paymentMethod,
+              currency: currency.toUpperCase(),
+              percentage: parsedPercentage,
+              fixedFee: parsedFixedFee,
+            });
+          }}
+        >
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="fee-method">Payment method</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger id="fee-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => (
+                  <SelectItem key={method} value={method}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fee-currency">Currency</Label>
+            <Input
+              id="fee-currency"
+              maxLength={3}
+              placeholder={baseCurrency}
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fee-percentage">Percentage</Label>
+            <Input
+              id="fee-percentage"
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              placeholder="3.5"
+              value={percentage}
+              onChange={(e) => setPercentage(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fee-fixed">Fixed fee</Label>
+            <Input
+              id="fee-fixed"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="0.30"
+              value={fixedFee}
+              onChange={(e) => setFixedFee(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="md:col-start-5" disabled={saveMutation.isPending || !canSave}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save schedule
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !data || data.schedules.length === 0 ? (
+          <p className="text-muted-foreground">No fee schedules have been saved yet, so every donor is quoted the default.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Payment method</TableHead>
+                <TableHead>Currency</TableHead>
+                <TableHead>Fee</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell className="font-medium">{PAYMENT_METHOD_LABELS[schedule.paymentMethod] ?? schedule.paymentMethod}</TableCell>
+                  <TableCell>{schedule.currency}</TableCell>
+                  <TableCell>{schedule.percentage}% + {schedule.currency} {schedule.fixedFee.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <div className="whitespace-nowrap">{formatDate(schedule.updatedAt)}</div>
+                    {schedule.updatedBy && (
+                      <div className="text-xs text-muted-foreground">{schedule.updatedBy}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" />
+                      Remove
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
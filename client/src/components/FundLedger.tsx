@@ -0,0 +1,329 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type Case, type FundLedgerEntry } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, Loader2 } from 'lucide-react';
+
+const FUND_LEDGER_URL = '/api/admin/fund-ledger';
+
+const FUND_LABELS: Record<string, string> = {
+  zakaat: 'Zakaat',
+  sadqah: 'Sadqah',
+  interest: 'Interest purification',
+};
+
+const RECIPIENT_TYPE_LABELS: Record<string, string> = {
+  case: 'Case',
+  clinic_operations: 'Clinic operations',
+  beneficiary: 'Beneficiary',
+};
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  donation: 'Donation',
+  reversal: 'Refund',
+  disbursement: 'Disbursement',
+};
+
+interface FundLedgerOverview {
+  baseCurrency: string;
+  balances: Array<{ fund: string; credits: number; debits: number; balance: number }>;
+  entries: FundLedgerEntry[];
+}
+
+export default function FundLedger() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fundFilter, setFundFilter] = useState('all');
+  const [fund, setFund] = useState('zakaat');
+  const [recipientType, setRecipientType] = useState('case');
+  const [caseId, setCaseId] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [reference, setReference] = useState('');
+
+  const ledgerUrl = fundFilter === 'all' ? FUND_LEDGER_URL : `${FUND_LEDGER_URL}?fund=${fundFilter}`;
+  const { data, isLoading } = useQuery<FundLedgerOverview>({
+    queryKey: [ledgerUrl],
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ['/api/cases'],
+  });
+  // Zakat can only be paid to cases that are eligible for it
+  const payableCases = cases.filter((caseItem) => fund !== 'zakaat' || caseItem.zakaatEligible);
+
+  const disburseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${FUND_LEDGER_URL}/disbursements`, {
+        fund,
+        amount: parseFloat(amount),
+        recipientType,
+        ...(recipientType === 'case' && { caseId: Number(caseId) }),
+        ...(recipientType === 'beneficiary' && { recipient }),
+        description,
+        ...(reference && { reference }),
+      });
+      return response.json() as Promise<FundLedgerEntry>;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(FUND_LEDGER_URL),
+      });
+      setAmount('');
+      setDescription('');
+      setReference('');
+      setRecipient('');
+      toast({
+        title: 'Disbursement recorded',
+        description: `${baseCurrency} ${Math.abs(entry.amount).toFixed(2)} paid from the ${FUND_LABELS[entry.fund]} fund`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to record disbursement',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const baseCurrency = data?.baseCurrency ?? 'AUD';
+  const formatMoney = (value: number) => `${baseCurrency} ${value.toFixed(2)}`;
+  const caseTitle = (id: number | null) => cases.find((caseItem) => caseItem.id === id)?.title ?? `Case #${id}`;
+  const canDisburse =
+    parseFloat(amount) > 0 &&
+    description.trim() !== '' &&
+    (recipientType !== 'case' || caseId !== '') &&
+    (recipientType !== 'beneficiary' || recipient.trim() !== '');
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        {(data?.balances ?? []).map((balance) => (
+          <Card key={balance.fund}>
+            <CardHeader className="pb-2">
+              <CardDescription>{FUND_LABELS[balance.fund] ?? balance.fund} fund</CardDescription>
+              <CardTitle className="text-2xl">{formatMoney(balance.balance)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-muted-foreground">
+              {formatMoney(balance.credits)} in · {formatMoney(balance.debits)} out
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Record a Disbursement</CardTitle>
+          <CardDescription>
+            Money paid out of a fund in {baseCurrency}. A fund can't pay out more than it holds, and zakat can only be paid to zakat-eligible cases.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-4 md:grid-cols-3 md:items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              disburseMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="disbursement-fund">Fund</Label>
+              <Select value={fund} onValueChange={(value) => { setFund(value); setCaseId(''); }}>
+                <SelectTrigger id="disbursement-fund">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FUND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disbursement-recipient-type">Paid to</Label>
+              <Select value={recipientType} onValueChange={setRecipientType}>
+                <SelectTrigger id="disbursement-recipient-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RECIPIENT_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {recipientType === 'case' && (
+              <div className="space-y-2">
+                <Label htmlFor="disbursement-case">Case</Label>
+                <Select value={caseId} onValueChange={setCaseId}>
+                  <SelectTrigger id="disbursement-case">
+                    <SelectValue placeholder="Choose a case" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payableCases.map((caseItem) => (
+                      <SelectItem key={caseItem.id} value={String(caseItem.id)}>{caseItem.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {recipientType === 'beneficiary' && (
+              <div className="space-y-2">
+                <Label htmlFor="disbursement-recipient">Beneficiary</Label>
+                <Input
+                  id="disbursement-recipient"
+                  maxLength={200}
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                />
+              </div>
+            )}
+            {recipientType === 'clinic_operations' && <div className="hidden md:block" />}
+            <div className="space-y-2">
+              <Label htmlFor="disbursement-amount">Amount ({baseCurrency})</Label>
+              <Input
+                id="disbursement-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disbursement-description">Description</Label>
+              <Input
+                id="disbursement-description"
+                maxLength={500}
+                placeholder="e.g. Surgery costs"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disbursement-reference">Reference (optional)</Label>
+              <Input
+                id="disbursement-reference"
+                maxLength={100}
+                placeholder="Bank transfer reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+            <Button type="submit" className="md:col-start-3" disabled={disburseMutation.isPending || !canDisburse}>
+              {disburseMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record disbursement
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Fund Ledger</CardTitle>
+            <CardDescription>Every credit and debit to the funds, newest first</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={fundFilter} onValueChange={setFundFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All funds</SelectItem>
+                {Object.entries(FUND_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" asChild>
+              <a href={`${FUND_LEDGER_URL}/export${fundFilter === 'all' ? '' : `?fund=${fundFilter}`}`}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : !data || data.entries.length === 0 ? (
+            <p className="text-muted-foreground">Nothing has been credited to or paid from this fund yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Fund</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                    <TableCell>{FUND_LABELS[entry.fund] ?? entry.fund}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.amount < 0 ? 'outline' : 'secondary'}>
+                        {ENTRY_TYPE_LABELS[entry.entryType] ?? entry.entryType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div>{entry.description}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {entry.recipientType === 'case' && caseTitle(entry.caseId)}
+                        {entry.recipientType === 'clinic_operations' && 'Clinic operations'}
+                        {entry.recipientType === 'beneficiary' && entry.recipient}
+                        {entry.reference && ` · Ref ${entry.reference}`}
+                        {entry.createdBy && ` · ${entry.createdBy}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${entry.amount < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                      {entry.amount < 0 ? '-' : '+'}{formatMoney(Math.abs(entry.amount))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
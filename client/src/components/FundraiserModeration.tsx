@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { BASE_CURRENCY } from '@shared/currency';
+import { type Case } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FUNDRAISER_STATUS_LABELS, type FundraiserWithProgress } from '@/components/MyFundraisers';
+import { Check, ExternalLink, Loader2, X } from 'lucide-react';
+
+const FUNDRAISERS_URL = '/api/admin/fundraisers';
+
+export default function FundraiserModeration() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState('pending_review');
+  const [rejecting, setRejecting] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+
+  const listUrl = status === 'all' ? FUNDRAISERS_URL : `${FUNDRAISERS_URL}?status=${status}`;
+  const { data: fundraisers = [], isLoading } = useQuery<FundraiserWithProgress[]>({
+    queryKey: [listUrl],
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ['/api/cases'],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'approve' | 'reject' }) => {
+      const response = await apiRequest('POST', `${FUNDRAISERS_URL}/${id}/moderate`, {
+        action,
+        ...(action === 'reject' && { note }),
+      });
+      return response.json();
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(FUNDRAISERS_URL),
+      });
+      setRejecting(null);
+      setNote('');
+      toast({
+        title: action === 'approve' ? 'Fundraiser approved' : 'Fundraiser rejected',
+        description: action === 'approve' ? 'The page is now public.' : 'The owner can see your reason in My Giving.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to moderate fundraiser',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatMoney = (value: number) => `${BASE_CURRENCY} ${value.toFixed(2)}`;
+  const caseTitle = (id: number | null) =>
+    id ? cases.find((caseItem) => caseItem.id === id)?.title ?? `Case #${id}` : 'The clinic';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Supporter Fundraisers</CardTitle>
+          <CardDescription>Fundraising pages started by supporters only go public once they are approved here</CardDescription>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All fundraisers</SelectItem>
+            {Object.entries(FUNDRAISER_STATUS_LABELS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : fundraisers.length === 0 ? (
+          <p className="text-muted-foreground">There are no fundraisers here.</p>
+        ) : (
+          <div className="space-y-4">
+            {fundraisers.map((fundraiser) => {
+              const statusLabel = FUNDRAISER_STATUS_LABELS[fundraiser.status];
+              return (
+                <div key={fundraiser.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium">{fundraiser.title}</div>
+                      <div className="text-sm text-muted-foreground">
+                        By {fundraiser.ownerName} for {caseTitle(fundraiser.caseId)} · Goal {formatMoney(fundraiser.goalAmount)}
+                        {fundraiser.supporterCount > 0 &&
+                          ` · ${formatMoney(fundraiser.raisedAmount)} raised from ${fundraiser.supporterCount}`}
+                      </div>
+                    </div>
+                    <Badge variant="outline" className={statusLabel?.className}>
+                      {statusLabel?.label ?? fundraiser.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{fundraiser.story}</p>
+                  {fundraiser.moderatedBy && (
+                    <p className="text-xs text-muted-foreground">
+                      {fundraiser.status === 'approved' ? 'Approved' : 'Rejected'} by {fundraiser.moderatedBy}
+                      {fundraiser.moderationNote && `: ${fundraiser.moderationNote}`}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {fundraiser.status !== 'approved' && (
+                      <Button
+                        size="sm"
+                        disabled={moderateMutation.isPending}
+                        onClick={() => moderateMutation.mutate({ id: fundraiser.id, action: 'approve' })}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    {fundraiser.status !== 'rejected' && rejecting !== fundraiser.id && (
+                      <Button size="sm" variant="outline" onClick={() => { setRejecting(fundraiser.id); setNote(''); }}>
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                    {rejecting === fundraiser.id && (
+                      <form
+                        className="flex flex-1 gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          moderateMutation.mutate({ id: fundraiser.id, action: 'reject' });
+                        }}
+                      >
+                        <Input
+                          autoFocus
+                          maxLength={500}
+                          placeholder="Reason, shown to the owner"
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                        />
+                        <Button type="submit" size="sm" variant="destructive" disabled={moderateMutation.isPending || !note.trim()}>
+                          Reject
+                        </Button>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => setRejecting(null)}>
+                          Cancel
+                        </Button>
+                      </form>
+                    )}
+                    {fundraiser.status === 'approved' && (
+                      <a
+                        href={`/fundraise/${fundraiser.slug}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center text-sm text-[#2D5A3D] hover:underline"
+                      >
+                        View page
+                        <ExternalLink className="h-3 w-3 ml-1" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -103,6 +103,7 @@ export default function Header() {
               { href: '/active-cases', label: 'Active Cases' },
               { href: '/get-involved', label: 'Get Involved' },
               { href: '/contact', label: 'Contact Us' },
+              { href: '/my-giving', label: 'My Giving' },
             ].map(({ href, label }) => (
               <Link
                 key={href + label}
@@ -146,6 +147,7 @@ export default function Header() {
                 { href: '/active-cases', label: 'Active Cases' },
                 { href: '/get-involved', label: 'Get Involved' },
                 { href: '/contact', label: 'Contact Us' },
+                { href: '/my-giving', label: 'My Giving' },
               ].map(({ href, label }) => (
                 <Link
                   key={href + label}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Loader2, Upload } from 'lucide-react';
+
+const DATASET_URL = '/api/admin/ip-country-dataset';
+
+interface IpDatasetInfo {
+  path: string;
+  loaded: boolean;
+  ranges: number;
+  loadedAt: string | null;
+}
+
+export default function IpCountryDataset() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: info, isLoading } = useQuery<IpDatasetInfo>({
+    queryKey: [DATASET_URL],
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (csvFile: File) => {
+      // Sent as the raw CSV body, which can be tens of megabytes
+      const response = await fetch(DATASET_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: csvFile,
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to import IP country dataset');
+      }
+      return result as IpDatasetInfo;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData([DATASET_URL], result);
+      setFile(null);
+      toast({
+        title: 'Dataset imported',
+        description: `${result.ranges.toLocaleString()} IP ranges are now used for currency detection`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to import IP country dataset',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>IP Country Dataset</CardTitle>
+        <CardDescription>
+          Donors' currency is picked from the country their IP address belongs to, looked up on this server so addresses are never sent to a third party. Import a CSV of <code>start_ip,end_ip,country_code</code> rows, such as the free DB-IP or IP2Location LITE country downloads.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin" />
+        ) : info && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <Badge
+              variant="outline"
+              className={info.loaded ? 'bg-green-100 text-green-800 border-green-200' : 'bg-yellow-100 text-yellow-800 border-yellow-200'}
+            >
+              {info.loaded ? 'Loaded' : 'Not loaded'}
+            </Badge>
+            <span>{info.ranges.toLocaleString()} IP ranges</span>
+            {info.loadedAt && <span>since {new Date(info.loadedAt).toLocaleString('en-AU')}</span>}
+            <span className="text-muted-foreground">{info.path}</span>
+          </div>
+        )}
+        {info && !info.loaded && (
+          <p className="text-sm text-muted-foreground">
+            Until a dataset is imported every donor sees AUD unless the page has a <code>?region=</code> parameter.
+          </p>
+        )}
+
+        <form
+          className="flex flex-col gap-3 md:flex-row md:items-center"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (file) importMutation.mutate(file);
+          }}
+        >
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            className="md:max-w-sm"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          <Button type="submit" disabled={!file || importMutation.isPending}>
+            {importMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Import CSV
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
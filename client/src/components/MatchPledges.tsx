@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type Case, type MatchPledge } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Loader2 } from 'lucide-react';
+
+const MATCH_PLEDGES_URL = '/api/admin/match-pledges';
+
+const DONATION_TYPE_LABELS: Record<string, string> = {
+  zakaat: 'Zakaat',
+  sadqah: 'Sadqah',
+  interest: 'Interest purification',
+};
+
+type MatchPledgeSummary = MatchPledge & {
+  matchedAmount: number;
+  remainingAmount: number;
+  matchedDonations: number;
+  live: boolean;
+};
+
+interface MatchPledgesOverview {
+  baseCurrency: string;
+  pledges: MatchPledgeSummary[];
+}
+
+export default function MatchPledges() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sponsorName, setSponsorName] = useState('');
+  const [ratio, setRatio] = useState('1');
+  const [capAmount, setCapAmount] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [caseId, setCaseId] = useState('any');
+  const [donationType, setDonationType] = useState('any');
+
+  const { data, isLoading } = useQuery<MatchPledgesOverview>({
+    queryKey: [MATCH_PLEDGES_URL],
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ['/api/cases'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', MATCH_PLEDGES_URL, {
+        sponsorName,
+        ratio: parseFloat(ratio),
+        capAmount: parseFloat(capAmount),
+        // The inputs are in the admin's local time
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        caseId: caseId === 'any' ? null : Number(caseId),
+        donationType: donationType === 'any' ? null : donationType,
+      });
+      return response.json() as Promise<MatchPledge>;
+    },
+    onSuccess: (pledge) => {
+      queryClient.invalidateQueries({ queryKey: [MATCH_PLEDGES_URL] });
+      setSponsorName('');
+      setCapAmount('');
+      toast({
+        title: 'Match pledge added',
+        description: `${pledge.sponsorName} will match gifts up to ${formatMoney(pledge.capAmount)}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to add match pledge',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const baseCurrency = data?.baseCurrency ?? 'AUD';
+  const formatMoney = (value: number) => `${baseCurrency} ${value.toFixed(2)}`;
+  const caseTitle = (id: number) => cases.find((caseItem) => caseItem.id === id)?.title ?? `Case #${id}`;
+  const canCreate =
+    sponsorName.trim() !== '' &&
+    parseFloat(ratio) > 0 &&
+    parseFloat(capAmount) > 0 &&
+    startsAt !== '' &&
+    endsAt !== '';
+
+  const pledgeStatus = (pledge: MatchPledgeSummary) => {
+    if (pledge.live && pledge.remainingAmount > 0) return <Badge>Live</Badge>;
+    if (pledge.remainingAmount <= 0) return <Badge variant="secondary">Cap reached</Badge>;
+    if (new Date(pledge.startsAt).getTime() > Date.now()) return <Badge variant="outline">Scheduled</Badge>;
+    return <Badge variant="outline">Ended</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add a Match Pledge</CardTitle>
+          <CardDescription>
+            A sponsor matches each completed gift at their ratio until their cap in {baseCurrency} is used up.
+            A ratio of 1 doubles each gift.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-4 md:grid-cols-3 md:items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="match-sponsor">Sponsor</Label>
+              <Input
+                id="match-sponsor"
+                maxLength={200}
+                value={sponsorName}
+                onChange={(e) => setSponsorName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-ratio">Ratio (sponsor gives per $1)</Label>
+              <Input
+                id="match-ratio"
+                type="number"
+                min="0"
+                max="10"
+                step="0.1"
+                value={ratio}
+                onChange={(e) => setRatio(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-cap">Cap ({baseCurrency})</Label>
+              <Input
+                id="match-cap"
+                type="number"
+                min="0"
+                step="0.01"
+                value={capAmount}
+                onChange={(e) => setCapAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-starts">Starts</Label>
+              <Input
+                id="match-starts"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-ends">Ends</Label>
+              <Input
+                id="match-ends"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-type">Donation type</Label>
+              <Select value={donationType} onValueChange={setDonationType}>
+                <SelectTrigger id="match-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any type</SelectItem>
+                  {Object.entries(DONATION_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-case">Case</Label>
+              <Select value={caseId} onValueChange={setCaseId}>
+                <SelectTrigger id="match-case">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any case or none</SelectItem>
+                  {cases.map((caseItem) => (
+                    <SelectItem key={caseItem.id} value={String(caseItem.id)}>{caseItem.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="md:col-start-3" disabled={createMutation.isPending || !canCreate}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add pledge
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Match Pledges</CardTitle>
+          <CardDescription>How much of each sponsor's cap has been matched, net of refunds, and how much is left</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : !data || data.pledges.length === 0 ? (
+            <p className="text-muted-foreground">No sponsor has pledged to match gifts yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sponsor</TableHead>
+                  <TableHead>Matches</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-56">Cap used</TableHead>
+                  <TableHead className="text-right">Left</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.pledges.map((pledge) => (
+                  <TableRow key={pledge.id}>
+                    <TableCell>
+                      <div className="font-medium">{pledge.sponsorName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {pledge.matchedDonations} {pledge.matchedDonations === 1 ? 'gift' : 'gifts'} matched
+                        {pledge.createdBy && ` · ${pledge.createdBy}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{pledge.ratio}:1</div>
+                      <div className="text-xs text-muted-foreground">
+                        {pledge.donationType ? DONATION_TYPE_LABELS[pledge.donationType] ?? pledge.donationType : 'Any type'}
+                        {pledge.caseId && ` · ${caseTitle(pledge.caseId)}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      <div>{formatDate(pledge.startsAt)}</div>
+                      <div className="text-muted-foreground">to {formatDate(pledge.endsAt)}</div>
+                    </TableCell>
+                    <TableCell>{pledgeStatus(pledge)}</TableCell>
+                    <TableCell>
+                      <Progress value={Math.min((pledge.matchedAmount / pledge.capAmount) * 100, 100)} className="h-2" />
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {formatMoney(pledge.matchedAmount)} of {formatMoney(pledge.capAmount)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(pledge.remainingAmount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type MetalPrice } from '@shared/schema';
+import { NISAB_GRAMS, type NisabStandard } from '@shared/zakat';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+
+const METAL_PRICES_URL = '/api/admin/metal-prices';
+
+const METALS: NisabStandard[] = ['gold', 'silver'];
+
+interface MetalPriceOverview {
+  baseCurrency: string;
+  prices: MetalPrice[];
+  nisab: {
+    standard: NisabStandard;
+    nisabGrams: number;
+    nisab: number | null;
+  };
+}
+
+export default function MetalPriceSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<NisabStandard, string>>({ gold: '', silver: '' });
+
+  const { data, isLoading } = useQuery<MetalPriceOverview>({
+    queryKey: [METAL_PRICES_URL],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ metal, pricePerGram }: { metal: NisabStandard; pricePerGram: number }) => {
+      const response = await apiRequest('PUT', `${METAL_PRICES_URL}/${metal}`, { pricePerGram });
+      return response.json() as Promise<MetalPrice>;
+    },
+    onSuccess: (price) => {
+      queryClient.invalidateQueries({ queryKey: [METAL_PRICES_URL] });
+      setDrafts((current) => ({ ...current, [price.metal]: '' }));
+      toast({
+        title: 'Metal price saved',
+        description: `${price.metal === 'gold' ? 'Gold' : 'Silver'} is now ${baseCurrency} ${price.pricePerGram} per gram`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save metal price',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const baseCurrency = data?.baseCurrency ?? 'AUD';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Zakat Nisab</CardTitle>
+        <CardDescription>
+          Gold and silver prices per gram in {baseCurrency}, used by the zakat calculator. Donors see the nisab in their own currency at the current exchange rate.
+          {data && ` The nisab is ${data.nisab.nisabGrams} g of ${data.nisab.standard}${data.nisab.nisab !== null ? ` (${baseCurrency} ${data.nisab.nisab.toFixed(2)})` : ', which needs a price before it can be checked'}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {METALS.map((metal) => {
+              const current = data?.prices.find((p) => p.metal === metal);
+              const parsed = parseFloat(drafts[metal]);
+              return (
+                <form
+                  key={metal}
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveMutation.mutate({ metal, pricePerGram: parsed });
+                  }}
+                >
+                  <Label htmlFor={`metal-${metal}`} className="capitalize">
+                    {metal} ({baseCurrency} per gram)
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id={`metal-${metal}`}
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder={current ? String(current.pricePerGram) : 'Not set'}
+                      value={drafts[metal]}
+                      onChange={(e) => setDrafts({ ...drafts, [metal]: e.target.value })}
+                    />
+                    <Button type="submit" disabled={saveMutation.isPending || !(parsed > 0)}>
+                      Save
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {current
+                      ? `Updated ${formatDate(current.updatedAt)}${current.updatedBy ? ` by ${current.updatedBy}` : ''}`
+                      : `No price set. Nisab by ${metal} is ${NISAB_GRAMS[metal]} g.`}
+                  </p>
+                </form>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
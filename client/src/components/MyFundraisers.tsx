@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { BASE_CURRENCY } from '@shared/currency';
+import { type Case, type Fundraiser } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { ExternalLink, Loader2, Plus } from 'lucide-react';
+
+const MY_FUNDRAISERS_URL = '/api/donor/fundraisers';
+
+export type FundraiserWithProgress = Fundraiser & {
+  raisedAmount: number;
+  supporterCount: number;
+};
+
+export const FUNDRAISER_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  pending_review: { label: 'Waiting for review', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  approved: { label: 'Live', className: 'bg-green-100 text-green-800 border-green-200' },
+  rejected: { label: 'Not approved', className: 'bg-red-100 text-red-800 border-red-200' },
+};
+
+/**
+ * A signed-in supporter's own fundraising pages, and a form to start one
+ */
+export default function MyFundraisers() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [ownerName, setOwnerName] = useState('');
+  const [title, setTitle] = useState('');
+  const [story, setStory] = useState('');
+  const [goalAmount, setGoalAmount] = useState('');
+  const [caseId, setCaseId] = useState('clinic');
+
+  const { data: fundraisers = [], isLoading } = useQuery<FundraiserWithProgress[]>({
+    queryKey: [MY_FUNDRAISERS_URL],
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ['/api/cases'],
+    enabled: showForm,
+  });
+  const openCases = cases.filter((caseItem) => caseItem.status === 'open');
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/fundraisers', {
+        ownerName,
+        title,
+        story,
+        goalAmount: parseFloat(goalAmount),
+        caseId: caseId === 'clinic' ? null : Number(caseId),
+      });
+      return response.json() as Promise<Fundraiser>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [MY_FUNDRAISERS_URL] });
+      setShowForm(false);
+      setTitle('');
+      setStory('');
+      setGoalAmount('');
+      setCaseId('clinic');
+      toast({
+        title: 'Fundraiser submitted',
+        description: "We'll review your page shortly. It goes live as soon as it's approved.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to start fundraiser',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatMoney = (value: number) =>
+    new Intl.NumberFormat('en-AU', { style: 'currency', currency: BASE_CURRENCY }).format(value);
+
+  const canCreate =
+    ownerName.trim() !== '' &&
+    title.trim().length >= 3 &&
+    story.trim().length >= 20 &&
+    parseFloat(goalAmount) > 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>My Fundraisers</CardTitle>
+          <CardDescription>
+            Raise money for a case or the clinic with your own page, for a birthday, a sponsored walk or anything else.
+          </CardDescription>
+        </div>
+        {!showForm && (
+          <Button variant="outline" onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Start a fundraiser
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {showForm && (
+          <form
+            className="grid gap-4 md:grid-cols-2 border rounded-lg p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="fundraiser-owner">Your name, as supporters will see it</Label>
+              <Input id="fundraiser-owner" maxLength={100} value={ownerName} onChange={(e) => setOwnerName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fundraiser-title">Title</Label>
+              <Input
+                id="fundraiser-title"
+                maxLength={150}
+                placeholder="e.g. My 30th birthday for Aafiyaa"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="fundraiser-story">Your story</Label>
+              <Textarea
+                id="fundraiser-story"
+                rows={5}
+                maxLength={5000}
+                placeholder="Why you're fundraising and what the money will do"
+                value={story}
+                onChange={(e) => setStory(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fundraiser-goal">Goal ({BASE_CURRENCY})</Label>
+              <Input
+                id="fundraiser-goal"
+                type="number"
+                min="1"
+                step="1"
+                value={goalAmount}
+                onChange={(e) => setGoalAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fundraiser-case">Raising for</Label>
+              <Select value={caseId} onValueChange={setCaseId}>
+                <SelectTrigger id="fundraiser-case">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="clinic">The clinic</SelectItem>
+                  {openCases.map((caseItem) => (
+                    <SelectItem key={caseItem.id} value={String(caseItem.id)}>{caseItem.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 md:col-span-2 md:justify-end">
+              <Button type="button" variant="ghost" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                style={{ backgroundColor: '#2D5A3D', color: '#F5EDD6' }}
+                disabled={createMutation.isPending || !canCreate}
+              >
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit for review
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin" />
+        ) : fundraisers.length === 0 ? (
+          !showForm && <p className="text-muted-foreground">You haven't started a fundraiser yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {fundraisers.map((fundraiser) => {
+              const status = FUNDRAISER_STATUS_LABELS[fundraiser.status];
+              return (
+                <div key={fundraiser.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium">{fundraiser.title}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {fundraiser.supporterCount} {fundraiser.supporterCount === 1 ? 'supporter' : 'supporters'}
+                      </div>
+                    </div>
+                    <Badge variant="outline" className={status?.className}>
+                      {status?.label ?? fundraiser.status}
+                    </Badge>
+                  </div>
+                  <Progress value={Math.min((fundraiser.raisedAmount / fundraiser.goalAmount) * 100, 100)} className="h-2" />
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      {formatMoney(fundraiser.raisedAmount)} raised of {formatMoney(fundraiser.goalAmount)}
+                    </span>
+                    {fundraiser.status === 'approved' && (
+                      <Link href={`/fundraise/${fundraiser.slug}`} className="inline-flex items-center text-[#2D5A3D] hover:underline">
+                        View page
+                        <ExternalLink className="h-3 w-3 ml-1" />
+                      </Link>
+                    )}
+                  </div>
+                  {fundraiser.status === 'rejected' && fundraiser.moderationNote && (
+                    <p className="text-sm text-red-700">{fundraiser.moderationNote}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type Case, type Donation, type OrphanedPayment } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Link2, Loader2, Plus, XCircle } from 'lucide-react';
+
+const ORPHANED_PAYMENTS_URL = '/api/admin/orphaned-payments';
+
+type OrphanedPaymentWithMatches = OrphanedPayment & {
+  suggestedMatches: Donation[];
+};
+
+type ResolutionDialog = { mode: 'create' | 'ignore'; payment: OrphanedPaymentWithMatches } | null;
+
+const paymentStatusColors: Record<string, string> = {
+  unresolved: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  resolved: 'bg-green-100 text-green-800 border-green-200',
+  ignored: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+export default function OrphanedPaymentQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState('unresolved');
+  const [dialog, setDialog] = useState<ResolutionDialog>(null);
+  const [donationType, setDonationType] = useState<'zakaat' | 'sadqah' | 'interest'>('sadqah');
+  const [caseId, setCaseId] = useState('none');
+  const [email, setEmail] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: payments = [], isLoading } = useQuery<OrphanedPaymentWithMatches[]>({
+    queryKey: [`${ORPHANED_PAYMENTS_URL}?status=${status}`],
+    refetchInterval: 30000, // Refresh every 30 seconds
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ['/api/cases'],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ paymentId, body }: { paymentId: number; body: Record<string, unknown> }) => {
+      const response = await apiRequest('POST', `${ORPHANED_PAYMENTS_URL}/${paymentId}/resolve`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(ORPHANED_PAYMENTS_URL),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+      closeDialog();
+      toast({
+        title: 'Success',
+        description: 'Orphaned payment resolved',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to resolve orphaned payment',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openDialog = (mode: 'create' | 'ignore', payment: OrphanedPaymentWithMatches) => {
+    const metadata = (payment.stripeMetadata ?? {}) as Record<string, string>;
+    setDonationType((metadata.donationType as 'zakaat' | 'sadqah' | 'interest') || 'sadqah');
+    setCaseId('none');
+    setEmail(metadata.email || '');
+    setNotes('');
+    setDialog({ mode, payment });
+  };
+
+  const closeDialog = () => setDialog(null);
+
+  const submitDialog = () => {
+    if (!dialog) return;
+
+    const body =
+      dialog.mode === 'ignore'
+        ? { action: 'ignore', notes }
+        : {
+            action: 'create',
+            type: donationType,
+            caseId: caseId === 'none' ? null : parseInt(caseId),
+            ...(email && { email }),
+            ...(notes && { notes }),
+          };
+
+    resolveMutation.mutate({ paymentId: dialog.payment.id, body });
+  };
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: currency || 'AUD',
+    }).format(amount);
+  };
+
+  const formatDate = (date: string | Date | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Orphaned Payments</CardTitle>
+          <CardDescription>
+            Stripe payments that could not be matched to a donation. Link each one to a donation, record it as a new donation, or ignore it with a note.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unresolved">Unresolved</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+            <SelectItem value="ignored">Ignored</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : payments.length === 0 ? (
+          <p className="text-muted-foreground">No orphaned payments.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Paid</TableHead>
+                <TableHead>Payment</TableHead>
+                <TableHead>Suggested Matches</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell className="whitespace-nowrap">{formatDate(payment.stripeCreatedAt)}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{formatAmount(payment.amount, payment.currency)}</div>
+                    <div className="text-xs text-muted-foreground">{payment.paymentIntentId}</div>
+                    {payment.description && (
+                      <div className="text-xs text-muted-foreground">{payment.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {payment.status !== 'unresolved' ? (
+                      <span className="text-sm text-muted-foreground">
+                        {payment.resolvedDonationId ? `Donation #${payment.resolvedDonationId}` : '—'}
+                        {payment.notes && <span className="block text-xs">{payment.notes}</span>}
+                      </span>
+                    ) : payment.suggestedMatches.length === 0 ? (
+                      <span className="text-sm text-muted-foreground">No likely matches</span>
+                    ) : (
+                      <div className="space-y-1">
+                        {payment.suggestedMatches.map((donation) => (
+                          <div key={donation.id} className="flex items-center gap-2 text-sm">
+                            <span>
+                              #{donation.id} · {donation.email || donation.name || 'Anonymous'} · {formatDate(donation.createdAt)}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                resolveMutation.mutate({
+                                  paymentId: payment.id,
+                                  body: { action: 'link', donationId: donation.id },
+                                })
+                              }
+                              disabled={resolveMutation.isPending}
+                            >
+                              <Link2 className="h-3 w-3 mr-1" />
+                              Link
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={paymentStatusColors[payment.status] || 'bg-gray-100 text-gray-800'}>
+                      {payment.status}
+                    </Badge>
+                    {payment.resolvedBy && (
+                      <div className="text-xs text-muted-foreground mt-1">by {payment.resolvedBy}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {payment.status === 'unresolved' && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => openDialog('create', payment)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          New donation
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openDialog('ignore', payment)}>
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Ignore
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog?.mode === 'ignore' ? 'Ignore payment' : 'Record as new donation'}</DialogTitle>
+            <DialogDescription>
+              {dialog && `${formatAmount(dialog.payment.amount, dialog.payment.currency)} · ${dialog.payment.paymentIntentId}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {dialog?.mode === 'create' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Donation type</Label>
+                  <Select value={donationType} onValueChange={(value) => setDonationType(value as typeof donationType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="zakaat">Zakaat</SelectItem>
+                      <SelectItem value="sadqah">Sadqah</SelectItem>
+                      <SelectItem value="interest">Interest</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Case</Label>
+                  <Select value={caseId} onValueChange={setCaseId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No specific case</SelectItem>
+                      {cases.map((caseItem) => (
+                        <SelectItem key={caseItem.id} value={String(caseItem.id)}>{caseItem.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="orphaned-email">Donor email (for the receipt)</Label>
+                  <Input
+                    id="orphaned-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="orphaned-notes">Notes</Label>
+              <Textarea
+                id="orphaned-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={dialog?.mode === 'ignore' ? 'Why is this payment being ignored?' : 'Optional'}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog} disabled={resolveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitDialog}
+              disabled={resolveMutation.isPending || (dialog?.mode === 'ignore' && !notes.trim())}
+            >
+              {resolveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {dialog?.mode === 'ignore' ? 'Ignore payment' : 'Create donation'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { roundToMinorUnit } from '@shared/money';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+interface RefundableDonation {
+  id: number;
+  amount: number;
+  refundedAmount: number;
+  currency: string;
+  paymentMethod: string | null;
+}
+
+interface RefundDonationDialogProps {
+  donation: RefundableDonation | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function RefundDonationDialog({ donation, onOpenChange }: RefundDonationDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+
+  const refundable = donation ? roundToMinorUnit(donation.amount - donation.refundedAmount, donation.currency) : 0;
+
+  // Default to refunding whatever is left each time the dialog opens
+  useEffect(() => {
+    if (donation) {
+      setAmount(refundable.toFixed(2));
+      setReason('');
+    }
+  }, [donation, refundable]);
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/donations/${donation!.id}/refund`, {
+        amount: parseFloat(amount),
+        ...(reason && { reason }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-statistics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+      toast({
+        title: 'Refund issued',
+        description: `${donation!.currency} ${parseFloat(amount).toFixed(2)} refunded to the donor`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to refund donation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const parsedAmount = parseFloat(amount);
+  const isValidAmount = !isNaN(parsedAmount) && parsedAmount > 0 && parsedAmount <= refundable;
+
+  return (
+    <Dialog open={donation !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund donation #{donation?.id}</DialogTitle>
+          <DialogDescription>
+            {donation && (
+              <>
+                The refund is sent back through {donation.paymentMethod === 'paypal' ? 'PayPal' : 'Stripe'}. Up to {donation.currency} {refundable.toFixed(2)} can still be refunded. The case total and receipt are updated and the donor is emailed.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount ({donation?.currency})</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={refundable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={refundMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => refundMutation.mutate()}
+            disabled={refundMutation.isPending || !isValidAmount}
+          >
+            {refundMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
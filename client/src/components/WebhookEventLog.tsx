@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { type WebhookEvent } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Eye, Loader2, RotateCcw, Search } from 'lucide-react';
+
+const WEBHOOK_EVENTS_URL = '/api/admin/webhook-events';
+
+const eventStatusColors: Record<string, string> = {
+  processed: 'bg-green-100 text-green-800 border-green-200',
+  orphaned: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  ignored: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+const eventTypes = [
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'payment_intent.created',
+  'payment_intent.canceled',
+  'checkout.session.completed',
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_succeeded',
+  'invoice.payment_failed',
+  'charge.refunded',
+  'charge.dispute.created',
+  'charge.dispute.updated',
+  'charge.dispute.closed',
+];
+
+export default function WebhookEventLog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [eventType, setEventType] = useState('all');
+  const [status, setStatus] = useState('all');
+  const [selectedEventId, setSelectedEventId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ eventType, status });
+  if (search) params.set('search', search);
+
+  const { data: events = [], isLoading } = useQuery<WebhookEvent[]>({
+    queryKey: [`${WEBHOOK_EVENTS_URL}?${params.toString()}`],
+    refetchInterval: 30000, // Refresh every 30 seconds
+  });
+
+  const { data: selectedEvent, isLoading: isLoadingEvent } = useQuery<WebhookEvent>({
+    queryKey: [`${WEBHOOK_EVENTS_URL}/${selectedEventId}`],
+    enabled: selectedEventId !== null,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (eventId: number) => {
+      const response = await apiRequest('POST', `${WEBHOOK_EVENTS_URL}/${eventId}/replay`);
+      return response.json() as Promise<WebhookEvent>;
+    },
+    onSuccess: (replayed) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(WEBHOOK_EVENTS_URL),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-history'] });
+      toast({
+        title: 'Event replayed',
+        description: `Replay finished with status "${replayed.status}"`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to replay webhook event',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhook Log</CardTitle>
+        <CardDescription>
+          Every Stripe webhook delivery, how it was matched to a donation and what happened. Replaying runs the stored event through the same handler again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-col md:flex-row gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearch(searchInput.trim());
+          }}
+        >
+          <Input
+            placeholder="Search by event, payment intent or subscription ID"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+          <Select value={eventType} onValueChange={setEventType}>
+            <SelectTrigger className="md:w-64">
+              <SelectValue placeholder="Event type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All event types</SelectItem>
+              {eventTypes.map((type) => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="md:w-40">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {Object.keys(eventStatusColors).map((value) => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4 mr-2" />
+            Search
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-muted-foreground">No webhook events match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Payment / Subscription</TableHead>
+                <TableHead>Donation</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap">{formatDate(event.createdAt)}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{event.eventType}</div>
+                    <div className="text-xs text-muted-foreground">{event.stripeEventId || '—'}</div>
+                    {event.replayOfEventId && (
+                      <div className="text-xs text-muted-foreground">Replay of #{event.replayOfEventId}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {event.paymentIntentId && <div>{event.paymentIntentId}</div>}
+                    {event.subscriptionId && <div>{event.subscriptionId}</div>}
+                    {!event.paymentIntentId && !event.subscriptionId && '—'}
+                  </TableCell>
+                  <TableCell>{event.donationId ? `#${event.donationId}` : '—'}</TableCell>
+                  <TableCell className="text-xs">{event.matchStrategy || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={eventStatusColors[event.status] || 'bg-gray-100 text-gray-800'}>
+                      {event.status}
+                    </Badge>
+                    {event.errorMessage && (
+                      <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={event.errorMessage}>
+                        {event.errorMessage}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedEventId(event.id)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => replayMutation.mutate(event.id)}
+                      disabled={replayMutation.isPending}
+                    >
+                      {replayMutation.isPending && replayMutation.variables === event.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={selectedEventId !== null} onOpenChange={(open) => !open && setSelectedEventId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Webhook event #{selectedEventId}</DialogTitle>
+            <DialogDescription>
+              {selectedEvent ? `${selectedEvent.eventType} · ${selectedEvent.stripeEventId || 'no Stripe event ID'}` : 'Loading…'}
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingEvent || !selectedEvent ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <pre className="bg-muted rounded-md p-4 text-xs overflow-auto max-h-[60vh]">
+              {JSON.stringify(selectedEvent.rawData, null, 2)}
+            </pre>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
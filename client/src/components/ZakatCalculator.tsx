@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useDonation } from '@/components/DonationContext';
+import { calculateZakat, type ZakatAssets, type ZakatPrices } from '@shared/zakat';
+import { toDecimalString } from '@shared/money';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { trackEvent } from '@/lib/analytics';
+
+interface ZakatNisab extends ZakatPrices {
+  standard: 'gold' | 'silver';
+  nisabGrams: number;
+  pricesUpdatedAt: string | null;
+}
+
+interface ZakatCalculatorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Currency to calculate in; defaults to the currency selected on the donation form
+  currency?: string;
+  // Called with the zakat due after it has been filled into the donation
+  onApply?: (amount: number) => void;
+}
+
+const ASSET_FIELDS: Array<{ key: keyof ZakatAssets; label: string; hint: string; unit: 'money' | 'grams' }> = [
+  { key: 'cash', label: 'Cash and bank balances', hint: 'Savings, current accounts and cash at home', unit: 'money' },
+  { key: 'goldGrams', label: 'Gold', hint: 'Weight of gold you own', unit: 'grams' },
+  { key: 'silverGrams', label: 'Silver', hint: 'Weight of silver you own', unit: 'grams' },
+  { key: 'investments', label: 'Investments', hint: 'Shares, funds and business stock', unit: 'money' },
+  { key: 'receivables', label: 'Money owed to you', hint: 'Loans you expect to be repaid', unit: 'money' },
+  { key: 'liabilities', label: 'Debts due now', hint: 'Bills and repayments currently owed', unit: 'money' },
+];
+
+const emptyAssets: Record<keyof ZakatAssets, string> = {
+  cash: '',
+  goldGrams: '',
+  silverGrams: '',
+  investments: '',
+  receivables: '',
+  liabilities: '',
+};
+
+export default function ZakatCalculator({ open, onOpenChange, currency: currencyProp, onApply }: ZakatCalculatorProps) {
+  const donation = useDonation();
+  const currency = (currencyProp || donation.currency).toUpperCase();
+  const [values, setValues] = useState(emptyAssets);
+
+  const { data: prices, isLoading } = useQuery<ZakatNisab>({
+    queryKey: [`/api/zakat/nisab?currency=${currency}`],
+    enabled: open,
+  });
+
+  const assets = Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, parseFloat(value) || 0])
+  ) as unknown as ZakatAssets;
+  const result = calculateZakat(assets, prices ?? { currency, goldPricePerGram: null, silverPricePerGram: null, nisab: null });
+  const format = (amount: number) => `${currency} ${toDecimalString(amount, currency)}`;
+
+  const handleApply = () => {
+    if (!result.nisabAvailable) return;
+    // Zakat is a one-off gift of the calculated amount
+    donation.setType('zakaat');
+    donation.setFrequency('one-off');
+    donation.setIsCustomAmount(true);
+    donation.setCustomAmount(toDecimalString(result.zakatDue, currency));
+    donation.setAmount(result.zakatDue);
+    trackEvent({ category: 'Donation', action: 'ZakatCalculated', label: currency, value: result.zakatDue });
+    onApply?.(result.zakatDue);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Zakat Calculator</DialogTitle>
+          <DialogDescription>
+            Enter what you own and owe in {currency}. Zakat is 2.5% of your net wealth when it is at or above the nisab and has been held for a lunar year.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {ASSET_FIELDS.map(({ key, label, hint, unit }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`zakat-${key}`}>
+                {label} {unit === 'grams' ? '(g)' : `(${currency})`}
+              </Label>
+              <Input
+                id={`zakat-${key}`}
+                type="number"
+                min="0"
+                step="any"
+                placeholder="0"
+                value={values[key]}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">{hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="rounded-md bg-gray-50 p-4 text-sm space-y-1">
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : (
+            <>
+              {(result.goldValue > 0 || result.silverValue > 0) && (
+                <div className="flex justify-between">
+                  <span>Gold and silver value</span>
+                  <span>{format(result.goldValue + result.silverValue)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span>Net zakatable wealth</span>
+                <span className="font-medium">{format(result.netWealth)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Nisab ({prices?.nisabGrams ?? '—'} g of {prices?.standard ?? 'silver'})</span>
+                <span>{result.nisab === null ? 'Not available' : format(result.nisab)}</span>
+              </div>
+              <div className="h-px bg-gray-200 my-1"></div>
+              {result.nisabAvailable ? (
+                <div className="flex justify-between text-base font-semibold text-green-700">
+                  <span>Zakat due</span>
+                  <span>{format(result.zakatDue)}</span>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Metal prices in {currency} aren't available right now, so your wealth can't be checked against the nisab. Please try again later, or enter the amount you have worked out yourself on the donation form.
+                </p>
+              )}
+              {result.netWealth > 0 && !result.aboveNisab && (
+                <p className="text-xs text-muted-foreground">Your wealth is below the nisab, so no zakat is due.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setValues(emptyAssets)}>
+            Clear
+          </Button>
+          <Button onClick={handleApply} disabled={!result.nisabAvailable || result.zakatDue <= 0}>
+            Give {format(result.zakatDue)} as Zakaat
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface ZakatComplianceReportData {
+  generatedAt: string;
+  baseCurrency: string;
+  compliant: boolean;
+  donationCount: number;
+  totalZakat: number;
+  unallocatedZakat: number;
+  cases: Array<{
+    caseId: number;
+    title: string | null;
+    zakaatEligible: boolean;
+    donationCount: number;
+    baseAmount: number;
+  }>;
+  ineligibleDonations: Array<{
+    donationId: number;
+    caseId: number;
+    amount: number;
+    currency: string;
+    baseAmount: number;
+    createdAt: string;
+  }>;
+  unconvertedDonations: Array<{
+    donationId: number;
+    caseId: number | null;
+    amount: number;
+    currency: string;
+    createdAt: string;
+  }>;
+}
+
+export default function ZakatComplianceReport() {
+  const { data, isLoading } = useQuery<ZakatComplianceReportData>({
+    queryKey: ['/api/admin/zakat-compliance'],
+  });
+
+  const formatMoney = (amount: number) => `${data?.baseCurrency ?? 'AUD'} ${amount.toFixed(2)}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Zakat Compliance</CardTitle>
+        <CardDescription>
+          Zakat received, less refunds, by the case it was credited to. Zakat can only be given to cases marked as zakat eligible.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className={`flex items-start gap-3 rounded-md border p-4 ${data.compliant ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+              {data.compliant ? (
+                <ShieldCheck className="h-5 w-5 text-green-700 mt-0.5" />
+              ) : (
+                <ShieldAlert className="h-5 w-5 text-red-700 mt-0.5" />
+              )}
+              <div className="text-sm">
+                <p className="font-medium">
+                  {data.compliant
+                    ? 'No zakat has been credited to ineligible cases'
+                    : `${data.ineligibleDonations.length} zakat donation${data.ineligibleDonations.length === 1 ? ' was' : 's were'} credited to ineligible cases`}
+                </p>
+                <p className="text-muted-foreground">
+                  {formatMoney(data.totalZakat)} from {data.donationCount} donation{data.donationCount === 1 ? '' : 's'}, of which {formatMoney(data.unallocatedZakat)} is not allocated to a case.
+                  {' '}Generated {new Date(data.generatedAt).toLocaleString('en-AU')}.
+                </p>
+                {data.unconvertedDonations.length > 0 && (
+                  <p className="text-muted-foreground">
+                    {data.unconvertedDonations.length} donation{data.unconvertedDonations.length === 1 ? ' has' : 's have'} no exchange rate yet and {data.unconvertedDonations.length === 1 ? 'is' : 'are'} not counted:{' '}
+                    {data.unconvertedDonations.map((donation) => `#${donation.donationId} (${donation.currency} ${donation.amount.toFixed(2)})`).join(', ')}.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {data.cases.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Case</TableHead>
+                    <TableHead>Eligibility</TableHead>
+                    <TableHead className="text-right">Donations</TableHead>
+                    <TableHead className="text-right">Zakat received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.cases.map((entry) => (
+                    <TableRow key={entry.caseId}>
+                      <TableCell className="font-medium">{entry.title ?? `Deleted case #${entry.caseId}`}</TableCell>
+                      <TableCell>
+                        {entry.zakaatEligible ? (
+                          <Badge variant="secondary" className="bg-green-100 text-green-800">Eligible</Badge>
+                        ) : (
+                          <Badge variant="destructive">Not eligible</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.donationCount}</TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.baseAmount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {data.ineligibleDonations.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Donations to move</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Donation</TableHead>
+                      <TableHead>Case</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.ineligibleDonations.map((donation) => (
+                      <TableRow key={donation.donationId}>
+                        <TableCell>#{donation.donationId}</TableCell>
+                        <TableCell>#{donation.caseId}</TableCell>
+                        <TableCell>{new Date(donation.createdAt).toLocaleDateString('en-AU')}</TableCell>
+                        <TableCell className="text-right">
+                          {donation.currency} {donation.amount.toFixed(2)}
+                          {donation.currency !== data.baseCurrency && (
+                            <div className="text-xs text-muted-foreground">{formatMoney(donation.baseAmount)}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { Case, CaseSearchQuery } from '@shared/schema';
+
+interface CaseSearchPage {
+  cases: Case[];
+  nextCursor: string | null;
+}
+
+// Every filter is optional here; the server fills in the defaults
+export type CaseSearchParams = Partial<Omit<CaseSearchQuery, 'cursor' | 'zakaatEligible'>> & {
+  zakaatEligible?: boolean;
+};
+
+const toQueryString = (params: CaseSearchParams, cursor?: string) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    // Empty filters match everything, so they are left out
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  });
+  if (cursor) {
+    query.set('cursor', cursor);
+  }
+  return query.toString();
+};
+
+/**
+ * Search cases a page at a time. The query key starts with /api/cases, so anything that
+ * invalidates the case list refreshes the loaded pages too.
+ */
+export function useCaseSearch(params: CaseSearchParams, options: { enabled?: boolean } = {}) {
+  const query = useInfiniteQuery<CaseSearchPage, Error>({
+    queryKey: ['/api/cases', params],
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(`/api/cases?${toQueryString(params, pageParam as string | undefined)}`, {
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: options.enabled,
+  });
+
+  return {
+    ...query,
+    cases: query.data?.pages.flatMap((page) => page.cases) ?? [],
+  };
+}
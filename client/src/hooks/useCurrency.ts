@@ -6,6 +6,8 @@ import { donationPresets, getPresetsForCurrency } from '@/lib/donationPresets';
 interface ExchangeRates {
   rates: Record<string, number>;
   base: string;
+  fetchedAt: string | null;
+  stale: boolean;
 }
 
 interface CurrencyByIp {
@@ -97,10 +99,10 @@ export function useCurrency() {
       if (currency === baseCurrency) {
         setExchangeRate(1); // No conversion needed
       } else {
-        // Calculate cross rate: from AUD → USD → target currency
-        const audToUsd = 1 / (exchangeRates.rates['AUD'] || 1);
-        const usdToTarget = exchangeRates.rates[currency] || 1;
-        setExchangeRate(audToUsd * usdToTarget);
+        // Calculate cross rate via the rates' base: AUD → rates base → target currency
+        const audToRatesBase = 1 / (exchangeRates.rates[baseCurrency] || 1);
+        const ratesBaseToTarget = exchangeRates.rates[currency] || 1;
+        setExchangeRate(audToRatesBase * ratesBaseToTarget);
       }
     }
   }, [exchangeRates, currency, baseCurrency]);
@@ -124,9 +126,18 @@ export function useCurrency() {
   
   // This is maintained for backward compatibility but shouldn't be used
   // with the new preset system
-  const convertAmount = useCallback((amount: number): number => {
-    return parseFloat((amount * exchangeRate).toFixed(2));
-  }, [exchangeRate]);
+  // Amounts are in the base currency unless another one is given, such as a case's own currency
+  const convertAmount = useCallback((amount: number, fromCurrency: string = baseCurrency): number => {
+    if (fromCurrency === baseCurrency) {
+      return parseFloat((amount * exchangeRate).toFixed(2));
+    }
+    if (fromCurrency === currency || !exchangeRates?.rates) {
+      return amount;
+    }
+    const fromToRatesBase = 1 / (exchangeRates.rates[fromCurrency] || 1);
+    const ratesBaseToTarget = exchangeRates.rates[currency] || 1;
+    return parseFloat((amount * fromToRatesBase * ratesBaseToTarget).toFixed(2));
+  }, [exchangeRate, exchangeRates, currency, baseCurrency]);
 
   return { 
     currency, 
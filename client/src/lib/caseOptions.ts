@@ -0,0 +1,34 @@
+// Labels for case categories, urgency levels and listing sorts
+import type { CaseCategory, CaseSort, CaseUrgency } from '@shared/schema';
+
+export const caseCategoryLabels: Record<CaseCategory, string> = {
+  surgery: 'Surgery',
+  medication: 'Medication',
+  maternity: 'Maternity',
+  cancer_care: 'Cancer care',
+  dialysis: 'Dialysis',
+  emergency: 'Emergency',
+  rehabilitation: 'Rehabilitation',
+  other: 'Other',
+};
+
+export const caseUrgencyLabels: Record<CaseUrgency, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
+
+// Badge colours, matching the other case badges
+export const caseUrgencyClasses: Record<CaseUrgency, string> = {
+  low: 'bg-gray-100 text-gray-700 border-gray-200',
+  medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  high: 'bg-orange-100 text-orange-800 border-orange-200',
+  critical: 'bg-red-100 text-red-800 border-red-200',
+};
+
+export const caseSortLabels: Record<CaseSort, string> = {
+  urgent: 'Most urgent',
+  closest_to_goal: 'Closest to goal',
+  newest: 'Newest',
+};
@@ -1,21 +1,44 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Link, useLocation } from 'wouter';
-import { Case } from '@shared/schema';
+import { Case, CASE_CATEGORIES, CASE_SORTS, CASE_URGENCIES, type CaseCategory, type CaseSort, type CaseUrgency } from '@shared/schema';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useDonation } from '@/components/DonationContext';
 import { useCurrency } from '@/hooks/useCurrency';
+import { useCaseSearch } from '@/hooks/useCaseSearch';
+import { caseCategoryLabels, caseSortLabels, caseUrgencyClasses, caseUrgencyLabels } from '@/lib/caseOptions';
+import { Loader2, MapPin, Search } from 'lucide-react';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 
+type CompletedCase = Case & {
+  funding: { currency: string; collected: number; disbursed: number; remaining: number };
+};
+
 export default function ActiveCases() {
   const { setType, setSelectedCase } = useDonation();
   const queryClient = useQueryClient();
   const [location] = useLocation();
   const [copiedCaseId, setCopiedCaseId] = useState<number | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<CaseCategory | 'all'>('all');
+  const [urgency, setUrgency] = useState<CaseUrgency | 'all'>('all');
+  const [locationInput, setLocationInput] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
+  const [sort, setSort] = useState<CaseSort>('urgent');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   
   // Use the currency hook for proper currency formatting and conversion
   const { 
@@ -25,25 +48,62 @@ export default function ActiveCases() {
     convertAmount
   } = useCurrency();
   
-  // Fetch active zakaat cases
-  const { data: cases, isLoading, error } = useQuery<Case[]>({
-    queryKey: ['/api/active-zakaat-cases'],
-    staleTime: 10000, // Consider data stale after 10 seconds
-    refetchOnWindowFocus: true, // Refetch when window regains focus
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setLocationFilter(locationInput.trim());
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchInput, locationInput]);
+
+  // Open cases matching the filters, a page at a time
+  const {
+    cases,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useCaseSearch({
+    search,
+    category: category === 'all' ? undefined : category,
+    urgency: urgency === 'all' ? undefined : urgency,
+    location: locationFilter,
+    sort,
+  });
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Cases that have paid out everything they raised
+  const { data: completedCases = [] } = useQuery<CompletedCase[]>({
+    queryKey: ['/api/completed-cases'],
   });
 
   // Check if we returned from a payment page (potential donation complete)
   useEffect(() => {
     // If navigating to this page from another page, refresh the case data
     const refreshCases = async () => {
-      await queryClient.invalidateQueries({ queryKey: ['/api/active-zakaat-cases'] });
+      await queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
     };
     
     refreshCases();
     
     // Also set up a refresh interval to periodically check for updates
     const intervalId = setInterval(() => {
-      queryClient.invalidateQueries({ queryKey: ['/api/active-zakaat-cases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
     }, 30000); // Refresh every 30 seconds
     
     return () => clearInterval(intervalId);
@@ -51,7 +111,7 @@ export default function ActiveCases() {
 
   // Scroll to specific case if hash is present in URL
   useEffect(() => {
-    if (cases && window.location.hash) {
+    if (cases.length > 0 && window.location.hash) {
       const hash = window.location.hash.substring(1); // Remove the #
       const element = document.getElementById(hash);
       if (element) {
@@ -70,7 +130,8 @@ export default function ActiveCases() {
 
   // Handle donate button click for a specific case
   const handleDonateClick = (caseItem: Case) => {
-    setType('zakaat');
+    // Zakat can't go to a case that isn't eligible for it
+    setType(caseItem.zakaatEligible ? 'zakaat' : 'sadqah');
     setSelectedCase(caseItem);
   };
 
@@ -81,37 +142,13 @@ export default function ActiveCases() {
   };
 
   // Format and convert currency
-  const formatAmount = (amount: number) => {
-    // First convert from AUD to current currency
-    const convertedAmount = convertAmount(amount);
+  const formatAmount = (amount: number, fromCurrency?: string) => {
+    // First convert from the case currency (AUD unless set) to current currency
+    const convertedAmount = convertAmount(amount, fromCurrency);
     // Then format with proper currency symbol
     return formatCurrencyAmount(convertedAmount);
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex flex-col min-h-screen">
-        <Header />
-        <main className="flex-grow">
-          <div className="container mx-auto px-4 py-12 text-center">Loading cases...</div>
-        </main>
-        <Footer />
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="flex flex-col min-h-screen">
-        <Header />
-        <main className="flex-grow">
-          <div className="container mx-auto px-4 py-12 text-center">Error loading cases</div>
-        </main>
-        <Footer />
-      </div>
-    );
-  }
-
   return (
     <div className="flex flex-col min-h-screen">
       <Header />
@@ -124,13 +161,71 @@ export default function ActiveCases() {
             </p>
           </div>
 
-          {cases && cases.length > 0 ? (
+          <div className="flex flex-col md:flex-row gap-3 mb-8">
+            <div className="relative flex-grow">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search cases"
+                className="pl-9"
+                aria-label="Search cases"
+              />
+            </div>
+            <Input
+              value={locationInput}
+              onChange={(e) => setLocationInput(e.target.value)}
+              placeholder="Location"
+              className="md:w-44"
+              aria-label="Filter by location"
+            />
+            <Select value={category} onValueChange={(value) => setCategory(value as CaseCategory | 'all')}>
+              <SelectTrigger className="md:w-44" aria-label="Filter by category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {CASE_CATEGORIES.map((value) => (
+                  <SelectItem key={value} value={value}>{caseCategoryLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={urgency} onValueChange={(value) => setUrgency(value as CaseUrgency | 'all')}>
+              <SelectTrigger className="md:w-40" aria-label="Filter by urgency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any urgency</SelectItem>
+                {CASE_URGENCIES.map((value) => (
+                  <SelectItem key={value} value={value}>{caseUrgencyLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => setSort(value as CaseSort)}>
+              <SelectTrigger className="md:w-44" aria-label="Sort cases">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CASE_SORTS.map((value) => (
+                  <SelectItem key={value} value={value}>{caseSortLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-12">Loading cases...</div>
+          ) : error ? (
+            <div className="text-center py-12">Error loading cases</div>
+          ) : cases.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
               {cases.map((caseItem) => (
                 <Card key={caseItem.id} className="h-full flex flex-col" id={`case-${caseItem.id}`}>
                   <CardHeader>
                     <div className="mb-3">
-                      <CardTitle className="text-xl font-bold mb-3">{caseItem.title}</CardTitle>
+                      <CardTitle className="text-xl font-bold mb-3">
+                        <Link href={`/cases/${caseItem.id}`} className="hover:underline">{caseItem.title}</Link>
+                      </CardTitle>
                       <div className="flex items-center gap-2 flex-wrap">
                         {caseItem.zakaatEligible !== false ? (
                           <Badge
@@ -155,6 +250,17 @@ export default function ActiveCases() {
                             🔄 Recurring monthly donation
                           </Badge>
                         )}
+                        <Badge variant="secondary" className={`${caseUrgencyClasses[caseItem.urgency as CaseUrgency]} font-medium`}>
+                          {caseUrgencyLabels[caseItem.urgency as CaseUrgency]} urgency
+                        </Badge>
+                        <Badge variant="outline" className="text-gray-600 font-medium">
+                          {caseCategoryLabels[caseItem.category as CaseCategory]}
+                        </Badge>
+                        {caseItem.deadline && (
+                          <Badge variant="outline" className="text-gray-600 font-medium">
+                            Until {new Date(caseItem.deadline).toLocaleDateString('en-AU')}
+                          </Badge>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
@@ -172,7 +278,15 @@ export default function ActiveCases() {
                         </Button>
                       </div>
                     </div>
-                    <CardDescription>Case ID: {caseItem.id}</CardDescription>
+                    <CardDescription className="flex items-center gap-3">
+                      <span>Case ID: {caseItem.id}</span>
+                      {caseItem.location && (
+                        <span className="inline-flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {caseItem.location}
+                        </span>
+                      )}
+                    </CardDescription>
                   </CardHeader>
                   <CardContent className="flex-grow">
                     <p className="text-gray-700 mb-4">{caseItem.description}</p>
@@ -191,7 +305,7 @@ export default function ActiveCases() {
                       <div className="flex justify-between text-sm">
                         <span className="font-medium text-gray-500">Progress</span>
                         <span className="font-medium text-gray-700">
-                          {formatAmount(caseItem.amountCollected)} raised
+                          {formatAmount(caseItem.amountCollected, caseItem.currency)} raised
                         </span>
                       </div>
                       <Progress 
@@ -201,13 +315,18 @@ export default function ActiveCases() {
                       <div className="flex justify-between text-sm mt-1">
                         <span className="font-medium text-gray-500">Still needed</span>
                         <span className="font-medium text-gray-700 text-right">
-                          {formatAmount(Math.max(0, caseItem.amountRequired - caseItem.amountCollected))}
+                          {formatAmount(Math.max(0, caseItem.amountRequired - caseItem.amountCollected), caseItem.currency)}
                         </span>
                       </div>
                     </div>
                   </CardContent>
-                  <CardFooter>
-                    <Link href="/">
+                  <CardFooter className="flex flex-col gap-2">
+                    <Link href={`/cases/${caseItem.id}`} className="w-full">
+                      <Button variant="outline" className="w-full">
+                        Updates and details
+                      </Button>
+                    </Link>
+                    <Link href="/" className="w-full">
                       <Button 
                         className="w-full"
                         style={{ backgroundColor: '#2D5A3D', color: '#F5EDD6' }}
@@ -222,9 +341,59 @@ export default function ActiveCases() {
             </div>
           ) : (
             <div className="text-center py-12">
-              <p className="text-xl text-gray-600">No active cases available at the moment.</p>
+              <p className="text-xl text-gray-600">
+                {search || locationFilter || category !== 'all' || urgency !== 'all'
+                  ? 'No cases match these filters.'
+                  : 'No active cases available at the moment.'}
+              </p>
             </div>
           )}
+
+          <div ref={loadMoreRef} className="flex justify-center py-6">
+            {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-gray-400" />}
+          </div>
+
+          {completedCases.length > 0 && (
+            <section className="mt-16">
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 mb-2">Completed Cases</h2>
+                <p className="text-gray-600">Cases where everything donors gave has been paid out for treatment.</p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {completedCases.map((caseItem) => (
+                  <Card key={caseItem.id} className="h-full flex flex-col" id={`case-${caseItem.id}`}>
+                    <CardHeader>
+                      <div className="flex items-start justify-between gap-2">
+                        <CardTitle className="text-xl font-bold">
+                          <Link href={`/cases/${caseItem.id}`} className="hover:underline">{caseItem.title}</Link>
+                        </CardTitle>
+                        <Badge variant="secondary" className="bg-green-100 text-green-800 border-green-200 font-medium">
+                          ✓ Completed
+                        </Badge>
+                      </div>
+                      <CardDescription>
+                        Case ID: {caseItem.id}
+                        {caseItem.completedAt && ` · Completed ${new Date(caseItem.completedAt).toLocaleDateString('en-AU')}`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex-grow">
+                      <p className="text-gray-700 mb-4">{caseItem.description}</p>
+                      <div className="space-y-1 text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-500">Raised</span>
+                          <span className="font-medium text-gray-700">{formatAmount(caseItem.funding.collected, caseItem.currency)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-500">Paid out</span>
+                          <span className="font-medium text-gray-700">{formatAmount(caseItem.funding.disbursed, caseItem.currency)}</span>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          )}
         </div>
       </main>
       <Footer />
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { Loader2, Calendar, Plus } from 'lucide-react';
+import { Loader2, Calendar, Plus, Undo2, RefreshCw } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
@@ -9,7 +9,7 @@ import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -20,7 +20,22 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import CaseManagementForm from '@/components/CaseManagementForm';
 import CaseManagementTable from '@/components/CaseManagementTable';
+import WebhookEventLog from '@/components/WebhookEventLog';
+import OrphanedPaymentQueue from '@/components/OrphanedPaymentQueue';
+import DisputeList from '@/components/DisputeList';
+import DonorStatements from '@/components/DonorStatements';
+import ExchangeRateSettings from '@/components/ExchangeRateSettings';
+import IpCountryDataset from '@/components/IpCountryDataset';
+import FeeScheduleSettings from '@/components/FeeScheduleSettings';
+import MetalPriceSettings from '@/components/MetalPriceSettings';
+import ZakatComplianceReport from '@/components/ZakatComplianceReport';
+import FundLedger from '@/components/FundLedger';
+import MatchPledges from '@/components/MatchPledges';
+import FundraiserModeration from '@/components/FundraiserModeration';
+import Campaigns from '@/components/Campaigns';
+import RefundDonationDialog from '@/components/RefundDonationDialog';
 import { type Case } from '@shared/schema';
+import { BASE_CURRENCY, sumBaseAmounts } from '@shared/currency';
 
 interface Donation {
   id: number;
@@ -34,6 +49,12 @@ interface Donation {
   caseId: number | null;
   caseName?: string; // Added case name from server
   destinationProject: string | null;
+  parentDonationId: number | null;
+  refundedAmount: number;
+  exchangeRate: number | null;
+  baseAmount: number | null;
+  feeAmount: number; // Processing fee the donor covered on top of `amount`
+  grossAmount: number; // What the donor paid: `amount` plus `feeAmount`
   createdAt: string;
   email: string | null;
   name: string | null;
@@ -42,10 +63,15 @@ interface Donation {
 interface PaymentStatistics {
   totalDonations: number;
   totalDonated: number;
+  totalFeesCovered: number;
+  totalGross: number;
+  unconvertedDonations: number; // Donations with no exchange rate yet, left out of the totals
+  baseCurrency: string;
   byStatus: Record<string, number>;
   byType: Record<string, number>;
   byPaymentMethod: Record<string, number>;
   byDestination: Record<string, number>;
+  byCampaign: Array<{ campaignId: number; title: string; goalAmount: number; raisedAmount: number; donationCount: number }>;
 }
 
 interface ClinicStats {
@@ -59,6 +85,8 @@ const statusColors: Record<string, string> = {
   'processing': 'bg-blue-100 text-blue-800',
   'completed': 'bg-green-100 text-green-800',
   'failed': 'bg-red-100 text-red-800',
+  'partially-refunded': 'bg-orange-100 text-orange-800',
+  'refunded': 'bg-gray-200 text-gray-800',
   'unknown': 'bg-gray-100 text-gray-800'
 };
 
@@ -124,6 +152,10 @@ export default function Admin() {
   // For case management
   const [caseFormOpen, setCaseFormOpen] = useState(false);
   const [caseToEdit, setCaseToEdit] = useState<Case | null>(null);
+  const [isRecalculatingTotals, setIsRecalculatingTotals] = useState(false);
+  
+  // For refunds
+  const [donationToRefund, setDonationToRefund] = useState<Donation | null>(null);
   
   // Fetch payment history
   const { 
@@ -335,6 +367,30 @@ export default function Admin() {
     setCaseToEdit(null);
   };
 
+  const handleRecalculateTotals = async () => {
+    setIsRecalculatingTotals(true);
+    try {
+      const res = await apiRequest('POST', '/api/admin/cases/recalculate-totals');
+      const result = await res.json() as { cases: unknown[]; corrected: number };
+      queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/active-zakaat-cases'] });
+      toast({
+        title: "Case totals recalculated",
+        description: result.corrected === 0
+          ? `All ${result.cases.length} case totals already matched their donations`
+          : `${result.corrected} of ${result.cases.length} case totals were corrected`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to recalculate case totals",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRecalculatingTotals(false);
+    }
+  };
+
   if (isLoadingHistory || isLoadingStats || isLoadingClinicStats) {
     return (
       <div className="h-screen flex items-center justify-center">
@@ -377,10 +433,16 @@ export default function Admin() {
   // Calculate summary for filtered donations
   const filteredSummary = {
     count: filteredDonations.length,
-    totalIncoming: filteredDonations
-      .filter(d => d.status === 'completed')
-      .reduce((sum, d) => sum + d.amount, 0),
-    totalOutgoing: 0, // Placeholder for outgoing funds (not in current data model)
+    // Donations with no exchange rate yet are left out of the totals
+    totalIncoming: sumBaseAmounts(
+      filteredDonations.filter(d => d.status === 'completed' || d.status === 'partially-refunded'),
+      d => d.amount - (d.refundedAmount || 0)
+    ).total,
+    totalOutgoing: sumBaseAmounts(filteredDonations, d => d.refundedAmount || 0).total,
+    totalFeesCovered: sumBaseAmounts(
+      filteredDonations.filter(d => d.status === 'completed' || d.status === 'partially-refunded'),
+      d => d.feeAmount || 0
+    ).total,
     byType: filteredDonations.reduce((acc, donation) => {
       const type = donation.type || 'unknown';
       acc[type] = (acc[type] || 0) + 1;
@@ -426,6 +488,15 @@ export default function Admin() {
               <TabsTrigger value="statistics">Statistics</TabsTrigger>
               <TabsTrigger value="cases">Cases</TabsTrigger>
               <TabsTrigger value="manage-stats">Manage Stats</TabsTrigger>
+              <TabsTrigger value="orphaned-payments">Orphaned Payments</TabsTrigger>
+              <TabsTrigger value="disputes">Disputes</TabsTrigger>
+              <TabsTrigger value="statements">Statements</TabsTrigger>
+              <TabsTrigger value="funds">Funds</TabsTrigger>
+              <TabsTrigger value="match-pledges">Matched Giving</TabsTrigger>
+              <TabsTrigger value="fundraisers">Fundraisers</TabsTrigger>
+              <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+              <TabsTrigger value="currencies">Currencies & Fees</TabsTrigger>
+              <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
             </TabsList>
             
             <TabsContent value="overview" className="space-y-6">
@@ -446,7 +517,19 @@ export default function Admin() {
                     <CardDescription>Successfully processed donations</CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <p className="text-3xl font-bold">${stats?.totalDonated.toFixed(2) || '0.00'}</p>
+                    <p className="text-3xl font-bold">
+                      {stats?.baseCurrency || BASE_CURRENCY} {stats?.totalDonated.toFixed(2) || '0.00'}
+                    </p>
+                    {stats && stats.totalFeesCovered > 0 && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        {stats.baseCurrency} {stats.totalGross.toFixed(2)} gross, incl. {stats.totalFeesCovered.toFixed(2)} fees covered
+                      </p>
+                    )}
+                    {stats && stats.unconvertedDonations > 0 && (
+                      <p className="text-sm text-amber-600 mt-1">
+                        {stats.unconvertedDonations} donation{stats.unconvertedDonations === 1 ? '' : 's'} not counted until an exchange rate is stored
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
                 
@@ -603,7 +686,7 @@ export default function Admin() {
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-4">
                       <div>
                         <h3 className="text-sm font-medium text-gray-500 mb-1">Total Donations</h3>
                         <p className="text-2xl font-bold">{filteredSummary.count}</p>
@@ -611,13 +694,19 @@ export default function Admin() {
                       <div>
                         <h3 className="text-sm font-medium text-gray-500 mb-1">Total Incoming</h3>
                         <p className="text-2xl font-bold text-green-600">
-                          ${filteredSummary.totalIncoming.toFixed(2)}
+                          {BASE_CURRENCY} {filteredSummary.totalIncoming.toFixed(2)}
+                        </p>
+                      </div>
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-500 mb-1">Fees Covered by Donors</h3>
+                        <p className="text-2xl font-bold">
+                          {BASE_CURRENCY} {filteredSummary.totalFeesCovered.toFixed(2)}
                         </p>
                       </div>
                       <div>
                         <h3 className="text-sm font-medium text-gray-500 mb-1">Total Outgoing</h3>
                         <p className="text-2xl font-bold text-red-600">
-                          ${filteredSummary.totalOutgoing.toFixed(2)}
+                          {BASE_CURRENCY} {filteredSummary.totalOutgoing.toFixed(2)}
                         </p>
                       </div>
                     </div>
@@ -660,6 +749,7 @@ export default function Admin() {
                           <TableHead>Method</TableHead>
                           <TableHead>Destination</TableHead>
                           <TableHead>Date</TableHead>
+                          <TableHead className="text-right">Refund</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -668,9 +758,33 @@ export default function Admin() {
                             .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
                             .map((donation) => (
                               <TableRow key={donation.id}>
-                                <TableCell>{donation.id}</TableCell>
+                                <TableCell>
+                                  {donation.id}
+                                  {donation.parentDonationId && (
+                                    <span className="block text-xs text-gray-500">
+                                      Installment of #{donation.parentDonationId}
+                                    </span>
+                                  )}
+                                </TableCell>
                                 <TableCell className="capitalize">{donation.type}</TableCell>
-                                <TableCell>{donation.currency} {donation.amount.toFixed(2)}</TableCell>
+                                <TableCell>
+                                  {donation.currency} {donation.amount.toFixed(2)}
+                                  {donation.currency !== BASE_CURRENCY && donation.baseAmount !== null && (
+                                    <span className="block text-xs text-gray-500">
+                                      ≈ {BASE_CURRENCY} {donation.baseAmount.toFixed(2)}
+                                    </span>
+                                  )}
+                                  {donation.feeAmount > 0 && (
+                                    <span className="block text-xs text-gray-500">
+                                      {donation.grossAmount.toFixed(2)} gross, {donation.feeAmount.toFixed(2)} fee covered
+                                    </span>
+                                  )}
+                                  {donation.refundedAmount > 0 && (
+                                    <span className="block text-xs text-red-600">
+                                      -{donation.refundedAmount.toFixed(2)} refunded
+                                    </span>
+                                  )}
+                                </TableCell>
                                 <TableCell>
                                   <Badge className={statusColors[donation.status] || statusColors.unknown}>
                                     {donation.status}
@@ -685,11 +799,18 @@ export default function Admin() {
                                   {new Date(donation.createdAt).toLocaleDateString()} {' '}
                                   {new Date(donation.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                                 </TableCell>
+                                <TableCell className="text-right">
+                                  {(donation.status === 'completed' || donation.status === 'partially-refunded') && (
+                                    <Button variant="ghost" size="sm" onClick={() => setDonationToRefund(donation)}>
+                                      <Undo2 className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </TableCell>
                               </TableRow>
                             ))
                         ) : (
                           <TableRow>
-                            <TableCell colSpan={7} className="text-center py-4 text-gray-500">
+                            <TableCell colSpan={8} className="text-center py-4 text-gray-500">
                               No transactions found matching the filters
                             </TableCell>
                           </TableRow>
@@ -826,7 +947,7 @@ export default function Admin() {
                           .map(([destination, amount]) => (
                             <li key={destination} className="flex justify-between items-center">
                               <span>{destination}</span>
-                              <span className="font-medium">${amount.toFixed(2)}</span>
+                              <span className="font-medium">{stats.baseCurrency} {amount.toFixed(2)}</span>
                             </li>
                           ))
                       ) : (
@@ -835,6 +956,32 @@ export default function Admin() {
                     </ul>
                   </CardContent>
                 </Card>
+                
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Donations by Campaign</CardTitle>
+                    <CardDescription>Completed donations only, net of refunds</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-2">
+                      {stats && stats.byCampaign.length > 0 ? (
+                        stats.byCampaign.map((campaign) => (
+                          <li key={campaign.campaignId} className="flex justify-between items-center">
+                            <span>
+                              {campaign.title}
+                              <span className="text-sm text-gray-500"> · {campaign.donationCount} donations</span>
+                            </span>
+                            <span className="font-medium">
+                              {stats.baseCurrency} {campaign.raisedAmount.toFixed(2)} of {campaign.goalAmount.toFixed(2)}
+                            </span>
+                          </li>
+                        ))
+                      ) : (
+                        <li className="text-center py-4 text-gray-500">No donations through campaigns</li>
+                      )}
+                    </ul>
+                  </CardContent>
+                </Card>
               </div>
             </TabsContent>
             
@@ -1069,10 +1216,20 @@ export default function Admin() {
                   <h2 className="text-2xl font-bold">Case Management</h2>
                   <p className="text-muted-foreground">Manage donation cases and fundraising campaigns</p>
                 </div>
-                <Button onClick={handleCreateCase}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Create New Case
-                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleRecalculateTotals} disabled={isRecalculatingTotals}>
+                    {isRecalculatingTotals ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                    )}
+                    Recalculate Totals
+                  </Button>
+                  <Button onClick={handleCreateCase}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create New Case
+                  </Button>
+                </div>
               </div>
               
               <Card>
@@ -1090,6 +1247,47 @@ export default function Admin() {
                   />
                 </CardContent>
               </Card>
+
+              <ZakatComplianceReport />
+            </TabsContent>
+            
+            <TabsContent value="orphaned-payments" className="space-y-6">
+              <OrphanedPaymentQueue />
+            </TabsContent>
+
+            <TabsContent value="disputes" className="space-y-6">
+              <DisputeList />
+            </TabsContent>
+
+            <TabsContent value="statements" className="space-y-6">
+              <DonorStatements />
+            </TabsContent>
+
+            <TabsContent value="funds" className="space-y-6">
+              <FundLedger />
+            </TabsContent>
+
+            <TabsContent value="match-pledges" className="space-y-6">
+              <MatchPledges />
+            </TabsContent>
+
+            <TabsContent value="fundraisers" className="space-y-6">
+              <FundraiserModeration />
+            </TabsContent>
+
+            <TabsContent value="campaigns" className="space-y-6">
+              <Campaigns />
+            </TabsContent>
+
+            <TabsContent value="currencies" className="space-y-6">
+              <ExchangeRateSettings />
+              <FeeScheduleSettings />
+              <MetalPriceSettings />
+              <IpCountryDataset />
+            </TabsContent>
+            
+            <TabsContent value="webhooks" className="space-y-6">
+              <WebhookEventLog />
             </TabsContent>
           </Tabs>
         </div>
@@ -1102,6 +1300,11 @@ export default function Admin() {
         caseToEdit={caseToEdit}
       />
       
+      <RefundDonationDialog
+        donation={donationToRefund}
+        onOpenChange={(open) => !open && setDonationToRefund(null)}
+      />
+      
       <Footer />
     </div>
   );
@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { Link, useLocation, useRoute } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { BASE_CURRENCY } from '@shared/currency';
+import { type CampaignPhase } from '@shared/campaigns';
+import { type Case, type Fund } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDonation } from '@/components/DonationContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { trackEvent } from '@/lib/analytics';
+import { Check, Link2, Loader2 } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+
+const DONATION_TYPE_LABELS: Record<Fund, string> = {
+  zakaat: 'Zakaat',
+  sadqah: 'Sadqah',
+  interest: 'Interest',
+};
+
+interface PublicCampaign {
+  id: number;
+  slug: string;
+  title: string;
+  summary: string;
+  heroImageUrl: string | null;
+  heroContent: string;
+  goalAmount: number;
+  startsAt: string;
+  endsAt: string;
+  donationTypes: Fund[];
+  phase: CampaignPhase;
+  raisedAmount: number;
+  donationCount: number;
+  cases: Array<Pick<Case, 'id' | 'title' | 'imageUrl' | 'zakaatEligible' | 'amountRequired' | 'amountCollected' | 'currency'>>;
+}
+
+// The goal bar is kept up to date while the page is open
+const PROGRESS_REFRESH_MS = 30_000;
+
+export default function Campaign() {
+  const [, params] = useRoute('/campaigns/:slug');
+  const slug = params?.slug;
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { currency, currencySymbol } = useDonation();
+  const { formatAmount: formatCurrencyAmount, convertAmount } = useCurrency();
+  const [amount, setAmount] = useState('');
+  const [selectedType, setSelectedType] = useState<Fund | null>(null);
+  const [caseId, setCaseId] = useState('any');
+  const [isDonating, setIsDonating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const { data: campaign, isLoading, error } = useQuery<PublicCampaign>({
+    queryKey: [`/api/campaigns/${slug}`],
+    enabled: !!slug,
+    refetchInterval: (query) => (query.state.data?.phase === 'live' ? PROGRESS_REFRESH_MS : false),
+  });
+
+  const formatAmount = (value: number) => formatCurrencyAmount(convertAmount(value, BASE_CURRENCY));
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  // The first type the campaign offers is selected until the donor picks another
+  const type = selectedType ?? campaign?.donationTypes[0] ?? 'sadqah';
+  // Zakat can only go to cases that are eligible for it
+  const cases = (campaign?.cases ?? []).filter((caseItem) => type !== 'zakaat' || caseItem.zakaatEligible);
+
+  const daysLeft = campaign ? Math.ceil((new Date(campaign.endsAt).getTime() - Date.now()) / 86_400_000) : 0;
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDonate = async (item: PublicCampaign) => {
+    const finalAmount = parseFloat(amount);
+    if (isNaN(finalAmount) || finalAmount <= 0) {
+      toast({ title: 'Invalid amount', description: 'Please enter a valid donation amount', variant: 'destructive' });
+      return;
+    }
+    const chosenCase = cases.find((caseItem) => String(caseItem.id) === caseId);
+
+    setIsDonating(true);
+    try {
+      const response = await apiRequest('POST', '/api/donations', {
+        type,
+        amount: finalAmount,
+        currency,
+        frequency: 'one-off',
+        status: 'pending',
+        campaignId: item.id,
+        ...(chosenCase && { caseId: chosenCase.id }),
+      });
+      const donation = await response.json();
+      trackEvent({
+        category: 'Donation', action: type, value: finalAmount,
+        attributes: { currency, donationId: donation.id.toString(), campaignId: item.id.toString() },
+      });
+      sessionStorage.setItem('currentDonation', JSON.stringify({
+        id: donation.id, type, amount: finalAmount, currency, frequency: 'one-off',
+        destinationProject: item.title, caseId: donation.caseId ?? undefined,
+      }));
+      setLocation('/payment');
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to process your donation request. Please try again.',
+        variant: 'destructive',
+      });
+      setIsDonating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-grow">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error || !campaign ? (
+          <div className="text-center py-12">
+            <p className="text-xl text-gray-600">This campaign could not be found.</p>
+          </div>
+        ) : (
+          <>
+            <section
+              className="bg-[#2D5A3D] bg-cover bg-center"
+              style={campaign.heroImageUrl ? { backgroundImage: `linear-gradient(rgba(0,0,0,0.45), rgba(0,0,0,0.45)), url(${campaign.heroImageUrl})` } : undefined}
+            >
+              <div className="container mx-auto px-4 py-20 max-w-3xl text-center text-white">
+                <h1 className="text-4xl md:text-5xl font-bold mb-4">{campaign.title}</h1>
+                <p className="text-lg md:text-xl text-[#F5EDD6]">{campaign.summary}</p>
+              </div>
+            </section>
+
+            <div className="container mx-auto px-4 py-12 max-w-3xl space-y-10">
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>
+                      {formatAmount(campaign.raisedAmount)} raised of {formatAmount(campaign.goalAmount)}
+                    </CardTitle>
+                    <CardDescription>
+                      {campaign.donationCount} {campaign.donationCount === 1 ? 'donation' : 'donations'} ·{' '}
+                      {campaign.phase === 'upcoming'
+                        ? `Opens ${formatDate(campaign.startsAt)}`
+                        : campaign.phase === 'live'
+                          ? `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`
+                          : `Ended ${formatDate(campaign.endsAt)}`}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={copyLink}>
+                    {copied ? <Check className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+                    {copied ? 'Copied' : 'Share'}
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <Progress
+                    value={Math.min((campaign.raisedAmount / campaign.goalAmount) * 100, 100)}
+                    className="h-3"
+                  />
+                </CardContent>
+                {campaign.phase === 'live' ? (
+                  <CardFooter className="flex flex-col gap-3 items-stretch">
+                    {campaign.donationTypes.length > 1 && (
+                      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${campaign.donationTypes.length}, minmax(0, 1fr))` }}>
+                        {campaign.donationTypes.map((key) => (
+                          <Button
+                            key={key}
+                            type="button"
+                            variant={type === key ? 'default' : 'outline'}
+                            onClick={() => { setSelectedType(key); setCaseId('any'); }}
+                          >
+                            {DONATION_TYPE_LABELS[key]}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    {cases.length > 0 && (
+                      <Select value={caseId} onValueChange={setCaseId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Where it's needed most</SelectItem>
+                          {cases.map((caseItem) => (
+                            <SelectItem key={caseItem.id} value={String(caseItem.id)}>{caseItem.title}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleDonate(campaign);
+                      }}
+                    >
+                      <div className="flex flex-1">
+                        <div className="bg-[#F0F9F4] flex items-center px-3 rounded-l-md border border-r-0 text-sm text-gray-600">
+                          {currencySymbol}
+                        </div>
+                        <Input
+                          type="number"
+                          className="rounded-l-none"
+                          placeholder="Amount"
+                          min="0.01"
+                          step="0.01"
+                          value={amount}
+                          onChange={(e) => setAmount(e.target.value)}
+                        />
+                      </div>
+                      <Button
+                        type="submit"
+                        style={{ backgroundColor: '#2D5A3D', color: '#F5EDD6' }}
+                        disabled={isDonating}
+                      >
+                        {isDonating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Donate
+                      </Button>
+                    </form>
+                  </CardFooter>
+                ) : (
+                  <CardFooter>
+                    <p className="text-sm text-gray-600">
+                      {campaign.phase === 'upcoming'
+                        ? `This campaign opens for donations on ${formatDate(campaign.startsAt)}.`
+                        : 'This campaign has ended. Thank you to everyone who gave.'}
+                    </p>
+                  </CardFooter>
+                )}
+              </Card>
+
+              <section>
+                <p className="text-gray-700 whitespace-pre-line">{campaign.heroContent}</p>
+              </section>
+
+              {campaign.cases.length > 0 && (
+                <section>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-6">Cases in this campaign</h2>
+                  <ul className="divide-y border rounded-lg">
+                    {campaign.cases.map((caseItem) => (
+                      <li key={caseItem.id} className="p-4 space-y-2">
+                        <Link href={`/cases/${caseItem.id}`} className="font-medium text-[#2D5A3D] hover:underline">
+                          {caseItem.title}
+                        </Link>
+                        <Progress
+                          value={Math.min((caseItem.amountCollected / caseItem.amountRequired) * 100, 100)}
+                          className="h-2"
+                        />
+                        <div className="text-sm text-gray-500">
+                          {formatCurrencyAmount(convertAmount(caseItem.amountCollected, caseItem.currency))} of{' '}
+                          {formatCurrencyAmount(convertAmount(caseItem.amountRequired, caseItem.currency))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Link, useRoute } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Case, CaseUpdate } from '@shared/schema';
+import { isAcceptingDonations } from '@shared/case-lifecycle';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import type { CaseImageWithUrls } from '@/components/CaseImageManager';
+import { useDonation } from '@/components/DonationContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+
+export default function CaseDetail() {
+  const [, params] = useRoute('/cases/:id');
+  const caseId = params?.id;
+  const { setType, setSelectedCase } = useDonation();
+  const { formatAmount: formatCurrencyAmount, convertAmount } = useCurrency();
+
+  const { data: caseItem, isLoading, error } = useQuery<Case>({
+    queryKey: [`/api/cases/${caseId}`],
+    enabled: !!caseId,
+  });
+
+  const { data: updates = [] } = useQuery<CaseUpdate[]>({
+    queryKey: [`/api/cases/${caseId}/updates`],
+    enabled: !!caseId,
+  });
+
+  const { data: images = [] } = useQuery<CaseImageWithUrls[]>({
+    queryKey: [`/api/cases/${caseId}/images`],
+    enabled: !!caseId,
+  });
+  const [openImage, setOpenImage] = useState<CaseImageWithUrls | null>(null);
+
+  const formatAmount = (amount: number, fromCurrency?: string) =>
+    formatCurrencyAmount(convertAmount(amount, fromCurrency));
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  const handleDonateClick = (item: Case) => {
+    // Zakat can't go to a case that isn't eligible for it
+    setType(item.zakaatEligible ? 'zakaat' : 'sadqah');
+    setSelectedCase(item);
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-grow">
+        <div className="container mx-auto px-4 py-12 max-w-3xl">
+          <Link href="/active-cases" className="inline-flex items-center text-sm text-gray-600 hover:underline mb-6">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            All cases
+          </Link>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center p-12">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : error || !caseItem ? (
+            <div className="text-center py-12">
+              <p className="text-xl text-gray-600">This case could not be found.</p>
+            </div>
+          ) : (
+            <div className="space-y-10">
+              <Card>
+                {caseItem.imageUrl && (
+                  <img src={caseItem.imageUrl} alt={caseItem.title} className="w-full max-h-96 object-cover rounded-t-lg" />
+                )}
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-3xl font-bold">{caseItem.title}</CardTitle>
+                    {caseItem.status === 'completed' ? (
+                      <Badge variant="secondary" className="bg-green-100 text-green-800 border-green-200 font-medium">
+                        ✓ Completed
+                      </Badge>
+                    ) : caseItem.status === 'funded' ? (
+                      <Badge variant="secondary" className="bg-blue-100 text-blue-800 border-blue-200 font-medium">
+                        ✓ Fully funded
+                      </Badge>
+                    ) : caseItem.zakaatEligible && (
+                      <Badge variant="secondary" className="bg-green-100 text-green-800 border-green-200 font-medium">
+                        ✓ Zakaat Eligible
+                      </Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    Case ID: {caseItem.id}
+                    {caseItem.deadline && (
+                      <> · {isAcceptingDonations(caseItem) ? 'Taking donations until' : 'Closed on'} {formatDate(caseItem.deadline)}</>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-gray-700 mb-6 whitespace-pre-line">{caseItem.description}</p>
+                  {images.length > 1 && (
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mb-6">
+                      {images.map((image) => (
+                        <button
+                          key={image.id}
+                          type="button"
+                          onClick={() => setOpenImage(image)}
+                          className="rounded-md overflow-hidden border focus:outline-none focus:ring-2 focus:ring-green-700"
+                        >
+                          <img src={image.urls.thumbnail} alt={caseItem.title} loading="lazy" className="w-full aspect-[4/3] object-cover" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium text-gray-500">Progress</span>
+                      <span className="font-medium text-gray-700">
+                        {formatAmount(caseItem.amountCollected, caseItem.currency)} raised of {formatAmount(caseItem.amountRequired, caseItem.currency)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={Math.min((caseItem.amountCollected / caseItem.amountRequired) * 100, 100)}
+                      className="h-2"
+                    />
+                  </div>
+                </CardContent>
+                {isAcceptingDonations(caseItem) && (
+                  <CardFooter>
+                    <Link href="/">
+                      <Button
+                        className="w-full"
+                        style={{ backgroundColor: '#2D5A3D', color: '#F5EDD6' }}
+                        onClick={() => handleDonateClick(caseItem)}
+                      >
+                        Donate to this case
+                      </Button>
+                    </Link>
+                  </CardFooter>
+                )}
+              </Card>
+
+              <section>
+                <h2 className="text-2xl font-bold text-gray-900 mb-6">Updates</h2>
+                {updates.length === 0 ? (
+                  <p className="text-gray-600">There are no updates on this case yet.</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2">
+                    {updates.map((update) => (
+                      <li key={update.id} className="mb-8 ml-6">
+                        <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-[#2D5A3D]" />
+                        <time className="text-sm font-medium text-gray-500">{formatDate(update.createdAt)}</time>
+                        <p className="mt-2 text-gray-700 whitespace-pre-line">{update.body}</p>
+                        {update.imageUrl && (
+                          <img src={update.imageUrl} alt="" className="mt-3 max-h-80 rounded-md object-cover" />
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            </div>
+          )}
+        </div>
+      </main>
+      <Dialog open={!!openImage} onOpenChange={(open) => !open && setOpenImage(null)}>
+        <DialogContent className="sm:max-w-4xl p-2">
+          <DialogTitle className="sr-only">{caseItem?.title}</DialogTitle>
+          {openImage && (
+            <img src={openImage.urls.large} alt={caseItem?.title} className="w-full max-h-[80vh] object-contain" />
+          )}
+        </DialogContent>
+      </Dialog>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { Link, useRoute } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+
+interface CaseUpdateSubscription {
+  caseId: number;
+  caseTitle: string;
+  email: string;
+  unsubscribed: boolean;
+}
+
+export default function CaseUpdatesUnsubscribe() {
+  const [, params] = useRoute('/case-updates/unsubscribe/:token');
+  const unsubscribeUrl = `/api/case-updates/unsubscribe/${params?.token}`;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<CaseUpdateSubscription>({
+    queryKey: [unsubscribeUrl],
+    enabled: !!params?.token,
+  });
+
+  // Unsubscribing takes a click, so link scanners that open the email don't unsubscribe the donor
+  const unsubscribeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', unsubscribeUrl);
+      return response.json() as Promise<CaseUpdateSubscription>;
+    },
+    onSuccess: (subscription) => {
+      queryClient.setQueryData([unsubscribeUrl], subscription);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to unsubscribe',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      );
+    }
+
+    if (error || !data) {
+      return (
+        <Card className="max-w-lg mx-auto">
+          <CardHeader>
+            <CardTitle>Link not valid</CardTitle>
+            <CardDescription>
+              This unsubscribe link is not valid. Please use the link from your most recent case update email.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+
+    return (
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle>Case updates</CardTitle>
+          <CardDescription>{data.caseTitle}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data.unsubscribed ? (
+            <p className="text-gray-700">
+              {data.email} will no longer receive emails about updates to this case. You can still follow it on the{' '}
+              <Link href={`/cases/${data.caseId}`} className="text-primary hover:underline">case page</Link>.
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-700">
+                Stop emailing {data.email} when there is an update on this case?
+              </p>
+              <Button onClick={() => unsubscribeMutation.mutate()} disabled={unsubscribeMutation.isPending}>
+                {unsubscribeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Unsubscribe
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-grow">
+        <div className="container mx-auto px-4 py-12">{renderContent()}</div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { Link, useLocation, useRoute } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { BASE_CURRENCY } from '@shared/currency';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useDonation } from '@/components/DonationContext';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { trackEvent } from '@/lib/analytics';
+import { HeartHandshake, Loader2 } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+
+interface PublicFundraiser {
+  id: number;
+  slug: string;
+  ownerName: string;
+  title: string;
+  story: string;
+  goalAmount: number;
+  createdAt: string;
+  case: { id: number; title: string; zakaatEligible: boolean } | null;
+  raisedAmount: number;
+  supporters: Array<{ name: string; amount: number; createdAt: string }>;
+  acceptingDonations: boolean;
+}
+
+export default function Fundraiser() {
+  const [, params] = useRoute('/fundraise/:slug');
+  const slug = params?.slug;
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { currency, currencySymbol } = useDonation();
+  const { formatAmount: formatCurrencyAmount, convertAmount } = useCurrency();
+  const [amount, setAmount] = useState('');
+  const [type, setType] = useState<'sadqah' | 'zakaat'>('sadqah');
+  const [anonymous, setAnonymous] = useState(false);
+  const [isDonating, setIsDonating] = useState(false);
+
+  const { data: fundraiser, isLoading, error } = useQuery<PublicFundraiser>({
+    queryKey: [`/api/fundraisers/${slug}`],
+    enabled: !!slug,
+  });
+
+  const formatAmount = (value: number) => formatCurrencyAmount(convertAmount(value, BASE_CURRENCY));
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  // Zakat can only be given through a fundraiser for a case that is eligible for it
+  const canGiveZakat = !!fundraiser?.case?.zakaatEligible;
+
+  const handleDonate = async (item: PublicFundraiser) => {
+    const finalAmount = parseFloat(amount);
+    if (isNaN(finalAmount) || finalAmount <= 0) {
+      toast({ title: 'Invalid amount', description: 'Please enter a valid donation amount', variant: 'destructive' });
+      return;
+    }
+    const donationType = canGiveZakat ? type : 'sadqah';
+
+    setIsDonating(true);
+    try {
+      const response = await apiRequest('POST', '/api/donations', {
+        type: donationType,
+        amount: finalAmount,
+        currency,
+        frequency: 'one-off',
+        status: 'pending',
+        fundraiserId: item.id,
+        anonymous,
+      });
+      const donation = await response.json();
+      trackEvent({
+        category: 'Donation', action: donationType, value: finalAmount,
+        attributes: { currency, donationId: donation.id.toString(), fundraiserId: item.id.toString() },
+      });
+      sessionStorage.setItem('currentDonation', JSON.stringify({
+        id: donation.id, type: donationType, amount: finalAmount, currency, frequency: 'one-off', caseId: donation.caseId ?? undefined,
+      }));
+      setLocation('/payment');
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to process your donation request. Please try again.',
+        variant: 'destructive',
+      });
+      setIsDonating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-grow">
+        <div className="container mx-auto px-4 py-12 max-w-3xl">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-12">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : error || !fundraiser ? (
+            <div className="text-center py-12">
+              <p className="text-xl text-gray-600">This fundraiser could not be found.</p>
+            </div>
+          ) : (
+            <div className="space-y-10">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-3xl font-bold">{fundraiser.title}</CardTitle>
+                  <CardDescription>
+                    Organised by {fundraiser.ownerName} for{' '}
+                    {fundraiser.case ? (
+                      <Link href={`/cases/${fundraiser.case.id}`} className="text-[#2D5A3D] hover:underline">
+                        {fundraiser.case.title}
+                      </Link>
+                    ) : (
+                      'Aafiyaa'
+                    )}
+                    {' '}· Started {formatDate(fundraiser.createdAt)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-gray-700 mb-6 whitespace-pre-line">{fundraiser.story}</p>
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium text-gray-500">
+                        {fundraiser.supporters.length} {fundraiser.supporters.length === 1 ? 'supporter' : 'supporters'}
+                      </span>
+                      <span className="font-medium text-gray-700">
+                        {formatAmount(fundraiser.raisedAmount)} raised of {formatAmount(fundraiser.goalAmount)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={Math.min((fundraiser.raisedAmount / fundraiser.goalAmount) * 100, 100)}
+                      className="h-2"
+                    />
+                  </div>
+                </CardContent>
+                {fundraiser.acceptingDonations ? (
+                  <CardFooter className="flex flex-col gap-3 items-stretch">
+                    {canGiveZakat && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {(['sadqah', 'zakaat'] as const).map((key) => (
+                          <Button
+                            key={key}
+                            type="button"
+                            variant={type === key ? 'default' : 'outline'}
+                            onClick={() => setType(key)}
+                          >
+                            {key === 'sadqah' ? 'Sadqah' : 'Zakaat'}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleDonate(fundraiser);
+                      }}
+                    >
+                      <div className="flex flex-1">
+                        <div className="bg-[#F0F9F4] flex items-center px-3 rounded-l-md border border-r-0 text-sm text-gray-600">
+                          {currencySymbol}
+                        </div>
+                        <Input
+                          type="number"
+                          className="rounded-l-none"
+                          placeholder="Amount"
+                          min="0.01"
+                          step="0.01"
+                          value={amount}
+                          onChange={(e) => setAmount(e.target.value)}
+                        />
+                      </div>
+                      <Button
+                        type="submit"
+                        style={{ backgroundColor: '#2D5A3D', color: '#F5EDD6' }}
+                        disabled={isDonating}
+                      >
+                        {isDonating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Donate
+                      </Button>
+                    </form>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="fundraiser-anonymous"
+                        checked={anonymous}
+                        onCheckedChange={(checked) => setAnonymous(checked === true)}
+                      />
+                      <Label htmlFor="fundraiser-anonymous">Don't show my name in the supporter list</Label>
+                    </div>
+                  </CardFooter>
+                ) : (
+                  <CardFooter>
+                    <p className="text-sm text-gray-600">The case this fundraiser supports is no longer taking donations.</p>
+                  </CardFooter>
+                )}
+              </Card>
+
+              <section>
+                <h2 className="text-2xl font-bold text-gray-900 mb-6">Supporters</h2>
+                {fundraiser.supporters.length === 0 ? (
+                  <p className="text-gray-600">Be the first to support {fundraiser.ownerName}'s fundraiser.</p>
+                ) : (
+                  <ul className="divide-y border rounded-lg">
+                    {fundraiser.supporters.map((supporter, index) => (
+                      <li key={index} className="flex items-center justify-between p-4">
+                        <div className="flex items-center gap-3">
+                          <HeartHandshake className="h-5 w-5 text-[#2D5A3D]" />
+                          <div>
+                            <div className="font-medium text-gray-900">{supporter.name}</div>
+                            <div className="text-xs text-gray-500">{formatDate(supporter.createdAt)}</div>
+                          </div>
+                        </div>
+                        <span className="font-medium text-gray-700">{formatAmount(supporter.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { useRoute } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import { loadStripe } from '@stripe/stripe-js';
+import { Donation } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Pause, Play, SkipForward, CreditCard, XCircle } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+interface ManagedSubscription {
+  donation: Donation;
+  paused: boolean;
+  card: { brand: string; last4: string } | null;
+}
+
+// Card form shown after the server has created a SetupIntent for the donor's customer
+const UpdateCardForm = ({ onConfirmed, onCancel }: { onConfirmed: (setupIntentId: string) => void; onCancel: () => void }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsSaving(true);
+    const { error, setupIntent } = await stripe.confirmSetup({
+      elements,
+      redirect: 'if_required',
+    });
+    setIsSaving(false);
+
+    if (error || !setupIntent) {
+      toast({
+        title: 'Card not saved',
+        description: error?.message || 'Your card could not be confirmed',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    onConfirmed(setupIntent.id);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <div className="flex gap-2">
+        <Button type="submit" disabled={!stripe || isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save card
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default function ManageSubscription() {
+  const [, params] = useRoute('/manage-subscription/:token');
+  const token = params?.token || '';
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newAmount, setNewAmount] = useState('');
+  const [newFrequency, setNewFrequency] = useState<string>('');
+  const [cardClientSecret, setCardClientSecret] = useState<string | null>(null);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+
+  const queryKey = [`/api/manage-subscription/${token}`];
+  const { data, isLoading, error } = useQuery<ManagedSubscription>({
+    queryKey,
+    enabled: !!token,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: string; body?: unknown }) => {
+      const response = await apiRequest('POST', `/api/manage-subscription/${token}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setNewAmount('');
+      setNewFrequency('');
+      setCardClientSecret(null);
+      setCancelDialogOpen(false);
+      toast({
+        title: 'Recurring donation updated',
+        description: 'We have emailed you a confirmation of this change.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update recurring donation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const startCardUpdate = async () => {
+    try {
+      const response = await apiRequest('POST', `/api/manage-subscription/${token}/setup-intent`);
+      const { clientSecret } = await response.json();
+      setCardClientSecret(clientSecret);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to start card update',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleChange = () => {
+    const body: { amount?: number; frequency?: string } = {};
+    if (newAmount) body.amount = parseFloat(newAmount);
+    if (newFrequency) body.frequency = newFrequency;
+    actionMutation.mutate({ action: 'change', body });
+  };
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: currency || 'AUD',
+    }).format(amount);
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      );
+    }
+
+    if (error || !data) {
+      return (
+        <Card className="max-w-lg mx-auto">
+          <CardHeader>
+            <CardTitle>Link expired</CardTitle>
+            <CardDescription>
+              This management link is invalid or has expired. Sign in to My Giving to get a new one, or contact us at info@aafiyaa.com.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+
+    const { donation } = data;
+    const isCancelled = donation.status === 'subscription-cancelled';
+    const isBusy = actionMutation.isPending;
+
+    return (
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {formatAmount(donation.amount, donation.currency)} {donation.frequency}
+            </CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              <Badge variant="outline">{donation.subscriptionStatus || donation.status}</Badge>
+              {donation.nextPaymentDate && !isCancelled && (
+                <span>Next payment: {new Date(donation.nextPaymentDate).toLocaleDateString('en-AU')}</span>
+              )}
+            </CardDescription>
+          </CardHeader>
+          {data.card && (
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Paying with {data.card.brand} ending in {data.card.last4}
+              </p>
+            </CardContent>
+          )}
+        </Card>
+
+        {!isCancelled && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Pause or skip</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {data.paused && donation.subscriptionStatus === 'paused' ? (
+                  <Button variant="outline" onClick={() => actionMutation.mutate({ action: 'resume' })} disabled={isBusy}>
+                    <Play className="h-4 w-4 mr-2" />
+                    Resume
+                  </Button>
+                ) : (
+                  <>
+                    <Button variant="outline" onClick={() => actionMutation.mutate({ action: 'pause' })} disabled={isBusy}>
+                      <Pause className="h-4 w-4 mr-2" />
+                      Pause
+                    </Button>
+                    <Button variant="outline" onClick={() => actionMutation.mutate({ action: 'skip-next' })} disabled={isBusy || data.paused}>
+                      <SkipForward className="h-4 w-4 mr-2" />
+                      Skip next payment
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Change amount or frequency</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-col md:flex-row gap-2">
+                <Input
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  placeholder={`Amount (${donation.currency})`}
+                  value={newAmount}
+                  onChange={(e) => setNewAmount(e.target.value)}
+                />
+                <Select value={newFrequency} onValueChange={setNewFrequency}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Frequency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleChange} disabled={isBusy || (!newAmount && !newFrequency)}>
+                  Update
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Payment card</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {cardClientSecret && stripePromise ? (
+                  <Elements stripe={stripePromise} options={{ clientSecret: cardClientSecret }}>
+                    <UpdateCardForm
+                      onConfirmed={(setupIntentId) =>
+                        actionMutation.mutate({ action: 'payment-method', body: { setupIntentId } })
+                      }
+                      onCancel={() => setCardClientSecret(null)}
+                    />
+                  </Elements>
+                ) : (
+                  <Button variant="outline" onClick={startCardUpdate} disabled={isBusy || !stripePromise}>
+                    <CreditCard className="h-4 w-4 mr-2" />
+                    Update card
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="text-center">
+              <Button variant="ghost" className="text-red-600" onClick={() => setCancelDialogOpen(true)} disabled={isBusy}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel recurring donation
+              </Button>
+            </div>
+          </>
+        )}
+
+        <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel recurring donation?</AlertDialogTitle>
+              <AlertDialogDescription>
+                No further payments will be taken. You can always set up a new recurring donation later.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isBusy}>Keep donating</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => actionMutation.mutate({ action: 'cancel' })}
+                disabled={isBusy}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Cancel donation
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-grow">
+        <div className="container mx-auto px-4 py-12">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">Your Recurring Donation</h1>
+            <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+              Pause, skip, change or cancel your regular gift at any time.
+            </p>
+          </div>
+          {renderContent()}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
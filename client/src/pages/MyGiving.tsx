@@ -0,0 +1,414 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Donation, type StatementTotal } from '@shared/schema';
+import { apiRequest, getQueryFn } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Download, Mail, LogOut, Settings } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import MyFundraisers from '@/components/MyFundraisers';
+
+interface DonorAccount {
+  authenticated: boolean;
+  user: {
+    id: number;
+    email: string;
+  };
+}
+
+type GivingHistoryItem = Donation & {
+  caseName?: string;
+  receiptNumber: string | null;
+  receiptAvailable: boolean;
+  manageUrl: string | null;
+};
+
+interface DonorStatementItem {
+  id: number;
+  statementNumber: string;
+  periodLabel: string;
+  donationCount: number;
+  totals: StatementTotal[];
+  createdAt: string;
+}
+
+const statusColors: Record<string, string> = {
+  'completed': 'bg-green-100 text-green-800 border-green-200',
+  'active-subscription': 'bg-blue-100 text-blue-800 border-blue-200',
+  'processing': 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  'failed': 'bg-red-100 text-red-800 border-red-200',
+  'subscription-cancelled': 'bg-gray-100 text-gray-800 border-gray-200',
+  'partially-refunded': 'bg-orange-100 text-orange-800 border-orange-200',
+  'refunded': 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+const typeLabels: Record<string, string> = {
+  zakaat: 'Zakaat',
+  sadqah: 'Sadqah',
+  interest: 'Interest',
+};
+
+export default function MyGiving() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const { data: account, isLoading: accountLoading } = useQuery<DonorAccount | null>({
+    queryKey: ['/api/donor/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<GivingHistoryItem[]>({
+    queryKey: ['/api/donor/donations'],
+    enabled: !!account?.authenticated,
+  });
+
+  const { data: statements = [] } = useQuery<DonorStatementItem[]>({
+    queryKey: ['/api/donor/statements'],
+    enabled: !!account?.authenticated,
+  });
+
+  // Exchange the one-time token from the emailed link for a session
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) return;
+
+    // Remove the token from the address bar so it is not bookmarked or shared
+    window.history.replaceState(null, '', window.location.pathname);
+    setIsVerifying(true);
+
+    apiRequest('POST', '/api/donor/verify-login', { token })
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ['/api/donor/me'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/donor/donations'] });
+      })
+      .catch(() => {
+        toast({
+          title: 'Sign-in link expired',
+          description: 'This link is invalid or has already been used. Please request a new one.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setIsVerifying(false));
+  }, [queryClient, toast]);
+
+  const requestLinkMutation = useMutation({
+    mutationFn: async (emailAddress: string) => {
+      const response = await apiRequest('POST', '/api/donor/request-login', { email: emailAddress });
+      return response.json();
+    },
+    onSuccess: () => {
+      setLinkSent(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to send sign-in link',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/donor/logout');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/donor/me'], null);
+      queryClient.removeQueries({ queryKey: ['/api/donor/donations'] });
+      queryClient.removeQueries({ queryKey: ['/api/donor/fundraisers'] });
+      setLinkSent(false);
+    },
+  });
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: currency || 'AUD',
+    }).format(amount);
+  };
+
+  const formatDate = (date: string | Date | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleDateString('en-AU', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  // Each paid installment of a recurring donation is listed with the one-off payments
+  const recurringDonations = history?.filter(d => d.frequency !== 'one-off' && !d.parentDonationId) ?? [];
+  const payments = history?.filter(d => d.frequency === 'one-off' || d.parentDonationId) ?? [];
+
+  const renderStatus = (status: string) => (
+    <Badge variant="outline" className={statusColors[status] || 'bg-gray-100 text-gray-800'}>
+      {status.replace(/-/g, ' ')}
+    </Badge>
+  );
+
+  const renderReceiptLink = (donation: GivingHistoryItem) =>
+    donation.receiptAvailable ? (
+      <a href={`/api/donor/donations/${donation.id}/receipt`}>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-1" />
+          Receipt
+        </Button>
+      </a>
+    ) : (
+      <span className="text-sm text-muted-foreground">—</span>
+    );
+
+  const renderSignIn = () => (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Sign in to My Giving</CardTitle>
+        <CardDescription>
+          Enter the email address you used when donating and we'll send you a one-time sign-in link. No password needed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {linkSent ? (
+          <div className="flex items-start gap-3 bg-green-50 border border-green-200 rounded-lg p-4">
+            <Mail className="h-5 w-5 text-green-700 mt-0.5" />
+            <p className="text-sm text-green-800">
+              Check your inbox for a sign-in link. It can only be used once and expires in 30 minutes.
+            </p>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              requestLinkMutation.mutate(email);
+            }}
+          >
+            <Input
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              style={{ backgroundColor: '#2D5A3D', color: '#F5EDD6' }}
+              disabled={requestLinkMutation.isPending}
+            >
+              {requestLinkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Email me a sign-in link
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderHistory = () => (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <p className="text-gray-600">
+          Signed in as <strong>{account?.user.email}</strong>
+        </p>
+        <Button variant="outline" onClick={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out
+        </Button>
+      </div>
+
+      {historyLoading ? (
+        <div className="flex items-center justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Recurring Donations</CardTitle>
+              <CardDescription>Your weekly and monthly gifts</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {recurringDonations.length === 0 ? (
+                <p className="text-muted-foreground">You have no recurring donations.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>For</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Next Payment</TableHead>
+                      <TableHead className="text-right">Manage</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recurringDonations.map((donation) => (
+                      <TableRow key={donation.id}>
+                        <TableCell>{formatDate(donation.createdAt)}</TableCell>
+                        <TableCell>
+                          {formatAmount(donation.amount, donation.currency)} {donation.frequency}
+                        </TableCell>
+                        <TableCell>{typeLabels[donation.type] || donation.type}</TableCell>
+                        <TableCell>{donation.caseName || donation.destinationProject || 'General'}</TableCell>
+                        <TableCell>{renderStatus(donation.status)}</TableCell>
+                        <TableCell>{formatDate(donation.nextPaymentDate)}</TableCell>
+                        <TableCell className="text-right">
+                          {donation.manageUrl ? (
+                            <a href={donation.manageUrl}>
+                              <Button variant="outline" size="sm">
+                                <Settings className="h-4 w-4 mr-1" />
+                                Manage
+                              </Button>
+                            </a>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Payments</CardTitle>
+              <CardDescription>One-off donations and recurring payments. Download a copy of any receipt.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {payments.length === 0 ? (
+                <p className="text-muted-foreground">You have no payments yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>For</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Receipt</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payments.map((donation) => (
+                      <TableRow key={donation.id}>
+                        <TableCell>{formatDate(donation.createdAt)}</TableCell>
+                        <TableCell>
+                          {formatAmount(donation.amount, donation.currency)}
+                          {donation.parentDonationId && (
+                            <span className="block text-xs text-muted-foreground">{donation.frequency} payment</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{typeLabels[donation.type] || donation.type}</TableCell>
+                        <TableCell>{donation.caseName || donation.destinationProject || 'General'}</TableCell>
+                        <TableCell>{renderStatus(donation.status)}</TableCell>
+                        <TableCell className="text-right">{renderReceiptLink(donation)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {statements.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Yearly Statements</CardTitle>
+                <CardDescription>One statement covering all your donations for the year, for your tax records.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Donations</TableHead>
+                      <TableHead>Totals</TableHead>
+                      <TableHead className="text-right">Statement</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statements.map((statement) => (
+                      <TableRow key={statement.id}>
+                        <TableCell>
+                          {statement.periodLabel}
+                          <span className="block text-xs text-muted-foreground">{statement.statementNumber}</span>
+                        </TableCell>
+                        <TableCell>{statement.donationCount}</TableCell>
+                        <TableCell>
+                          {statement.totals.map((total) => (
+                            <span key={`${total.type}-${total.currency}`} className="block text-sm">
+                              {typeLabels[total.type] || total.type}: {formatAmount(total.amount, total.currency)}
+                            </span>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <a href={`/api/donor/statements/${statement.id}/download`}>
+                            <Button variant="outline" size="sm">
+                              <Download className="h-4 w-4 mr-1" />
+                              Statement
+                            </Button>
+                          </a>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <MyFundraisers />
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-grow">
+        <div className="container mx-auto px-4 py-12">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">My Giving</h1>
+            <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+              View your one-off and recurring donations, download your receipts and yearly statements, and run your own fundraisers.
+            </p>
+          </div>
+
+          {accountLoading || isVerifying ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : account?.authenticated ? (
+            renderHistory()
+          ) : (
+            renderSignIn()
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
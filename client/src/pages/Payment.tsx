@@ -2,7 +2,8 @@ import { useEffect, useState, useCallback } from 'react';
 import { useLocation } from 'wouter';
 import { useStripe, Elements, PaymentElement, useElements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
-import { apiRequest } from '@/lib/queryClient';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
@@ -10,8 +11,10 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from '@/components/ui/button';
 import { Loader2, HelpCircle, CreditCard } from 'lucide-react';
 // Removed Tooltip import - using HTML title for tooltips
-import { useDonation } from '@/components/DonationContext';
+import { useDonation, type FeeBreakdown } from '@/components/DonationContext';
+import { toMinorUnits } from '@shared/money';
 import PaymentMethodSelector from '@/components/PaymentMethodSelector';
+import ZakatCalculator from '@/components/ZakatCalculator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 // PayPal SDK removed temporarily while organization account is under review
 // import { 
@@ -67,6 +70,18 @@ const CheckoutForm = ({ isSubscription = false }: { isSubscription?: boolean })
     }
   }, []);
 
+  // Pre-fill the receipt email for donors signed in to My Giving
+  const { data: donorAccount } = useQuery<{ user: { email: string } } | null>({
+    queryKey: ['/api/donor/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  useEffect(() => {
+    if (donorAccount?.user?.email) {
+      setEmail(current => current || donorAccount.user.email);
+    }
+  }, [donorAccount]);
+
   // Validation helpers for optional receipt
   const hasEmail = email && email.trim() && email.includes('@') && email.includes('.');
   const hasName = name && name.trim() && name.length > 2;
@@ -232,15 +247,17 @@ const CheckoutForm = ({ isSubscription = false }: { isSubscription?: boolean })
         const resolvedName = name || donationDetails?.name || paymentMethod.billing_details?.name || '';
         console.log('[SUBSCRIPTION DEBUG] sending paymentMethodId:', paymentMethod.id, 'donationId:', donationDetails.id, 'email:', resolvedEmail);
 
-        // Create a subscription with the payment method
+        // Create a subscription with the payment method; each installment includes the fee when the donor covers it
+        const fees = await calculateFees(donationDetails.amount, donationDetails.currency, 'stripe');
         const subscriptionResponse = await apiRequest("POST", "/api/create-subscription", {
           donationId: donationDetails.id,
-          amount: donationDetails.amount,
+          amount: fees.totalWithFees,
           currency: donationDetails.currency,
           email: resolvedEmail,
           name: resolvedName,
           paymentMethodId: paymentMethod.id,
-          frequency: donationDetails.frequency
+          frequency: donationDetails.frequency,
+          coverFees
         });
         
         const subscriptionData = await subscriptionResponse.json();
@@ -335,15 +352,16 @@ const CheckoutForm = ({ isSubscription = false }: { isSubscription?: boolean })
         }
 
         // 2. Create the PaymentIntent with the current donation details
-        const fees = calculateFees(donationDetails.amount, 'stripe');
-        const finalAmount = coverFees ? fees.totalWithFees : donationDetails.amount;
+        //    The server charges its own fee quote, so the total sent here is only checked against it
+        const fees = await calculateFees(donationDetails.amount, donationDetails.currency, 'stripe');
 
         console.log('[PAYMENT-SUBMIT] Creating PaymentIntent for donation:', donationDetails.id);
         
         const response = await apiRequest("POST", "/api/create-payment-intent", {
-          amount: finalAmount,
+          amount: fees.totalWithFees,
           currency: donationDetails.currency,
-          donationId: donationDetails.id
+          donationId: donationDetails.id,
+          coverFees
         });
         const data = await response.json();
 
@@ -905,12 +923,8 @@ export default function Payment() {
   const [donationDetails, setDonationDetails] = useState<any>(null);
   const [editableAmount, setEditableAmount] = useState<string>("");
   const [isEditingAmount, setIsEditingAmount] = useState(false);
-  const [feeBreakdown, setFeeBreakdown] = useState<{
-    processingFee: number;
-    totalWithFees: number;
-    donationAmount: number;
-    feeDescription: string;
-  } | null>(null);
+  const [showZakatCalculator, setShowZakatCalculator] = useState(false);
+  const [feeBreakdown, setFeeBreakdown] = useState<FeeBreakdown | null>(null);
 
   useEffect(() => {
     // Get donation details from session storage
@@ -941,8 +955,15 @@ export default function Payment() {
   // Calculate fee breakdown when donation details or payment method changes
   useEffect(() => {
     if (donationDetails && donationDetails.amount) {
-      const fees = calculateFees(donationDetails.amount, paymentMethod);
-      setFeeBreakdown(fees);
+      let cancelled = false;
+      calculateFees(donationDetails.amount, donationDetails.currency, paymentMethod)
+        .then(fees => {
+          if (!cancelled) setFeeBreakdown(fees);
+        })
+        .catch(error => console.error('Failed to quote processing fees:', error));
+      return () => {
+        cancelled = true;
+      };
     }
   }, [donationDetails, paymentMethod, coverFees, calculateFees]);
 
@@ -950,8 +971,8 @@ export default function Payment() {
   // PaymentIntents are only created when the user clicks "Complete Donation"
 
   // Handle amount update
-  const handleAmountUpdate = async () => {
-    const newAmount = parseFloat(editableAmount);
+  const handleAmountUpdate = async (value: string = editableAmount) => {
+    const newAmount = parseFloat(value);
     
     if (!newAmount || newAmount <= 0) {
       toast({
@@ -982,6 +1003,7 @@ export default function Payment() {
     // Note: PaymentIntent will be created when user submits the form
     console.log(`Donation amount updated to: ${newAmount} ${donationDetails.currency}`);
     
+    setEditableAmount(newAmount.toString());
     setIsEditingAmount(false);
     
     toast({
@@ -1043,7 +1065,7 @@ export default function Payment() {
                           </div>
                           <Button 
                             size="sm" 
-                            onClick={handleAmountUpdate}
+                            onClick={() => handleAmountUpdate()}
                             className="h-6 px-2 text-xs"
                           >
                             Save
@@ -1071,6 +1093,16 @@ export default function Payment() {
                           >
                             Edit
                           </Button>
+                          {donationDetails.type === 'zakaat' && (
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => setShowZakatCalculator(true)}
+                              className="h-6 px-2 text-xs"
+                            >
+                              Calculate
+                            </Button>
+                          )}
                         </div>
                       )}
                     </div>
@@ -1082,6 +1114,14 @@ export default function Payment() {
                       <p>Case ID: <span className="font-medium">{donationDetails.caseId}</span></p>
                     )}
                   </div>
+                  {donationDetails.type === 'zakaat' && (
+                    <ZakatCalculator
+                      open={showZakatCalculator}
+                      onOpenChange={setShowZakatCalculator}
+                      currency={donationDetails.currency}
+                      onApply={(zakatDue) => handleAmountUpdate(zakatDue.toString())}
+                    />
+                  )}
                   
                   {/* Payment Fee Breakdown */}
                   {feeBreakdown && (
@@ -1184,7 +1224,7 @@ export default function Payment() {
                         } : {
                           mode: 'payment' as const,
                           currency: donationDetails?.currency?.toLowerCase() || currency?.toLowerCase() || 'usd',
-                          amount: donationDetails ? Math.round((coverFees ? feeBreakdown?.totalWithFees || donationDetails.amount : donationDetails.amount) * 100) : 100,
+                          amount: donationDetails ? toMinorUnits(coverFees ? feeBreakdown?.totalWithFees || donationDetails.amount : donationDetails.amount, donationDetails.currency, 'stripe') : 100,
                           appearance: { 
                             theme: 'stripe',
                             variables: {
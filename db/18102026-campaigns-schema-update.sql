@@ -0,0 +1,27 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds time-boxed campaigns and links donations to them
+
+BEGIN;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "campaign_id" INTEGER;
+
+CREATE TABLE IF NOT EXISTS "campaigns" (
+  "id" SERIAL PRIMARY KEY,
+  "slug" TEXT NOT NULL UNIQUE,
+  "title" TEXT NOT NULL,
+  "summary" TEXT NOT NULL,
+  "hero_image_url" TEXT,
+  "hero_content" TEXT NOT NULL,
+  "goal_amount" REAL NOT NULL,
+  "starts_at" TIMESTAMP NOT NULL,
+  "ends_at" TIMESTAMP NOT NULL,
+  "donation_types" JSON NOT NULL,
+  "case_ids" JSON NOT NULL,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_donations_campaign_id" ON "donations"("campaign_id");
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds case categories, locations and urgency for case search
+
+BEGIN;
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "category" TEXT NOT NULL DEFAULT 'other';
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "location" TEXT;
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "urgency" TEXT NOT NULL DEFAULT 'medium';
+
+CREATE INDEX IF NOT EXISTS "idx_cases_category" ON "cases"("category");
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Keeps case totals in each case's own currency
+
+BEGIN;
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "currency" TEXT NOT NULL DEFAULT 'AUD';
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "case_exchange_rate" REAL;
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds payments made out of each case and the amount disbursed
+
+BEGIN;
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "amount_disbursed" REAL NOT NULL DEFAULT 0;
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "completed_at" TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS "case_disbursements" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "paid_at" TIMESTAMP NOT NULL,
+  "payee" TEXT NOT NULL,
+  "method" TEXT NOT NULL,
+  "document_reference" TEXT,
+  "notes" TEXT,
+  "recorded_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_case_disbursements_case_id" ON "case_disbursements"("case_id");
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds uploaded case photos for the case gallery
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "case_images" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "storage_key" TEXT NOT NULL UNIQUE,
+  "width" INTEGER NOT NULL,
+  "height" INTEGER NOT NULL,
+  "position" INTEGER NOT NULL DEFAULT 0,
+  "uploaded_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_case_images_case_id" ON "case_images"("case_id");
+
+COMMIT;
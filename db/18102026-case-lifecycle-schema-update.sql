@@ -0,0 +1,22 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds case lifecycle states, deadlines and over-funding policies
+
+BEGIN;
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "status" TEXT NOT NULL DEFAULT 'open';
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "deadline" TIMESTAMP;
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "overfunding_policy" TEXT NOT NULL DEFAULT 'allow_surplus';
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "case_credit_amount" REAL;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "surplus_case_id" INTEGER;
+
+CREATE INDEX IF NOT EXISTS "idx_cases_status" ON "cases"("status");
+
+-- Cases that were switched off before they had a status are closed
+UPDATE "cases" SET "status" = 'closed' WHERE "active" = FALSE AND "status" = 'open';
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds case update timelines and donor unsubscribes from update emails
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "case_updates" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "body" TEXT NOT NULL,
+  "image_url" TEXT,
+  "posted_by" TEXT,
+  "notified_donors" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS "case_update_unsubscribes" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "email" TEXT NOT NULL,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE ("case_id", "email")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_case_updates_case_id" ON "case_updates"("case_id");
+
+COMMIT;
@@ -0,0 +1,26 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds Stripe disputes
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "disputes" (
+  "id" SERIAL PRIMARY KEY,
+  "stripe_dispute_id" TEXT NOT NULL UNIQUE,
+  "stripe_charge_id" TEXT,
+  "payment_intent_id" TEXT,
+  "donation_id" INTEGER,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "reason" TEXT,
+  "status" TEXT NOT NULL,
+  "outcome" TEXT,
+  "evidence_due_by" TIMESTAMP,
+  "amount_reversed_at" TIMESTAMP,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_disputes_donation_id" ON "disputes"("donation_id");
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Lets donors leave their name off public supporter lists
+
+BEGIN;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "anonymous" BOOLEAN NOT NULL DEFAULT false;
+
+COMMIT;
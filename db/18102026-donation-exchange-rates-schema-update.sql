@@ -0,0 +1,11 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Stores the exchange rate and base currency (AUD) amount on donations
+
+BEGIN;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "exchange_rate" REAL;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "base_amount" REAL;
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds one-time sign-in links for donor accounts
+-- Requires db/21092025-schema-update.sql to have been applied
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS donor_login_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_login_tokens_user_id ON donor_login_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+
+COMMIT;
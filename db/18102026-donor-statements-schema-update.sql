@@ -0,0 +1,28 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds yearly consolidated donor statements
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "donor_statements" (
+  "id" SERIAL PRIMARY KEY,
+  "statement_number" TEXT NOT NULL UNIQUE,
+  "donor_email" TEXT NOT NULL,
+  "donor_name" TEXT,
+  "period_type" TEXT NOT NULL,
+  "period_year" INTEGER NOT NULL,
+  "period_start" TIMESTAMP NOT NULL,
+  "period_end" TIMESTAMP NOT NULL,
+  "donation_count" INTEGER NOT NULL,
+  "totals" JSON NOT NULL,
+  "file_path" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "generated_at" TIMESTAMP,
+  "sent_at" TIMESTAMP,
+  "error_message" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_donor_statements_period" ON "donor_statements"("period_type", "period_year", "donor_email");
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds the stored exchange rate table with manual overrides
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+  "id" SERIAL PRIMARY KEY,
+  "currency" TEXT NOT NULL UNIQUE,
+  "rate" REAL,
+  "source" TEXT,
+  "fetched_at" TIMESTAMP,
+  "override_rate" REAL,
+  "override_set_by" TEXT,
+  "override_set_at" TIMESTAMP,
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds processing fee schedules and the covered fee on donations
+
+BEGIN;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "fee_amount" REAL NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS "fee_schedules" (
+  "id" SERIAL PRIMARY KEY,
+  "payment_method" TEXT NOT NULL,
+  "currency" TEXT NOT NULL,
+  "percentage" REAL NOT NULL,
+  "fixed_fee" REAL NOT NULL DEFAULT 0,
+  "updated_by" TEXT,
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE ("payment_method", "currency")
+);
+
+COMMIT;
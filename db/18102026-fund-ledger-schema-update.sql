@@ -0,0 +1,26 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds the segregated zakat, sadqah and interest fund ledger
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "fund_ledger_entries" (
+  "id" SERIAL PRIMARY KEY,
+  "fund" TEXT NOT NULL,
+  "entry_type" TEXT NOT NULL,
+  "amount" REAL NOT NULL,
+  "donation_id" INTEGER,
+  "recipient_type" TEXT,
+  "case_id" INTEGER,
+  "recipient" TEXT,
+  "description" TEXT NOT NULL,
+  "reference" TEXT,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "fund_ledger_entries_donation_credit_idx" ON "fund_ledger_entries"("donation_id") WHERE "entry_type" = 'donation';
+
+CREATE INDEX IF NOT EXISTS "idx_fund_ledger_entries_fund" ON "fund_ledger_entries"("fund");
+
+COMMIT;
@@ -0,0 +1,29 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds supporter fundraiser pages and links donations to them
+
+BEGIN;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "fundraiser_id" INTEGER;
+
+CREATE TABLE IF NOT EXISTS "fundraisers" (
+  "id" SERIAL PRIMARY KEY,
+  "slug" TEXT NOT NULL UNIQUE,
+  "owner_user_id" INTEGER NOT NULL,
+  "owner_name" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "story" TEXT NOT NULL,
+  "goal_amount" REAL NOT NULL,
+  "case_id" INTEGER,
+  "status" TEXT NOT NULL DEFAULT 'pending_review',
+  "moderated_by" TEXT,
+  "moderated_at" TIMESTAMP,
+  "moderation_note" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_donations_fundraiser_id" ON "donations"("fundraiser_id");
+
+CREATE INDEX IF NOT EXISTS "idx_fundraisers_owner_user_id" ON "fundraisers"("owner_user_id");
+
+COMMIT;
@@ -0,0 +1,33 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds sponsor match pledges and what each has given towards donations
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "match_pledges" (
+  "id" SERIAL PRIMARY KEY,
+  "sponsor_name" TEXT NOT NULL,
+  "ratio" REAL NOT NULL,
+  "cap_amount" REAL NOT NULL,
+  "starts_at" TIMESTAMP NOT NULL,
+  "ends_at" TIMESTAMP NOT NULL,
+  "case_id" INTEGER,
+  "donation_type" TEXT,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS "match_contributions" (
+  "id" SERIAL PRIMARY KEY,
+  "pledge_id" INTEGER NOT NULL,
+  "donation_id" INTEGER NOT NULL,
+  "entry_type" TEXT NOT NULL,
+  "amount" REAL NOT NULL,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "match_contributions_donation_match_idx" ON "match_contributions"("pledge_id", "donation_id") WHERE "entry_type" = 'match';
+
+CREATE INDEX IF NOT EXISTS "idx_match_contributions_donation_id" ON "match_contributions"("donation_id");
+
+COMMIT;
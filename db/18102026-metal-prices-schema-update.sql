@@ -0,0 +1,15 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds admin-set gold and silver prices for the zakat calculator
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "metal_prices" (
+  "id" SERIAL PRIMARY KEY,
+  "metal" TEXT NOT NULL UNIQUE,
+  "price_per_gram" REAL NOT NULL,
+  "updated_by" TEXT,
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMIT;
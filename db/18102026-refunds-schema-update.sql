@@ -0,0 +1,24 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Adds refunds and the refunded amount on donations
+
+BEGIN;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "refunded_amount" REAL NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS "refunds" (
+  "id" SERIAL PRIMARY KEY,
+  "donation_id" INTEGER NOT NULL,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "provider" TEXT NOT NULL,
+  "provider_refund_id" TEXT NOT NULL UNIQUE,
+  "reason" TEXT,
+  "source" TEXT NOT NULL,
+  "refunded_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_refunds_donation_id" ON "refunds"("donation_id");
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Records each paid subscription invoice as its own installment donation
+
+BEGIN;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "parent_donation_id" INTEGER;
+
+ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "stripe_invoice_id" TEXT UNIQUE;
+
+CREATE INDEX IF NOT EXISTS "idx_donations_parent_donation_id" ON "donations"("parent_donation_id");
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Production Database Delta Update Script
+-- Generated for Aafiyaa Charity Clinics - October 18, 2026
+-- Links replayed webhook events to the event they replay
+
+BEGIN;
+
+ALTER TABLE "webhook_events" ADD COLUMN IF NOT EXISTS "replay_of_event_id" INTEGER;
+
+CREATE INDEX IF NOT EXISTS "idx_webhook_events_stripe_event_id" ON "webhook_events"("stripe_event_id");
+
+COMMIT;
@@ -1,6 +1,6 @@
 -- Aafiyaa Charity Clinics Database Schema
 -- Generated from Drizzle ORM schema definitions
--- Updated: April 25, 2025
+-- Updated: October 18, 2026
 
 -- Users table
 CREATE TABLE IF NOT EXISTS "users" (
@@ -17,11 +17,22 @@ CREATE TABLE IF NOT EXISTS "cases" (
   "id" SERIAL PRIMARY KEY,
   "title" TEXT NOT NULL,
   "description" TEXT NOT NULL,
-  "image_url" TEXT NOT NULL,
+  "image_url" TEXT,
   "amount_required" REAL NOT NULL,
   "amount_collected" REAL NOT NULL DEFAULT 0,
   "active" BOOLEAN NOT NULL DEFAULT TRUE,
-  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+  "recurring_allowed" BOOLEAN NOT NULL DEFAULT FALSE,
+  "zakaat_eligible" BOOLEAN NOT NULL DEFAULT TRUE,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "currency" TEXT NOT NULL DEFAULT 'AUD',
+  "amount_disbursed" REAL NOT NULL DEFAULT 0,
+  "completed_at" TIMESTAMP,
+  "status" TEXT NOT NULL DEFAULT 'open',
+  "deadline" TIMESTAMP,
+  "overfunding_policy" TEXT NOT NULL DEFAULT 'allow_surplus',
+  "category" TEXT NOT NULL DEFAULT 'other',
+  "location" TEXT,
+  "urgency" TEXT NOT NULL DEFAULT 'medium'
 );
 
 -- Donations table
@@ -39,11 +50,25 @@ CREATE TABLE IF NOT EXISTS "donations" (
   "next_payment_date" TIMESTAMP,
   "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
   "email" TEXT,
+  "first_name" TEXT,
+  "last_name" TEXT,
   "name" TEXT,
   "user_id" INTEGER,
   "payment_method" TEXT,
   "case_id" INTEGER,
-  "destination_project" TEXT
+  "destination_project" TEXT,
+  "parent_donation_id" INTEGER,
+  "stripe_invoice_id" TEXT UNIQUE,
+  "refunded_amount" REAL NOT NULL DEFAULT 0,
+  "exchange_rate" REAL,
+  "base_amount" REAL,
+  "case_exchange_rate" REAL,
+  "fee_amount" REAL NOT NULL DEFAULT 0,
+  "case_credit_amount" REAL,
+  "surplus_case_id" INTEGER,
+  "fundraiser_id" INTEGER,
+  "campaign_id" INTEGER,
+  "anonymous" BOOLEAN NOT NULL DEFAULT false
 );
 
 -- Endorsements table
@@ -74,6 +99,275 @@ CREATE TABLE IF NOT EXISTS "contact_messages" (
   "is_read" BOOLEAN NOT NULL DEFAULT FALSE
 );
 
+-- Stripe webhook deliveries
+CREATE TABLE IF NOT EXISTS "webhook_events" (
+  "id" SERIAL PRIMARY KEY,
+  "event_type" TEXT NOT NULL,
+  "stripe_event_id" TEXT,
+  "payment_intent_id" TEXT,
+  "subscription_id" TEXT,
+  "donation_id" INTEGER,
+  "match_strategy" TEXT,
+  "status" TEXT NOT NULL,
+  "raw_data" JSON,
+  "error_message" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "replay_of_event_id" INTEGER
+);
+
+-- Stripe payments that could not be matched to a donation
+CREATE TABLE IF NOT EXISTS "orphaned_payments" (
+  "id" SERIAL PRIMARY KEY,
+  "payment_intent_id" TEXT NOT NULL UNIQUE,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'unresolved',
+  "resolved_donation_id" INTEGER,
+  "stripe_metadata" JSON,
+  "description" TEXT,
+  "stripe_created_at" TIMESTAMP,
+  "resolved_at" TIMESTAMP,
+  "resolved_by" TEXT,
+  "notes" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- PDF receipts
+CREATE TABLE IF NOT EXISTS "receipts" (
+  "id" SERIAL PRIMARY KEY,
+  "donation_id" INTEGER NOT NULL,
+  "receipt_number" TEXT NOT NULL UNIQUE,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "donor_name" TEXT,
+  "donor_email" TEXT,
+  "donation_type" TEXT NOT NULL,
+  "case_id" INTEGER,
+  "file_path" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "generated_at" TIMESTAMP,
+  "sent_at" TIMESTAMP,
+  "error_message" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One-time donor sign-in links (only the SHA-256 hash of the token is stored)
+CREATE TABLE IF NOT EXISTS "donor_login_tokens" (
+  "id" SERIAL PRIMARY KEY,
+  "user_id" INTEGER NOT NULL,
+  "token_hash" TEXT NOT NULL UNIQUE,
+  "expires_at" TIMESTAMP NOT NULL,
+  "used_at" TIMESTAMP,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Refunds issued from the admin dashboard or picked up from webhooks
+CREATE TABLE IF NOT EXISTS "refunds" (
+  "id" SERIAL PRIMARY KEY,
+  "donation_id" INTEGER NOT NULL,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "provider" TEXT NOT NULL,
+  "provider_refund_id" TEXT NOT NULL UNIQUE,
+  "reason" TEXT,
+  "source" TEXT NOT NULL,
+  "refunded_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Stripe disputes (chargebacks) and their outcome
+CREATE TABLE IF NOT EXISTS "disputes" (
+  "id" SERIAL PRIMARY KEY,
+  "stripe_dispute_id" TEXT NOT NULL UNIQUE,
+  "stripe_charge_id" TEXT,
+  "payment_intent_id" TEXT,
+  "donation_id" INTEGER,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "reason" TEXT,
+  "status" TEXT NOT NULL,
+  "outcome" TEXT,
+  "evidence_due_by" TIMESTAMP,
+  "amount_reversed_at" TIMESTAMP,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Yearly consolidated donor statements
+CREATE TABLE IF NOT EXISTS "donor_statements" (
+  "id" SERIAL PRIMARY KEY,
+  "statement_number" TEXT NOT NULL UNIQUE,
+  "donor_email" TEXT NOT NULL,
+  "donor_name" TEXT,
+  "period_type" TEXT NOT NULL,
+  "period_year" INTEGER NOT NULL,
+  "period_start" TIMESTAMP NOT NULL,
+  "period_end" TIMESTAMP NOT NULL,
+  "donation_count" INTEGER NOT NULL,
+  "totals" JSON NOT NULL,
+  "file_path" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "generated_at" TIMESTAMP,
+  "sent_at" TIMESTAMP,
+  "error_message" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Exchange rates per unit of the base currency, refreshed on a schedule, with manual overrides
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+  "id" SERIAL PRIMARY KEY,
+  "currency" TEXT NOT NULL UNIQUE,
+  "rate" REAL,
+  "source" TEXT,
+  "fetched_at" TIMESTAMP,
+  "override_rate" REAL,
+  "override_set_by" TEXT,
+  "override_set_at" TIMESTAMP,
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Processing fees per payment method and currency
+CREATE TABLE IF NOT EXISTS "fee_schedules" (
+  "id" SERIAL PRIMARY KEY,
+  "payment_method" TEXT NOT NULL,
+  "currency" TEXT NOT NULL,
+  "percentage" REAL NOT NULL,
+  "fixed_fee" REAL NOT NULL DEFAULT 0,
+  "updated_by" TEXT,
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE ("payment_method", "currency")
+);
+
+-- Gold and silver prices per gram in the base currency, for the nisab
+CREATE TABLE IF NOT EXISTS "metal_prices" (
+  "id" SERIAL PRIMARY KEY,
+  "metal" TEXT NOT NULL UNIQUE,
+  "price_per_gram" REAL NOT NULL,
+  "updated_by" TEXT,
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Credits and debits to the zakat, sadqah and interest funds, in the base currency
+CREATE TABLE IF NOT EXISTS "fund_ledger_entries" (
+  "id" SERIAL PRIMARY KEY,
+  "fund" TEXT NOT NULL,
+  "entry_type" TEXT NOT NULL,
+  "amount" REAL NOT NULL,
+  "donation_id" INTEGER,
+  "recipient_type" TEXT,
+  "case_id" INTEGER,
+  "recipient" TEXT,
+  "description" TEXT NOT NULL,
+  "reference" TEXT,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Payments made to patients or hospitals out of a case, in the case currency
+CREATE TABLE IF NOT EXISTS "case_disbursements" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "amount" REAL NOT NULL,
+  "currency" TEXT NOT NULL,
+  "paid_at" TIMESTAMP NOT NULL,
+  "payee" TEXT NOT NULL,
+  "method" TEXT NOT NULL,
+  "document_reference" TEXT,
+  "notes" TEXT,
+  "recorded_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Progress updates posted on a case
+CREATE TABLE IF NOT EXISTS "case_updates" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "body" TEXT NOT NULL,
+  "image_url" TEXT,
+  "posted_by" TEXT,
+  "notified_donors" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Donors who no longer want update emails about a case
+CREATE TABLE IF NOT EXISTS "case_update_unsubscribes" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "email" TEXT NOT NULL,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE ("case_id", "email")
+);
+
+-- Photos uploaded for a case gallery; the resized variants are in file storage
+CREATE TABLE IF NOT EXISTS "case_images" (
+  "id" SERIAL PRIMARY KEY,
+  "case_id" INTEGER NOT NULL,
+  "storage_key" TEXT NOT NULL UNIQUE,
+  "width" INTEGER NOT NULL,
+  "height" INTEGER NOT NULL,
+  "position" INTEGER NOT NULL DEFAULT 0,
+  "uploaded_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Sponsors who match donors' gifts for a while, up to a cap in the base currency
+CREATE TABLE IF NOT EXISTS "match_pledges" (
+  "id" SERIAL PRIMARY KEY,
+  "sponsor_name" TEXT NOT NULL,
+  "ratio" REAL NOT NULL,
+  "cap_amount" REAL NOT NULL,
+  "starts_at" TIMESTAMP NOT NULL,
+  "ends_at" TIMESTAMP NOT NULL,
+  "case_id" INTEGER,
+  "donation_type" TEXT,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- What each match pledge has given towards each donation, and reversals for refunds
+CREATE TABLE IF NOT EXISTS "match_contributions" (
+  "id" SERIAL PRIMARY KEY,
+  "pledge_id" INTEGER NOT NULL,
+  "donation_id" INTEGER NOT NULL,
+  "entry_type" TEXT NOT NULL,
+  "amount" REAL NOT NULL,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Supporters' own fundraising pages, public once approved
+CREATE TABLE IF NOT EXISTS "fundraisers" (
+  "id" SERIAL PRIMARY KEY,
+  "slug" TEXT NOT NULL UNIQUE,
+  "owner_user_id" INTEGER NOT NULL,
+  "owner_name" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "story" TEXT NOT NULL,
+  "goal_amount" REAL NOT NULL,
+  "case_id" INTEGER,
+  "status" TEXT NOT NULL DEFAULT 'pending_review',
+  "moderated_by" TEXT,
+  "moderated_at" TIMESTAMP,
+  "moderation_note" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Time-boxed appeals with a landing page at /campaigns/:slug
+CREATE TABLE IF NOT EXISTS "campaigns" (
+  "id" SERIAL PRIMARY KEY,
+  "slug" TEXT NOT NULL UNIQUE,
+  "title" TEXT NOT NULL,
+  "summary" TEXT NOT NULL,
+  "hero_image_url" TEXT,
+  "hero_content" TEXT NOT NULL,
+  "goal_amount" REAL NOT NULL,
+  "starts_at" TIMESTAMP NOT NULL,
+  "ends_at" TIMESTAMP NOT NULL,
+  "donation_types" JSON NOT NULL,
+  "case_ids" JSON NOT NULL,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- Session storage table for admin sessions
 CREATE TABLE IF NOT EXISTS "session" (
   "sid" VARCHAR NOT NULL COLLATE "default",
@@ -90,4 +384,25 @@ CREATE INDEX IF NOT EXISTS "idx_donations_stripe_payment_id" ON "donations"("str
 CREATE INDEX IF NOT EXISTS "idx_donations_stripe_subscription_id" ON "donations"("stripe_subscription_id");
 CREATE INDEX IF NOT EXISTS "idx_donations_paypal_subscription_id" ON "donations"("paypal_subscription_id");
 CREATE INDEX IF NOT EXISTS "idx_cases_active" ON "cases"("active");
-CREATE INDEX IF NOT EXISTS "idx_contact_messages_is_read" ON "contact_messages"("is_read");
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS "idx_contact_messages_is_read" ON "contact_messages"("is_read");
+CREATE INDEX IF NOT EXISTS "idx_donations_email" ON "donations"("email");
+CREATE INDEX IF NOT EXISTS "idx_donations_user_id" ON "donations"("user_id");
+CREATE INDEX IF NOT EXISTS "idx_users_email" ON "users"("email");
+CREATE INDEX IF NOT EXISTS "idx_donor_login_tokens_user_id" ON "donor_login_tokens"("user_id");
+CREATE INDEX IF NOT EXISTS "idx_donations_parent_donation_id" ON "donations"("parent_donation_id");
+CREATE INDEX IF NOT EXISTS "idx_webhook_events_stripe_event_id" ON "webhook_events"("stripe_event_id");
+CREATE INDEX IF NOT EXISTS "idx_refunds_donation_id" ON "refunds"("donation_id");
+CREATE INDEX IF NOT EXISTS "idx_disputes_donation_id" ON "disputes"("donation_id");
+CREATE INDEX IF NOT EXISTS "idx_donor_statements_period" ON "donor_statements"("period_type", "period_year", "donor_email");
+CREATE UNIQUE INDEX IF NOT EXISTS "fund_ledger_entries_donation_credit_idx" ON "fund_ledger_entries"("donation_id") WHERE "entry_type" = 'donation';
+CREATE INDEX IF NOT EXISTS "idx_fund_ledger_entries_fund" ON "fund_ledger_entries"("fund");
+CREATE INDEX IF NOT EXISTS "idx_case_disbursements_case_id" ON "case_disbursements"("case_id");
+CREATE INDEX IF NOT EXISTS "idx_case_updates_case_id" ON "case_updates"("case_id");
+CREATE INDEX IF NOT EXISTS "idx_cases_status" ON "cases"("status");
+CREATE INDEX IF NOT EXISTS "idx_cases_category" ON "cases"("category");
+CREATE INDEX IF NOT EXISTS "idx_case_images_case_id" ON "case_images"("case_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "match_contributions_donation_match_idx" ON "match_contributions"("pledge_id", "donation_id") WHERE "entry_type" = 'match';
+CREATE INDEX IF NOT EXISTS "idx_match_contributions_donation_id" ON "match_contributions"("donation_id");
+CREATE INDEX IF NOT EXISTS "idx_donations_fundraiser_id" ON "donations"("fundraiser_id");
+CREATE INDEX IF NOT EXISTS "idx_fundraisers_owner_user_id" ON "fundraisers"("owner_user_id");
+CREATE INDEX IF NOT EXISTS "idx_donations_campaign_id" ON "donations"("campaign_id");
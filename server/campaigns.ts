@@ -0,0 +1,130 @@
+/**
+ * Campaigns: time-boxed appeals, e.g. a Ramadan eye camp, with a goal and a shareable landing page at /campaigns/:slug.
+ * A campaign can offer some donation types and cases in preference to others. Donations made through its page are
+ * attributed to it, and still go to their case or fund like any other donation.
+ */
+import { storage } from './storage';
+import { getNetDonatedAmount } from './refunds';
+import { BASE_CURRENCY, toBaseAmount } from '@shared/currency';
+import { roundToMinorUnit } from '@shared/money';
+import { isAcceptingDonations } from '@shared/case-lifecycle';
+import { getCampaignPhase, type CampaignPhase } from '@shared/campaigns';
+import type { Campaign, CampaignRequest, Case, Donation } from '@shared/schema';
+
+export type CampaignWithProgress = Campaign & {
+  phase: CampaignPhase;
+  raisedAmount: number; // In the base currency, net of refunds
+  donationCount: number;
+};
+
+// What anyone can see of a campaign
+export type PublicCampaign = Omit<Campaign, 'caseIds' | 'createdBy' | 'createdAt'> & {
+  phase: CampaignPhase;
+  raisedAmount: number;
+  donationCount: number;
+  cases: Pick<Case, 'id' | 'title' | 'imageUrl' | 'zakaatEligible' | 'amountRequired' | 'amountCollected' | 'currency'>[];
+};
+
+/**
+ * How much has been given through a campaign, leaving out donations that were never paid or were refunded in full,
+ * and any that have no exchange rate yet
+ */
+export function getCampaignProgress(donations: Donation[]): Pick<CampaignWithProgress, 'raisedAmount' | 'donationCount'> {
+  const given = donations
+    .map(donation => toBaseAmount(donation, getNetDonatedAmount(donation)))
+    .filter((amount): amount is number => amount !== null && amount > 0);
+  return {
+    raisedAmount: roundToMinorUnit(given.reduce((sum, amount) => sum + amount, 0), BASE_CURRENCY),
+    donationCount: given.length
+  };
+}
+
+export async function withCampaignProgress(campaign: Campaign): Promise<CampaignWithProgress> {
+  const donations = await storage.getDonationsByCampaignId(campaign.id);
+  return { ...campaign, phase: getCampaignPhase(campaign), ...getCampaignProgress(donations) };
+}
+
+/**
+ * A campaign's landing page, with the linked cases that are still taking donations
+ */
+export async function getPublicCampaign(slug: string): Promise<PublicCampaign | undefined> {
+  const campaign = await storage.getCampaignBySlug(slug);
+  if (!campaign) return undefined;
+
+  const linkedCases = await Promise.all(campaign.caseIds.map(id => storage.getCase(id)));
+  const { caseIds, createdBy, createdAt, ...details } = await withCampaignProgress(campaign);
+  return {
+    ...details,
+    cases: linkedCases
+      .filter((caseItem): caseItem is Case => !!caseItem && isAcceptingDonations(caseItem))
+      .map(({ id, title, imageUrl, zakaatEligible, amountRequired, amountCollected, currency }) => ({
+        id, title, imageUrl, zakaatEligible, amountRequired, amountCollected, currency
+      }))
+  };
+}
+
+/**
+ * Check a campaign's link is free and its cases exist before it is saved
+ */
+async function validateCampaign(request: CampaignRequest, campaignId?: number): Promise<string | undefined> {
+  const existing = await storage.getCampaignBySlug(request.slug);
+  if (existing && existing.id !== campaignId) {
+    return "Another campaign already uses this link";
+  }
+  for (const caseId of request.caseIds) {
+    if (!(await storage.getCase(caseId))) {
+      return `Case ${caseId} not found`;
+    }
+  }
+  return undefined;
+}
+
+const toCampaignFields = (request: CampaignRequest) => ({
+  ...request,
+  heroImageUrl: request.heroImageUrl || null,
+  // Each type and case is only offered once
+  donationTypes: Array.from(new Set(request.donationTypes)),
+  caseIds: Array.from(new Set(request.caseIds))
+});
+
+export async function createCampaign(
+  request: CampaignRequest,
+  createdBy: string | null
+): Promise<{ campaign: Campaign } | { error: string }> {
+  const error = await validateCampaign(request);
+  if (error) return { error };
+
+  const campaign = await storage.createCampaign({ ...toCampaignFields(request), createdBy });
+  console.log(`[CAMPAIGN] Campaign ${campaign.id} (${campaign.slug}) created by ${createdBy}`);
+  return { campaign };
+}
+
+export async function updateCampaign(
+  campaign: Campaign,
+  request: CampaignRequest
+): Promise<{ campaign: Campaign } | { error: string }> {
+  const error = await validateCampaign(request, campaign.id);
+  if (error) return { error };
+
+  const updatedCampaign = await storage.updateCampaign(campaign.id, toCampaignFields(request));
+  if (!updatedCampaign) return { error: "Campaign not found" };
+  console.log(`[CAMPAIGN] Campaign ${campaign.id} (${updatedCampaign.slug}) updated`);
+  return { campaign: updatedCampaign };
+}
+
+/**
+ * The campaign a donation is being made through, as long as it is running, and the case is one of its own
+ */
+export async function getCampaignForDonation(
+  campaignId: number,
+  caseId: number | null | undefined
+): Promise<{ campaign: Campaign } | { error: string }> {
+  const campaign = await storage.getCampaign(campaignId);
+  if (!campaign || getCampaignPhase(campaign) !== 'live') {
+    return { error: "This campaign is not taking donations" };
+  }
+  if (caseId && campaign.caseIds.length && !campaign.caseIds.includes(caseId)) {
+    return { error: "This case is not part of the campaign" };
+  }
+  return { campaign };
+}
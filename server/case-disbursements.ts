@@ -0,0 +1,72 @@
+/**
+ * What has actually been paid out of each case to the patient, hospital or supplier
+ * A case can't pay out more than it has collected, and is completed once everything collected has been paid out.
+ */
+import { storage } from './storage';
+import { roundToMinorUnit } from '@shared/money';
+import type { Case, CaseDisbursement, CaseDisbursementRequest } from '@shared/schema';
+
+export interface CaseFunding {
+  currency: string;
+  collected: number;
+  disbursed: number;
+  remaining: number; // Collected but not paid out yet
+}
+
+/**
+ * Collected, disbursed and still to pay out for a case, in the case currency
+ */
+export function getCaseFunding(caseItem: Case): CaseFunding {
+  const round = (amount: number) => roundToMinorUnit(amount, caseItem.currency);
+  return {
+    currency: caseItem.currency,
+    collected: round(caseItem.amountCollected),
+    disbursed: round(caseItem.amountDisbursed),
+    remaining: Math.max(round(caseItem.amountCollected - caseItem.amountDisbursed), 0)
+  };
+}
+
+/**
+ * Whether everything a case collected has been paid out
+ */
+export function isFullyDisbursed(caseItem: Case): boolean {
+  const funding = getCaseFunding(caseItem);
+  return funding.collected > 0 && funding.remaining === 0;
+}
+
+/**
+ * Record a payment out of a case, in the case currency
+ */
+export async function recordCaseDisbursement(
+  caseItem: Case,
+  request: CaseDisbursementRequest,
+  recordedBy: string | null
+): Promise<{ disbursement: CaseDisbursement } | { error: string; status: number }> {
+  if (caseItem.completedAt) {
+    return { error: "Payments can't be recorded against a completed case", status: 409 };
+  }
+
+  const amount = roundToMinorUnit(request.amount, caseItem.currency);
+  const { remaining } = getCaseFunding(caseItem);
+  if (amount > remaining) {
+    return {
+      error: `Only ${caseItem.currency} ${remaining.toFixed(2)} collected for this case has not been paid out yet`,
+      status: 400
+    };
+  }
+
+  const disbursement = await storage.createCaseDisbursement({
+    caseId: caseItem.id,
+    amount,
+    currency: caseItem.currency,
+    paidAt: request.paidAt,
+    payee: request.payee,
+    method: request.method,
+    documentReference: request.documentReference || null,
+    notes: request.notes || null,
+    recordedBy
+  });
+
+  console.log(`[CASE-DISBURSEMENT] ${caseItem.currency} ${amount} paid to ${request.payee} from case ${caseItem.id}, recorded by ${recordedBy}`);
+  return { disbursement };
+}
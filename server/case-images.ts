@@ -0,0 +1,160 @@
+/**
+ * Case photo uploads. Each upload is turned upright and saved as resized WebP variants; re-encoding
+ * drops the EXIF data, including any GPS location a phone recorded, and the original is never kept.
+ * The first photo uploaded to a case becomes its cover image.
+ */
+import sharp from 'sharp';
+import { randomUUID } from 'crypto';
+import { storage } from './storage';
+import { fileStorage } from './file-storage';
+import { CASE_IMAGE_VARIANTS, MAX_CASE_IMAGES, type Case, type CaseImage, type CaseImageVariant } from '@shared/schema';
+
+export const CASE_IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp'];
+
+// Thumbnails are cropped to fill the gallery grid; the others keep the whole photo
+const VARIANT_SIZES: Record<CaseImageVariant, { width: number; height: number; fit: 'cover' | 'inside' }> = {
+  thumbnail: { width: 320, height: 240, fit: 'cover' },
+  web: { width: 960, height: 720, fit: 'inside' },
+  large: { width: 1920, height: 1440, fit: 'inside' }
+};
+
+export type CaseImageWithUrls = Omit<CaseImage, 'storageKey'> & { urls: Record<CaseImageVariant, string> };
+
+const getVariantKey = (storageKey: string, variant: CaseImageVariant) => `${storageKey}-${variant}.webp`;
+
+async function deleteImage(image: CaseImage): Promise<void> {
+  await storage.deleteCaseImage(image.id);
+  for (const variant of CASE_IMAGE_VARIANTS) {
+    await fileStorage.delete(getVariantKey(image.storageKey, variant));
+  }
+}
+
+/**
+ * URL a variant of a case image is served from. Images are never changed once uploaded, so it can be cached for good.
+ */
+export function getCaseImageUrl(image: Pick<CaseImage, 'id'>, variant: CaseImageVariant): string {
+  return `/api/case-images/${image.id}/${variant}`;
+}
+
+export function withCaseImageUrls({ storageKey, ...image }: CaseImage): CaseImageWithUrls {
+  return {
+    ...image,
+    urls: Object.fromEntries(
+      CASE_IMAGE_VARIANTS.map(variant => [variant, getCaseImageUrl(image, variant)])
+    ) as Record<CaseImageVariant, string>
+  };
+}
+
+/**
+ * Resize an uploaded photo into each variant, without any of its metadata
+ */
+export async function processCaseImage(
+  data: Buffer
+): Promise<{ variants: Record<CaseImageVariant, Buffer>; width: number; height: number } | { error: string }> {
+  let format: string | undefined;
+  try {
+    format = (await sharp(data).metadata()).format;
+  } catch {
+    return { error: "The file could not be read as an image" };
+  }
+  if (!format || !ACCEPTED_FORMATS.includes(format)) {
+    return { error: "Upload a JPEG, PNG or WebP image" };
+  }
+
+  const variants = {} as Record<CaseImageVariant, Buffer>;
+  let width = 0;
+  let height = 0;
+  for (const variant of CASE_IMAGE_VARIANTS) {
+    const size = VARIANT_SIZES[variant];
+    // rotate() applies the EXIF orientation before it is dropped
+    const { data: output, info } = await sharp(data)
+      .rotate()
+      .resize({ ...size, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    variants[variant] = output;
+    if (variant === 'large') {
+      width = info.width;
+      height = info.height;
+    }
+  }
+  return { variants, width, height };
+}
+
+/**
+ * Add a photo to a case's gallery
+ */
+export async function addCaseImage(
+  caseItem: Case,
+  data: Buffer,
+  uploadedBy: string | null
+): Promise<{ image: CaseImageWithUrls } | { error: string; status: number }> {
+  const existing = await storage.getCaseImages(caseItem.id);
+  if (existing.length >= MAX_CASE_IMAGES) {
+    return { error: `A case can have at most ${MAX_CASE_IMAGES} images`, status: 400 };
+  }
+
+  const processed = await processCaseImage(data);
+  if ('error' in processed) {
+    return { error: processed.error, status: 400 };
+  }
+
+  const storageKey = `case-images/${caseItem.id}/${randomUUID()}`;
+  for (const variant of CASE_IMAGE_VARIANTS) {
+    await fileStorage.save(getVariantKey(storageKey, variant), processed.variants[variant]);
+  }
+
+  const image = await storage.createCaseImage({
+    caseId: caseItem.id,
+    storageKey,
+    width: processed.width,
+    height: processed.height,
+    position: existing.length > 0 ? existing[existing.length - 1].position + 1 : 0,
+    uploadedBy
+  });
+
+  if (existing.length === 0) {
+    await storage.updateCase(caseItem.id, { imageUrl: getCaseImageUrl(image, 'web') });
+  }
+
+  console.log(`[CASE-IMAGE] Image ${image.id} added to case ${caseItem.id} by ${uploadedBy ?? 'unknown'}`);
+  return { image: withCaseImageUrls(image) };
+}
+
+/**
+ * Use a gallery image as the case's cover
+ */
+export async function setCaseCoverImage(caseItem: Case, image: CaseImage): Promise<Case | undefined> {
+  return storage.updateCase(caseItem.id, { imageUrl: getCaseImageUrl(image, 'web') });
+}
+
+/**
+ * Remove a photo from a case's gallery and delete its files. When it was the cover, the next image takes its place.
+ */
+export async function removeCaseImage(caseItem: Case, image: CaseImage): Promise<void> {
+  await deleteImage(image);
+
+  if (caseItem.imageUrl === getCaseImageUrl(image, 'web')) {
+    const [next] = await storage.getCaseImages(caseItem.id);
+    await storage.updateCase(caseItem.id, { imageUrl: next ? getCaseImageUrl(next, 'web') : '' });
+  }
+  console.log(`[CASE-IMAGE] Image ${image.id} removed from case ${caseItem.id}`);
+}
+
+/**
+ * Delete every image of a case that has been deleted
+ */
+export async function deleteCaseImages(caseId: number): Promise<void> {
+  for (const image of await storage.getCaseImages(caseId)) {
+    await deleteImage(image);
+  }
+}
+
+/**
+ * Read a variant of a case image from file storage
+ */
+export async function readCaseImage(image: CaseImage, variant: CaseImageVariant): Promise<Buffer | null> {
+  return fileStorage.read(getVariantKey(image.storageKey, variant));
+}
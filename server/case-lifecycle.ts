@@ -0,0 +1,87 @@
+/**
+ * Case lifecycle: draft -> open -> funded or closed -> completed
+ * Open cases move to funded when they reach their goal and close when their deadline passes; what happens
+ * to money past the goal follows each case's over-funding policy, applied when a donation completes.
+ */
+import { storage } from './storage';
+import { toCaseAmount } from '@shared/currency';
+import { getRemainingGoal, isAcceptingDonations, isPastDeadline } from '@shared/case-lifecycle';
+import type { Case, Donation } from '@shared/schema';
+
+type CaseDonation = Pick<Donation, 'amount' | 'currency' | 'exchangeRate' | 'baseAmount' | 'caseExchangeRate'> & { caseId?: number | null };
+
+/**
+ * Why a case can't take a donation, or null when it can. Cases that cap at their goal
+ * refuse donations larger than what they still need.
+ */
+function getDonationRefusal(caseItem: Case, donation: CaseDonation): string | null {
+  if (!isAcceptingDonations(caseItem)) {
+    switch (caseItem.status) {
+      case 'funded':
+        return "This case has reached its goal and is no longer taking donations. Please choose another case.";
+      case 'completed':
+        return "This case has been completed and is no longer taking donations.";
+      default:
+        return "This case is not open for donations. Please choose another case.";
+    }
+  }
+
+  if (caseItem.overfundingPolicy !== 'cap') return null;
+
+  // A capped case can't tell whether a donation fits without a rate to convert it
+  const caseAmount = toCaseAmount(donation, caseItem.currency);
+  if (caseAmount === null) {
+    return `This case can't take donations in ${donation.currency} right now. Please try again later or choose another currency.`;
+  }
+  const remaining = getRemainingGoal(caseItem);
+  if (caseAmount > remaining) {
+    return `This case only needs ${caseItem.currency} ${remaining.toFixed(2)} more to reach its goal`;
+  }
+  return null;
+}
+
+/**
+ * Check that the case a donation is for can still take it; donations without a case always can
+ */
+export async function checkCaseAcceptsDonation(donation: CaseDonation): Promise<{ error: string } | null> {
+  if (!donation.caseId) return null;
+
+  const caseItem = await storage.getCase(donation.caseId);
+  if (!caseItem) return null;
+
+  const refusal = getDonationRefusal(caseItem, donation);
+  return refusal ? { error: refusal } : null;
+}
+
+/**
+ * Close every open case whose deadline has passed
+ */
+export async function closeExpiredCases(now: Date = new Date()): Promise<Case[]> {
+  const expired = (await storage.getCases()).filter(caseItem => caseItem.status === 'open' && isPastDeadline(caseItem, now));
+  const closed: Case[] = [];
+
+  for (const caseItem of expired) {
+    const updatedCase = await storage.updateCase(caseItem.id, { status: 'closed' });
+    if (updatedCase) {
+      closed.push(updatedCase);
+      console.log(`[CASE-LIFECYCLE] Case ${caseItem.id} closed, its deadline passed on ${caseItem.deadline!.toISOString()}`);
+    }
+  }
+  return closed;
+}
+
+/**
+ * Check for cases past their deadline every hour
+ */
+export function startCaseDeadlineScheduler(): void {
+  const runDeadlineCheck = async () => {
+    try {
+      await closeExpiredCases();
+    } catch (error: any) {
+      console.error('[CASE-LIFECYCLE] Deadline check failed:', error.message);
+    }
+  };
+
+  void runDeadlineCheck();
+  setInterval(runDeadlineCheck, 60 * 60 * 1000).unref();
+}
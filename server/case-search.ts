@@ -0,0 +1,77 @@
+/**
+ * Case search for the public listings: filters run in storage, then the matches are sorted and
+ * returned a page at a time. The cursor carries the sort key of the last case on a page, so cases
+ * added or funded between requests don't shift later pages.
+ */
+import { storage } from './storage';
+import { CASE_URGENCIES, type Case, type CaseSearchQuery, type CaseSort } from '@shared/schema';
+
+export interface CaseSearchPage {
+  cases: Case[];
+  nextCursor: string | null;
+}
+
+type SortKey = number[];
+
+// Keys sort ascending, then by ID
+const sortKeys: Record<CaseSort, (caseItem: Case) => SortKey> = {
+  // Most urgent first, then the soonest deadline
+  urgent: caseItem => [
+    -CASE_URGENCIES.indexOf(caseItem.urgency as typeof CASE_URGENCIES[number]),
+    caseItem.deadline ? new Date(caseItem.deadline).getTime() : Number.MAX_SAFE_INTEGER
+  ],
+  // Smallest share of the goal still to raise first
+  closest_to_goal: caseItem => [(caseItem.amountRequired - caseItem.amountCollected) / caseItem.amountRequired],
+  // Newest first, and the later ID on the same timestamp
+  newest: caseItem => [-new Date(caseItem.createdAt).getTime(), -caseItem.id]
+};
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+function encodeCursor(key: SortKey, id: number): string {
+  return Buffer.from(JSON.stringify([...key, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { key: SortKey; id: number } | null {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(values) || values.length < 2 || !values.every(value => typeof value === 'number')) {
+      return null;
+    }
+    return { key: values.slice(0, -1), id: values[values.length - 1] };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the cases matching a search and return the page after `cursor`
+ */
+export async function searchCases(query: CaseSearchQuery): Promise<CaseSearchPage | { error: string }> {
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (query.cursor && !after) {
+    return { error: "Invalid cursor" };
+  }
+
+  const { search, category, urgency, location, status, zakaatEligible } = query;
+  const getKey = sortKeys[query.sort];
+  const sorted = (await storage.searchCases({ search, category, urgency, location, status, zakaatEligible }))
+    .map(caseItem => ({ caseItem, key: getKey(caseItem) }))
+    .sort((a, b) => compareKeys(a.key, b.key) || a.caseItem.id - b.caseItem.id);
+
+  const remaining = after
+    ? sorted.filter(({ caseItem, key }) => (compareKeys(key, after.key) || caseItem.id - after.id) > 0)
+    : sorted;
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    cases: page.map(({ caseItem }) => caseItem),
+    nextCursor: remaining.length > query.limit ? encodeCursor(last.key, last.caseItem.id) : null
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Case totals are kept in each case's own currency, converting every donation at the rate stored on it
+ * Rebuilds amountCollected from a case's completed donations when the running total has drifted
+ */
+import { storage } from './storage';
+import { toCaseAmount } from '@shared/currency';
+import { roundToMinorUnit } from '@shared/money';
+import { getCaseCreditShares } from '@shared/case-lifecycle';
+import { getNetDonatedAmount } from './refunds';
+
+export interface CaseTotalRecalculation {
+  caseId: number;
+  title: string;
+  currency: string;
+  previousAmount: number;
+  amountCollected: number;
+}
+
+/**
+ * Recalculate every case total from the completed donations to that case, less any refunds
+ */
+export async function recalculateCaseTotals(): Promise<CaseTotalRecalculation[]> {
+  const [cases, donations] = await Promise.all([storage.getCases(), storage.getDonations()]);
+  const results: CaseTotalRecalculation[] = [];
+
+  for (const caseItem of cases) {
+    // A donation that went past its case's goal counts only for the part each case received
+    const amountCollected = roundToMinorUnit(
+      donations.reduce((sum, donation) => {
+        const share = getCaseCreditShares(donation, getNetDonatedAmount(donation)).find(s => s.caseId === caseItem.id);
+        // Donations without a stored rate to the case currency are counted once one is stored
+        return share ? sum + (toCaseAmount(donation, caseItem.currency, share.amount) ?? 0) : sum;
+      }, 0),
+      caseItem.currency
+    );
+
+    if (amountCollected !== caseItem.amountCollected) {
+      await storage.setCaseAmountCollected(caseItem.id, amountCollected);
+      console.log(`[CASE-TOTALS] Case ${caseItem.id} total corrected from ${caseItem.amountCollected} to ${amountCollected} ${caseItem.currency}`);
+    }
+
+    results.push({
+      caseId: caseItem.id,
+      title: caseItem.title,
+      currency: caseItem.currency,
+      previousAmount: caseItem.amountCollected,
+      amountCollected
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,113 @@
+/**
+ * Progress updates on a case and the emails that tell its donors about them
+ * Donors are everyone with a completed donation to the case; each email carries a signed link
+ * that stops further updates about that case without signing in.
+ */
+import { storage } from './storage';
+import { createSignedToken, verifySignedToken, getAppBaseUrl } from './signed-links';
+import { sendCaseUpdateEmail } from './email-service';
+import { REFUNDABLE_DONATION_STATUSES } from './refunds';
+import type { Case, CaseUpdate, CaseUpdateRequest } from '@shared/schema';
+
+/**
+ * Create a signed token that unsubscribes one email from updates about one case.
+ * Unsubscribe links don't expire, so an old email still works.
+ */
+export function createCaseUpdateUnsubscribeToken(caseId: number, email: string): string {
+  return createSignedToken('case-updates', Buffer.from(`${caseId}:${email.toLowerCase()}`).toString('base64url'));
+}
+
+/**
+ * Verify an unsubscribe token and return the case and email it was issued for,
+ * or null when the signature is wrong
+ */
+export function verifyCaseUpdateUnsubscribeToken(token: string): { caseId: number; email: string } | null {
+  const payload = verifySignedToken('case-updates', token);
+  if (!payload) return null;
+
+  const decoded = Buffer.from(payload, 'base64url').toString();
+  const separator = decoded.indexOf(':');
+  const caseId = parseInt(decoded.slice(0, separator));
+  const email = decoded.slice(separator + 1);
+  return isNaN(caseId) || !email ? null : { caseId, email };
+}
+
+/**
+ * Build the public URL of the page that confirms an unsubscribe
+ */
+export function buildCaseUpdateUnsubscribeUrl(caseId: number, email: string): string {
+  return `${getAppBaseUrl()}/case-updates/unsubscribe/${createCaseUpdateUnsubscribeToken(caseId, email)}`;
+}
+
+/**
+ * Emails of everyone who gave to a case and still wants to hear about it, lowercased and deduplicated
+ */
+export async function getCaseUpdateRecipients(caseId: number): Promise<string[]> {
+  const donations = await storage.getDonations();
+  const unsubscribed = new Set(await storage.getCaseUpdateUnsubscribedEmails(caseId));
+
+  const recipients = new Set<string>();
+  for (const donation of donations) {
+    if (donation.caseId !== caseId || !donation.email || !REFUNDABLE_DONATION_STATUSES.includes(donation.status)) continue;
+
+    const email = donation.email.trim().toLowerCase();
+    if (!unsubscribed.has(email)) recipients.add(email);
+  }
+  return Array.from(recipients);
+}
+
+// Emails for each update go out one update at a time, after the admin who posted it has had a response
+let caseUpdateEmails: Promise<unknown> = Promise.resolve();
+
+async function emailCaseUpdate(caseItem: Case, update: CaseUpdate, recipients: string[]): Promise<number> {
+  const caseUrl = `${getAppBaseUrl()}/cases/${caseItem.id}`;
+  let notified = 0;
+  for (const email of recipients) {
+    const sent = await sendCaseUpdateEmail(email, caseItem, update, caseUrl, buildCaseUpdateUnsubscribeUrl(caseItem.id, email));
+    if (sent) notified++;
+  }
+
+  await storage.setCaseUpdateNotifiedDonors(update.id, notified);
+  return notified;
+}
+
+/**
+ * Wait for the case update emails queued so far to finish sending
+ */
+export function waitForCaseUpdateEmails(): Promise<unknown> {
+  return caseUpdateEmails;
+}
+
+/**
+ * Post an update to a case and, when asked, queue emails about it to the case's donors. Returns straight away
+ * with how many donors will be emailed; the update's notifiedDonors count is filled in once they have been sent.
+ */
+export async function postCaseUpdate(
+  caseItem: Case,
+  request: CaseUpdateRequest,
+  postedBy: string | null
+): Promise<{ update: CaseUpdate; queued: number }> {
+  const update = await storage.createCaseUpdate({
+    caseId: caseItem.id,
+    body: request.body,
+    imageUrl: request.imageUrl || null,
+    postedBy
+  });
+  console.log(`[CASE-UPDATE] Update ${update.id} posted to case ${caseItem.id} by ${postedBy}`);
+
+  if (!request.notifyDonors) {
+    return { update, queued: 0 };
+  }
+
+  const recipients = await getCaseUpdateRecipients(caseItem.id);
+  caseUpdateEmails = caseUpdateEmails
+    .then(() => emailCaseUpdate(caseItem, update, recipients))
+    .then(notified => {
+      console.log(`[CASE-UPDATE] Emailed update ${update.id} to ${notified} donor(s) of case ${caseItem.id}`);
+    })
+    .catch(error => {
+      console.error(`[CASE-UPDATE] Emailing update ${update.id} to donors of case ${caseItem.id} failed:`, error.message);
+    });
+
+  return { update, queued: recipients.length };
+}
@@ -32,6 +32,8 @@ export const config = {
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: parseInt(process.env.PORT || '5000', 10),
   SESSION_SECRET: process.env.SESSION_SECRET || 'aafiyaa_dev_session_secret',
+  // Public base URL used in emailed links; required in production, and falls back to localhost in development
+  APP_URL: process.env.APP_URL,
   
   // New Relic
   NEW_RELIC: {
@@ -81,6 +83,41 @@ export const config = {
     PORT: process.env.PGPORT ? parseInt(process.env.PGPORT, 10) : 5432,
   },
   
+  // Yearly donor statements: financial-year (sent in July), calendar-year (sent in January) or off
+  STATEMENTS: {
+    SCHEDULED_PERIOD: (process.env.STATEMENT_SCHEDULE || 'financial-year') as 'financial-year' | 'calendar-year' | 'off',
+  },
+  
+  // Exchange rates: where they come from (open-er-api or frankfurter), how often they are refreshed,
+  // and how old they can get before they are reported as stale
+  EXCHANGE_RATES: {
+    PROVIDER: process.env.EXCHANGE_RATE_PROVIDER || 'open-er-api',
+    REFRESH_INTERVAL_MINUTES: process.env.EXCHANGE_RATE_REFRESH_MINUTES ? parseInt(process.env.EXCHANGE_RATE_REFRESH_MINUTES, 10) : 60,
+    STALE_AFTER_HOURS: process.env.EXCHANGE_RATE_STALE_HOURS ? parseInt(process.env.EXCHANGE_RATE_STALE_HOURS, 10) : 24,
+  },
+  
+  // Processing fee used for a payment method until an admin saves a fee schedule for it (base currency)
+  FEES: {
+    DEFAULT_PERCENTAGE: process.env.DEFAULT_FEE_PERCENTAGE ? parseFloat(process.env.DEFAULT_FEE_PERCENTAGE) : 3.5,
+    DEFAULT_FIXED_FEE: process.env.DEFAULT_FIXED_FEE ? parseFloat(process.env.DEFAULT_FIXED_FEE) : 0.30,
+  },
+  
+  // Zakat calculator: the metal whose nisab is used as the threshold (silver gives the lower nisab)
+  ZAKAT: {
+    NISAB_STANDARD: (process.env.ZAKAT_NISAB_STANDARD || 'silver').toLowerCase() as 'gold' | 'silver',
+  },
+  
+  // Offline IP-to-country dataset used to pick a donor's currency
+  GEOIP: {
+    DATASET_PATH: process.env.IP_COUNTRY_DATASET_PATH || 'data/ip-country.csv',
+  },
+  
+  // Uploaded files such as case photos, kept on local disk
+  UPLOADS: {
+    DIR: process.env.UPLOADS_DIR || 'data/uploads',
+    MAX_IMAGE_MB: process.env.MAX_IMAGE_UPLOAD_MB ? parseInt(process.env.MAX_IMAGE_UPLOAD_MB, 10) : 10,
+  },
+  
   // Derived settings
   IS_PRODUCTION: process.env.NODE_ENV === 'production',
   IS_DEVELOPMENT: process.env.NODE_ENV === 'development',
@@ -99,6 +136,8 @@ export function validateConfig() {
     if (!config.SESSION_SECRET || config.SESSION_SECRET === 'aafiyaa_dev_session_secret') {
       missingVars.push('SESSION_SECRET');
     }
+    // Emailed links are built outside a request, so there is no host to fall back on
+    if (!config.APP_URL) missingVars.push('APP_URL');
   }
   
   // Always validate these regardless of environment
@@ -109,6 +148,10 @@ export function validateConfig() {
   if (config.PAYPAL.CLIENT_ID && !config.PAYPAL.SECRET_KEY) {
     missingVars.push('PAYPAL_SECRET_KEY (required when PAYPAL_CLIENT_ID is set)');
   }
+
+  if (!['gold', 'silver'].includes(config.ZAKAT.NISAB_STANDARD)) {
+    missingVars.push(`ZAKAT_NISAB_STANDARD (must be gold or silver, not ${config.ZAKAT.NISAB_STANDARD})`);
+  }
   
   // Report any missing variables
   if (missingVars.length > 0) {
@@ -26,6 +26,438 @@ export function isDatabaseAvailable(): boolean {
   return !!db;
 }
 
+// Schema changes made since the initial schema below, applied in order on every start.
+// Each statement must be safe to run again. Keep db/schema.sql and the dated delta scripts in db/ in step.
+const SCHEMA_UPDATES: Array<{ name: string; sql: string }> = [
+  {
+    // The initial schema predates db/21092025-schema-update.sql
+    name: 'webhook events, orphaned payments and receipts',
+    sql: `
+      ALTER TABLE "cases" ALTER COLUMN "image_url" DROP NOT NULL;
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "recurring_allowed" BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "zakaat_eligible" BOOLEAN NOT NULL DEFAULT TRUE;
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "first_name" TEXT;
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "last_name" TEXT;
+
+      CREATE TABLE IF NOT EXISTS "webhook_events" (
+        "id" SERIAL PRIMARY KEY,
+        "event_type" TEXT NOT NULL,
+        "stripe_event_id" TEXT,
+        "payment_intent_id" TEXT,
+        "subscription_id" TEXT,
+        "donation_id" INTEGER,
+        "match_strategy" TEXT,
+        "status" TEXT NOT NULL,
+        "raw_data" JSON,
+        "error_message" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS "orphaned_payments" (
+        "id" SERIAL PRIMARY KEY,
+        "payment_intent_id" TEXT NOT NULL UNIQUE,
+        "amount" REAL NOT NULL,
+        "currency" TEXT NOT NULL,
+        "status" TEXT NOT NULL DEFAULT 'unresolved',
+        "resolved_donation_id" INTEGER,
+        "stripe_metadata" JSON,
+        "description" TEXT,
+        "stripe_created_at" TIMESTAMP,
+        "resolved_at" TIMESTAMP,
+        "resolved_by" TEXT,
+        "notes" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS "receipts" (
+        "id" SERIAL PRIMARY KEY,
+        "donation_id" INTEGER NOT NULL,
+        "receipt_number" TEXT NOT NULL UNIQUE,
+        "amount" REAL NOT NULL,
+        "currency" TEXT NOT NULL,
+        "donor_name" TEXT,
+        "donor_email" TEXT,
+        "donation_type" TEXT NOT NULL,
+        "case_id" INTEGER,
+        "file_path" TEXT,
+        "status" TEXT NOT NULL DEFAULT 'pending',
+        "generated_at" TIMESTAMP,
+        "sent_at" TIMESTAMP,
+        "error_message" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `
+  },
+  {
+    name: 'donor sign-in links',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "donor_login_tokens" (
+        "id" SERIAL PRIMARY KEY,
+        "user_id" INTEGER NOT NULL,
+        "token_hash" TEXT NOT NULL UNIQUE,
+        "expires_at" TIMESTAMP NOT NULL,
+        "used_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS "idx_donor_login_tokens_user_id" ON "donor_login_tokens"("user_id");
+      CREATE INDEX IF NOT EXISTS "idx_users_email" ON "users"("email");
+    `
+  },
+  {
+    name: 'subscription installments',
+    sql: `
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "parent_donation_id" INTEGER;
+
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "stripe_invoice_id" TEXT UNIQUE;
+
+      CREATE INDEX IF NOT EXISTS "idx_donations_parent_donation_id" ON "donations"("parent_donation_id");
+    `
+  },
+  {
+    name: 'webhook event replays',
+    sql: `
+      ALTER TABLE "webhook_events" ADD COLUMN IF NOT EXISTS "replay_of_event_id" INTEGER;
+
+      CREATE INDEX IF NOT EXISTS "idx_webhook_events_stripe_event_id" ON "webhook_events"("stripe_event_id");
+    `
+  },
+  {
+    name: 'refunds',
+    sql: `
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "refunded_amount" REAL NOT NULL DEFAULT 0;
+
+      CREATE TABLE IF NOT EXISTS "refunds" (
+        "id" SERIAL PRIMARY KEY,
+        "donation_id" INTEGER NOT NULL,
+        "amount" REAL NOT NULL,
+        "currency" TEXT NOT NULL,
+        "provider" TEXT NOT NULL,
+        "provider_refund_id" TEXT NOT NULL UNIQUE,
+        "reason" TEXT,
+        "source" TEXT NOT NULL,
+        "refunded_by" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_refunds_donation_id" ON "refunds"("donation_id");
+    `
+  },
+  {
+    name: 'disputes',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "disputes" (
+        "id" SERIAL PRIMARY KEY,
+        "stripe_dispute_id" TEXT NOT NULL UNIQUE,
+        "stripe_charge_id" TEXT,
+        "payment_intent_id" TEXT,
+        "donation_id" INTEGER,
+        "amount" REAL NOT NULL,
+        "currency" TEXT NOT NULL,
+        "reason" TEXT,
+        "status" TEXT NOT NULL,
+        "outcome" TEXT,
+        "evidence_due_by" TIMESTAMP,
+        "amount_reversed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_disputes_donation_id" ON "disputes"("donation_id");
+    `
+  },
+  {
+    name: 'donor statements',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "donor_statements" (
+        "id" SERIAL PRIMARY KEY,
+        "statement_number" TEXT NOT NULL UNIQUE,
+        "donor_email" TEXT NOT NULL,
+        "donor_name" TEXT,
+        "period_type" TEXT NOT NULL,
+        "period_year" INTEGER NOT NULL,
+        "period_start" TIMESTAMP NOT NULL,
+        "period_end" TIMESTAMP NOT NULL,
+        "donation_count" INTEGER NOT NULL,
+        "totals" JSON NOT NULL,
+        "file_path" TEXT,
+        "status" TEXT NOT NULL DEFAULT 'pending',
+        "generated_at" TIMESTAMP,
+        "sent_at" TIMESTAMP,
+        "error_message" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_donor_statements_period" ON "donor_statements"("period_type", "period_year", "donor_email");
+    `
+  },
+  {
+    name: 'donation exchange rates',
+    sql: `
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "exchange_rate" REAL;
+
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "base_amount" REAL;
+    `
+  },
+  {
+    name: 'case currencies',
+    sql: `
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "currency" TEXT NOT NULL DEFAULT 'AUD';
+
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "case_exchange_rate" REAL;
+    `
+  },
+  {
+    name: 'exchange rates',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "exchange_rates" (
+        "id" SERIAL PRIMARY KEY,
+        "currency" TEXT NOT NULL UNIQUE,
+        "rate" REAL,
+        "source" TEXT,
+        "fetched_at" TIMESTAMP,
+        "override_rate" REAL,
+        "override_set_by" TEXT,
+        "override_set_at" TIMESTAMP,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `
+  },
+  {
+    name: 'fee schedules',
+    sql: `
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "fee_amount" REAL NOT NULL DEFAULT 0;
+
+      CREATE TABLE IF NOT EXISTS "fee_schedules" (
+        "id" SERIAL PRIMARY KEY,
+        "payment_method" TEXT NOT NULL,
+        "currency" TEXT NOT NULL,
+        "percentage" REAL NOT NULL,
+        "fixed_fee" REAL NOT NULL DEFAULT 0,
+        "updated_by" TEXT,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE ("payment_method", "currency")
+      );
+    `
+  },
+  {
+    name: 'metal prices',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "metal_prices" (
+        "id" SERIAL PRIMARY KEY,
+        "metal" TEXT NOT NULL UNIQUE,
+        "price_per_gram" REAL NOT NULL,
+        "updated_by" TEXT,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `
+  },
+  {
+    name: 'fund ledger',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "fund_ledger_entries" (
+        "id" SERIAL PRIMARY KEY,
+        "fund" TEXT NOT NULL,
+        "entry_type" TEXT NOT NULL,
+        "amount" REAL NOT NULL,
+        "donation_id" INTEGER,
+        "recipient_type" TEXT,
+        "case_id" INTEGER,
+        "recipient" TEXT,
+        "description" TEXT NOT NULL,
+        "reference" TEXT,
+        "created_by" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS "fund_ledger_entries_donation_credit_idx" ON "fund_ledger_entries"("donation_id") WHERE "entry_type" = 'donation';
+
+      CREATE INDEX IF NOT EXISTS "idx_fund_ledger_entries_fund" ON "fund_ledger_entries"("fund");
+    `
+  },
+  {
+    name: 'case disbursements',
+    sql: `
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "amount_disbursed" REAL NOT NULL DEFAULT 0;
+
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "completed_at" TIMESTAMP;
+
+      CREATE TABLE IF NOT EXISTS "case_disbursements" (
+        "id" SERIAL PRIMARY KEY,
+        "case_id" INTEGER NOT NULL,
+        "amount" REAL NOT NULL,
+        "currency" TEXT NOT NULL,
+        "paid_at" TIMESTAMP NOT NULL,
+        "payee" TEXT NOT NULL,
+        "method" TEXT NOT NULL,
+        "document_reference" TEXT,
+        "notes" TEXT,
+        "recorded_by" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_case_disbursements_case_id" ON "case_disbursements"("case_id");
+    `
+  },
+  {
+    name: 'case updates',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "case_updates" (
+        "id" SERIAL PRIMARY KEY,
+        "case_id" INTEGER NOT NULL,
+        "body" TEXT NOT NULL,
+        "image_url" TEXT,
+        "posted_by" TEXT,
+        "notified_donors" INTEGER NOT NULL DEFAULT 0,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS "case_update_unsubscribes" (
+        "id" SERIAL PRIMARY KEY,
+        "case_id" INTEGER NOT NULL,
+        "email" TEXT NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE ("case_id", "email")
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_case_updates_case_id" ON "case_updates"("case_id");
+    `
+  },
+  {
+    name: 'case lifecycle',
+    sql: `
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "status" TEXT NOT NULL DEFAULT 'open';
+
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "deadline" TIMESTAMP;
+
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "overfunding_policy" TEXT NOT NULL DEFAULT 'allow_surplus';
+
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "case_credit_amount" REAL;
+
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "surplus_case_id" INTEGER;
+
+      CREATE INDEX IF NOT EXISTS "idx_cases_status" ON "cases"("status");
+
+      -- Cases that were switched off before they had a status are closed
+      UPDATE "cases" SET "status" = 'closed' WHERE "active" = FALSE AND "status" = 'open';
+    `
+  },
+  {
+    name: 'case categories',
+    sql: `
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "category" TEXT NOT NULL DEFAULT 'other';
+
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "location" TEXT;
+
+      ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "urgency" TEXT NOT NULL DEFAULT 'medium';
+
+      CREATE INDEX IF NOT EXISTS "idx_cases_category" ON "cases"("category");
+    `
+  },
+  {
+    name: 'case images',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "case_images" (
+        "id" SERIAL PRIMARY KEY,
+        "case_id" INTEGER NOT NULL,
+        "storage_key" TEXT NOT NULL UNIQUE,
+        "width" INTEGER NOT NULL,
+        "height" INTEGER NOT NULL,
+        "position" INTEGER NOT NULL DEFAULT 0,
+        "uploaded_by" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_case_images_case_id" ON "case_images"("case_id");
+    `
+  },
+  {
+    name: 'matched giving',
+    sql: `
+      CREATE TABLE IF NOT EXISTS "match_pledges" (
+        "id" SERIAL PRIMARY KEY,
+        "sponsor_name" TEXT NOT NULL,
+        "ratio" REAL NOT NULL,
+        "cap_amount" REAL NOT NULL,
+        "starts_at" TIMESTAMP NOT NULL,
+        "ends_at" TIMESTAMP NOT NULL,
+        "case_id" INTEGER,
+        "donation_type" TEXT,
+        "created_by" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS "match_contributions" (
+        "id" SERIAL PRIMARY KEY,
+        "pledge_id" INTEGER NOT NULL,
+        "donation_id" INTEGER NOT NULL,
+        "entry_type" TEXT NOT NULL,
+        "amount" REAL NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS "match_contributions_donation_match_idx" ON "match_contributions"("pledge_id", "donation_id") WHERE "entry_type" = 'match';
+
+      CREATE INDEX IF NOT EXISTS "idx_match_contributions_donation_id" ON "match_contributions"("donation_id");
+    `
+  },
+  {
+    name: 'fundraisers',
+    sql: `
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "fundraiser_id" INTEGER;
+
+      CREATE TABLE IF NOT EXISTS "fundraisers" (
+        "id" SERIAL PRIMARY KEY,
+        "slug" TEXT NOT NULL UNIQUE,
+        "owner_user_id" INTEGER NOT NULL,
+        "owner_name" TEXT NOT NULL,
+        "title" TEXT NOT NULL,
+        "story" TEXT NOT NULL,
+        "goal_amount" REAL NOT NULL,
+        "case_id" INTEGER,
+        "status" TEXT NOT NULL DEFAULT 'pending_review',
+        "moderated_by" TEXT,
+        "moderated_at" TIMESTAMP,
+        "moderation_note" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_donations_fundraiser_id" ON "donations"("fundraiser_id");
+
+      CREATE INDEX IF NOT EXISTS "idx_fundraisers_owner_user_id" ON "fundraisers"("owner_user_id");
+    `
+  },
+  {
+    name: 'campaigns',
+    sql: `
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "campaign_id" INTEGER;
+
+      CREATE TABLE IF NOT EXISTS "campaigns" (
+        "id" SERIAL PRIMARY KEY,
+        "slug" TEXT NOT NULL UNIQUE,
+        "title" TEXT NOT NULL,
+        "summary" TEXT NOT NULL,
+        "hero_image_url" TEXT,
+        "hero_content" TEXT NOT NULL,
+        "goal_amount" REAL NOT NULL,
+        "starts_at" TIMESTAMP NOT NULL,
+        "ends_at" TIMESTAMP NOT NULL,
+        "donation_types" JSON NOT NULL,
+        "case_ids" JSON NOT NULL,
+        "created_by" TEXT,
+        "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS "idx_donations_campaign_id" ON "donations"("campaign_id");
+    `
+  },
+  {
+    name: 'anonymous donations',
+    sql: `
+      ALTER TABLE "donations" ADD COLUMN IF NOT EXISTS "anonymous" BOOLEAN NOT NULL DEFAULT false;
+    `
+  },
+];
+
 // Helper function for migrating the database schema
 export async function runMigrations() {
   if (!db || !pool) {
@@ -176,6 +608,17 @@ export async function runMigrations() {
       } else {
         console.log('Tables already exist, skipping schema creation');
       }
+      
+      // Bring the schema up to date with the application
+      for (const update of SCHEMA_UPDATES) {
+        try {
+          await pool.query(update.sql);
+        } catch (updateError) {
+          console.error(`Error applying schema update (${update.name}):`, updateError);
+          return false;
+        }
+      }
+      console.log(`Applied ${SCHEMA_UPDATES.length} schema updates`);
     } catch (schemaError) {
       console.error('Error creating schema:', schemaError);
       return false;
@@ -0,0 +1,76 @@
+/**
+ * Dispute (chargeback) tracking for Stripe charge.dispute.* webhooks
+ * Keeps one record per Stripe dispute and takes lost disputes off the case total like a refund
+ */
+import { storage } from './storage';
+import type { Dispute, Donation } from '@shared/schema';
+import { getRefundableAmount, reverseDonationAmount } from './refunds';
+import { fromMinorUnits } from '@shared/money';
+
+// Stripe dispute statuses that mean the dispute is over
+const DISPUTE_OUTCOMES: Record<string, 'won' | 'lost'> = {
+  won: 'won',
+  lost: 'lost',
+};
+
+/**
+ * Save the latest state of a Stripe dispute, reversing the donation the first time it is seen as lost
+ */
+export async function recordStripeDispute(stripeDispute: any, donation: Donation | null): Promise<Dispute> {
+  const paymentIntentId = typeof stripeDispute.payment_intent === 'string'
+    ? stripeDispute.payment_intent
+    : stripeDispute.payment_intent?.id ?? null;
+  const chargeId = typeof stripeDispute.charge === 'string'
+    ? stripeDispute.charge
+    : stripeDispute.charge?.id ?? null;
+  const evidenceDueBy = stripeDispute.evidence_details?.due_by
+    ? new Date(stripeDispute.evidence_details.due_by * 1000)
+    : null;
+
+  const currency = String(stripeDispute.currency || donation?.currency || 'aud').toUpperCase();
+  const details = {
+    stripeChargeId: chargeId,
+    paymentIntentId,
+    amount: fromMinorUnits(stripeDispute.amount, currency, 'stripe'),
+    currency,
+    reason: stripeDispute.reason ?? null,
+    status: stripeDispute.status,
+    outcome: DISPUTE_OUTCOMES[stripeDispute.status] ?? null,
+    evidenceDueBy,
+  };
+
+  const existing = await storage.getDisputeByStripeDisputeId(stripeDispute.id);
+  let dispute = existing
+    ? (await storage.updateDispute(existing.id, {
+        ...details,
+        donationId: existing.donationId ?? donation?.id ?? null,
+      })) ?? existing
+    : await storage.createDispute({
+        stripeDisputeId: stripeDispute.id,
+        donationId: donation?.id ?? null,
+        ...details,
+      });
+
+  console.log(`[DISPUTE] Dispute ${dispute.stripeDisputeId} is ${dispute.status}${dispute.donationId ? ` for donation ${dispute.donationId}` : ''}`);
+
+  if (dispute.outcome === 'lost' && !dispute.amountReversedAt && donation) {
+    dispute = await reverseLostDispute(dispute, donation);
+  }
+
+  return dispute;
+}
+
+/**
+ * The disputed amount has gone back to the donor's bank, so take it off the donation and case total once
+ */
+async function reverseLostDispute(dispute: Dispute, donation: Donation): Promise<Dispute> {
+  const current = (await storage.getDonation(donation.id)) ?? donation;
+  const amount = Math.min(dispute.amount, getRefundableAmount(current));
+
+  if (amount > 0) {
+    await reverseDonationAmount(current, amount);
+    console.log(`[DISPUTE] Lost dispute ${dispute.stripeDisputeId}: reversed ${amount} ${dispute.currency} on donation ${donation.id}`);
+  }
+
+  return (await storage.updateDispute(dispute.id, { amountReversedAt: new Date() })) ?? dispute;
+}
@@ -3,7 +3,7 @@
  * Handles sending emails via Nodemailer
  */
 import nodemailer from 'nodemailer';
-import { ContactMessage, Donation } from '@shared/schema';
+import { Case, CaseUpdate, ContactMessage, Donation, DonorStatement, StatementTotal } from '@shared/schema';
 import config from './config';
 import { promises as fs } from 'fs';
 import path from 'path';
@@ -212,7 +212,7 @@ Aafiyaa Charity Clinics Team
 /**
  * Send a subscription confirmation email
  */
-export async function sendSubscriptionConfirmation(donation: Donation, userEmail?: string): Promise<boolean> {
+export async function sendSubscriptionConfirmation(donation: Donation, userEmail?: string, manageUrl?: string): Promise<boolean> {
   try {
     // Skip if no transporter or no recipient email
     if (!transporter || !userEmail) {
@@ -251,7 +251,10 @@ Subscription Details:
 ${donation.caseId ? `- For Case: ID #${donation.caseId}` : ''}
 
 Your continued support helps us provide consistent medical care to those in need.
-
+${manageUrl ? `
+To pause, skip a payment, change the amount or card, or cancel, use this link:
+${manageUrl}
+` : ''}
 For any questions about your subscription, please contact us at ${config.EMAIL.FROM}.
 
 Thank you again for your ongoing support!
@@ -290,7 +293,8 @@ Aafiyaa Charity Clinics Team
       
       <p>Your first payment has been processed successfully, and future payments will be automatically charged according to the schedule.</p>
       
-      <p>If you need to modify or cancel your subscription, or if you have any questions, please contact us at <a href="mailto:${config.EMAIL.FROM}">${config.EMAIL.FROM}</a>.</p>
+      ${manageUrl ? `<p>You can pause, skip a payment, change the amount or card, or cancel at any time from your <a href="${manageUrl}">recurring donation page</a>.</p>` : ''}
+      <p>If you have any questions about your subscription, please contact us at <a href="mailto:${config.EMAIL.FROM}">${config.EMAIL.FROM}</a>.</p>
       
       <p>With gratitude,<br>The Aafiyaa Charity Clinics Team</p>
     </div>
@@ -313,6 +317,201 @@ Aafiyaa Charity Clinics Team
   }
 }
 
+/**
+ * Send a confirmation email after a donor changes their recurring donation
+ */
+export async function sendSubscriptionChangeConfirmation(
+  donation: Donation,
+  changeDescription: string,
+  manageUrl?: string
+): Promise<boolean> {
+  try {
+    // Skip if no transporter or no recipient email
+    if (!transporter || !donation.email) {
+      console.log(`Subscription change email sending skipped: ${!transporter ? 'No transporter' : 'No recipient email'}`);
+      return false;
+    }
+
+    const formattedAmount = new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: donation.currency || 'AUD'
+    }).format(donation.amount);
+
+    const nextPaymentDate = donation.nextPaymentDate
+      ? new Date(donation.nextPaymentDate).toLocaleDateString('en-AU', {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric'
+        })
+      : 'None scheduled';
+
+    const emailContent = {
+      from: `"Aafiyaa Charity Clinics" <${config.EMAIL.FROM}>`,
+      to: donation.email,
+      subject: 'Your Recurring Donation Has Been Updated',
+      text: `
+Assalamu Alaikum,
+
+${changeDescription}
+
+Current Details:
+- Amount: ${formattedAmount} ${getFrequencyLabel(donation.frequency)}
+- Type: ${getDonationTypeLabel(donation.type)}
+- Status: ${donation.subscriptionStatus || donation.status}
+- Next payment date: ${nextPaymentDate}
+${manageUrl ? `
+Manage your recurring donation: ${manageUrl}
+` : ''}
+If you did not make this change, please contact us at ${config.EMAIL.FROM}.
+
+Aafiyaa Charity Clinics Team
+`,
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #008080; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; border: 1px solid #eee; }
+    .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+    .subscription-details { background-color: #f9f9f9; padding: 15px; border-left: 4px solid #008080; margin: 20px 0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Recurring Donation Updated</h1>
+    </div>
+    <div class="content">
+      <p>Assalamu Alaikum,</p>
+      <p>${changeDescription}</p>
+      
+      <div class="subscription-details">
+        <h3>Current Details:</h3>
+        <p><strong>Amount:</strong> ${formattedAmount} (${getFrequencyLabel(donation.frequency)})</p>
+        <p><strong>Purpose:</strong> ${getDonationTypeLabel(donation.type)}</p>
+        <p><strong>Status:</strong> ${donation.subscriptionStatus || donation.status}</p>
+        <p><strong>Next payment:</strong> ${nextPaymentDate}</p>
+      </div>
+      
+      ${manageUrl ? `<p>You can make further changes from your <a href="${manageUrl}">recurring donation page</a>.</p>` : ''}
+      <p>If you did not make this change, please contact us at <a href="mailto:${config.EMAIL.FROM}">${config.EMAIL.FROM}</a>.</p>
+      
+      <p>With gratitude,<br>The Aafiyaa Charity Clinics Team</p>
+    </div>
+    <div class="footer">
+      <p>This is an automated message. Please do not reply to this email.</p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+    };
+
+    const info = await transporter.sendMail(emailContent);
+    console.log('Subscription change email sent:', info.messageId);
+    return true;
+  } catch (error) {
+    console.error('Error sending subscription change email:', error);
+    return false;
+  }
+}
+
+/**
+ * Let a donor know part or all of their donation has been refunded
+ */
+export async function sendRefundConfirmation(
+  donation: Donation,
+  refundAmount: number,
+  fullyRefunded: boolean
+): Promise<boolean> {
+  try {
+    // Skip if no transporter or no recipient email
+    if (!transporter || !donation.email) {
+      console.log(`Refund email sending skipped: ${!transporter ? 'No transporter' : 'No recipient email'}`);
+      return false;
+    }
+
+    const formatAmount = (amount: number) => new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: donation.currency || 'AUD'
+    }).format(amount);
+
+    const formattedRefund = formatAmount(refundAmount);
+    const formattedRemaining = formatAmount(Math.max(donation.amount - (donation.refundedAmount ?? 0), 0));
+    const receiptNote = fullyRefunded
+      ? 'The tax receipt for this donation is no longer valid and has been cancelled.'
+      : `Your tax receipt has been amended to the remaining donation of ${formattedRemaining}.`;
+
+    const emailContent = {
+      from: `"Aafiyaa Charity Clinics" <${config.EMAIL.FROM}>`,
+      to: donation.email,
+      subject: fullyRefunded ? 'Your Donation Has Been Refunded' : 'Part of Your Donation Has Been Refunded',
+      text: `
+Assalamu Alaikum,
+
+We have refunded ${formattedRefund} of your ${formatAmount(donation.amount)} ${getDonationTypeLabel(donation.type)} donation.
+Refunds usually take 5-10 business days to appear on your statement.
+
+${receiptNote}
+
+If you have any questions, please contact us at ${config.EMAIL.FROM}.
+
+Aafiyaa Charity Clinics Team
+`,
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #008080; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; border: 1px solid #eee; }
+    .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+    .refund-details { background-color: #f9f9f9; padding: 15px; border-left: 4px solid #008080; margin: 20px 0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${fullyRefunded ? 'Donation Refunded' : 'Partial Refund'}</h1>
+    </div>
+    <div class="content">
+      <p>Assalamu Alaikum,</p>
+      <p>We have processed a refund for your donation. Refunds usually take 5-10 business days to appear on your statement.</p>
+      
+      <div class="refund-details">
+        <p><strong>Original donation:</strong> ${formatAmount(donation.amount)}</p>
+        <p><strong>Refunded:</strong> ${formattedRefund}</p>
+        <p><strong>Purpose:</strong> ${getDonationTypeLabel(donation.type)}</p>
+      </div>
+      
+      <p>${receiptNote}</p>
+      <p>If you have any questions, please contact us at <a href="mailto:${config.EMAIL.FROM}">${config.EMAIL.FROM}</a>.</p>
+      
+      <p>With gratitude,<br>The Aafiyaa Charity Clinics Team</p>
+    </div>
+    <div class="footer">
+      <p>This is an automated message. Please do not reply to this email.</p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+    };
+
+    const info = await transporter.sendMail(emailContent);
+    console.log('Refund email sent:', info.messageId);
+    return true;
+  } catch (error) {
+    console.error('Error sending refund email:', error);
+    return false;
+  }
+}
+
 /**
  * Send PDF receipt email with attachment
  */
@@ -522,6 +721,262 @@ Please retain this email and the attached PDF for your tax records.
   }
 }
 
+/**
+ * Send a donor's consolidated end-of-year statement with the PDF attached
+ */
+export async function sendDonorStatement(
+  statement: DonorStatement,
+  periodLabel: string,
+  pdfPath: string
+): Promise<boolean> {
+  try {
+    // Skip if no transporter
+    if (!transporter) {
+      console.log('Statement email sending skipped: No transporter');
+      return false;
+    }
+
+    // Check if PDF file exists
+    try {
+      await fs.access(pdfPath);
+    } catch (error) {
+      console.error('PDF file not found:', pdfPath);
+      return false;
+    }
+
+    const totals = statement.totals as StatementTotal[];
+    const formatAmount = (amount: number, currency: string) => new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: currency || 'AUD'
+    }).format(amount);
+    const totalLines = totals.map(total => `${getDonationTypeLabel(total.type)}: ${formatAmount(total.amount, total.currency)}`);
+
+    const emailContent = {
+      from: `"Aafiyaa Charity Clinics" <${config.EMAIL.FROM}>`,
+      to: statement.donorEmail,
+      subject: `Your Donation Statement for ${periodLabel}`,
+      text: `
+Dear ${statement.donorName || 'Valued Supporter'},
+
+Thank you for your support during ${periodLabel}. Your consolidated donation statement is attached as a PDF for your tax records.
+
+Statement Number: ${statement.statementNumber}
+Donations: ${statement.donationCount}
+${totalLines.map(line => `- ${line}`).join('\n')}
+
+With gratitude,
+The Aafiyaa Charity Clinics Team
+`,
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #14b8a6; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { padding: 30px; border: 1px solid #eee; border-top: none; border-radius: 0 0 8px 8px; }
+    .statement-info { background-color: #f0fdfa; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #14b8a6; }
+    .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 2px solid #e5e7eb; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Your ${periodLabel} Donation Statement</h1>
+    </div>
+    <div class="content">
+      <p>Dear ${statement.donorName || 'Valued Supporter'},</p>
+      <p>Thank you for your support during ${periodLabel}. Your consolidated donation statement is attached as a PDF for your tax records.</p>
+      
+      <div class="statement-info">
+        <p><strong>Statement Number:</strong> ${statement.statementNumber}</p>
+        <p><strong>Donations:</strong> ${statement.donationCount}</p>
+        ${totalLines.map(line => `<p>${line}</p>`).join('')}
+      </div>
+      
+      <p>With gratitude,<br>The Aafiyaa Charity Clinics Team</p>
+    </div>
+    <div class="footer">
+      <p>This statement has been electronically generated and is valid without a signature.</p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+      attachments: [
+        {
+          filename: `statement_${statement.statementNumber}.pdf`,
+          path: pdfPath,
+          contentType: 'application/pdf'
+        }
+      ]
+    };
+
+    const info = await transporter.sendMail(emailContent);
+    console.log(`Statement email sent successfully: ${info.messageId} to ${statement.donorEmail}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending statement email:', error);
+    return false;
+  }
+}
+
+/**
+ * Send a one-time sign-in link for the donor "My Giving" page
+ */
+export async function sendDonorLoginLink(email: string, loginUrl: string, expiresInMinutes: number): Promise<boolean> {
+  try {
+    // Skip if no transporter or no recipient email
+    if (!transporter || !email) {
+      console.log(`Donor login email sending skipped: ${!transporter ? 'No transporter' : 'No recipient email'}`);
+      return false;
+    }
+
+    const emailContent = {
+      from: `"Aafiyaa Charity Clinics" <${config.EMAIL.FROM}>`,
+      to: email,
+      subject: 'Your sign-in link for Aafiyaa Charity Clinics',
+      text: `
+Assalamu Alaikum,
+
+Use the link below to sign in and view your giving history with Aafiyaa Charity Clinics:
+
+${loginUrl}
+
+This link can only be used once and expires in ${expiresInMinutes} minutes.
+
+If you did not request this email, you can safely ignore it.
+
+Aafiyaa Charity Clinics Team
+`,
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #008080; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; border: 1px solid #eee; }
+    .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+    .button { display: inline-block; background-color: #008080; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 20px 0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Sign in to My Giving</h1>
+    </div>
+    <div class="content">
+      <p>Assalamu Alaikum,</p>
+      <p>Click the button below to sign in and view your donations, recurring gifts and receipts.</p>
+      <p style="text-align: center;"><a class="button" href="${loginUrl}">Sign in to My Giving</a></p>
+      <p>This link can only be used once and expires in ${expiresInMinutes} minutes.</p>
+      <p>If you did not request this email, you can safely ignore it.</p>
+      <p>With gratitude,<br>The Aafiyaa Charity Clinics Team</p>
+    </div>
+    <div class="footer">
+      <p>This is an automated message. Please do not reply to this email.</p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+    };
+
+    const info = await transporter.sendMail(emailContent);
+    console.log(`Donor login email sent: ${info.messageId}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending donor login email:', error);
+    return false;
+  }
+}
+
+/**
+ * Tell a donor about a new update on a case they gave to
+ */
+export async function sendCaseUpdateEmail(
+  email: string,
+  caseItem: Case,
+  update: CaseUpdate,
+  caseUrl: string,
+  unsubscribeUrl: string
+): Promise<boolean> {
+  try {
+    // Skip if no transporter or no recipient email
+    if (!transporter || !email) {
+      console.log(`Case update email sending skipped: ${!transporter ? 'No transporter' : 'No recipient email'}`);
+      return false;
+    }
+
+    const postedOn = new Date(update.createdAt).toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+    const emailContent = {
+      from: `"Aafiyaa Charity Clinics" <${config.EMAIL.FROM}>`,
+      to: email,
+      subject: `An update on ${caseItem.title}`,
+      list: { unsubscribe: unsubscribeUrl },
+      text: `
+Assalamu Alaikum,
+
+Thank you for supporting ${caseItem.title}. Here is an update from ${postedOn}:
+
+${update.body}
+
+Follow the case: ${caseUrl}
+
+To stop receiving updates about this case, visit: ${unsubscribeUrl}
+
+Aafiyaa Charity Clinics Team
+`,
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #008080; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; border: 1px solid #eee; }
+    .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+    .button { display: inline-block; background-color: #008080; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 20px 0; }
+    .update-image { max-width: 100%; border-radius: 4px; margin: 10px 0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${caseItem.title}</h1>
+    </div>
+    <div class="content">
+      <p>Assalamu Alaikum,</p>
+      <p>Thank you for supporting this case. Here is an update from ${postedOn}:</p>
+      <p>${update.body.replace(/\n/g, '<br>')}</p>
+      ${update.imageUrl ? `<img class="update-image" src="${update.imageUrl}" alt="${caseItem.title}">` : ''}
+      <p style="text-align: center;"><a class="button" href="${caseUrl}">Follow the case</a></p>
+      <p>With gratitude,<br>The Aafiyaa Charity Clinics Team</p>
+    </div>
+    <div class="footer">
+      <p>You are receiving this because you donated to this case. <a href="${unsubscribeUrl}">Stop updates about this case</a></p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+    };
+
+    const info = await transporter.sendMail(emailContent);
+    console.log(`Case update email sent: ${info.messageId}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending case update email:', error);
+    return false;
+  }
+}
+
 // Helper functions for donation labels
 function getDonationTypeLabel(type: string): string {
   switch (type.toLowerCase()) {
@@ -0,0 +1,270 @@
+/**
+ * Exchange rates against the base currency
+ * Rates come from a pluggable provider and are kept in the exchange rates table, refreshed on a schedule,
+ * so checkout carries on with the last known rates while the provider is unreachable. Admins can set
+ * manual rates that take precedence over the provider's.
+ * Each donation stores the rate in effect when it was made, so later rate changes never alter reported totals.
+ */
+import fetch from 'node-fetch';
+import { storage } from './storage';
+import config from './config';
+import { BASE_CURRENCY } from '@shared/currency';
+import { roundToMinorUnit } from '@shared/money';
+import type { ExchangeRate } from '@shared/schema';
+
+export interface ExchangeRateProvider {
+  name: string;
+  // Units of each currency per one unit of `base`
+  fetchRates(base: string, signal: AbortSignal): Promise<Record<string, number>>;
+}
+
+export interface ExchangeRateSummary {
+  base: string;
+  rates: Record<string, number>; // Manual rates where set, otherwise the provider's
+  provider: string;
+  fetchedAt: Date | null; // When the provider rates were last refreshed
+  ageSeconds: number | null;
+  stale: boolean;
+  overrides: string[]; // Currencies using a manual rate
+  lastError: string | null; // Why the last refresh failed, cleared once one succeeds
+}
+
+const openErApiProvider: ExchangeRateProvider = {
+  name: 'open-er-api',
+  async fetchRates(base: string, signal: AbortSignal) {
+    const response = await fetch(`https://open.er-api.com/v6/latest/${base}`, { signal });
+    const data = await response.json() as any;
+    if (!response.ok || data.result !== 'success' || !data.rates) {
+      throw new Error(data['error-type'] || `HTTP ${response.status}`);
+    }
+    return data.rates;
+  }
+};
+
+const frankfurterProvider: ExchangeRateProvider = {
+  name: 'frankfurter',
+  async fetchRates(base: string, signal: AbortSignal) {
+    const response = await fetch(`https://api.frankfurter.app/latest?from=${base}`, { signal });
+    const data = await response.json() as any;
+    if (!response.ok || !data.rates) {
+      throw new Error(data.message || `HTTP ${response.status}`);
+    }
+    // ECB reference rates leave out the base currency itself
+    return { ...data.rates, [base]: 1 };
+  }
+};
+
+export const EXCHANGE_RATE_PROVIDERS: Record<string, ExchangeRateProvider> = {
+  [openErApiProvider.name]: openErApiProvider,
+  [frankfurterProvider.name]: frankfurterProvider
+};
+
+const REFRESH_INTERVAL_MS = config.EXCHANGE_RATES.REFRESH_INTERVAL_MINUTES * 60 * 1000;
+const STALE_AFTER_MS = config.EXCHANGE_RATES.STALE_AFTER_HOURS * 60 * 60 * 1000;
+const RETRY_AFTER_FAILURE_MS = 60 * 1000; // Don't hold up every donation while the provider is down
+const FETCH_TIMEOUT_MS = 5000;
+
+let provider = EXCHANGE_RATE_PROVIDERS[config.EXCHANGE_RATES.PROVIDER] ?? openErApiProvider;
+
+// The stored rate table, reloaded from storage whenever it changes
+let rateTable: ExchangeRate[] | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
+let lastFailureAt = 0;
+let lastError: string | null = null;
+
+/**
+ * Use a different rate provider from now on
+ */
+export function setExchangeRateProvider(newProvider: ExchangeRateProvider): void {
+  provider = newProvider;
+  lastFailureAt = 0;
+}
+
+async function getRateTable(): Promise<ExchangeRate[]> {
+  if (!rateTable) {
+    rateTable = await storage.getExchangeRates();
+  }
+  return rateTable;
+}
+
+function getLastFetchedAt(table: ExchangeRate[]): Date | null {
+  const times = table.filter(row => row.fetchedAt).map(row => new Date(row.fetchedAt!).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+const getEffectiveRate = (row: ExchangeRate) => row.overrideRate ?? row.rate;
+
+/**
+ * Fetch the latest rates from the provider and store them. On failure the stored rates are left as they were.
+ */
+export function refreshExchangeRates(): Promise<boolean> {
+  if (refreshInFlight) return refreshInFlight;
+
+  refreshInFlight = (async () => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+      const fetched = await provider.fetchRates(BASE_CURRENCY, controller.signal);
+      const rates = Object.fromEntries(
+        Object.entries(fetched).filter(([, rate]) => typeof rate === 'number' && rate > 0)
+      );
+      await storage.saveProviderExchangeRates(rates, provider.name, new Date());
+      rateTable = await storage.getExchangeRates();
+      lastError = null;
+      console.log(`[FX] Refreshed ${Object.keys(rates).length} exchange rates from ${provider.name}`);
+      return true;
+    } catch (error: any) {
+      lastFailureAt = Date.now();
+      lastError = error.message;
+      console.error(`[FX] Failed to refresh exchange rates from ${provider.name}: ${error.message}`);
+      return false;
+    } finally {
+      clearTimeout(timeout);
+      refreshInFlight = null;
+    }
+  })();
+
+  return refreshInFlight;
+}
+
+// The stored rates, refreshed first if they are overdue (for example before the first scheduled refresh)
+async function getCurrentRateTable(): Promise<ExchangeRate[]> {
+  const lastFetchedAt = getLastFetchedAt(await getRateTable());
+  const refreshDue = !lastFetchedAt || Date.now() - lastFetchedAt.getTime() > REFRESH_INTERVAL_MS;
+  if (refreshDue && Date.now() - lastFailureAt > RETRY_AFTER_FAILURE_MS) {
+    await refreshExchangeRates();
+  }
+  return getRateTable();
+}
+
+/**
+ * How much one unit of the currency is worth in the base currency, or null if no rate is available
+ */
+export async function getRateToBase(currency: string): Promise<number | null> {
+  const code = currency.toUpperCase();
+  if (code === BASE_CURRENCY) return 1;
+
+  const row = (await getCurrentRateTable()).find(r => r.currency === code);
+  const rate = row ? getEffectiveRate(row) : null;
+  return rate ? 1 / rate : null;
+}
+
+/**
+ * The rates to convert from the base currency, with how fresh they are
+ */
+export async function getExchangeRateSummary(): Promise<ExchangeRateSummary> {
+  const table = await getCurrentRateTable();
+  const rates: Record<string, number> = { [BASE_CURRENCY]: 1 };
+  for (const row of table) {
+    const rate = getEffectiveRate(row);
+    if (rate) rates[row.currency] = rate;
+  }
+
+  const fetchedAt = getLastFetchedAt(table);
+  const ageMs = fetchedAt ? Date.now() - fetchedAt.getTime() : null;
+  return {
+    base: BASE_CURRENCY,
+    rates,
+    provider: provider.name,
+    fetchedAt,
+    ageSeconds: ageMs === null ? null : Math.floor(ageMs / 1000),
+    stale: ageMs === null || ageMs > STALE_AFTER_MS,
+    overrides: table.filter(row => row.overrideRate !== null).map(row => row.currency),
+    lastError
+  };
+}
+
+/**
+ * Every stored rate, for the admin dashboard
+ */
+export async function getExchangeRateTable(): Promise<ExchangeRate[]> {
+  return getRateTable();
+}
+
+/**
+ * Set a manual rate (units of the currency per unit of the base currency), or clear it with null
+ */
+export async function setManualExchangeRate(currency: string, rate: number | null, setBy: string | null): Promise<ExchangeRate> {
+  const exchangeRate = await storage.setExchangeRateOverride(currency.toUpperCase(), rate, setBy);
+  rateTable = await storage.getExchangeRates();
+  console.log(rate === null
+    ? `[FX] ${setBy} cleared the manual ${exchangeRate.currency} rate`
+    : `[FX] ${setBy} set a manual rate of ${rate} ${exchangeRate.currency} per ${BASE_CURRENCY}`);
+  return exchangeRate;
+}
+
+/**
+ * Refresh the stored rates now and then on the configured interval
+ */
+export function startExchangeRateRefresh(): void {
+  const runRefresh = () => {
+    void refreshExchangeRates();
+  };
+
+  runRefresh();
+  setInterval(runRefresh, REFRESH_INTERVAL_MS).unref();
+}
+
+/**
+ * Add the current exchange rates and base currency amount to new donation data. Donations to a case
+ * also store the rate into the case's currency, which is what the case total is kept in.
+ */
+export async function withExchangeRateSnapshot<T extends { amount: number; currency: string; caseId?: number | null }>(
+  donationData: T
+): Promise<T & { exchangeRate: number | null; baseAmount: number | null; caseExchangeRate: number | null }> {
+  const exchangeRate = await getRateToBase(donationData.currency);
+  if (exchangeRate === null) {
+    console.warn(`[FX] No ${donationData.currency} rate available, the donation will be normalised later`);
+  }
+
+  return {
+    ...donationData,
+    exchangeRate,
+    baseAmount: exchangeRate === null ? null : roundToMinorUnit(donationData.amount * exchangeRate, BASE_CURRENCY),
+    caseExchangeRate: await getCaseExchangeRate(donationData.caseId, donationData.currency, exchangeRate)
+  };
+}
+
+async function getCaseExchangeRate(
+  caseId: number | null | undefined,
+  currency: string,
+  exchangeRate: number | null
+): Promise<number | null> {
+  if (!caseId) return null;
+
+  const caseItem = await storage.getCase(caseId);
+  if (!caseItem) return null;
+  if (caseItem.currency.toUpperCase() === currency.toUpperCase()) return 1;
+
+  const caseRate = await getRateToBase(caseItem.currency);
+  return exchangeRate === null || caseRate === null ? null : exchangeRate / caseRate;
+}
+
+/**
+ * Give donations saved without a rate (older donations, or ones made while the rate service was down)
+ * the current rate, so every donation has a base currency amount
+ */
+export async function backfillExchangeRateSnapshots(): Promise<number> {
+  const donations = await storage.getDonations();
+  let updated = 0;
+
+  for (const donation of donations) {
+    const missingCaseRate = donation.caseId !== null && donation.caseExchangeRate === null;
+    if (donation.exchangeRate !== null && donation.baseAmount !== null && !missingCaseRate) continue;
+
+    const snapshot = await withExchangeRateSnapshot(donation);
+    if (snapshot.exchangeRate === null || snapshot.baseAmount === null) continue;
+
+    await storage.updateDonationExchangeRate(donation.id, {
+      exchangeRate: snapshot.exchangeRate,
+      baseAmount: snapshot.baseAmount,
+      caseExchangeRate: snapshot.caseExchangeRate
+    });
+    updated++;
+  }
+
+  if (updated > 0) {
+    console.log(`[FX] Stored exchange rates on ${updated} donation(s) that were missing one`);
+  }
+  return updated;
+}
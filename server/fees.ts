@@ -0,0 +1,103 @@
+/**
+ * Processing fee quotes
+ * Donors can choose to cover the payment provider's fee on top of their gift. The fee is always
+ * worked out here from the admin-managed fee schedules, never taken from the amount the client sends.
+ */
+import { storage } from './storage';
+import config from './config';
+import { getRateToBase } from './exchange-rates';
+import { BASE_CURRENCY } from '@shared/currency';
+import { roundToMinorUnit, toDecimalString } from '@shared/money';
+import type { Donation } from '@shared/schema';
+
+export interface FeeQuote {
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  percentage: number;
+  fixedFee: number;
+  fee: number;
+  totalWithFee: number;
+  description: string;
+  // 'schedule' for a schedule in this currency, 'converted' when the base currency schedule was
+  // converted, 'default' when no schedule has been saved for the payment method
+  source: 'schedule' | 'converted' | 'default';
+}
+
+// Wallet payments are card payments through Stripe, so they share its schedule
+const FEE_SCHEDULE_METHODS: Record<string, string> = {
+  stripe: 'stripe',
+  apple_pay: 'stripe',
+  google_pay: 'stripe',
+  paypal: 'paypal'
+};
+
+/**
+ * The fee schedule that applies to a payment method and currency. Without a schedule for the
+ * currency, the base currency schedule (or the configured default) is used with its fixed fee
+ * converted at the current rate.
+ */
+async function resolveFeeSchedule(paymentMethod: string, currency: string) {
+  const schedules = await storage.getFeeSchedules();
+  const exact = schedules.find(s => s.paymentMethod === paymentMethod && s.currency === currency);
+  if (exact) {
+    return { percentage: exact.percentage, fixedFee: exact.fixedFee, source: 'schedule' as const };
+  }
+
+  const base = schedules.find(s => s.paymentMethod === paymentMethod && s.currency === BASE_CURRENCY);
+  const percentage = base?.percentage ?? config.FEES.DEFAULT_PERCENTAGE;
+  const baseFixedFee = base?.fixedFee ?? config.FEES.DEFAULT_FIXED_FEE;
+
+  // Without a rate the fixed fee is taken at face value, like donations without a rate
+  const rateToBase = await getRateToBase(currency);
+  return {
+    percentage,
+    fixedFee: rateToBase ? roundToMinorUnit(baseFixedFee / rateToBase, currency) : baseFixedFee,
+    source: base ? 'converted' as const : 'default' as const
+  };
+}
+
+/**
+ * Quote the processing fee for a gift. Returns null for payment methods without a fee schedule.
+ */
+export async function quoteProcessingFee(amount: number, currency: string, paymentMethod: string = 'stripe'): Promise<FeeQuote | null> {
+  const scheduleMethod = FEE_SCHEDULE_METHODS[paymentMethod];
+  if (!scheduleMethod) return null;
+
+  const code = currency.toUpperCase();
+  const { percentage, fixedFee, source } = await resolveFeeSchedule(scheduleMethod, code);
+  const fee = roundToMinorUnit(amount * percentage / 100 + fixedFee, code);
+
+  return {
+    amount,
+    currency: code,
+    paymentMethod,
+    percentage,
+    fixedFee,
+    fee,
+    totalWithFee: roundToMinorUnit(amount + fee, code),
+    description: `Payment processing fees: ${percentage}% + ${code} ${toDecimalString(fixedFee, code)}`,
+    source
+  };
+}
+
+/**
+ * What to charge for a donation: the gift, plus the quoted fee when the donor covers it
+ */
+export async function getDonationCharge(
+  donation: Donation,
+  coverFees: boolean
+): Promise<{ feeAmount: number; total: number }> {
+  const quote = coverFees
+    ? await quoteProcessingFee(donation.amount, donation.currency, donation.paymentMethod || 'stripe')
+    : null;
+  const feeAmount = quote?.fee ?? 0;
+  return { feeAmount, total: roundToMinorUnit(donation.amount + feeAmount, donation.currency) };
+}
+
+/**
+ * What the donor paid for a donation: the gift and any fee they covered
+ */
+export function getGrossAmount(donation: Pick<Donation, 'amount' | 'feeAmount' | 'currency'>): number {
+  return roundToMinorUnit(donation.amount + (donation.feeAmount ?? 0), donation.currency);
+}
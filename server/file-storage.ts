@@ -0,0 +1,49 @@
+/**
+ * Storage for uploaded files, addressed by keys such as `case-images/12/abc-web.webp`.
+ * Files are kept on local disk; another backend, such as an object store, only needs to implement IFileStorage.
+ */
+import fs from 'fs';
+import path from 'path';
+import config from './config';
+
+export interface IFileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  // Resolves to null when there is no file under the key
+  read(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are relative paths of letters, digits, dashes, underscores and dots, never `..`
+const KEY_PATTERN = /^[a-z0-9_-]+(\/[a-z0-9_-]+(\.[a-z0-9]+)?)+$/i;
+
+export class LocalFileStorage implements IFileStorage {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return path.join(this.rootDir, key);
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const fileStorage: IFileStorage = new LocalFileStorage(config.UPLOADS.DIR);
@@ -0,0 +1,149 @@
+/**
+ * Zakat, sadqah and interest money is accounted for in separate funds
+ * Completed donations are credited to the fund for their type when they complete; refunds and lost
+ * disputes are debited back, and admins record what they pay out of each fund as disbursements.
+ */
+import { storage } from './storage';
+import { REFUNDABLE_DONATION_STATUSES } from './refunds';
+import { BASE_CURRENCY, toBaseAmount } from '@shared/currency';
+import { roundToMinorUnit } from '@shared/money';
+import { FUNDS, type Fund, type FundDisbursement, type FundLedgerEntry } from '@shared/schema';
+
+export interface FundBalance {
+  fund: Fund;
+  credits: number;
+  debits: number;
+  balance: number;
+}
+
+/**
+ * Money in, money out and what is left in each fund, in the base currency
+ */
+export function getFundBalances(entries: FundLedgerEntry[]): FundBalance[] {
+  return FUNDS.map(fund => {
+    const fundEntries = entries.filter(entry => entry.fund === fund);
+    const credits = roundToMinorUnit(fundEntries.filter(e => e.amount > 0).reduce((sum, e) => sum + e.amount, 0), BASE_CURRENCY);
+    const debits = roundToMinorUnit(fundEntries.filter(e => e.amount < 0).reduce((sum, e) => sum - e.amount, 0), BASE_CURRENCY);
+    return { fund, credits, debits, balance: roundToMinorUnit(credits - debits, BASE_CURRENCY) };
+  });
+}
+
+/**
+ * Record money paid out of a fund. Zakat can only be paid to zakat-eligible cases, and no fund
+ * can pay out more than it holds.
+ */
+export async function recordDisbursement(
+  disbursement: FundDisbursement,
+  createdBy: string | null
+): Promise<{ entry: FundLedgerEntry } | { error: string }> {
+  if (disbursement.recipientType === 'case') {
+    const caseItem = await storage.getCase(disbursement.caseId!);
+    if (!caseItem) {
+      return { error: "Case not found" };
+    }
+    if (disbursement.fund === 'zakaat' && !caseItem.zakaatEligible) {
+      return { error: "Zakat can only be disbursed to cases that are eligible for zakat" };
+    }
+  }
+
+  const amount = roundToMinorUnit(disbursement.amount, BASE_CURRENCY);
+  const result = await storage.createFundDisbursement({
+    fund: disbursement.fund,
+    entryType: 'disbursement',
+    amount: -amount,
+    recipientType: disbursement.recipientType,
+    caseId: disbursement.recipientType === 'case' ? disbursement.caseId : null,
+    recipient: disbursement.recipientType === 'beneficiary' ? disbursement.recipient : null,
+    description: disbursement.description,
+    reference: disbursement.reference || null,
+    createdBy
+  });
+  if ('balance' in result) {
+    return { error: `The ${disbursement.fund} fund only holds ${BASE_CURRENCY} ${result.balance.toFixed(2)}` };
+  }
+
+  console.log(`[FUNDS] ${BASE_CURRENCY} ${amount} disbursed from the ${disbursement.fund} fund by ${createdBy}`);
+  return { entry: result.entry };
+}
+
+// Donations that were paid, including ones refunded since
+const PAID_DONATION_STATUSES = [...REFUNDABLE_DONATION_STATUSES, 'refunded'];
+
+/**
+ * Credit paid donations the ledger is missing: ones completed before it existed, or before they had an
+ * exchange rate. Refunds made in that time were never taken back off the fund either, so they are reversed
+ * now. Safe to run again; it runs on every start after exchange rates are backfilled.
+ */
+export async function backfillFundLedger(): Promise<number> {
+  const [donations, entries] = await Promise.all([storage.getDonations(), storage.getFundLedgerEntries()]);
+  let updated = 0;
+
+  for (const donation of donations) {
+    if (!PAID_DONATION_STATUSES.includes(donation.status)) continue;
+
+    const donationEntries = entries.filter(entry => entry.donationId === donation.id);
+    if (!donationEntries.some(entry => entry.entryType === 'donation')) {
+      if (!(await storage.creditDonationToFund(donation))) continue;
+      updated++;
+    }
+
+    const refunded = toBaseAmount(donation, donation.refundedAmount ?? 0) ?? 0;
+    const reversals = donationEntries.filter(entry => entry.entryType === 'reversal');
+    const missing = roundToMinorUnit(refunded + reversals.reduce((sum, entry) => sum + entry.amount, 0), BASE_CURRENCY);
+    // Each reversal was rounded on its own, so a cent either way is not a missing refund
+    if (missing <= 0.005 * (reversals.length + 1)) continue;
+
+    await storage.createFundLedgerEntry({
+      fund: donation.type,
+      entryType: 'reversal',
+      amount: -missing,
+      donationId: donation.id,
+      caseId: donation.caseId ?? null,
+      description: `Reversal of refunds made before donation #${donation.id} was credited`
+    });
+    updated++;
+  }
+
+  if (updated > 0) {
+    console.log(`[FUNDS] Added ${updated} missing fund ledger entr${updated === 1 ? 'y' : 'ies'} for earlier donations`);
+  }
+  return updated;
+}
+
+const CSV_COLUMNS = [
+  'Date', 'Entry ID', 'Fund', 'Type', 'Description', 'Donation ID', 'Recipient type', 'Case ID',
+  'Recipient', 'Reference', 'Recorded by', `Amount (${BASE_CURRENCY})`, `Balance (${BASE_CURRENCY})`
+];
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The ledger as CSV for the accountant, with a running balance for each fund
+ */
+export function fundLedgerToCsv(entries: FundLedgerEntry[]): string {
+  const balances = new Map<string, number>();
+  const rows = entries.map(entry => {
+    const balance = roundToMinorUnit((balances.get(entry.fund) ?? 0) + entry.amount, BASE_CURRENCY);
+    balances.set(entry.fund, balance);
+    return [
+      entry.createdAt.toISOString(),
+      entry.id,
+      entry.fund,
+      entry.entryType,
+      entry.description,
+      entry.donationId,
+      entry.recipientType,
+      entry.caseId,
+      entry.recipient,
+      entry.reference,
+      entry.createdBy,
+      entry.amount.toFixed(2),
+      balance.toFixed(2)
+    ].map(csvCell).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
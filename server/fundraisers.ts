@@ -0,0 +1,164 @@
+/**
+ * Peer-to-peer fundraisers: a signed-in supporter runs their own page, e.g. for a birthday or a sponsored walk,
+ * for a case or the clinic. Pages start out waiting for review and only go public once an admin approves them.
+ * Donations made through a page are attributed to it, and go to its case like any other donation to that case.
+ */
+import { randomBytes } from 'crypto';
+import { storage } from './storage';
+import { getNetDonatedAmount } from './refunds';
+import { BASE_CURRENCY, toBaseAmount } from '@shared/currency';
+import { roundToMinorUnit } from '@shared/money';
+import { isAcceptingDonations } from '@shared/case-lifecycle';
+import type { Case, Donation, Fundraiser, FundraiserModeration, FundraiserRequest } from '@shared/schema';
+
+export interface FundraiserSupporter {
+  name: string;
+  amount: number; // In the base currency, net of refunds
+  createdAt: Date;
+}
+
+export type FundraiserWithProgress = Fundraiser & {
+  raisedAmount: number;
+  supporterCount: number;
+};
+
+// What anyone can see of an approved fundraiser
+export type PublicFundraiser = Pick<Fundraiser, 'id' | 'slug' | 'ownerName' | 'title' | 'story' | 'goalAmount' | 'createdAt'> & {
+  case: Pick<Case, 'id' | 'title' | 'zakaatEligible'> | null;
+  raisedAmount: number;
+  supporters: FundraiserSupporter[];
+  acceptingDonations: boolean;
+};
+
+// Supporters are listed by first name only, or as Anonymous when they asked not to be named
+const getSupporterName = (donation: Donation) =>
+  (!donation.anonymous && (donation.firstName?.trim() || donation.name?.trim().split(/\s+/)[0])) || 'Anonymous';
+
+/**
+ * Everyone who has given through a fundraiser, newest first, leaving out donations that were never paid or were refunded in full,
+ * and any that have no exchange rate yet
+ */
+async function getSupporters(fundraiser: Fundraiser): Promise<FundraiserSupporter[]> {
+  const donations = await storage.getDonationsByFundraiserId(fundraiser.id);
+  return donations
+    .map(donation => ({ donation, amount: toBaseAmount(donation, getNetDonatedAmount(donation)) }))
+    .filter((supporter): supporter is { donation: Donation; amount: number } => supporter.amount !== null && supporter.amount > 0)
+    .map(({ donation, amount }) => ({
+      name: getSupporterName(donation),
+      amount,
+      createdAt: donation.createdAt
+    }));
+}
+
+const getRaisedAmount = (supporters: FundraiserSupporter[]) =>
+  roundToMinorUnit(supporters.reduce((sum, supporter) => sum + supporter.amount, 0), BASE_CURRENCY);
+
+export async function withFundraiserProgress(fundraiser: Fundraiser): Promise<FundraiserWithProgress> {
+  const supporters = await getSupporters(fundraiser);
+  return { ...fundraiser, raisedAmount: getRaisedAmount(supporters), supporterCount: supporters.length };
+}
+
+/**
+ * An approved fundraiser's public page, or undefined while it is waiting for review or was rejected
+ */
+export async function getPublicFundraiser(slug: string): Promise<PublicFundraiser | undefined> {
+  const fundraiser = await storage.getFundraiserBySlug(slug);
+  if (!fundraiser || fundraiser.status !== 'approved') return undefined;
+
+  const caseItem = fundraiser.caseId ? await storage.getCase(fundraiser.caseId) : undefined;
+  const supporters = await getSupporters(fundraiser);
+  const { id, ownerName, title, story, goalAmount, createdAt } = fundraiser;
+  return {
+    id,
+    slug,
+    ownerName,
+    title,
+    story,
+    goalAmount,
+    createdAt,
+    case: caseItem ? { id: caseItem.id, title: caseItem.title, zakaatEligible: caseItem.zakaatEligible } : null,
+    raisedAmount: getRaisedAmount(supporters),
+    supporters,
+    acceptingDonations: !caseItem || isAcceptingDonations(caseItem)
+  };
+}
+
+const slugify = (title: string) =>
+  title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+
+/**
+ * Start a fundraiser for a signed-in supporter. It waits for an admin to approve it before it goes public.
+ */
+export async function createFundraiser(
+  request: FundraiserRequest,
+  ownerUserId: number
+): Promise<{ fundraiser: Fundraiser } | { error: string }> {
+  if (request.caseId) {
+    const caseItem = await storage.getCase(request.caseId);
+    if (!caseItem) {
+      return { error: "Case not found" };
+    }
+    if (!isAcceptingDonations(caseItem)) {
+      return { error: "This case is not taking donations, so it can't have a fundraiser" };
+    }
+  }
+
+  // The random suffix keeps slugs unique and hard to guess before the page is approved
+  const slug = `${slugify(request.title) || 'fundraiser'}-${randomBytes(3).toString('hex')}`;
+  const fundraiser = await storage.createFundraiser({
+    slug,
+    ownerUserId,
+    ownerName: request.ownerName,
+    title: request.title,
+    story: request.story,
+    goalAmount: request.goalAmount,
+    caseId: request.caseId ?? null,
+    status: 'pending_review'
+  });
+
+  console.log(`[FUNDRAISER] Fundraiser ${fundraiser.id} (${slug}) started by user ${ownerUserId}, waiting for review`);
+  return { fundraiser };
+}
+
+/**
+ * Approve a fundraiser so it goes public, or reject it with a reason for its owner
+ */
+export async function moderateFundraiser(
+  fundraiser: Fundraiser,
+  moderation: FundraiserModeration,
+  moderatedBy: string | null
+): Promise<Fundraiser | undefined> {
+  const updatedFundraiser = await storage.updateFundraiser(fundraiser.id, {
+    status: moderation.action === 'approve' ? 'approved' : 'rejected',
+    moderatedBy,
+    moderatedAt: new Date(),
+    moderationNote: moderation.note || null
+  });
+
+  console.log(`[FUNDRAISER] Fundraiser ${fundraiser.id} ${moderation.action === 'approve' ? 'approved' : 'rejected'} by ${moderatedBy}`);
+  return updatedFundraiser;
+}
+
+/**
+ * The fundraiser a donation is being made through, as long as it is public and can take this type of donation
+ */
+export async function getFundraiserForDonation(
+  fundraiserId: number,
+  donationType: string
+): Promise<{ fundraiser: Fundraiser } | { error: string }> {
+  const fundraiser = await storage.getFundraiser(fundraiserId);
+  if (!fundraiser || fundraiser.status !== 'approved') {
+    return { error: "This fundraiser is not taking donations" };
+  }
+  // Zakat has to go to an eligible case, which a fundraiser for the clinic as a whole doesn't have
+  if (donationType === 'zakaat' && !fundraiser.caseId) {
+    return { error: "This fundraiser is for the clinic, not a case, so it can't take zakat. Please donate as sadqah." };
+  }
+  return { fundraiser };
+}
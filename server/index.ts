@@ -8,6 +8,12 @@ import { setupVite, serveStatic, log } from "./vite";
 import { runMigrations, isDatabaseAvailable } from "./db";
 import { storage } from "./storage";
 import config, { validateConfig } from "./config";
+import { startStatementScheduler } from "./statements";
+import { startCaseDeadlineScheduler } from "./case-lifecycle";
+import { backfillExchangeRateSnapshots, startExchangeRateRefresh } from "./exchange-rates";
+import { recalculateCaseTotals } from "./case-totals";
+import { backfillFundLedger } from "./fund-ledger";
+import { loadIpDataset } from "./ip-geolocation";
 
 // Log the current environment for debugging
 console.log(`🚀 Starting server in ${config.NODE_ENV} mode`);
@@ -113,6 +119,22 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startStatementScheduler();
+      startCaseDeadlineScheduler();
+      startExchangeRateRefresh();
+      loadIpDataset().catch((error) => {
+        console.error("[GEOIP] Failed to load the IP country dataset:", error.message);
+      });
+      // Case totals and the fund ledger skip donations with no stored rate, so they are caught up once the rates are filled in
+      backfillExchangeRateSnapshots()
+        .then((updated) => (updated > 0 ? recalculateCaseTotals() : undefined))
+        .catch((error) => {
+          console.error("[FX] Exchange rate backfill failed:", error.message);
+        })
+        .then(() => backfillFundLedger())
+        .catch((error) => {
+          console.error("[FUNDS] Fund ledger backfill failed:", error.message);
+        });
     }
   );
 })();
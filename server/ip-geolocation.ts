@@ -0,0 +1,208 @@
+/**
+ * Offline IP address to country lookup
+ * Loads an IP range dataset from a local CSV so donor IP addresses never leave the server.
+ * Each row is `start,end,country_code[,...]`, with the range given as IPv4/IPv6 addresses or as
+ * integers, which covers the free DB-IP and IP2Location LITE country downloads.
+ */
+import fs from 'fs';
+import path from 'path';
+import type { Request } from 'express';
+import config from './config';
+
+export interface IpDatasetInfo {
+  path: string;
+  loaded: boolean;
+  ranges: number;
+  loadedAt: Date | null;
+}
+
+// Ranges sorted by start address; IPv4 as numbers and IPv6 as bigints
+interface IpRangeTable {
+  ipv4: { starts: number[]; ends: number[]; countries: string[] };
+  ipv6: { starts: bigint[]; ends: bigint[]; countries: string[] };
+}
+
+const MAX_IPV4 = 0xffffffff;
+
+let dataset: IpRangeTable | null = null;
+let loadedAt: Date | null = null;
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+function parseIpv6(address: string): bigint | null {
+  let text = address.toLowerCase().split('%')[0];
+
+  // An IPv4 address in the last 32 bits, e.g. ::ffff:203.0.113.5
+  const lastColon = text.lastIndexOf(':');
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const ipv4 = parseIpv4(tail);
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+    value = (value << BigInt(16)) + BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are looked up as IPv4
+const IPV4_MAPPED_PREFIX = BigInt('0xffff00000000');
+const IPV4_MAPPED_MASK = BigInt('0xffffffffffffffffffffffff00000000');
+
+function parseAddress(value: string): number | bigint | null {
+  if (/^\d+$/.test(value)) {
+    const numeric = BigInt(value);
+    return numeric <= BigInt(MAX_IPV4) ? Number(numeric) : numeric;
+  }
+  if (value.includes(':')) {
+    const ipv6 = parseIpv6(value);
+    if (ipv6 !== null && (ipv6 & IPV4_MAPPED_MASK) === IPV4_MAPPED_PREFIX) {
+      return Number(ipv6 - IPV4_MAPPED_PREFIX);
+    }
+    return ipv6;
+  }
+  return parseIpv4(value);
+}
+
+/**
+ * Parse an IP range CSV. Header rows, blank lines and rows without a usable country are skipped.
+ */
+export function parseIpRangeCsv(csv: string): IpRangeTable {
+  const ipv4: Array<[number, number, string]> = [];
+  const ipv6: Array<[bigint, bigint, string]> = [];
+
+  for (const line of csv.split(/\r?\n/)) {
+    const [rawStart, rawEnd, rawCountry] = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''));
+    if (!rawStart || !rawEnd || !rawCountry) continue;
+
+    const country = rawCountry.toUpperCase();
+    if (!/^[A-Z]{2}$/.test(country) || country === 'ZZ') continue;
+
+    const start = parseAddress(rawStart);
+    const end = parseAddress(rawEnd);
+    if (start === null || end === null || typeof start !== typeof end || start > end) continue;
+
+    if (typeof start === 'number') {
+      ipv4.push([start, end as number, country]);
+    } else {
+      ipv6.push([start, end as bigint, country]);
+    }
+  }
+
+  ipv4.sort((a, b) => a[0] - b[0]);
+  ipv6.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+
+  return {
+    ipv4: { starts: ipv4.map(r => r[0]), ends: ipv4.map(r => r[1]), countries: ipv4.map(r => r[2]) },
+    ipv6: { starts: ipv6.map(r => r[0]), ends: ipv6.map(r => r[1]), countries: ipv6.map(r => r[2]) }
+  };
+}
+
+const countRanges = (table: IpRangeTable) => table.ipv4.starts.length + table.ipv6.starts.length;
+
+function findRange<T extends number | bigint>(
+  ranges: { starts: T[]; ends: T[]; countries: string[] },
+  address: T
+): string | null {
+  // Last range starting at or before the address
+  let low = 0;
+  let high = ranges.starts.length - 1;
+  let match = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (ranges.starts[mid] <= address) {
+      match = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return match >= 0 && address <= ranges.ends[match] ? ranges.countries[match] : null;
+}
+
+/**
+ * The country an IP address belongs to, or null if it is not in the dataset (or none is loaded)
+ */
+export function lookupCountry(ipAddress: string): string | null {
+  if (!dataset) return null;
+
+  const address = parseAddress(ipAddress.trim());
+  if (address === null) return null;
+  return typeof address === 'number'
+    ? findRange(dataset.ipv4, address)
+    : findRange(dataset.ipv6, address);
+}
+
+/**
+ * The donor's IP address, taking the first address when the request came through proxies
+ */
+export function getClientIp(req: Request): string | undefined {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const firstForwarded = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0].trim();
+  return firstForwarded || req.socket.remoteAddress || undefined;
+}
+
+/**
+ * Load the dataset from disk, if one has been imported
+ */
+export async function loadIpDataset(datasetPath: string = config.GEOIP.DATASET_PATH): Promise<number> {
+  const exists = await fs.promises.access(datasetPath).then(() => true, () => false);
+  if (!exists) {
+    console.log(`[GEOIP] No IP country dataset at ${datasetPath}, currency detection will use the default`);
+    return 0;
+  }
+
+  const table = parseIpRangeCsv(await fs.promises.readFile(datasetPath, 'utf8'));
+  dataset = table;
+  loadedAt = new Date();
+  console.log(`[GEOIP] Loaded ${countRanges(table)} IP ranges from ${datasetPath}`);
+  return countRanges(table);
+}
+
+/**
+ * Replace the dataset with an uploaded CSV and save it so it is loaded again on restart.
+ * A CSV without any usable ranges is rejected and 0 is returned.
+ */
+export async function importIpDataset(csv: string, datasetPath: string = config.GEOIP.DATASET_PATH): Promise<number> {
+  const table = parseIpRangeCsv(csv);
+  const ranges = countRanges(table);
+  if (ranges === 0) return 0;
+
+  await fs.promises.mkdir(path.dirname(datasetPath), { recursive: true });
+  await fs.promises.writeFile(datasetPath, csv);
+  dataset = table;
+  loadedAt = new Date();
+  console.log(`[GEOIP] Imported ${ranges} IP ranges into ${datasetPath}`);
+  return ranges;
+}
+
+export function getIpDatasetInfo(): IpDatasetInfo {
+  return {
+    path: config.GEOIP.DATASET_PATH,
+    loaded: dataset !== null,
+    ranges: dataset ? countRanges(dataset) : 0,
+    loadedAt
+  };
+}
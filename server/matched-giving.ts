@@ -0,0 +1,121 @@
+/**
+ * Matched giving: a sponsor pledges to match donors' gifts at a ratio, up to a cap, between two dates,
+ * optionally only for one case or donation type. Completed donations are matched by storage as they
+ * complete; the sponsor pays what was matched separately, so matches are not added to case totals or funds.
+ */
+import { storage } from './storage';
+import { BASE_CURRENCY } from '@shared/currency';
+import {
+  getMatchReversal,
+  getMatchedAmount,
+  getRemainingCap,
+  isPledgeLive,
+  pledgeMatchesDonation
+} from '@shared/matched-giving';
+import type { Donation, MatchPledge, MatchPledgeRequest } from '@shared/schema';
+
+export type MatchPledgeSummary = MatchPledge & {
+  matchedAmount: number;
+  remainingAmount: number;
+  matchedDonations: number;
+  live: boolean;
+};
+
+// What donors are shown about a live match
+export type LiveMatchPledge = Pick<MatchPledge, 'id' | 'sponsorName' | 'ratio' | 'endsAt' | 'caseId' | 'donationType'> & {
+  remainingAmount: number;
+};
+
+async function summarisePledge(pledge: MatchPledge, now: Date): Promise<MatchPledgeSummary> {
+  const contributions = await storage.getMatchContributions({ pledgeId: pledge.id });
+  const matchedAmount = getMatchedAmount(contributions);
+  const matchedDonations = new Set(contributions.filter(c => c.entryType === 'match').map(c => c.donationId)).size;
+  return {
+    ...pledge,
+    matchedAmount,
+    remainingAmount: getRemainingCap(pledge, matchedAmount),
+    matchedDonations,
+    live: isPledgeLive(pledge, now)
+  };
+}
+
+/**
+ * Every pledge with how much of its cap has been matched and how much is left, newest first
+ */
+export async function getMatchPledgeSummaries(now: Date = new Date()): Promise<MatchPledgeSummary[]> {
+  const pledges = await storage.getMatchPledges();
+  return Promise.all(pledges.map(pledge => summarisePledge(pledge, now)));
+}
+
+/**
+ * Pledges that would match a donation of the given type (and to the given case) made now,
+ * leaving out any whose cap has been used up
+ */
+export async function getLiveMatchPledges(
+  filters: { type: string; caseId?: number | null },
+  now: Date = new Date()
+): Promise<LiveMatchPledge[]> {
+  const donation = { type: filters.type, caseId: filters.caseId ?? null };
+  const live = (await storage.getMatchPledges()).filter(pledge =>
+    pledgeMatchesDonation(pledge, donation, now)
+  );
+
+  const pledges: LiveMatchPledge[] = [];
+  for (const pledge of live) {
+    const { remainingAmount } = await summarisePledge(pledge, now);
+    if (remainingAmount <= 0) continue;
+    const { id, sponsorName, ratio, endsAt, caseId, donationType } = pledge;
+    pledges.push({ id, sponsorName, ratio, endsAt, caseId, donationType, remainingAmount });
+  }
+  return pledges;
+}
+
+/**
+ * Record a sponsor's pledge. A pledge limited to a case must be for a case that exists.
+ */
+export async function createMatchPledge(
+  request: MatchPledgeRequest,
+  createdBy: string | null
+): Promise<{ pledge: MatchPledge } | { error: string }> {
+  if (request.caseId && !(await storage.getCase(request.caseId))) {
+    return { error: "Case not found" };
+  }
+
+  const pledge = await storage.createMatchPledge({
+    sponsorName: request.sponsorName,
+    ratio: request.ratio,
+    capAmount: request.capAmount,
+    startsAt: request.startsAt,
+    endsAt: request.endsAt,
+    caseId: request.caseId ?? null,
+    donationType: request.donationType ?? null,
+    createdBy
+  });
+
+  console.log(`[MATCH] ${pledge.sponsorName} pledged to match gifts ${pledge.ratio}:1 up to ${BASE_CURRENCY} ${pledge.capAmount}, recorded by ${createdBy}`);
+  return { pledge };
+}
+
+/**
+ * Take the refunded share of a donation's matches back off, which frees that much of each sponsor's cap again
+ */
+export async function reverseDonationMatches(donation: Donation, refundedAmount: number): Promise<void> {
+  const contributions = await storage.getMatchContributions({ donationId: donation.id });
+  const pledgeIds = Array.from(new Set(contributions.map(c => c.pledgeId)));
+
+  for (const pledgeId of pledgeIds) {
+    const pledgeContributions = contributions.filter(c => c.pledgeId === pledgeId);
+    const match = pledgeContributions.find(c => c.entryType === 'match');
+    if (!match) continue;
+
+    // Never take back more than is still matched, whatever rounding earlier partial refunds left
+    const amount = Math.min(
+      getMatchReversal(match.amount, donation.amount, refundedAmount),
+      getMatchedAmount(pledgeContributions)
+    );
+    if (amount <= 0) continue;
+
+    await storage.createMatchContribution({ pledgeId, donationId: donation.id, entryType: 'reversal', amount: -amount });
+    console.log(`[MATCH] Reversed ${BASE_CURRENCY} ${amount} of pledge ${pledgeId}'s match of donation ${donation.id}`);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Orphaned payment resolution
+ * Suggests donations that an unmatched Stripe payment may belong to, and applies an admin's decision
+ */
+import { storage } from './storage';
+import type { Donation, OrphanedPayment } from '@shared/schema';
+import { processReceiptGeneration } from './webhook-handlers';
+import { withExchangeRateSnapshot } from './exchange-rates';
+import { allocateZakat } from './zakat';
+import { checkCaseAcceptsDonation } from './case-lifecycle';
+import { getGrossAmount } from './fees';
+import { roundToMinorUnit } from '@shared/money';
+
+// Donations created within a day of the payment are considered as matches
+const SUGGESTION_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_SUGGESTIONS = 5;
+
+// Only donations still waiting on a payment can be linked
+export const LINKABLE_DONATION_STATUSES = ['pending', 'processing', 'failed', 'cancelled'];
+
+/**
+ * Find unpaid donations with the same amount (including any fee the donor covered) and currency
+ * created close to the payment, closest in time first
+ */
+export function findSuggestedMatches(payment: OrphanedPayment, donations: Donation[]): Donation[] {
+  const paymentTime = (payment.stripeCreatedAt ?? payment.createdAt).getTime();
+
+  return donations
+    .filter(d => LINKABLE_DONATION_STATUSES.includes(d.status))
+    .filter(d => d.currency.toUpperCase() === payment.currency.toUpperCase())
+    .filter(d => Math.abs(getGrossAmount(d) - payment.amount) < 0.01)
+    .filter(d => Math.abs(new Date(d.createdAt).getTime() - paymentTime) <= SUGGESTION_WINDOW_MS)
+    .sort((a, b) =>
+      Math.abs(new Date(a.createdAt).getTime() - paymentTime) -
+      Math.abs(new Date(b.createdAt).getTime() - paymentTime)
+    )
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Complete a donation with the orphaned payment, with the same side effects as a matched webhook
+async function completeWithPayment(donation: Donation, payment: OrphanedPayment): Promise<Donation | undefined> {
+  // The amount Stripe actually collected, less any fee the donor covered, is what the case total and receipt should show
+  const netAmount = roundToMinorUnit(payment.amount - (donation.feeAmount ?? 0), donation.currency);
+  if (Math.abs(donation.amount - netAmount) >= 0.01) {
+    await storage.updateDonationAmount(donation.id, netAmount);
+  }
+
+  // updateDonationStatus adds the donation to its case total
+  const completed = await storage.updateDonationStatus(donation.id, 'completed', payment.paymentIntentId);
+
+  if (completed) {
+    try {
+      await processReceiptGeneration(completed);
+    } catch (error: any) {
+      console.error(`[ORPHANED-PAYMENT] Receipt generation failed for donation ${donation.id}:`, error);
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Link an orphaned payment to an existing donation and mark it resolved
+ */
+export async function linkOrphanedPayment(
+  payment: OrphanedPayment,
+  donation: Donation,
+  resolvedBy: string,
+  notes?: string
+): Promise<{ payment: OrphanedPayment | undefined; donation: Donation | undefined }> {
+  const completed = await completeWithPayment(donation, payment);
+  const resolved = await storage.resolveOrphanedPayment(payment.id, {
+    status: 'resolved',
+    resolvedDonationId: donation.id,
+    resolvedBy,
+    notes
+  });
+
+  console.log(`[ORPHANED-PAYMENT] ${payment.paymentIntentId} linked to donation ${donation.id} by ${resolvedBy}`);
+  return { payment: resolved, donation: completed };
+}
+
+/**
+ * Record an orphaned payment as a new donation and mark it resolved. The donation goes through the same
+ * zakat allocation and case checks as one made at checkout.
+ */
+export async function createDonationFromOrphanedPayment(
+  payment: OrphanedPayment,
+  details: {
+    type: 'zakaat' | 'sadqah' | 'interest';
+    caseId?: number | null;
+    email?: string;
+    name?: string;
+    notes?: string;
+  },
+  resolvedBy: string
+): Promise<{ payment: OrphanedPayment | undefined; donation: Donation | undefined } | { error: string }> {
+  const metadata = (payment.stripeMetadata ?? {}) as Record<string, string>;
+
+  let caseId = details.caseId ?? null;
+  if (details.type === 'zakaat') {
+    const allocation = await allocateZakat(caseId);
+    if ('error' in allocation) return allocation;
+    caseId = allocation.caseId;
+  }
+
+  const donationData = await withExchangeRateSnapshot({
+    type: details.type,
+    amount: payment.amount,
+    currency: payment.currency.toUpperCase(),
+    frequency: 'one-off' as const,
+    status: 'pending',
+    paymentMethod: 'stripe',
+    caseId,
+    email: details.email || metadata.email || null,
+    name: details.name || metadata.name || null
+  });
+
+  const refusal = await checkCaseAcceptsDonation(donationData);
+  if (refusal) return refusal;
+
+  const donation = await storage.createDonation(donationData);
+
+  const completed = await completeWithPayment(donation, payment);
+  const resolved = await storage.resolveOrphanedPayment(payment.id, {
+    status: 'resolved',
+    resolvedDonationId: donation.id,
+    resolvedBy,
+    notes: details.notes
+  });
+
+  console.log(`[ORPHANED-PAYMENT] ${payment.paymentIntentId} recorded as new donation ${donation.id} by ${resolvedBy}`);
+  return { payment: resolved, donation: completed };
+}
@@ -1,7 +1,7 @@
 import puppeteer from 'puppeteer';
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { Donation, Receipt } from '@shared/schema';
+import type { Donation, DonorStatement, Receipt, StatementTotal } from '@shared/schema';
 
 interface ReceiptData {
   donation: Donation;
@@ -10,6 +10,13 @@ interface ReceiptData {
   customDate?: string; // ISO date string e.g. "2024-03-15"
 }
 
+interface StatementData {
+  statement: DonorStatement;
+  periodLabel: string;
+  // Donations in the period with the amount still donated after refunds
+  donations: Array<{ donation: Donation; amount: number }>;
+}
+
 // Ensure receipts directory exists
 const receiptsDir = path.join(process.cwd(), 'receipts');
 async function ensureReceiptsDir() {
@@ -27,6 +34,12 @@ export function generateReceiptNumber(): string {
   return `AAFY-${timestamp}${randomNum}`;
 }
 
+// Generate unique statement number
+export function generateStatementNumber(periodYear: number): string {
+  const randomNum = Math.floor(Math.random() * 1000000).toString().padStart(6, '0');
+  return `AAFS-${periodYear}-${randomNum}`;
+}
+
 // Format currency amount
 function formatCurrency(amount: number, currency: string): string {
   return new Intl.NumberFormat('en-AU', {
@@ -408,13 +421,149 @@ async function generateReceiptHTML(data: ReceiptData): Promise<string> {
   `;
 }
 
-// Generate PDF receipt
-export async function generatePDFReceipt(receiptData: ReceiptData): Promise<string> {
-  await ensureReceiptsDir();
+// Generate HTML end-of-year statement template
+async function generateStatementHTML(data: StatementData): Promise<string> {
+  const { statement, periodLabel, donations } = data;
+  const logoBase64 = await getLogoBase64();
+  const totals = statement.totals as StatementTotal[];
   
-  const filename = `receipt_${receiptData.receiptNumber}.pdf`;
-  const filepath = path.join(receiptsDir, filename);
+  const dateOptions: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+  const issueDate = new Date().toLocaleDateString('en-AU', dateOptions);
+  // periodEnd is exclusive, so the last day covered is the day before
+  const lastDay = new Date(new Date(statement.periodEnd).getTime() - 1);
+  const coverage = `${new Date(statement.periodStart).toLocaleDateString('en-AU', dateOptions)} – ${lastDay.toLocaleDateString('en-AU', dateOptions)}`;
+  
+  const donationRows = donations.map(({ donation, amount }) => `
+            <tr>
+              <td>${new Date(donation.createdAt).toLocaleDateString('en-AU', dateOptions)}</td>
+              <td class="donation-description">
+                <strong>[${getDonationTypeLabel(donation.type)}]</strong> ${getFrequencyLabel(donation.frequency)}<br>
+                <span style="color: #9ca3af; font-size: 11px;">
+                  ${amount < donation.amount ? `Partially refunded, originally ${formatCurrency(donation.amount, donation.currency)}<br>` : ''}
+                  Transaction ID: ${donation.stripePaymentId?.split('|')[0] || 'N/A'}
+                </span>
+              </td>
+              <td class="amount-cell">${formatCurrency(amount, donation.currency)}</td>
+            </tr>`).join('');
+  
+  const totalRows = totals.map(total => `
+            <div class="totals-row">
+              <span class="totals-label">${getDonationTypeLabel(total.type)} (${total.currency})</span>
+              <span class="totals-amount">${formatCurrency(total.amount, total.currency)}</span>
+            </div>`).join('');
   
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <title>Donation Statement - ${statement.statementNumber}</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          line-height: 1.4;
+          color: #1f2937;
+          background: white;
+          margin: 0;
+          padding: 40px;
+          font-size: 12px;
+        }
+        .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 40px; }
+        .company-logo { width: 120px; height: 120px; margin-bottom: 12px; object-fit: contain; }
+        .company-name { font-size: 18px; font-weight: 600; text-transform: uppercase; letter-spacing: 1px; }
+        .statement-title { text-align: right; font-size: 24px; font-weight: 600; margin-bottom: 20px; }
+        .statement-details { color: #6b7280; }
+        .statement-details-row { display: flex; justify-content: space-between; gap: 16px; margin-bottom: 4px; min-width: 280px; }
+        .statement-details-label { font-weight: 500; color: #374151; }
+        .bill-to-title { font-weight: 600; margin-bottom: 8px; }
+        .bill-to-info { color: #6b7280; line-height: 1.6; }
+        .donation-table { width: 100%; border-collapse: collapse; margin: 40px 0; }
+        .donation-table th { text-align: left; padding: 12px 0; border-bottom: 1px solid #e5e7eb; font-weight: 600; color: #374151; }
+        .donation-table td { padding: 10px 0; border-bottom: 1px solid #f3f4f6; color: #6b7280; vertical-align: top; }
+        .amount-cell { text-align: right; font-weight: 500; color: #1f2937; }
+        .totals-section { display: flex; justify-content: flex-end; margin: 30px 0; }
+        .totals-table { min-width: 320px; }
+        .totals-title { font-weight: 600; padding-bottom: 8px; border-bottom: 2px solid #1f2937; }
+        .totals-row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #f3f4f6; }
+        .totals-label { color: #6b7280; }
+        .totals-amount { font-weight: 500; }
+        .footer-note { background: #f9fafb; padding: 20px; border-radius: 6px; margin: 40px 0 30px 0; color: #6b7280; font-size: 11px; line-height: 1.6; }
+        .footer-info { color: #9ca3af; font-size: 10px; line-height: 1.6; margin-top: 30px; border-top: 1px solid #f3f4f6; padding-top: 20px; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div>
+          ${logoBase64 ? `<img src="data:image/png;base64,${logoBase64}" alt="Aafiyaa Logo" class="company-logo" />` : ''}
+          <div class="company-name">Aafiyaa LTD</div>
+        </div>
+        <div>
+          <div class="statement-title">Donation Statement ${periodLabel}</div>
+          <div class="statement-details">
+            <div class="statement-details-row">
+              <span class="statement-details-label">Statement Number</span>
+              <span>${statement.statementNumber}</span>
+            </div>
+            <div class="statement-details-row">
+              <span class="statement-details-label">Period</span>
+              <span>${coverage}</span>
+            </div>
+            <div class="statement-details-row">
+              <span class="statement-details-label">Issued</span>
+              <span>${issueDate}</span>
+            </div>
+            <div class="statement-details-row">
+              <span class="statement-details-label">Aafiyaa ABN</span>
+              <span>47684746987</span>
+            </div>
+          </div>
+        </div>
+      </div>
+      
+      <div>
+        <div class="bill-to-title">Donations from:</div>
+        <div class="bill-to-info">
+          ${statement.donorName || 'Valued Supporter'}<br>
+          ${statement.donorEmail}
+        </div>
+      </div>
+      
+      <table class="donation-table">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Description</th>
+            <th style="text-align: right;">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${donationRows}
+        </tbody>
+      </table>
+      
+      <div class="totals-section">
+        <div class="totals-table">
+          <div class="totals-title">Totals by donation type</div>${totalRows}
+        </div>
+      </div>
+      
+      <div class="footer-note">
+        <strong>This statement summarises ${statement.donationCount} donation${statement.donationCount === 1 ? '' : 's'} for ${periodLabel}.</strong>
+        These donations are tax-deductible. Refunded donations are left out and partially refunded donations show the amount kept.
+        Please retain this statement for your tax records.
+      </div>
+      
+      <div class="footer-info">
+        Aafiyaa LTD is registered in New South Wales, Australia, ABN 47684746987. 
+        Registered Office: 122 Westminster Street, Tallawong, NSW 2762, Australia.<br><br>
+        This statement was generated by the Aafiyaa Donation Platform and is valid without a signature.
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Render an HTML document to an A4 PDF at the given path
+async function renderPDF(htmlContent: string, filepath: string): Promise<void> {
   let browser;
   try {
     // Launch browser with appropriate configuration for environment
@@ -456,9 +605,6 @@ export async function generatePDFReceipt(receiptData: ReceiptData): Promise<stri
     // Set page size and margins
     await page.setViewport({ width: 1200, height: 1600 });
     
-    // Generate HTML content
-    const htmlContent = await generateReceiptHTML(receiptData);
-    
     // Set HTML content
     await page.setContent(htmlContent, { 
       waitUntil: 'networkidle0',
@@ -477,6 +623,25 @@ export async function generatePDFReceipt(receiptData: ReceiptData): Promise<stri
       },
       printBackground: true
     });
+  } finally {
+    if (browser) {
+      await browser.close();
+    }
+  }
+}
+
+// Generate PDF receipt
+export async function generatePDFReceipt(receiptData: ReceiptData): Promise<string> {
+  await ensureReceiptsDir();
+  
+  const filename = `receipt_${receiptData.receiptNumber}.pdf`;
+  const filepath = path.join(receiptsDir, filename);
+  
+  try {
+    // Generate HTML content
+    const htmlContent = await generateReceiptHTML(receiptData);
+    
+    await renderPDF(htmlContent, filepath);
     
     console.log(`PDF receipt generated successfully: ${filepath}`);
     return filepath;
@@ -484,10 +649,27 @@ export async function generatePDFReceipt(receiptData: ReceiptData): Promise<stri
   } catch (error: any) {
     console.error('Error generating PDF receipt:', error);
     throw new Error(`Failed to generate PDF receipt: ${error.message}`);
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
+  }
+}
+
+// Generate PDF end-of-year statement, stored alongside receipts
+export async function generatePDFStatement(statementData: StatementData): Promise<string> {
+  await ensureReceiptsDir();
+  
+  const filename = `statement_${statementData.statement.statementNumber}.pdf`;
+  const filepath = path.join(receiptsDir, filename);
+  
+  try {
+    const htmlContent = await generateStatementHTML(statementData);
+    
+    await renderPDF(htmlContent, filepath);
+    
+    console.log(`PDF statement generated successfully: ${filepath}`);
+    return filepath;
+    
+  } catch (error: any) {
+    console.error('Error generating PDF statement:', error);
+    throw new Error(`Failed to generate PDF statement: ${error.message}`);
   }
 }
 
@@ -0,0 +1,137 @@
+/**
+ * Refund bookkeeping shared by admin-initiated refunds and Stripe refund webhooks
+ * Records the refund once, reverses the case total, amends or voids the receipt and emails the donor
+ */
+import { storage } from './storage';
+import type { Donation, Refund } from '@shared/schema';
+import { toBaseAmount } from '@shared/currency';
+import { roundToMinorUnit } from '@shared/money';
+import { sendRefundConfirmation } from './email-service';
+import { reverseDonationMatches } from './matched-giving';
+
+// Donations that still have money that can be refunded
+export const REFUNDABLE_DONATION_STATUSES = ['completed', 'partially-refunded'];
+
+/**
+ * The part of a donation that has not been refunded yet
+ */
+export function getRefundableAmount(donation: Donation): number {
+  return Math.max(roundToMinorUnit(donation.amount - (donation.refundedAmount ?? 0), donation.currency), 0);
+}
+
+/**
+ * What a donation contributes to donation totals once refunds are taken off
+ */
+export function getNetDonatedAmount(donation: Donation): number {
+  return REFUNDABLE_DONATION_STATUSES.includes(donation.status) ? getRefundableAmount(donation) : 0;
+}
+
+/**
+ * Find the donation paid by a Stripe payment intent, including the older "id|client_secret" format
+ */
+export async function findDonationByPaymentIntentId(paymentIntentId: string): Promise<Donation | undefined> {
+  const donation = await storage.getDonationByStripePaymentId(paymentIntentId);
+  if (donation) return donation;
+
+  const donations = await storage.getDonations();
+  return donations.find(d => d.stripePaymentId?.startsWith(`${paymentIntentId}|`));
+}
+
+/**
+ * Take money that went back to the donor off a donation: records it as refunded, reverses the
+ * case total and any sponsor matches, and amends the receipt, or voids it once nothing is left
+ */
+export async function reverseDonationAmount(
+  donation: Donation,
+  amount: number
+): Promise<{ donation: Donation; fullyRefunded: boolean }> {
+  const refundedAmount = roundToMinorUnit((donation.refundedAmount ?? 0) + amount, donation.currency);
+  const fullyRefunded = refundedAmount >= donation.amount - 0.005;
+  const updatedDonation = (await storage.updateDonationRefund(
+    donation.id,
+    refundedAmount,
+    fullyRefunded ? 'refunded' : 'partially-refunded'
+  )) ?? donation;
+
+  // The donation was added to its case total when it completed, so take the refund back off
+  if (donation.caseId) {
+    await storage.adjustCaseTotalForDonation(donation, -amount);
+  }
+
+  // It also comes back out of the fund the donation was credited to; a donation with no exchange rate
+  // was never credited, so there is nothing to take back
+  const baseAmount = toBaseAmount(donation, amount);
+  if (baseAmount !== null) {
+    await storage.createFundLedgerEntry({
+      fund: donation.type,
+      entryType: 'reversal',
+      amount: -baseAmount,
+      donationId: donation.id,
+      caseId: donation.caseId ?? null,
+      description: `Reversal of ${donation.currency} ${amount} from donation #${donation.id}`
+    });
+  }
+
+  // Sponsors only match what the donor gave, so the same share of any match is taken back
+  await reverseDonationMatches(donation, amount);
+
+  // A fully refunded donation is no longer tax deductible; a partial refund reduces the receipt
+  const receipts = await storage.getReceiptsByDonationId(donation.id);
+  for (const receipt of receipts) {
+    if (receipt.status === 'voided') continue;
+    await storage.amendReceipt(
+      receipt.id,
+      fullyRefunded ? 'voided' : 'amended',
+      fullyRefunded ? receipt.amount : getRefundableAmount(updatedDonation)
+    );
+  }
+
+  return { donation: updatedDonation, fullyRefunded };
+}
+
+/**
+ * Apply a refund to a donation. Each provider refund is only applied once, so a refund issued
+ * from the dashboard is not applied again when Stripe sends the matching webhook.
+ */
+export async function applyRefund(params: {
+  donationId: number;
+  amount: number;
+  provider: 'stripe' | 'paypal';
+  providerRefundId: string;
+  reason?: string | null;
+  source: 'admin' | 'webhook';
+  refundedBy?: string | null;
+}): Promise<{ refund: Refund; donation: Donation; alreadyRecorded: boolean } | null> {
+  const existing = await storage.getRefundByProviderRefundId(params.providerRefundId);
+  const donation = await storage.getDonation(params.donationId);
+  if (!donation) return null;
+
+  if (existing) {
+    console.log(`[REFUND] Refund ${params.providerRefundId} already recorded for donation ${donation.id}`);
+    return { refund: existing, donation, alreadyRecorded: true };
+  }
+
+  const amount = Math.min(roundToMinorUnit(params.amount, donation.currency), getRefundableAmount(donation));
+  if (amount <= 0) {
+    console.warn(`[REFUND] Nothing left to refund on donation ${donation.id}`);
+    return null;
+  }
+
+  const refund = await storage.createRefund({
+    donationId: donation.id,
+    amount,
+    currency: donation.currency,
+    provider: params.provider,
+    providerRefundId: params.providerRefundId,
+    reason: params.reason ?? null,
+    source: params.source,
+    refundedBy: params.refundedBy ?? null
+  });
+
+  const { donation: updatedDonation, fullyRefunded } = await reverseDonationAmount(donation, amount);
+
+  await sendRefundConfirmation(updatedDonation, amount, fullyRefunded);
+
+  console.log(`[REFUND] ${params.source} refund ${params.providerRefundId} of ${amount} ${donation.currency} applied to donation ${donation.id}`);
+  return { refund, donation: updatedDonation, alreadyRecorded: false };
+}
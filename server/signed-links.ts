@@ -0,0 +1,43 @@
+/**
+ * Signed tokens for links emailed to donors
+ * Lets a link act on a donor's behalf without signing in. Each kind of link signs with its own
+ * purpose, so a token issued for one kind of link can't be used as another.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import config from './config';
+
+function sign(purpose: string, payload: string): string {
+  return createHmac('sha256', config.SESSION_SECRET).update(`${purpose}:${payload}`).digest('base64url');
+}
+
+/**
+ * Sign a payload for the given purpose; the payload must be URL-safe
+ */
+export function createSignedToken(purpose: string, payload: string): string {
+  return `${payload}.${sign(purpose, payload)}`;
+}
+
+/**
+ * Verify a token signed for the given purpose and return its payload, or null when the signature is wrong
+ */
+export function verifySignedToken(purpose: string, token: string): string | null {
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const payload = token.slice(0, separator);
+  const expected = Buffer.from(sign(purpose, payload));
+  const supplied = Buffer.from(token.slice(separator + 1));
+
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return null;
+  }
+  return payload;
+}
+
+/**
+ * Public base URL of the site for links in emails
+ */
+export function getAppBaseUrl(): string {
+  // APP_URL is required in production, so localhost is only ever used in development
+  return config.APP_URL || `http://localhost:${config.PORT}`;
+}
@@ -0,0 +1,323 @@
+/**
+ * Consolidated end-of-year donation statements
+ * Builds one PDF per donor email for an Australian financial year (1 Jul - 30 Jun) or a calendar year,
+ * logs it in the donor statements table and emails it, either from the admin dashboard or the yearly job
+ */
+import { storage } from './storage';
+import config from './config';
+import type { Donation, DonorStatement, StatementTotal } from '@shared/schema';
+import { generatePDFStatement, generateStatementNumber } from './pdf-receipt-service';
+import { sendDonorStatement } from './email-service';
+import { getRefundableAmount, REFUNDABLE_DONATION_STATUSES } from './refunds';
+import { roundToMinorUnit } from '@shared/money';
+
+export type StatementPeriodType = 'financial-year' | 'calendar-year';
+
+export interface StatementPeriod {
+  periodType: StatementPeriodType;
+  year: number; // The year the period ends in
+  start: Date;
+  end: Date; // Exclusive
+  label: string;
+}
+
+export interface DonorStatementGroup {
+  email: string;
+  name: string | null;
+  donations: Array<{ donation: Donation; amount: number }>;
+  totals: StatementTotal[];
+}
+
+// Period boundaries follow Sydney time so a donation at 12:30am on 1 July lands in the new financial year
+const STATEMENT_TIME_ZONE = 'Australia/Sydney';
+
+// Only send statements automatically this soon after a period ends, so a new deployment
+// does not email donors about a year that finished long ago
+const SCHEDULED_SEND_WINDOW_DAYS = 31;
+
+function getZonedParts(date: Date) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: STATEMENT_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+// Midnight at the start of the given day in Sydney
+function startOfZonedDay(year: number, monthIndex: number, day: number): Date {
+  const utcGuess = Date.UTC(year, monthIndex, day);
+  const zoned = getZonedParts(new Date(utcGuess));
+  const offset = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second) - utcGuess;
+  return new Date(utcGuess - offset);
+}
+
+/**
+ * The dates covered by a statement. Financial years are named by the year they end in,
+ * so 2025 is 1 July 2024 to 30 June 2025.
+ */
+export function getStatementPeriod(periodType: StatementPeriodType, year: number): StatementPeriod {
+  if (periodType === 'financial-year') {
+    return {
+      periodType,
+      year,
+      start: startOfZonedDay(year - 1, 6, 1),
+      end: startOfZonedDay(year, 6, 1),
+      label: `FY ${year - 1}-${String(year).slice(-2)}`
+    };
+  }
+
+  return {
+    periodType,
+    year,
+    start: startOfZonedDay(year, 0, 1),
+    end: startOfZonedDay(year + 1, 0, 1),
+    label: String(year)
+  };
+}
+
+/**
+ * The most recent period that has already finished
+ */
+export function getLastCompletedPeriod(periodType: StatementPeriodType, now: Date = new Date()): StatementPeriod {
+  const { year, month } = getZonedParts(now);
+  if (periodType === 'financial-year') {
+    return getStatementPeriod(periodType, month >= 7 ? year : year - 1);
+  }
+  return getStatementPeriod(periodType, year - 1);
+}
+
+/**
+ * Group the completed donations in a period by donor email, with totals split by type and currency.
+ * Refunded donations are left out and partially refunded ones count what the donor kept donated.
+ */
+export function groupDonationsForStatements(
+  donations: Donation[],
+  period: StatementPeriod,
+  email?: string
+): DonorStatementGroup[] {
+  const groups = new Map<string, DonorStatementGroup>();
+
+  for (const donation of donations) {
+    if (!donation.email || !REFUNDABLE_DONATION_STATUSES.includes(donation.status)) continue;
+
+    const createdAt = new Date(donation.createdAt);
+    if (createdAt < period.start || createdAt >= period.end) continue;
+
+    const donorEmail = donation.email.trim().toLowerCase();
+    if (email && donorEmail !== email) continue;
+
+    const amount = getRefundableAmount(donation);
+    if (amount <= 0) continue;
+
+    let group = groups.get(donorEmail);
+    if (!group) {
+      group = { email: donorEmail, name: null, donations: [], totals: [] };
+      groups.set(donorEmail, group);
+    }
+    group.donations.push({ donation, amount });
+  }
+
+  return Array.from(groups.values()).map(group => {
+    group.donations.sort((a, b) => new Date(a.donation.createdAt).getTime() - new Date(b.donation.createdAt).getTime());
+
+    // Use the most recent name the donor gave
+    const named = [...group.donations].reverse().find(({ donation }) =>
+      donation.name || donation.firstName || donation.lastName
+    )?.donation;
+    group.name = named
+      ? named.name || [named.firstName, named.lastName].filter(Boolean).join(' ')
+      : null;
+
+    const totals = new Map<string, StatementTotal>();
+    for (const { donation, amount } of group.donations) {
+      const key = `${donation.type}:${donation.currency}`;
+      const total = totals.get(key) ?? { type: donation.type, currency: donation.currency, amount: 0 };
+      total.amount = roundToMinorUnit(total.amount + amount, donation.currency);
+      totals.set(key, total);
+    }
+    group.totals = Array.from(totals.values())
+      .sort((a, b) => a.type.localeCompare(b.type) || a.currency.localeCompare(b.currency));
+
+    return group;
+  });
+}
+
+/**
+ * Log, generate and optionally email a statement for one donor. Failures are recorded on the statement.
+ */
+async function issueStatement(group: DonorStatementGroup, period: StatementPeriod, send: boolean): Promise<DonorStatement> {
+  let statement = await storage.createDonorStatement({
+    statementNumber: generateStatementNumber(period.year),
+    donorEmail: group.email,
+    donorName: group.name,
+    periodType: period.periodType,
+    periodYear: period.year,
+    periodStart: period.start,
+    periodEnd: period.end,
+    donationCount: group.donations.length,
+    totals: group.totals,
+    status: 'pending'
+  });
+
+  try {
+    const pdfPath = await generatePDFStatement({ statement, periodLabel: period.label, donations: group.donations });
+    statement = (await storage.updateDonorStatementStatus(statement.id, 'generated', pdfPath)) ?? statement;
+
+    if (send) {
+      const sent = await sendDonorStatement(statement, period.label, pdfPath);
+      if (sent) {
+        statement = (await storage.updateDonorStatementSentAt(statement.id)) ?? statement;
+      }
+    }
+  } catch (error: any) {
+    console.error(`[STATEMENT] Failed to issue statement ${statement.statementNumber} for ${group.email}:`, error.message);
+    statement = (await storage.updateDonorStatementStatus(statement.id, 'failed', undefined, error.message)) ?? statement;
+  }
+
+  return statement;
+}
+
+// Statement runs are issued one after another in the background, since each statement launches a browser to render the PDF
+let statementJobs: Promise<unknown> = Promise.resolve();
+
+function runStatementJob(groups: DonorStatementGroup[], period: StatementPeriod, send: boolean): Promise<DonorStatement[]> {
+  const job = statementJobs.then(async () => {
+    console.log(`[STATEMENT] Issuing ${groups.length} statement(s) for ${period.label}`);
+
+    const statements: DonorStatement[] = [];
+    for (const group of groups) {
+      statements.push(await issueStatement(group, period, send));
+    }
+    return statements;
+  });
+  statementJobs = job.catch(() => undefined);
+  return job;
+}
+
+/**
+ * The donors with completed donations in the period, or just the one donor email. With `skipSent`, donors who
+ * were already sent a statement for the period are left out, so a run that stopped part way can pick up where it
+ * left off and statements that failed to send are tried again.
+ */
+async function getStatementGroups(params: {
+  periodType: StatementPeriodType;
+  year: number;
+  email?: string;
+  skipSent?: boolean;
+}): Promise<{ period: StatementPeriod; groups: DonorStatementGroup[] }> {
+  const period = getStatementPeriod(params.periodType, params.year);
+  const donations = await storage.getDonations();
+  let groups = groupDonationsForStatements(donations, period, params.email);
+
+  if (params.skipSent) {
+    const issued = await storage.getDonorStatements({ periodType: params.periodType, periodYear: params.year });
+    const sentEmails = new Set(issued.filter(statement => statement.status === 'sent').map(statement => statement.donorEmail));
+    groups = groups.filter(group => !sentEmails.has(group.email));
+  }
+
+  return { period, groups };
+}
+
+/**
+ * Build statements for every donor with completed donations in the period, or for one donor email,
+ * and wait for them to be issued
+ */
+async function generateStatementsForPeriod(params: {
+  periodType: StatementPeriodType;
+  year: number;
+  email?: string;
+  send: boolean;
+  skipSent?: boolean;
+}): Promise<{ period: StatementPeriod; statements: DonorStatement[] }> {
+  const { period, groups } = await getStatementGroups(params);
+  return { period, statements: await runStatementJob(groups, period, params.send) };
+}
+
+/**
+ * Queue statements for every donor with completed donations in the period, or for one donor email, and return
+ * straight away with how many will be issued. Each statement shows up in the statements table as it is issued.
+ */
+export async function queueStatementsForPeriod(params: {
+  periodType: StatementPeriodType;
+  year: number;
+  email?: string;
+  send: boolean;
+}): Promise<{ period: StatementPeriod; queued: number }> {
+  const { period, groups } = await getStatementGroups(params);
+
+  runStatementJob(groups, period, params.send)
+    .then(statements => {
+      console.log(`[STATEMENT] Issued ${statements.length} statement(s) for ${period.label}, ${statements.filter(s => s.status === 'failed').length} failed`);
+    })
+    .catch(error => {
+      console.error(`[STATEMENT] Statement run for ${period.label} failed:`, error.message);
+    });
+
+  return { period, queued: groups.length };
+}
+
+/**
+ * Path to a statement PDF, regenerating it if the original file has been cleaned up
+ */
+export async function ensureStatementFile(statement: DonorStatement): Promise<string> {
+  const fs = await import('fs');
+  if (statement.filePath) {
+    const exists = await fs.promises.access(statement.filePath).then(() => true, () => false);
+    if (exists) return statement.filePath;
+  }
+
+  const period = getStatementPeriod(statement.periodType as StatementPeriodType, statement.periodYear);
+  const donations = await storage.getDonations();
+  const [group] = groupDonationsForStatements(donations, period, statement.donorEmail);
+
+  const pdfPath = await generatePDFStatement({
+    statement,
+    periodLabel: period.label,
+    donations: group?.donations ?? []
+  });
+  await storage.updateDonorStatementStatus(statement.id, statement.sentAt ? 'sent' : 'generated', pdfPath);
+  return pdfPath;
+}
+
+/**
+ * Check once a day whether the last period has finished and its statements still need sending
+ */
+export function startStatementScheduler(): void {
+  const periodType = config.STATEMENTS.SCHEDULED_PERIOD;
+  if (periodType === 'off') {
+    console.log('[STATEMENT] Scheduled statements are turned off');
+    return;
+  }
+
+  const runScheduledStatements = async () => {
+    try {
+      const period = getLastCompletedPeriod(periodType);
+      const daysSinceEnd = (Date.now() - period.end.getTime()) / (24 * 60 * 60 * 1000);
+      if (daysSinceEnd > SCHEDULED_SEND_WINDOW_DAYS) return;
+
+      // Donors who were already sent a statement for the period are skipped, so new donors still get theirs
+      const { statements } = await generateStatementsForPeriod({ periodType, year: period.year, send: true, skipSent: true });
+      if (statements.length === 0) return;
+      console.log(`[STATEMENT] Scheduled run sent ${statements.filter(s => s.status === 'sent').length} of ${statements.length} statement(s) for ${period.label}`);
+    } catch (error: any) {
+      console.error('[STATEMENT] Scheduled statement run failed:', error.message);
+    }
+  };
+
+  void runScheduledStatements();
+  setInterval(runScheduledStatements, 24 * 60 * 60 * 1000).unref();
+}
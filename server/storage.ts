@@ -32,10 +32,85 @@ import {
   contactMessages, type ContactMessage, type InsertContactMessage,
   webhookEvents, type WebhookEvent, type InsertWebhookEvent,
   orphanedPayments, type OrphanedPayment, type InsertOrphanedPayment,
-  receipts, type Receipt, type InsertReceipt
+  receipts, type Receipt, type InsertReceipt,
+  donorStatements, type DonorStatement, type InsertDonorStatement,
+  refunds, type Refund, type InsertRefund,
+  disputes, type Dispute, type InsertDispute,
+  donorLoginTokens, type DonorLoginToken, type InsertDonorLoginToken,
+  exchangeRates, type ExchangeRate,
+  feeSchedules, type FeeSchedule, type InsertFeeSchedule,
+  metalPrices, type MetalPrice,
+  fundLedgerEntries, type FundLedgerEntry, type InsertFundLedgerEntry,
+  caseDisbursements, type CaseDisbursement, type InsertCaseDisbursement,
+  caseUpdates, type CaseUpdate, type InsertCaseUpdate,
+  caseUpdateUnsubscribes,
+  caseImages, type CaseImage, type InsertCaseImage,
+  matchPledges, type MatchPledge, type InsertMatchPledge,
+  matchContributions, type MatchContribution, type InsertMatchContribution,
+  fundraisers, type Fundraiser, type InsertFundraiser,
+  campaigns, type Campaign, type InsertCampaign
 } from "@shared/schema";
+import { BASE_CURRENCY, toBaseAmount, toCaseAmount } from "@shared/currency";
+import { roundToMinorUnit } from "@shared/money";
+import {
+  getCaseCreditShares,
+  getFundingStatus,
+  getStatusFields,
+  getUpdatedStatus,
+  pickMostDeservingCase,
+  planCaseCredit
+} from "@shared/case-lifecycle";
+import { getMatchAmount, getMatchedAmount, pledgeMatchesDonation } from "@shared/matched-giving";
 import { db, pool, isDatabaseAvailable } from './db';
-import { eq, and, asc, desc, gt } from 'drizzle-orm';
+import { eq, and, or, asc, desc, gt, ilike, isNull, sql } from 'drizzle-orm';
+
+// Filters for the admin webhook event log
+export interface WebhookEventFilters {
+  search?: string; // Matches event type, Stripe event ID, payment intent or subscription ID
+  eventType?: string;
+  status?: string;
+  limit?: number;
+}
+
+// Filters for searching cases
+export interface CaseFilters {
+  search?: string; // Matches title, description or location
+  category?: string;
+  urgency?: string;
+  location?: string; // Part of the location, e.g. a city or country
+  status?: string;
+  zakaatEligible?: boolean;
+}
+
+// Filters for listing match contributions
+export interface MatchContributionFilters {
+  pledgeId?: number;
+  donationId?: number;
+}
+
+// Filters for listing fundraisers
+export interface FundraiserFilters {
+  status?: string;
+  ownerUserId?: number;
+}
+
+// Exchange rates stored on a donation when it is made
+export type DonationExchangeRates = Pick<Donation, 'exchangeRate' | 'baseAmount' | 'caseExchangeRate'>;
+
+// How an admin resolved an orphaned payment
+export interface OrphanedPaymentResolution {
+  status: 'resolved' | 'ignored';
+  resolvedDonationId?: number | null;
+  resolvedBy: string;
+  notes?: string | null;
+}
+
+// Filters for listing donor statements
+export interface DonorStatementFilters {
+  periodType?: string;
+  periodYear?: number;
+  donorEmail?: string;
+}
 
 // Define the storage interface with all necessary CRUD methods
 export interface IStorage {
@@ -58,6 +133,8 @@ export interface IStorage {
   getDonationByStripePaymentId(paymentId: string): Promise<Donation | undefined>;
   getDonationByStripeSubscriptionId(subscriptionId: string): Promise<Donation | undefined>;
   getDonationByPaypalSubscriptionId(subscriptionId: string): Promise<Donation | undefined>;
+  getDonationByStripeInvoiceId(invoiceId: string): Promise<Donation | undefined>;
+  getInstallmentDonations(parentDonationId: number): Promise<Donation[]>;
   updateDonationStatus(id: number, status: string, paymentId?: string): Promise<Donation | undefined>;
   updateDonationSubscription(
     id: number, 
@@ -68,8 +145,16 @@ export interface IStorage {
   ): Promise<Donation | undefined>;
   updateDonationDonor(id: number, name: string, email: string, firstName?: string, lastName?: string): Promise<Donation | undefined>;
   updateDonationAmount(id: number, amount: number): Promise<Donation | undefined>;
+  updateDonationFrequency(id: number, frequency: string): Promise<Donation | undefined>;
+  updateDonationUser(id: number, userId: number): Promise<Donation | undefined>;
+  updateDonationRefund(id: number, refundedAmount: number, status: string): Promise<Donation | undefined>;
+  updateDonationExchangeRate(id: number, rates: DonationExchangeRates): Promise<Donation | undefined>;
+  updateDonationFee(id: number, feeAmount: number): Promise<Donation | undefined>;
+  linkDonationsToUser(userId: number, email: string): Promise<number>;
   getDonations(): Promise<Donation[]>;
   getDonationsByUserId(userId: number): Promise<Donation[]>;
+  getDonationsByFundraiserId(fundraiserId: number): Promise<Donation[]>;
+  getDonationsByCampaignId(campaignId: number): Promise<Donation[]>;
   getActiveSubscriptions(): Promise<Donation[]>;
   
   // Endorsement methods
@@ -83,12 +168,34 @@ export interface IStorage {
   // Case methods
   getCases(): Promise<Case[]>;
   getActiveZakaatCases(): Promise<Case[]>;
+  searchCases(filters: CaseFilters): Promise<Case[]>;
   getCase(id: number): Promise<Case | undefined>;
   createCase(caseData: InsertCase): Promise<Case>;
   updateCase(id: number, caseData: Partial<InsertCase>): Promise<Case | undefined>;
   updateCaseAmountCollected(id: number, additionalAmount: number): Promise<Case | undefined>;
+  adjustCaseTotalForDonation(donation: Donation, amount?: number): Promise<Case | undefined>;
+  setCaseAmountCollected(id: number, amountCollected: number): Promise<Case | undefined>;
   deleteCase(id: number): Promise<boolean>;
   toggleCaseStatus(id: number): Promise<Case | undefined>;
+  getCompletedCases(): Promise<Case[]>;
+  completeCase(id: number): Promise<Case | undefined>;
+  
+  // Case disbursement methods
+  getCaseDisbursements(caseId: number): Promise<CaseDisbursement[]>;
+  createCaseDisbursement(disbursement: InsertCaseDisbursement): Promise<CaseDisbursement>;
+  
+  // Case update methods
+  getCaseUpdates(caseId: number): Promise<CaseUpdate[]>;
+  createCaseUpdate(update: InsertCaseUpdate): Promise<CaseUpdate>;
+  setCaseUpdateNotifiedDonors(id: number, notifiedDonors: number): Promise<CaseUpdate | undefined>;
+  getCaseUpdateUnsubscribedEmails(caseId: number): Promise<string[]>;
+  unsubscribeFromCaseUpdates(caseId: number, email: string): Promise<void>;
+  
+  // Case image methods
+  getCaseImages(caseId: number): Promise<CaseImage[]>;
+  getCaseImage(id: number): Promise<CaseImage | undefined>;
+  createCaseImage(image: InsertCaseImage): Promise<CaseImage>;
+  deleteCaseImage(id: number): Promise<boolean>;
   
   // Contact message methods
   createContactMessage(message: InsertContactMessage): Promise<ContactMessage>;
@@ -103,7 +210,114 @@ export interface IStorage {
   getReceiptsByDonationId(donationId: number): Promise<Receipt[]>;
   updateReceiptStatus(id: number, status: string, filePath?: string, errorMessage?: string): Promise<Receipt | undefined>;
   updateReceiptSentAt(id: number): Promise<Receipt | undefined>;
+  amendReceipt(id: number, status: 'amended' | 'voided', amount: number): Promise<Receipt | undefined>;
   getReceipts(): Promise<Receipt[]>;
+  
+  // Donor statement methods
+  createDonorStatement(statement: InsertDonorStatement): Promise<DonorStatement>;
+  getDonorStatement(id: number): Promise<DonorStatement | undefined>;
+  getDonorStatements(filters?: DonorStatementFilters): Promise<DonorStatement[]>;
+  updateDonorStatementStatus(id: number, status: string, filePath?: string, errorMessage?: string): Promise<DonorStatement | undefined>;
+  updateDonorStatementSentAt(id: number): Promise<DonorStatement | undefined>;
+  
+  // Refund methods
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  getRefundByProviderRefundId(providerRefundId: string): Promise<Refund | undefined>;
+  getRefundsByDonationId(donationId: number): Promise<Refund[]>;
+  
+  // Donor login token methods
+  createDonorLoginToken(token: InsertDonorLoginToken): Promise<DonorLoginToken>;
+  getDonorLoginTokenByHash(tokenHash: string): Promise<DonorLoginToken | undefined>;
+  markDonorLoginTokenUsed(id: number): Promise<DonorLoginToken | undefined>;
+  
+  // Webhook event methods
+  createWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent>;
+  getWebhookEvent(id: number): Promise<WebhookEvent | undefined>;
+  getWebhookEvents(filters?: WebhookEventFilters): Promise<WebhookEvent[]>;
+  
+  // Orphaned payment methods
+  createOrphanedPayment(payment: InsertOrphanedPayment): Promise<OrphanedPayment>;
+  getOrphanedPayment(id: number): Promise<OrphanedPayment | undefined>;
+  getOrphanedPaymentByPaymentIntentId(paymentIntentId: string): Promise<OrphanedPayment | undefined>;
+  getOrphanedPayments(status?: string): Promise<OrphanedPayment[]>;
+  resolveOrphanedPayment(id: number, resolution: OrphanedPaymentResolution): Promise<OrphanedPayment | undefined>;
+  
+  // Dispute methods
+  createDispute(dispute: InsertDispute): Promise<Dispute>;
+  getDisputeByStripeDisputeId(stripeDisputeId: string): Promise<Dispute | undefined>;
+  getDisputes(): Promise<Dispute[]>;
+  updateDispute(id: number, updates: Partial<InsertDispute>): Promise<Dispute | undefined>;
+  
+  // Exchange rate methods
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  saveProviderExchangeRates(rates: Record<string, number>, source: string, fetchedAt: Date): Promise<void>;
+  setExchangeRateOverride(currency: string, overrideRate: number | null, setBy: string | null): Promise<ExchangeRate>;
+  
+  // Fee schedule methods
+  getFeeSchedules(): Promise<FeeSchedule[]>;
+  saveFeeSchedule(schedule: InsertFeeSchedule, updatedBy: string | null): Promise<FeeSchedule>;
+  deleteFeeSchedule(id: number): Promise<boolean>;
+  
+  // Metal price methods
+  getMetalPrices(): Promise<MetalPrice[]>;
+  setMetalPrice(metal: string, pricePerGram: number, updatedBy: string | null): Promise<MetalPrice>;
+  
+  // Fund ledger methods
+  getFundLedgerEntries(fund?: string): Promise<FundLedgerEntry[]>;
+  createFundLedgerEntry(entry: InsertFundLedgerEntry): Promise<FundLedgerEntry>;
+  creditDonationToFund(donation: Donation): Promise<FundLedgerEntry | undefined>;
+  // Checks the fund's balance and records the payment out of it together, so two payments can't spend the same money
+  createFundDisbursement(entry: InsertFundLedgerEntry): Promise<{ entry: FundLedgerEntry } | { balance: number }>;
+  
+  // Matched giving methods
+  getMatchPledges(): Promise<MatchPledge[]>;
+  getMatchPledge(id: number): Promise<MatchPledge | undefined>;
+  createMatchPledge(pledge: InsertMatchPledge): Promise<MatchPledge>;
+  getMatchContributions(filters?: MatchContributionFilters): Promise<MatchContribution[]>;
+  createMatchContribution(contribution: InsertMatchContribution): Promise<MatchContribution>;
+  matchDonation(donation: Donation): Promise<MatchContribution[]>;
+  
+  // Fundraiser methods
+  getFundraisers(filters?: FundraiserFilters): Promise<Fundraiser[]>;
+  getFundraiser(id: number): Promise<Fundraiser | undefined>;
+  getFundraiserBySlug(slug: string): Promise<Fundraiser | undefined>;
+  createFundraiser(fundraiser: InsertFundraiser): Promise<Fundraiser>;
+  updateFundraiser(id: number, updates: Partial<InsertFundraiser>): Promise<Fundraiser | undefined>;
+  
+  // Campaign methods
+  getCampaigns(): Promise<Campaign[]>;
+  getCampaign(id: number): Promise<Campaign | undefined>;
+  getCampaignBySlug(slug: string): Promise<Campaign | undefined>;
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  updateCampaign(id: number, updates: Partial<InsertCampaign>): Promise<Campaign | undefined>;
+}
+
+// The credit a completed donation makes to the fund for its type, in the base currency,
+// or null while the donation has no stored exchange rate to convert it with
+function getDonationFundCredit(donation: Donation): InsertFundLedgerEntry | null {
+  const amount = toBaseAmount(donation);
+  if (amount === null) {
+    console.warn(`[FUND-LEDGER] Donation ${donation.id} has no exchange rate yet, so it is not credited to the ${donation.type} fund`);
+    return null;
+  }
+  return {
+    fund: donation.type,
+    entryType: 'donation',
+    amount,
+    donationId: donation.id,
+    caseId: donation.caseId ?? null,
+    description: `Donation #${donation.id} (${donation.currency} ${donation.amount})`
+  };
+}
+
+// An amount of a donation in its case's currency. Without a stored rate the case total is left alone and
+// picked up when case totals are next recalculated, rather than counting the amount at face value.
+function getCaseAdjustment(donation: Donation, caseItem: Case, amount: number): number | null {
+  const caseAmount = toCaseAmount(donation, caseItem.currency, amount);
+  if (caseAmount === null) {
+    console.warn(`[CASE-TOTALS] Donation ${donation.id} has no exchange rate to ${caseItem.currency}, so case ${caseItem.id} is left for recalculation`);
+  }
+  return caseAmount;
 }
 
 const MemoryStore = createMemoryStore(session);
@@ -115,6 +329,24 @@ export class MemStorage implements IStorage {
   private casesList: Map<number, Case>;
   private contactMessagesList: Map<number, ContactMessage>;
   private receiptsList: Map<number, Receipt>;
+  private donorStatementsList: Map<number, DonorStatement>;
+  private donorLoginTokensList: Map<number, DonorLoginToken>;
+  private webhookEventsList: Map<number, WebhookEvent>;
+  private orphanedPaymentsList: Map<number, OrphanedPayment>;
+  private refundsList: Map<number, Refund>;
+  private disputesList: Map<number, Dispute>;
+  private exchangeRatesList: Map<string, ExchangeRate>;
+  private feeSchedulesList: Map<number, FeeSchedule>;
+  private metalPricesList: Map<string, MetalPrice>;
+  private fundLedgerList: Map<number, FundLedgerEntry>;
+  private caseDisbursementsList: Map<number, CaseDisbursement>;
+  private caseUpdatesList: Map<number, CaseUpdate>;
+  private caseUpdateUnsubscribesList: Map<number, Set<string>>;
+  private caseImagesList: Map<number, CaseImage>;
+  private matchPledgesList: Map<number, MatchPledge>;
+  private matchContributionsList: Map<number, MatchContribution>;
+  private fundraisersList: Map<number, Fundraiser>;
+  private campaignsList: Map<number, Campaign>;
   private statsData: Stats | undefined;
   
   // Session store for admin authentication
@@ -126,6 +358,23 @@ export class MemStorage implements IStorage {
   private caseCurrentId: number;
   private contactMessageCurrentId: number;
   private receiptCurrentId: number;
+  private donorStatementCurrentId: number;
+  private donorLoginTokenCurrentId: number;
+  private webhookEventCurrentId: number;
+  private orphanedPaymentCurrentId: number;
+  private refundCurrentId: number;
+  private disputeCurrentId: number;
+  private exchangeRateCurrentId: number;
+  private feeScheduleCurrentId: number;
+  private metalPriceCurrentId: number;
+  private fundLedgerEntryCurrentId: number;
+  private caseDisbursementCurrentId: number;
+  private caseUpdateCurrentId: number;
+  private caseImageCurrentId: number;
+  private matchPledgeCurrentId: number;
+  private matchContributionCurrentId: number;
+  private fundraiserCurrentId: number;
+  private campaignCurrentId: number;
 
   constructor() {
     this.users = new Map();
@@ -134,6 +383,24 @@ export class MemStorage implements IStorage {
     this.casesList = new Map();
     this.contactMessagesList = new Map();
     this.receiptsList = new Map();
+    this.donorStatementsList = new Map();
+    this.donorLoginTokensList = new Map();
+    this.webhookEventsList = new Map();
+    this.orphanedPaymentsList = new Map();
+    this.refundsList = new Map();
+    this.disputesList = new Map();
+    this.exchangeRatesList = new Map();
+    this.feeSchedulesList = new Map();
+    this.metalPricesList = new Map();
+    this.fundLedgerList = new Map();
+    this.caseDisbursementsList = new Map();
+    this.caseUpdatesList = new Map();
+    this.caseUpdateUnsubscribesList = new Map();
+    this.caseImagesList = new Map();
+    this.matchPledgesList = new Map();
+    this.matchContributionsList = new Map();
+    this.fundraisersList = new Map();
+    this.campaignsList = new Map();
     
     this.userCurrentId = 1;
     this.donationCurrentId = 1;
@@ -141,6 +408,23 @@ export class MemStorage implements IStorage {
     this.caseCurrentId = 1;
     this.contactMessageCurrentId = 1;
     this.receiptCurrentId = 1;
+    this.donorStatementCurrentId = 1;
+    this.donorLoginTokenCurrentId = 1;
+    this.webhookEventCurrentId = 1;
+    this.orphanedPaymentCurrentId = 1;
+    this.refundCurrentId = 1;
+    this.disputeCurrentId = 1;
+    this.exchangeRateCurrentId = 1;
+    this.feeScheduleCurrentId = 1;
+    this.metalPriceCurrentId = 1;
+    this.fundLedgerEntryCurrentId = 1;
+    this.caseDisbursementCurrentId = 1;
+    this.caseUpdateCurrentId = 1;
+    this.caseImageCurrentId = 1;
+    this.matchPledgeCurrentId = 1;
+    this.matchContributionCurrentId = 1;
+    this.fundraiserCurrentId = 1;
+    this.campaignCurrentId = 1;
     
     // Initialize memory store for session data
     this.sessionStore = new MemoryStore({
@@ -177,6 +461,9 @@ export class MemStorage implements IStorage {
         description: "Providing essential medical supplies to families affected by recent flooding in rural communities. Your donation will help us deliver critical medications, first aid kits, and clean water tablets.",
         imageUrl: "/images/cases/flood-victims.jpg",
         amountRequired: 5000,
+        category: "emergency",
+        location: "Sindh, Pakistan",
+        urgency: "critical",
         active: true
       },
       { 
@@ -184,6 +471,9 @@ export class MemStorage implements IStorage {
         description: "Funding immunization programs for children in underserved areas. These vaccinations protect against preventable diseases and save lives.",
         imageUrl: "/images/cases/immunization.jpg",
         amountRequired: 7500,
+        category: "medication",
+        location: "Kano, Nigeria",
+        urgency: "medium",
         active: true
       },
       { 
@@ -191,6 +481,9 @@ export class MemStorage implements IStorage {
         description: "Supporting our mobile medical clinic that provides healthcare to remote villages without access to medical facilities. The clinic offers basic health screenings, treatments, and health education.",
         imageUrl: "/images/cases/mobile-clinic.jpg",
         amountRequired: 12000,
+        category: "other",
+        location: "Sylhet, Bangladesh",
+        urgency: "medium",
         active: true
       },
       { 
@@ -198,6 +491,9 @@ export class MemStorage implements IStorage {
         description: "Purchasing essential medical equipment for our rural clinic that serves hundreds of patients weekly. This equipment will enhance diagnostic capabilities and treatment options.",
         imageUrl: "/images/cases/rural-clinic.jpg",
         amountRequired: 8500,
+        category: "other",
+        location: "Mombasa, Kenya",
+        urgency: "low",
         active: true
       },
       { 
@@ -205,6 +501,9 @@ export class MemStorage implements IStorage {
         description: "Funding prenatal and postnatal care for expectant mothers in underserved communities. Your donation helps provide safe deliveries and healthy starts for mothers and babies.",
         imageUrl: "/images/cases/maternal-health.jpg",
         amountRequired: 6000,
+        category: "maternity",
+        location: "Herat, Afghanistan",
+        urgency: "high",
         active: true
       }
     ];
@@ -297,9 +596,25 @@ export class MemStorage implements IStorage {
       userId: insertDonation.userId || null,
       paymentMethod: insertDonation.paymentMethod || null,
       caseId: insertDonation.caseId || null,
-      destinationProject: insertDonation.destinationProject || null
+      destinationProject: insertDonation.destinationProject || null,
+      parentDonationId: insertDonation.parentDonationId ?? null,
+      stripeInvoiceId: insertDonation.stripeInvoiceId ?? null,
+      refundedAmount: insertDonation.refundedAmount ?? 0,
+      exchangeRate: insertDonation.exchangeRate ?? null,
+      baseAmount: insertDonation.baseAmount ?? null,
+      caseExchangeRate: insertDonation.caseExchangeRate ?? null,
+      feeAmount: insertDonation.feeAmount ?? 0,
+      caseCreditAmount: null,
+      surplusCaseId: null,
+      fundraiserId: insertDonation.fundraiserId ?? null,
+      campaignId: insertDonation.campaignId ?? null,
+      anonymous: insertDonation.anonymous ?? false
     };
     this.donations.set(id, donation);
+    if (donation.status === 'completed') {
+      await this.creditDonationToFund(donation);
+      await this.matchDonation(donation);
+    }
     return donation;
   }
   
@@ -325,6 +640,18 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getDonationByStripeInvoiceId(invoiceId: string): Promise<Donation | undefined> {
+    return Array.from(this.donations.values()).find(
+      (donation) => donation.stripeInvoiceId === invoiceId
+    );
+  }
+  
+  async getInstallmentDonations(parentDonationId: number): Promise<Donation[]> {
+    return Array.from(this.donations.values()).filter(
+      (donation) => donation.parentDonationId === parentDonationId
+    );
+  }
+  
   async updateDonationStatus(id: number, status: string, paymentId?: string): Promise<Donation | undefined> {
     const donation = this.donations.get(id);
     if (!donation) return undefined;
@@ -343,7 +670,7 @@ export class MemStorage implements IStorage {
       }
     }
     
-    const updatedDonation: Donation = {
+    let updatedDonation: Donation = {
       ...donation,
       status,
       ...(paymentMethod && { paymentMethod }),
@@ -357,10 +684,17 @@ export class MemStorage implements IStorage {
     
     // If this is a completed payment for a case, update the case amount
     if (status === 'completed' && donation.caseId && donation.status !== 'completed') {
-      await this.updateCaseAmountCollected(donation.caseId, donation.amount);
+      updatedDonation = { ...updatedDonation, ...(await this.creditDonationToCase(donation)) };
     }
     
     this.donations.set(id, updatedDonation);
+    
+    // Completed donations are credited to the fund for their type, and matched by any live sponsor pledges
+    if (status === 'completed' && donation.status !== 'completed') {
+      await this.creditDonationToFund(updatedDonation);
+      await this.matchDonation(updatedDonation);
+    }
+    
     return updatedDonation;
   }
   
@@ -412,6 +746,18 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getDonationsByFundraiserId(fundraiserId: number): Promise<Donation[]> {
+    return Array.from(this.donations.values())
+      .filter(donation => donation.fundraiserId === fundraiserId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getDonationsByCampaignId(campaignId: number): Promise<Donation[]> {
+    return Array.from(this.donations.values())
+      .filter(donation => donation.campaignId === campaignId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
   async getActiveSubscriptions(): Promise<Donation[]> {
     return Array.from(this.donations.values()).filter(
       (donation) => 
@@ -444,7 +790,9 @@ export class MemStorage implements IStorage {
     
     const updatedDonation: Donation = {
       ...donation,
-      amount
+      amount,
+      // Keep the rate from when the donation was made
+      baseAmount: donation.exchangeRate !== null ? toBaseAmount({ ...donation, amount, baseAmount: null }) : null
     };
     
     // Update the donation in the map
@@ -453,6 +801,86 @@ export class MemStorage implements IStorage {
     return updatedDonation;
   }
   
+  async updateDonationFrequency(id: number, frequency: string): Promise<Donation | undefined> {
+    const donation = this.donations.get(id);
+    if (!donation) return undefined;
+    
+    const updatedDonation: Donation = {
+      ...donation,
+      frequency
+    };
+    
+    this.donations.set(id, updatedDonation);
+    return updatedDonation;
+  }
+  
+  async updateDonationUser(id: number, userId: number): Promise<Donation | undefined> {
+    const donation = this.donations.get(id);
+    if (!donation) return undefined;
+    
+    const updatedDonation: Donation = {
+      ...donation,
+      userId
+    };
+    
+    this.donations.set(id, updatedDonation);
+    return updatedDonation;
+  }
+  
+  async updateDonationRefund(id: number, refundedAmount: number, status: string): Promise<Donation | undefined> {
+    const donation = this.donations.get(id);
+    if (!donation) return undefined;
+    
+    const updatedDonation: Donation = {
+      ...donation,
+      refundedAmount,
+      status
+    };
+    
+    this.donations.set(id, updatedDonation);
+    return updatedDonation;
+  }
+  
+  async updateDonationExchangeRate(id: number, rates: DonationExchangeRates): Promise<Donation | undefined> {
+    const donation = this.donations.get(id);
+    if (!donation) return undefined;
+    
+    const updatedDonation: Donation = {
+      ...donation,
+      ...rates
+    };
+    
+    this.donations.set(id, updatedDonation);
+    return updatedDonation;
+  }
+  
+  async updateDonationFee(id: number, feeAmount: number): Promise<Donation | undefined> {
+    const donation = this.donations.get(id);
+    if (!donation) return undefined;
+    
+    const updatedDonation: Donation = {
+      ...donation,
+      feeAmount
+    };
+    
+    this.donations.set(id, updatedDonation);
+    return updatedDonation;
+  }
+  
+  async linkDonationsToUser(userId: number, email: string): Promise<number> {
+    const normalizedEmail = email.trim().toLowerCase();
+    let linked = 0;
+    
+    for (const donation of Array.from(this.donations.values())) {
+      if (!donation.userId && donation.email && donation.email.trim().toLowerCase() === normalizedEmail) {
+        this.donations.set(donation.id, { ...donation, userId });
+        linked++;
+      }
+    }
+    
+    return linked;
+  }
+  
   // Endorsement methods
   async getEndorsements(): Promise<Endorsement[]> {
     return Array.from(this.endorsementsList.values());
@@ -497,20 +925,48 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async searchCases(filters: CaseFilters): Promise<Case[]> {
+    const search = filters.search?.toLowerCase();
+    const location = filters.location?.toLowerCase();
+    
+    return Array.from(this.casesList.values())
+      .filter(caseItem => !filters.category || caseItem.category === filters.category)
+      .filter(caseItem => !filters.urgency || caseItem.urgency === filters.urgency)
+      .filter(caseItem => !filters.status || caseItem.status === filters.status)
+      .filter(caseItem => filters.zakaatEligible === undefined || caseItem.zakaatEligible === filters.zakaatEligible)
+      .filter(caseItem => !location || !!caseItem.location?.toLowerCase().includes(location))
+      .filter(caseItem => !search || [
+        caseItem.title,
+        caseItem.description,
+        caseItem.location
+      ].some(value => value?.toLowerCase().includes(search)));
+  }
+  
   async getCase(id: number): Promise<Case | undefined> {
     return this.casesList.get(id);
   }
   
   async createCase(caseData: InsertCase): Promise<Case> {
     const id = this.caseCurrentId++;
+    // A case created inactive starts as a draft
+    const status = caseData.status ?? (caseData.active === false ? 'draft' : 'open');
     const newCase: Case = {
       ...caseData,
       id,
       imageUrl: caseData.imageUrl || 'https://via.placeholder.com/400x300?text=No+Image',
       amountCollected: 0,
-      active: caseData.active !== undefined ? caseData.active : true,
+      amountDisbursed: 0,
+      currency: caseData.currency ?? BASE_CURRENCY,
+      status,
+      active: status === 'open',
       recurringAllowed: caseData.recurringAllowed ?? false,
       zakaatEligible: caseData.zakaatEligible !== undefined ? caseData.zakaatEligible : true,
+      category: caseData.category ?? 'other',
+      location: caseData.location || null,
+      urgency: caseData.urgency ?? 'medium',
+      deadline: caseData.deadline ?? null,
+      overfundingPolicy: caseData.overfundingPolicy ?? 'allow_surplus',
+      completedAt: null,
       createdAt: new Date()
     };
     this.casesList.set(id, newCase);
@@ -521,9 +977,11 @@ export class MemStorage implements IStorage {
     const caseItem = this.casesList.get(id);
     if (!caseItem) return undefined;
     
+    const status = getUpdatedStatus(caseItem, caseData);
     const updatedCase: Case = {
       ...caseItem,
-      ...caseData
+      ...caseData,
+      ...getStatusFields(caseItem, status)
     };
     
     this.casesList.set(id, updatedCase);
@@ -534,11 +992,47 @@ export class MemStorage implements IStorage {
     const caseItem = this.casesList.get(id);
     if (!caseItem) return undefined;
     
-    const updatedCase: Case = {
-      ...caseItem,
-      amountCollected: caseItem.amountCollected + additionalAmount
-    };
+    return this.setCaseAmountCollected(id, caseItem.amountCollected + additionalAmount);
+  }
+
+  async adjustCaseTotalForDonation(donation: Donation, amount: number = donation.amount): Promise<Case | undefined> {
+    if (!donation.caseId) return undefined;
+    
+    // A donation that went past its case's goal only counts for the part the case kept
+    let updatedCase: Case | undefined;
+    for (const share of getCaseCreditShares(donation, amount)) {
+      const caseItem = this.casesList.get(share.caseId);
+      if (!caseItem) continue;
+      const caseAmount = getCaseAdjustment(donation, caseItem, share.amount);
+      if (caseAmount === null) continue;
+      const adjusted = await this.updateCaseAmountCollected(caseItem.id, caseAmount);
+      if (share.caseId === donation.caseId) updatedCase = adjusted;
+    }
+    return updatedCase;
+  }
+
+  // Credit a newly completed donation to its case, applying the case's over-funding policy,
+  // and return how it was split
+  private async creditDonationToCase(donation: Donation): Promise<Pick<Donation, 'caseCreditAmount' | 'surplusCaseId'>> {
+    const caseItem = donation.caseId ? this.casesList.get(donation.caseId) : undefined;
+    if (!caseItem) return { caseCreditAmount: null, surplusCaseId: null };
+    
+    // Surplus can only move to a case kept in the same currency, so it converts at the donation's stored rate
+    const surplusCase = caseItem.overfundingPolicy === 'redirect_to_case'
+      ? pickMostDeservingCase((await this.getActiveZakaatCases()).filter(c => c.id !== caseItem.id && c.currency === caseItem.currency))
+      : undefined;
+    const credit = planCaseCredit(donation, caseItem, surplusCase);
+    await this.adjustCaseTotalForDonation({ ...donation, ...credit });
+    return credit;
+  }
+
+  async setCaseAmountCollected(id: number, amountCollected: number): Promise<Case | undefined> {
+    const caseItem = this.casesList.get(id);
+    if (!caseItem) return undefined;
     
+    // Reaching the goal moves the case to funded, and dropping back below it reopens it
+    const fundedCase = { ...caseItem, amountCollected };
+    const updatedCase: Case = { ...fundedCase, ...getStatusFields(fundedCase, getFundingStatus(fundedCase)) };
     this.casesList.set(id, updatedCase);
     return updatedCase;
   }
@@ -551,15 +1045,129 @@ export class MemStorage implements IStorage {
     const caseItem = this.casesList.get(id);
     if (!caseItem) return undefined;
     
-    const updatedCase: Case = {
-      ...caseItem,
-      active: !caseItem.active
-    };
+    // Closes an open or funded case, and reopens any other; reopening a completed case takes it out of the completed list
+    const status = caseItem.status === 'open' || caseItem.status === 'funded'
+      ? 'closed'
+      : getFundingStatus({ ...caseItem, status: 'open' });
+    const updatedCase: Case = { ...caseItem, ...getStatusFields(caseItem, status) };
+    
+    this.casesList.set(id, updatedCase);
+    return updatedCase;
+  }
+  
+  async getCompletedCases(): Promise<Case[]> {
+    return Array.from(this.casesList.values())
+      .filter(caseItem => caseItem.status === 'completed')
+      .sort((a, b) => b.completedAt!.getTime() - a.completedAt!.getTime());
+  }
+  
+  async completeCase(id: number): Promise<Case | undefined> {
+    const caseItem = this.casesList.get(id);
+    if (!caseItem) return undefined;
     
+    const updatedCase: Case = { ...caseItem, ...getStatusFields(caseItem, 'completed') };
     this.casesList.set(id, updatedCase);
     return updatedCase;
   }
   
+  // Case disbursement methods
+  async getCaseDisbursements(caseId: number): Promise<CaseDisbursement[]> {
+    return Array.from(this.caseDisbursementsList.values())
+      .filter(disbursement => disbursement.caseId === caseId)
+      .sort((a, b) => b.paidAt.getTime() - a.paidAt.getTime() || b.id - a.id);
+  }
+  
+  async createCaseDisbursement(disbursementData: InsertCaseDisbursement): Promise<CaseDisbursement> {
+    const id = this.caseDisbursementCurrentId++;
+    const disbursement: CaseDisbursement = {
+      ...disbursementData,
+      id,
+      documentReference: disbursementData.documentReference ?? null,
+      notes: disbursementData.notes ?? null,
+      recordedBy: disbursementData.recordedBy ?? null,
+      createdAt: new Date()
+    };
+    this.caseDisbursementsList.set(id, disbursement);
+    
+    // Keep the case's running total of what has been paid out
+    const caseItem = this.casesList.get(disbursement.caseId);
+    if (caseItem) {
+      this.casesList.set(caseItem.id, {
+        ...caseItem,
+        amountDisbursed: roundToMinorUnit(caseItem.amountDisbursed + disbursement.amount, caseItem.currency)
+      });
+    }
+    return disbursement;
+  }
+  
+  // Case update methods
+  async getCaseUpdates(caseId: number): Promise<CaseUpdate[]> {
+    return Array.from(this.caseUpdatesList.values())
+      .filter(update => update.caseId === caseId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createCaseUpdate(updateData: InsertCaseUpdate): Promise<CaseUpdate> {
+    const id = this.caseUpdateCurrentId++;
+    const update: CaseUpdate = {
+      ...updateData,
+      id,
+      imageUrl: updateData.imageUrl ?? null,
+      postedBy: updateData.postedBy ?? null,
+      notifiedDonors: updateData.notifiedDonors ?? 0,
+      createdAt: new Date()
+    };
+    this.caseUpdatesList.set(id, update);
+    return update;
+  }
+  
+  async setCaseUpdateNotifiedDonors(id: number, notifiedDonors: number): Promise<CaseUpdate | undefined> {
+    const update = this.caseUpdatesList.get(id);
+    if (!update) return undefined;
+    
+    const updatedUpdate: CaseUpdate = { ...update, notifiedDonors };
+    this.caseUpdatesList.set(id, updatedUpdate);
+    return updatedUpdate;
+  }
+  
+  async getCaseUpdateUnsubscribedEmails(caseId: number): Promise<string[]> {
+    return Array.from(this.caseUpdateUnsubscribesList.get(caseId) ?? []);
+  }
+  
+  async unsubscribeFromCaseUpdates(caseId: number, email: string): Promise<void> {
+    const emails = this.caseUpdateUnsubscribesList.get(caseId) ?? new Set<string>();
+    emails.add(email.toLowerCase());
+    this.caseUpdateUnsubscribesList.set(caseId, emails);
+  }
+  
+  // Case image methods
+  async getCaseImages(caseId: number): Promise<CaseImage[]> {
+    return Array.from(this.caseImagesList.values())
+      .filter(image => image.caseId === caseId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+  
+  async getCaseImage(id: number): Promise<CaseImage | undefined> {
+    return this.caseImagesList.get(id);
+  }
+  
+  async createCaseImage(imageData: InsertCaseImage): Promise<CaseImage> {
+    const id = this.caseImageCurrentId++;
+    const image: CaseImage = {
+      ...imageData,
+      id,
+      position: imageData.position ?? 0,
+      uploadedBy: imageData.uploadedBy ?? null,
+      createdAt: new Date()
+    };
+    this.caseImagesList.set(id, image);
+    return image;
+  }
+  
+  async deleteCaseImage(id: number): Promise<boolean> {
+    return this.caseImagesList.delete(id);
+  }
+  
   // Contact message methods
   async createContactMessage(message: InsertContactMessage): Promise<ContactMessage> {
     const id = this.contactMessageCurrentId++;
@@ -667,77 +1275,620 @@ export class MemStorage implements IStorage {
     return updatedReceipt;
   }
   
+  async amendReceipt(id: number, status: 'amended' | 'voided', amount: number): Promise<Receipt | undefined> {
+    const receipt = this.receiptsList.get(id);
+    if (!receipt) return undefined;
+    
+    // Clearing the file path makes the next download regenerate the PDF with the amended amount
+    const updatedReceipt: Receipt = {
+      ...receipt,
+      status,
+      amount,
+      filePath: null
+    };
+    
+    this.receiptsList.set(id, updatedReceipt);
+    return updatedReceipt;
+  }
+  
   async getReceipts(): Promise<Receipt[]> {
     return Array.from(this.receiptsList.values());
   }
-}
-
-// Implementation of the IStorage interface using PostgreSQL
-export class DatabaseStorage implements IStorage {
-  public sessionStore: session.Store;
   
-  constructor() {
-    if (!pool) {
-      throw new Error('Cannot initialize DatabaseStorage without a database connection pool');
-    }
+  // Donor statement methods
+  async createDonorStatement(statementData: InsertDonorStatement): Promise<DonorStatement> {
+    const id = this.donorStatementCurrentId++;
+    const statement: DonorStatement = {
+      ...statementData,
+      id,
+      createdAt: new Date(),
+      status: statementData.status || 'pending',
+      donorName: statementData.donorName ?? null,
+      filePath: statementData.filePath ?? null,
+      generatedAt: statementData.generatedAt ?? null,
+      sentAt: statementData.sentAt ?? null,
+      errorMessage: statementData.errorMessage ?? null,
+    };
+    this.donorStatementsList.set(id, statement);
+    return statement;
+  }
+  
+  async getDonorStatement(id: number): Promise<DonorStatement | undefined> {
+    return this.donorStatementsList.get(id);
+  }
+  
+  async getDonorStatements(filters: DonorStatementFilters = {}): Promise<DonorStatement[]> {
+    return Array.from(this.donorStatementsList.values())
+      .filter(statement =>
+        (!filters.periodType || statement.periodType === filters.periodType) &&
+        (!filters.periodYear || statement.periodYear === filters.periodYear) &&
+        (!filters.donorEmail || statement.donorEmail === filters.donorEmail)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async updateDonorStatementStatus(id: number, status: string, filePath?: string, errorMessage?: string): Promise<DonorStatement | undefined> {
+    const statement = this.donorStatementsList.get(id);
+    if (!statement) return undefined;
     
-    // Create a PostgreSQL session store
-    const PostgresStore = connectPg(session);
-    this.sessionStore = new PostgresStore({
-      pool,
-      tableName: 'session',
-      createTableIfMissing: true
-    });
+    const updatedStatement: DonorStatement = {
+      ...statement,
+      status,
+      filePath: filePath || statement.filePath,
+      errorMessage: errorMessage || statement.errorMessage,
+      generatedAt: status === 'generated' ? new Date() : statement.generatedAt
+    };
     
-    console.log('Using PostgreSQL for data storage and session management');
+    this.donorStatementsList.set(id, updatedStatement);
+    return updatedStatement;
   }
   
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    if (!db) return undefined;
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+  async updateDonorStatementSentAt(id: number): Promise<DonorStatement | undefined> {
+    const statement = this.donorStatementsList.get(id);
+    if (!statement) return undefined;
+    
+    const updatedStatement: DonorStatement = {
+      ...statement,
+      status: 'sent',
+      sentAt: new Date()
+    };
+    
+    this.donorStatementsList.set(id, updatedStatement);
+    return updatedStatement;
   }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    if (!db) return undefined;
-    const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user;
+  
+  // Refund methods
+  async createRefund(refundData: InsertRefund): Promise<Refund> {
+    const id = this.refundCurrentId++;
+    const refund: Refund = {
+      ...refundData,
+      id,
+      reason: refundData.reason ?? null,
+      refundedBy: refundData.refundedBy ?? null,
+      createdAt: new Date()
+    };
+    this.refundsList.set(id, refund);
+    return refund;
   }
   
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    if (!db) return undefined;
-    if (!email) return undefined;
-    const [user] = await db.select().from(users).where(eq(users.email, email));
-    return user;
+  async getRefundByProviderRefundId(providerRefundId: string): Promise<Refund | undefined> {
+    return Array.from(this.refundsList.values()).find(
+      (refund) => refund.providerRefundId === providerRefundId
+    );
   }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    if (!db) throw new Error('Database not available');
-    const [user] = await db.insert(users).values(insertUser).returning();
-    return user;
+  
+  async getRefundsByDonationId(donationId: number): Promise<Refund[]> {
+    return Array.from(this.refundsList.values()).filter(
+      (refund) => refund.donationId === donationId
+    );
   }
   
-  async updateUserPaymentInfo(id: number, stripeCustomerId?: string, paypalCustomerId?: string): Promise<User | undefined> {
-    if (!db) return undefined;
-    
-    const updateData: Partial<User> = {};
-    if (stripeCustomerId) updateData.stripeCustomerId = stripeCustomerId;
-    if (paypalCustomerId) updateData.paypalCustomerId = paypalCustomerId;
+  // Donor login token methods
+  async createDonorLoginToken(tokenData: InsertDonorLoginToken): Promise<DonorLoginToken> {
+    const id = this.donorLoginTokenCurrentId++;
+    const token: DonorLoginToken = {
+      ...tokenData,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.donorLoginTokensList.set(id, token);
+    return token;
+  }
+  
+  async getDonorLoginTokenByHash(tokenHash: string): Promise<DonorLoginToken | undefined> {
+    return Array.from(this.donorLoginTokensList.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+  }
+  
+  async markDonorLoginTokenUsed(id: number): Promise<DonorLoginToken | undefined> {
+    const token = this.donorLoginTokensList.get(id);
+    if (!token) return undefined;
     
-    if (Object.keys(updateData).length === 0) return this.getUser(id);
+    const updatedToken: DonorLoginToken = {
+      ...token,
+      usedAt: new Date()
+    };
     
-    const [updatedUser] = await db
-      .update(users)
-      .set(updateData)
-      .where(eq(users.id, id))
-      .returning();
-      
-    return updatedUser;
+    this.donorLoginTokensList.set(id, updatedToken);
+    return updatedToken;
   }
   
-  // Admin methods
-  async validateAdminCredentials(username: string, password: string): Promise<boolean> {
+  // Webhook event methods
+  async createWebhookEvent(eventData: InsertWebhookEvent): Promise<WebhookEvent> {
+    const id = this.webhookEventCurrentId++;
+    const event: WebhookEvent = {
+      ...eventData,
+      id,
+      stripeEventId: eventData.stripeEventId ?? null,
+      paymentIntentId: eventData.paymentIntentId ?? null,
+      subscriptionId: eventData.subscriptionId ?? null,
+      donationId: eventData.donationId ?? null,
+      matchStrategy: eventData.matchStrategy ?? null,
+      rawData: eventData.rawData ?? null,
+      errorMessage: eventData.errorMessage ?? null,
+      replayOfEventId: eventData.replayOfEventId ?? null,
+      createdAt: new Date()
+    };
+    this.webhookEventsList.set(id, event);
+    return event;
+  }
+  
+  async getWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+    return this.webhookEventsList.get(id);
+  }
+  
+  async getWebhookEvents(filters: WebhookEventFilters = {}): Promise<WebhookEvent[]> {
+    const search = filters.search?.toLowerCase();
+    
+    return Array.from(this.webhookEventsList.values())
+      .filter(event => !filters.eventType || event.eventType === filters.eventType)
+      .filter(event => !filters.status || event.status === filters.status)
+      .filter(event => !search || [
+        event.eventType,
+        event.stripeEventId,
+        event.paymentIntentId,
+        event.subscriptionId
+      ].some(value => value?.toLowerCase().includes(search)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, filters.limit ?? 100);
+  }
+  
+  // Orphaned payment methods
+  async createOrphanedPayment(paymentData: InsertOrphanedPayment): Promise<OrphanedPayment> {
+    const id = this.orphanedPaymentCurrentId++;
+    const payment: OrphanedPayment = {
+      ...paymentData,
+      id,
+      status: paymentData.status || 'unresolved',
+      resolvedDonationId: paymentData.resolvedDonationId ?? null,
+      stripeMetadata: paymentData.stripeMetadata ?? null,
+      description: paymentData.description ?? null,
+      stripeCreatedAt: paymentData.stripeCreatedAt ?? null,
+      resolvedAt: paymentData.resolvedAt ?? null,
+      resolvedBy: paymentData.resolvedBy ?? null,
+      notes: paymentData.notes ?? null,
+      createdAt: new Date()
+    };
+    this.orphanedPaymentsList.set(id, payment);
+    return payment;
+  }
+  
+  async getOrphanedPayment(id: number): Promise<OrphanedPayment | undefined> {
+    return this.orphanedPaymentsList.get(id);
+  }
+  
+  async getOrphanedPaymentByPaymentIntentId(paymentIntentId: string): Promise<OrphanedPayment | undefined> {
+    return Array.from(this.orphanedPaymentsList.values()).find(
+      (payment) => payment.paymentIntentId === paymentIntentId
+    );
+  }
+  
+  async getOrphanedPayments(status?: string): Promise<OrphanedPayment[]> {
+    return Array.from(this.orphanedPaymentsList.values())
+      .filter(payment => !status || payment.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async resolveOrphanedPayment(id: number, resolution: OrphanedPaymentResolution): Promise<OrphanedPayment | undefined> {
+    const payment = this.orphanedPaymentsList.get(id);
+    if (!payment) return undefined;
+    
+    const updatedPayment: OrphanedPayment = {
+      ...payment,
+      status: resolution.status,
+      resolvedDonationId: resolution.resolvedDonationId ?? null,
+      resolvedBy: resolution.resolvedBy,
+      notes: resolution.notes ?? null,
+      resolvedAt: new Date()
+    };
+    
+    this.orphanedPaymentsList.set(id, updatedPayment);
+    return updatedPayment;
+  }
+  
+  // Dispute methods
+  async createDispute(disputeData: InsertDispute): Promise<Dispute> {
+    const id = this.disputeCurrentId++;
+    const now = new Date();
+    const dispute: Dispute = {
+      ...disputeData,
+      id,
+      stripeChargeId: disputeData.stripeChargeId ?? null,
+      paymentIntentId: disputeData.paymentIntentId ?? null,
+      donationId: disputeData.donationId ?? null,
+      reason: disputeData.reason ?? null,
+      outcome: disputeData.outcome ?? null,
+      evidenceDueBy: disputeData.evidenceDueBy ?? null,
+      amountReversedAt: disputeData.amountReversedAt ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.disputesList.set(id, dispute);
+    return dispute;
+  }
+  
+  async getDisputeByStripeDisputeId(stripeDisputeId: string): Promise<Dispute | undefined> {
+    return Array.from(this.disputesList.values()).find(
+      (dispute) => dispute.stripeDisputeId === stripeDisputeId
+    );
+  }
+  
+  async getDisputes(): Promise<Dispute[]> {
+    return Array.from(this.disputesList.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async updateDispute(id: number, updates: Partial<InsertDispute>): Promise<Dispute | undefined> {
+    const dispute = this.disputesList.get(id);
+    if (!dispute) return undefined;
+    
+    const updatedDispute: Dispute = {
+      ...dispute,
+      ...updates,
+      updatedAt: new Date()
+    };
+    
+    this.disputesList.set(id, updatedDispute);
+    return updatedDispute;
+  }
+  
+  // Exchange rate methods
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRatesList.values())
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+  
+  private getOrCreateExchangeRate(currency: string): ExchangeRate {
+    return this.exchangeRatesList.get(currency) ?? {
+      id: this.exchangeRateCurrentId++,
+      currency,
+      rate: null,
+      source: null,
+      fetchedAt: null,
+      overrideRate: null,
+      overrideSetBy: null,
+      overrideSetAt: null,
+      updatedAt: new Date()
+    };
+  }
+  
+  async saveProviderExchangeRates(rates: Record<string, number>, source: string, fetchedAt: Date): Promise<void> {
+    for (const [currency, rate] of Object.entries(rates)) {
+      this.exchangeRatesList.set(currency, {
+        ...this.getOrCreateExchangeRate(currency),
+        rate,
+        source,
+        fetchedAt,
+        updatedAt: new Date()
+      });
+    }
+  }
+  
+  async setExchangeRateOverride(currency: string, overrideRate: number | null, setBy: string | null): Promise<ExchangeRate> {
+    const exchangeRate: ExchangeRate = {
+      ...this.getOrCreateExchangeRate(currency),
+      overrideRate,
+      overrideSetBy: overrideRate === null ? null : setBy,
+      overrideSetAt: overrideRate === null ? null : new Date(),
+      updatedAt: new Date()
+    };
+    this.exchangeRatesList.set(currency, exchangeRate);
+    return exchangeRate;
+  }
+  
+  // Fee schedule methods
+  async getFeeSchedules(): Promise<FeeSchedule[]> {
+    return Array.from(this.feeSchedulesList.values())
+      .sort((a, b) => a.paymentMethod.localeCompare(b.paymentMethod) || a.currency.localeCompare(b.currency));
+  }
+  
+  async saveFeeSchedule(schedule: InsertFeeSchedule, updatedBy: string | null): Promise<FeeSchedule> {
+    const existing = Array.from(this.feeSchedulesList.values())
+      .find(s => s.paymentMethod === schedule.paymentMethod && s.currency === schedule.currency);
+    
+    const feeSchedule: FeeSchedule = {
+      id: existing?.id ?? this.feeScheduleCurrentId++,
+      paymentMethod: schedule.paymentMethod,
+      currency: schedule.currency,
+      percentage: schedule.percentage,
+      fixedFee: schedule.fixedFee ?? 0,
+      updatedBy,
+      updatedAt: new Date()
+    };
+    this.feeSchedulesList.set(feeSchedule.id, feeSchedule);
+    return feeSchedule;
+  }
+  
+  async deleteFeeSchedule(id: number): Promise<boolean> {
+    return this.feeSchedulesList.delete(id);
+  }
+  
+  // Metal price methods
+  async getMetalPrices(): Promise<MetalPrice[]> {
+    return Array.from(this.metalPricesList.values())
+      .sort((a, b) => a.metal.localeCompare(b.metal));
+  }
+  
+  async setMetalPrice(metal: string, pricePerGram: number, updatedBy: string | null): Promise<MetalPrice> {
+    const metalPrice: MetalPrice = {
+      id: this.metalPricesList.get(metal)?.id ?? this.metalPriceCurrentId++,
+      metal,
+      pricePerGram,
+      updatedBy,
+      updatedAt: new Date()
+    };
+    this.metalPricesList.set(metal, metalPrice);
+    return metalPrice;
+  }
+  
+  // Fund ledger methods
+  async getFundLedgerEntries(fund?: string): Promise<FundLedgerEntry[]> {
+    return Array.from(this.fundLedgerList.values())
+      .filter(entry => !fund || entry.fund === fund)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+  
+  async createFundLedgerEntry(entryData: InsertFundLedgerEntry): Promise<FundLedgerEntry> {
+    const id = this.fundLedgerEntryCurrentId++;
+    const entry: FundLedgerEntry = {
+      id,
+      fund: entryData.fund,
+      entryType: entryData.entryType,
+      amount: entryData.amount,
+      donationId: entryData.donationId ?? null,
+      recipientType: entryData.recipientType ?? null,
+      caseId: entryData.caseId ?? null,
+      recipient: entryData.recipient ?? null,
+      description: entryData.description,
+      reference: entryData.reference ?? null,
+      createdBy: entryData.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.fundLedgerList.set(id, entry);
+    return entry;
+  }
+  
+  async creditDonationToFund(donation: Donation): Promise<FundLedgerEntry | undefined> {
+    const existing = Array.from(this.fundLedgerList.values())
+      .find(entry => entry.entryType === 'donation' && entry.donationId === donation.id);
+    if (existing) return existing;
+    
+    const credit = getDonationFundCredit(donation);
+    return credit ? this.createFundLedgerEntry(credit) : undefined;
+  }
+  
+  async createFundDisbursement(entryData: InsertFundLedgerEntry): Promise<{ entry: FundLedgerEntry } | { balance: number }> {
+    const balance = roundToMinorUnit(
+      Array.from(this.fundLedgerList.values())
+        .filter(entry => entry.fund === entryData.fund)
+        .reduce((sum, entry) => sum + entry.amount, 0),
+      BASE_CURRENCY
+    );
+    if (-entryData.amount > balance) return { balance };
+    return { entry: await this.createFundLedgerEntry(entryData) };
+  }
+  
+  // Matched giving methods
+  async getMatchPledges(): Promise<MatchPledge[]> {
+    return Array.from(this.matchPledgesList.values())
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime() || b.id - a.id);
+  }
+  
+  async getMatchPledge(id: number): Promise<MatchPledge | undefined> {
+    return this.matchPledgesList.get(id);
+  }
+  
+  async createMatchPledge(pledgeData: InsertMatchPledge): Promise<MatchPledge> {
+    const id = this.matchPledgeCurrentId++;
+    const pledge: MatchPledge = {
+      ...pledgeData,
+      id,
+      caseId: pledgeData.caseId ?? null,
+      donationType: pledgeData.donationType ?? null,
+      createdBy: pledgeData.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.matchPledgesList.set(id, pledge);
+    return pledge;
+  }
+  
+  async getMatchContributions(filters: MatchContributionFilters = {}): Promise<MatchContribution[]> {
+    return Array.from(this.matchContributionsList.values())
+      .filter(c => filters.pledgeId === undefined || c.pledgeId === filters.pledgeId)
+      .filter(c => filters.donationId === undefined || c.donationId === filters.donationId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+  
+  async createMatchContribution(contributionData: InsertMatchContribution): Promise<MatchContribution> {
+    const id = this.matchContributionCurrentId++;
+    const contribution: MatchContribution = { ...contributionData, id, createdAt: new Date() };
+    this.matchContributionsList.set(id, contribution);
+    return contribution;
+  }
+  
+  async matchDonation(donation: Donation): Promise<MatchContribution[]> {
+    const created: MatchContribution[] = [];
+    for (const pledge of (await this.getMatchPledges()).filter(p => pledgeMatchesDonation(p, donation))) {
+      // Read and insert without awaiting in between, so two donations can't both take what is left of the cap
+      const contributions = Array.from(this.matchContributionsList.values()).filter(c => c.pledgeId === pledge.id);
+      if (contributions.some(c => c.donationId === donation.id && c.entryType === 'match')) continue;
+      
+      const amount = getMatchAmount(pledge, donation, getMatchedAmount(contributions));
+      if (amount <= 0) continue;
+      const id = this.matchContributionCurrentId++;
+      const contribution: MatchContribution = { pledgeId: pledge.id, donationId: donation.id, entryType: 'match', amount, id, createdAt: new Date() };
+      this.matchContributionsList.set(id, contribution);
+      created.push(contribution);
+    }
+    return created;
+  }
+  
+  // Fundraiser methods
+  async getFundraisers(filters: FundraiserFilters = {}): Promise<Fundraiser[]> {
+    return Array.from(this.fundraisersList.values())
+      .filter(f => !filters.status || f.status === filters.status)
+      .filter(f => filters.ownerUserId === undefined || f.ownerUserId === filters.ownerUserId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getFundraiser(id: number): Promise<Fundraiser | undefined> {
+    return this.fundraisersList.get(id);
+  }
+  
+  async getFundraiserBySlug(slug: string): Promise<Fundraiser | undefined> {
+    return Array.from(this.fundraisersList.values()).find(f => f.slug === slug);
+  }
+  
+  async createFundraiser(fundraiserData: InsertFundraiser): Promise<Fundraiser> {
+    const id = this.fundraiserCurrentId++;
+    const fundraiser: Fundraiser = {
+      ...fundraiserData,
+      id,
+      caseId: fundraiserData.caseId ?? null,
+      status: fundraiserData.status ?? 'pending_review',
+      moderatedBy: fundraiserData.moderatedBy ?? null,
+      moderatedAt: fundraiserData.moderatedAt ?? null,
+      moderationNote: fundraiserData.moderationNote ?? null,
+      createdAt: new Date()
+    };
+    this.fundraisersList.set(id, fundraiser);
+    return fundraiser;
+  }
+  
+  async updateFundraiser(id: number, updates: Partial<InsertFundraiser>): Promise<Fundraiser | undefined> {
+    const fundraiser = this.fundraisersList.get(id);
+    if (!fundraiser) return undefined;
+    
+    const updatedFundraiser: Fundraiser = { ...fundraiser, ...updates };
+    this.fundraisersList.set(id, updatedFundraiser);
+    return updatedFundraiser;
+  }
+  
+  // Campaign methods
+  async getCampaigns(): Promise<Campaign[]> {
+    return Array.from(this.campaignsList.values())
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime() || b.id - a.id);
+  }
+  
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    return this.campaignsList.get(id);
+  }
+  
+  async getCampaignBySlug(slug: string): Promise<Campaign | undefined> {
+    return Array.from(this.campaignsList.values()).find(c => c.slug === slug);
+  }
+  
+  async createCampaign(campaignData: InsertCampaign): Promise<Campaign> {
+    const id = this.campaignCurrentId++;
+    const campaign: Campaign = {
+      ...campaignData,
+      id,
+      heroImageUrl: campaignData.heroImageUrl ?? null,
+      createdBy: campaignData.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.campaignsList.set(id, campaign);
+    return campaign;
+  }
+  
+  async updateCampaign(id: number, updates: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    const campaign = this.campaignsList.get(id);
+    if (!campaign) return undefined;
+    
+    const updatedCampaign: Campaign = { ...campaign, ...updates };
+    this.campaignsList.set(id, updatedCampaign);
+    return updatedCampaign;
+  }
+}
+
+// Implementation of the IStorage interface using PostgreSQL
+export class DatabaseStorage implements IStorage {
+  public sessionStore: session.Store;
+  
+  constructor() {
+    if (!pool) {
+      throw new Error('Cannot initialize DatabaseStorage without a database connection pool');
+    }
+    
+    // Create a PostgreSQL session store
+    const PostgresStore = connectPg(session);
+    this.sessionStore = new PostgresStore({
+      pool,
+      tableName: 'session',
+      createTableIfMissing: true
+    });
+    
+    console.log('Using PostgreSQL for data storage and session management');
+  }
+  
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    if (!db) return undefined;
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    if (!db) return undefined;
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    if (!db) return undefined;
+    if (!email) return undefined;
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (!db) throw new Error('Database not available');
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  async updateUserPaymentInfo(id: number, stripeCustomerId?: string, paypalCustomerId?: string): Promise<User | undefined> {
+    if (!db) return undefined;
+    
+    const updateData: Partial<User> = {};
+    if (stripeCustomerId) updateData.stripeCustomerId = stripeCustomerId;
+    if (paypalCustomerId) updateData.paypalCustomerId = paypalCustomerId;
+    
+    if (Object.keys(updateData).length === 0) return this.getUser(id);
+    
+    const [updatedUser] = await db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, id))
+      .returning();
+      
+    return updatedUser;
+  }
+  
+  // Admin methods
+  async validateAdminCredentials(username: string, password: string): Promise<boolean> {
     // In a real app, you would use proper password hashing
     // This is a simplified version for demonstration purposes
     // Secure admin authentication with proper password hashing
@@ -756,11 +1907,18 @@ export class DatabaseStorage implements IStorage {
   // Donation methods
   async createDonation(insertDonation: InsertDonation): Promise<Donation> {
     if (!db) throw new Error('Database not available');
-    const [donation] = await db.insert(donations).values(insertDonation).returning();
+    let [donation] = await db.insert(donations).values(insertDonation).returning();
     
     // If this is a completed payment for a case, update the case amount
     if (donation.status === 'completed' && donation.caseId) {
-      await this.updateCaseAmountCollected(donation.caseId, donation.amount);
+      const credit = await this.creditDonationToCase(donation);
+      if (credit.caseCreditAmount !== null) {
+        [donation] = await db.update(donations).set(credit).where(eq(donations.id, donation.id)).returning();
+      }
+    }
+    if (donation.status === 'completed') {
+      await this.creditDonationToFund(donation);
+      await this.matchDonation(donation);
     }
     
     return donation;
@@ -799,6 +1957,24 @@ export class DatabaseStorage implements IStorage {
     return donation;
   }
   
+  async getDonationByStripeInvoiceId(invoiceId: string): Promise<Donation | undefined> {
+    if (!db) return undefined;
+    const [donation] = await db
+      .select()
+      .from(donations)
+      .where(eq(donations.stripeInvoiceId, invoiceId));
+    return donation;
+  }
+  
+  async getInstallmentDonations(parentDonationId: number): Promise<Donation[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(donations)
+      .where(eq(donations.parentDonationId, parentDonationId))
+      .orderBy(desc(donations.createdAt));
+  }
+  
   async updateDonationStatus(id: number, status: string, paymentId?: string): Promise<Donation | undefined> {
     if (!db) return undefined;
     
@@ -820,10 +1996,16 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
+    // If this is a completed payment for a case, update the case amount
+    const credit = status === 'completed' && donation.caseId && donation.status !== 'completed'
+      ? await this.creditDonationToCase(donation)
+      : {};
+    
     const updateData: Partial<Donation> = {
       status,
       ...(paymentMethod && { paymentMethod }),
-      ...(paymentId && { stripePaymentId: paymentId })
+      ...(paymentId && { stripePaymentId: paymentId }),
+      ...credit
     };
     
     const [updatedDonation] = await db
@@ -832,9 +2014,10 @@ export class DatabaseStorage implements IStorage {
       .where(eq(donations.id, id))
       .returning();
     
-    // If this is a completed payment for a case, update the case amount
-    if (status === 'completed' && donation.caseId && donation.status !== 'completed') {
-      await this.updateCaseAmountCollected(donation.caseId, donation.amount);
+    // Completed donations are credited to the fund for their type, and matched by any live sponsor pledges
+    if (status === 'completed' && donation.status !== 'completed') {
+      await this.creditDonationToFund(updatedDonation);
+      await this.matchDonation(updatedDonation);
     }
     
     return updatedDonation;
@@ -899,6 +2082,24 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(donations.createdAt));
   }
   
+  async getDonationsByFundraiserId(fundraiserId: number): Promise<Donation[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(donations)
+      .where(eq(donations.fundraiserId, fundraiserId))
+      .orderBy(desc(donations.createdAt), desc(donations.id));
+  }
+  
+  async getDonationsByCampaignId(campaignId: number): Promise<Donation[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(donations)
+      .where(eq(donations.campaignId, campaignId))
+      .orderBy(desc(donations.createdAt), desc(donations.id));
+  }
+  
   async getActiveSubscriptions(): Promise<Donation[]> {
     if (!db) return [];
     return await db
@@ -928,42 +2129,123 @@ export class DatabaseStorage implements IStorage {
   async updateDonationAmount(id: number, amount: number): Promise<Donation | undefined> {
     if (!db) return undefined;
     
+    const donation = await this.getDonation(id);
+    if (!donation) return undefined;
+    
+    // Keep the rate from when the donation was made
+    const baseAmount = donation.exchangeRate !== null ? toBaseAmount({ ...donation, amount, baseAmount: null }) : null;
+    
     const [updatedDonation] = await db
       .update(donations)
-      .set({ amount })
+      .set({ amount, baseAmount })
       .where(eq(donations.id, id))
       .returning();
       
     return updatedDonation;
   }
   
-  // Endorsement methods
-  async getEndorsements(): Promise<Endorsement[]> {
-    if (!db) return [];
-    return await db.select().from(endorsements);
-  }
-  
-  async createEndorsement(insertEndorsement: InsertEndorsement): Promise<Endorsement> {
-    if (!db) throw new Error('Database not available');
-    const [endorsement] = await db.insert(endorsements).values(insertEndorsement).returning();
-    return endorsement;
-  }
-  
-  // Stats methods
-  async getStats(): Promise<Stats | undefined> {
+  async updateDonationFrequency(id: number, frequency: string): Promise<Donation | undefined> {
     if (!db) return undefined;
-    const [statsData] = await db.select().from(stats).limit(1);
-    return statsData;
+    
+    const [updatedDonation] = await db
+      .update(donations)
+      .set({ frequency })
+      .where(eq(donations.id, id))
+      .returning();
+      
+    return updatedDonation;
   }
   
-  async updateStats(statsData: Partial<InsertStats>): Promise<Stats | undefined> {
+  async updateDonationUser(id: number, userId: number): Promise<Donation | undefined> {
     if (!db) return undefined;
     
-    // Check if stats exists
-    const currentStats = await this.getStats();
-    
-    if (currentStats) {
-      // Update existing stats
+    const [updatedDonation] = await db
+      .update(donations)
+      .set({ userId })
+      .where(eq(donations.id, id))
+      .returning();
+      
+    return updatedDonation;
+  }
+  
+  async updateDonationRefund(id: number, refundedAmount: number, status: string): Promise<Donation | undefined> {
+    if (!db) return undefined;
+    
+    const [updatedDonation] = await db
+      .update(donations)
+      .set({ refundedAmount, status })
+      .where(eq(donations.id, id))
+      .returning();
+      
+    return updatedDonation;
+  }
+  
+  async updateDonationExchangeRate(id: number, rates: DonationExchangeRates): Promise<Donation | undefined> {
+    if (!db) return undefined;
+    
+    const [updatedDonation] = await db
+      .update(donations)
+      .set(rates)
+      .where(eq(donations.id, id))
+      .returning();
+      
+    return updatedDonation;
+  }
+  
+  async updateDonationFee(id: number, feeAmount: number): Promise<Donation | undefined> {
+    if (!db) return undefined;
+    
+    const [updatedDonation] = await db
+      .update(donations)
+      .set({ feeAmount })
+      .where(eq(donations.id, id))
+      .returning();
+      
+    return updatedDonation;
+  }
+  
+  async linkDonationsToUser(userId: number, email: string): Promise<number> {
+    if (!db) return 0;
+    
+    const linkedDonations = await db
+      .update(donations)
+      .set({ userId })
+      .where(and(
+        isNull(donations.userId),
+        sql`lower(trim(${donations.email})) = ${email.trim().toLowerCase()}`
+      ))
+      .returning({ id: donations.id });
+      
+    return linkedDonations.length;
+  }
+  
+  // Endorsement methods
+  async getEndorsements(): Promise<Endorsement[]> {
+    if (!db) return [];
+    return await db.select().from(endorsements);
+  }
+  
+  async createEndorsement(insertEndorsement: InsertEndorsement): Promise<Endorsement> {
+    if (!db) throw new Error('Database not available');
+    const [endorsement] = await db.insert(endorsements).values(insertEndorsement).returning();
+    return endorsement;
+  }
+  
+  // Stats methods
+  async getStats(): Promise<Stats | undefined> {
+    if (!db) return undefined;
+    const [statsData] = await db.select().from(stats).limit(1);
+    return statsData;
+  }
+  
+  async updateStats(statsData: Partial<InsertStats>): Promise<Stats | undefined> {
+    if (!db) return undefined;
+    
+    // Check if stats exists
+    const currentStats = await this.getStats();
+    
+    if (currentStats) {
+      // Update existing stats
       const [updatedStats] = await db
         .update(stats)
         .set({
@@ -1007,6 +2289,37 @@ export class DatabaseStorage implements IStorage {
       );
   }
   
+  async searchCases(filters: CaseFilters): Promise<Case[]> {
+    if (!db) return [];
+    
+    const conditions = [];
+    if (filters.category) {
+      conditions.push(eq(cases.category, filters.category));
+    }
+    if (filters.urgency) {
+      conditions.push(eq(cases.urgency, filters.urgency));
+    }
+    if (filters.status) {
+      conditions.push(eq(cases.status, filters.status));
+    }
+    if (filters.zakaatEligible !== undefined) {
+      conditions.push(eq(cases.zakaatEligible, filters.zakaatEligible));
+    }
+    if (filters.location) {
+      conditions.push(ilike(cases.location, `%${filters.location}%`));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(cases.title, pattern),
+        ilike(cases.description, pattern),
+        ilike(cases.location, pattern)
+      ));
+    }
+    
+    return await db.select().from(cases).where(and(...conditions));
+  }
+  
   async getCase(id: number): Promise<Case | undefined> {
     if (!db) return undefined;
     const [caseItem] = await db.select().from(cases).where(eq(cases.id, id));
@@ -1015,10 +2328,15 @@ export class DatabaseStorage implements IStorage {
   
   async createCase(insertCase: InsertCase): Promise<Case> {
     if (!db) throw new Error('Database not available');
+    // A case created inactive starts as a draft
+    const status = insertCase.status ?? (insertCase.active === false ? 'draft' : 'open');
     const [newCase] = await db.insert(cases).values({
       ...insertCase,
       imageUrl: insertCase.imageUrl || 'https://via.placeholder.com/400x300?text=No+Image',
-      amountCollected: 0
+      location: insertCase.location || null,
+      amountCollected: 0,
+      status,
+      active: status === 'open'
     }).returning();
     return newCase;
   }
@@ -1026,9 +2344,13 @@ export class DatabaseStorage implements IStorage {
   async updateCase(id: number, caseData: Partial<InsertCase>): Promise<Case | undefined> {
     if (!db) return undefined;
     
+    const caseItem = await this.getCase(id);
+    if (!caseItem) return undefined;
+    
+    const status = getUpdatedStatus(caseItem, caseData);
     const [updatedCase] = await db
       .update(cases)
-      .set(caseData)
+      .set({ ...caseData, ...getStatusFields(caseItem, status) })
       .where(eq(cases.id, id))
       .returning();
       
@@ -1042,13 +2364,51 @@ export class DatabaseStorage implements IStorage {
     const caseItem = await this.getCase(id);
     if (!caseItem) return undefined;
     
-    // Calculate new amount collected
-    const newAmountCollected = caseItem.amountCollected + additionalAmount;
+    return this.setCaseAmountCollected(id, caseItem.amountCollected + additionalAmount);
+  }
+
+  async adjustCaseTotalForDonation(donation: Donation, amount: number = donation.amount): Promise<Case | undefined> {
+    if (!donation.caseId) return undefined;
+    
+    // A donation that went past its case's goal only counts for the part the case kept
+    let updatedCase: Case | undefined;
+    for (const share of getCaseCreditShares(donation, amount)) {
+      const caseItem = await this.getCase(share.caseId);
+      if (!caseItem) continue;
+      const caseAmount = getCaseAdjustment(donation, caseItem, share.amount);
+      if (caseAmount === null) continue;
+      const adjusted = await this.updateCaseAmountCollected(caseItem.id, caseAmount);
+      if (share.caseId === donation.caseId) updatedCase = adjusted;
+    }
+    return updatedCase;
+  }
+
+  // Credit a newly completed donation to its case, applying the case's over-funding policy,
+  // and return how it was split
+  private async creditDonationToCase(donation: Donation): Promise<Pick<Donation, 'caseCreditAmount' | 'surplusCaseId'>> {
+    const caseItem = donation.caseId ? await this.getCase(donation.caseId) : undefined;
+    if (!caseItem) return { caseCreditAmount: null, surplusCaseId: null };
+    
+    // Surplus can only move to a case kept in the same currency, so it converts at the donation's stored rate
+    const surplusCase = caseItem.overfundingPolicy === 'redirect_to_case'
+      ? pickMostDeservingCase((await this.getActiveZakaatCases()).filter(c => c.id !== caseItem.id && c.currency === caseItem.currency))
+      : undefined;
+    const credit = planCaseCredit(donation, caseItem, surplusCase);
+    await this.adjustCaseTotalForDonation({ ...donation, ...credit });
+    return credit;
+  }
+
+  async setCaseAmountCollected(id: number, amountCollected: number): Promise<Case | undefined> {
+    if (!db) return undefined;
+    
+    const caseItem = await this.getCase(id);
+    if (!caseItem) return undefined;
     
-    // Update the case
+    // Reaching the goal moves the case to funded, and dropping back below it reopens it
+    const fundedCase = { ...caseItem, amountCollected };
     const [updatedCase] = await db
       .update(cases)
-      .set({ amountCollected: newAmountCollected })
+      .set({ amountCollected, ...getStatusFields(fundedCase, getFundingStatus(fundedCase)) })
       .where(eq(cases.id, id))
       .returning();
       
@@ -1072,16 +2432,137 @@ export class DatabaseStorage implements IStorage {
     const caseItem = await this.getCase(id);
     if (!caseItem) return undefined;
     
-    // Toggle the active status
+    // Closes an open or funded case, and reopens any other; reopening a completed case takes it out of the completed list
+    const status = caseItem.status === 'open' || caseItem.status === 'funded'
+      ? 'closed'
+      : getFundingStatus({ ...caseItem, status: 'open' });
     const [updatedCase] = await db
       .update(cases)
-      .set({ active: !caseItem.active })
+      .set(getStatusFields(caseItem, status))
       .where(eq(cases.id, id))
       .returning();
       
     return updatedCase;
   }
   
+  async getCompletedCases(): Promise<Case[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(cases)
+      .where(eq(cases.status, 'completed'))
+      .orderBy(desc(cases.completedAt));
+  }
+  
+  async completeCase(id: number): Promise<Case | undefined> {
+    if (!db) return undefined;
+    const caseItem = await this.getCase(id);
+    if (!caseItem) return undefined;
+    
+    const [updatedCase] = await db
+      .update(cases)
+      .set(getStatusFields(caseItem, 'completed'))
+      .where(eq(cases.id, id))
+      .returning();
+    return updatedCase;
+  }
+  
+  // Case disbursement methods
+  async getCaseDisbursements(caseId: number): Promise<CaseDisbursement[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(caseDisbursements)
+      .where(eq(caseDisbursements.caseId, caseId))
+      .orderBy(desc(caseDisbursements.paidAt), desc(caseDisbursements.id));
+  }
+  
+  async createCaseDisbursement(disbursementData: InsertCaseDisbursement): Promise<CaseDisbursement> {
+    if (!db) throw new Error('Database not available');
+    const [disbursement] = await db.insert(caseDisbursements).values(disbursementData).returning();
+    
+    // Keep the case's running total of what has been paid out
+    await db
+      .update(cases)
+      .set({ amountDisbursed: sql`round((${cases.amountDisbursed} + ${disbursement.amount})::numeric, 2)` })
+      .where(eq(cases.id, disbursement.caseId));
+    return disbursement;
+  }
+  
+  // Case update methods
+  async getCaseUpdates(caseId: number): Promise<CaseUpdate[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(caseUpdates)
+      .where(eq(caseUpdates.caseId, caseId))
+      .orderBy(desc(caseUpdates.createdAt), desc(caseUpdates.id));
+  }
+  
+  async createCaseUpdate(updateData: InsertCaseUpdate): Promise<CaseUpdate> {
+    if (!db) throw new Error('Database not available');
+    const [update] = await db.insert(caseUpdates).values(updateData).returning();
+    return update;
+  }
+  
+  async setCaseUpdateNotifiedDonors(id: number, notifiedDonors: number): Promise<CaseUpdate | undefined> {
+    if (!db) throw new Error('Database not available');
+    const [update] = await db
+      .update(caseUpdates)
+      .set({ notifiedDonors })
+      .where(eq(caseUpdates.id, id))
+      .returning();
+    return update;
+  }
+  
+  async getCaseUpdateUnsubscribedEmails(caseId: number): Promise<string[]> {
+    if (!db) return [];
+    const rows = await db
+      .select({ email: caseUpdateUnsubscribes.email })
+      .from(caseUpdateUnsubscribes)
+      .where(eq(caseUpdateUnsubscribes.caseId, caseId));
+    return rows.map(row => row.email);
+  }
+  
+  async unsubscribeFromCaseUpdates(caseId: number, email: string): Promise<void> {
+    if (!db) throw new Error('Database not available');
+    await db
+      .insert(caseUpdateUnsubscribes)
+      .values({ caseId, email: email.toLowerCase() })
+      .onConflictDoNothing();
+  }
+  
+  // Case image methods
+  async getCaseImages(caseId: number): Promise<CaseImage[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(caseImages)
+      .where(eq(caseImages.caseId, caseId))
+      .orderBy(asc(caseImages.position), asc(caseImages.id));
+  }
+  
+  async getCaseImage(id: number): Promise<CaseImage | undefined> {
+    if (!db) return undefined;
+    const [image] = await db.select().from(caseImages).where(eq(caseImages.id, id));
+    return image;
+  }
+  
+  async createCaseImage(imageData: InsertCaseImage): Promise<CaseImage> {
+    if (!db) throw new Error('Database not available');
+    const [image] = await db.insert(caseImages).values(imageData).returning();
+    return image;
+  }
+  
+  async deleteCaseImage(id: number): Promise<boolean> {
+    if (!db) return false;
+    const result = await db
+      .delete(caseImages)
+      .where(eq(caseImages.id, id));
+      
+    return (result.rowCount ?? 0) > 0;
+  }
+  
   // Contact message methods
   async createContactMessage(message: InsertContactMessage): Promise<ContactMessage> {
     if (!db) throw new Error('Database not available');
@@ -1211,6 +2692,19 @@ export class DatabaseStorage implements IStorage {
     return updatedReceipt;
   }
   
+  async amendReceipt(id: number, status: 'amended' | 'voided', amount: number): Promise<Receipt | undefined> {
+    if (!db) return undefined;
+    
+    // Clearing the file path makes the next download regenerate the PDF with the amended amount
+    const [updatedReceipt] = await db
+      .update(receipts)
+      .set({ status, amount, filePath: null })
+      .where(eq(receipts.id, id))
+      .returning();
+      
+    return updatedReceipt;
+  }
+  
   async getReceipts(): Promise<Receipt[]> {
     if (!db) return [];
     return await db
@@ -1218,6 +2712,585 @@ export class DatabaseStorage implements IStorage {
       .from(receipts)
       .orderBy(desc(receipts.createdAt));
   }
+  
+  // Donor statement methods
+  async createDonorStatement(statementData: InsertDonorStatement): Promise<DonorStatement> {
+    if (!db) throw new Error('Database not available');
+    const [statement] = await db
+      .insert(donorStatements)
+      .values(statementData)
+      .returning();
+      
+    return statement;
+  }
+  
+  async getDonorStatement(id: number): Promise<DonorStatement | undefined> {
+    if (!db) return undefined;
+    const [statement] = await db
+      .select()
+      .from(donorStatements)
+      .where(eq(donorStatements.id, id));
+      
+    return statement;
+  }
+  
+  async getDonorStatements(filters: DonorStatementFilters = {}): Promise<DonorStatement[]> {
+    if (!db) return [];
+    
+    const conditions = [];
+    if (filters.periodType) conditions.push(eq(donorStatements.periodType, filters.periodType));
+    if (filters.periodYear) conditions.push(eq(donorStatements.periodYear, filters.periodYear));
+    if (filters.donorEmail) conditions.push(eq(donorStatements.donorEmail, filters.donorEmail));
+    
+    return await db
+      .select()
+      .from(donorStatements)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(donorStatements.createdAt));
+  }
+  
+  async updateDonorStatementStatus(id: number, status: string, filePath?: string, errorMessage?: string): Promise<DonorStatement | undefined> {
+    if (!db) return undefined;
+    
+    const updateData: Partial<DonorStatement> = { status };
+    if (status === 'generated') updateData.generatedAt = new Date();
+    if (filePath !== undefined) updateData.filePath = filePath;
+    if (errorMessage !== undefined) updateData.errorMessage = errorMessage;
+    
+    const [updatedStatement] = await db
+      .update(donorStatements)
+      .set(updateData)
+      .where(eq(donorStatements.id, id))
+      .returning();
+      
+    return updatedStatement;
+  }
+  
+  async updateDonorStatementSentAt(id: number): Promise<DonorStatement | undefined> {
+    if (!db) return undefined;
+    
+    const [updatedStatement] = await db
+      .update(donorStatements)
+      .set({ 
+        status: 'sent',
+        sentAt: new Date()
+      })
+      .where(eq(donorStatements.id, id))
+      .returning();
+      
+    return updatedStatement;
+  }
+  
+  // Refund methods
+  async createRefund(refundData: InsertRefund): Promise<Refund> {
+    if (!db) throw new Error('Database not available');
+    const [refund] = await db
+      .insert(refunds)
+      .values(refundData)
+      .returning();
+      
+    return refund;
+  }
+  
+  async getRefundByProviderRefundId(providerRefundId: string): Promise<Refund | undefined> {
+    if (!db) return undefined;
+    const [refund] = await db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.providerRefundId, providerRefundId));
+      
+    return refund;
+  }
+  
+  async getRefundsByDonationId(donationId: number): Promise<Refund[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.donationId, donationId))
+      .orderBy(asc(refunds.createdAt));
+  }
+  
+  // Donor login token methods
+  async createDonorLoginToken(tokenData: InsertDonorLoginToken): Promise<DonorLoginToken> {
+    if (!db) throw new Error('Database not available');
+    const [token] = await db
+      .insert(donorLoginTokens)
+      .values(tokenData)
+      .returning();
+      
+    return token;
+  }
+  
+  async getDonorLoginTokenByHash(tokenHash: string): Promise<DonorLoginToken | undefined> {
+    if (!db) return undefined;
+    const [token] = await db
+      .select()
+      .from(donorLoginTokens)
+      .where(eq(donorLoginTokens.tokenHash, tokenHash));
+      
+    return token;
+  }
+  
+  async markDonorLoginTokenUsed(id: number): Promise<DonorLoginToken | undefined> {
+    if (!db) return undefined;
+    
+    const [updatedToken] = await db
+      .update(donorLoginTokens)
+      .set({ usedAt: new Date() })
+      .where(eq(donorLoginTokens.id, id))
+      .returning();
+      
+    return updatedToken;
+  }
+  
+  // Webhook event methods
+  async createWebhookEvent(eventData: InsertWebhookEvent): Promise<WebhookEvent> {
+    if (!db) throw new Error('Database not available');
+    const [event] = await db
+      .insert(webhookEvents)
+      .values(eventData)
+      .returning();
+      
+    return event;
+  }
+  
+  async getWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+    if (!db) return undefined;
+    const [event] = await db
+      .select()
+      .from(webhookEvents)
+      .where(eq(webhookEvents.id, id));
+      
+    return event;
+  }
+  
+  async getWebhookEvents(filters: WebhookEventFilters = {}): Promise<WebhookEvent[]> {
+    if (!db) return [];
+    
+    const conditions = [];
+    if (filters.eventType) {
+      conditions.push(eq(webhookEvents.eventType, filters.eventType));
+    }
+    if (filters.status) {
+      conditions.push(eq(webhookEvents.status, filters.status));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(webhookEvents.eventType, pattern),
+        ilike(webhookEvents.stripeEventId, pattern),
+        ilike(webhookEvents.paymentIntentId, pattern),
+        ilike(webhookEvents.subscriptionId, pattern)
+      ));
+    }
+    
+    return await db
+      .select()
+      .from(webhookEvents)
+      .where(and(...conditions))
+      .orderBy(desc(webhookEvents.createdAt))
+      .limit(filters.limit ?? 100);
+  }
+  
+  // Orphaned payment methods
+  async createOrphanedPayment(paymentData: InsertOrphanedPayment): Promise<OrphanedPayment> {
+    if (!db) throw new Error('Database not available');
+    const [payment] = await db
+      .insert(orphanedPayments)
+      .values(paymentData)
+      .returning();
+      
+    return payment;
+  }
+  
+  async getOrphanedPayment(id: number): Promise<OrphanedPayment | undefined> {
+    if (!db) return undefined;
+    const [payment] = await db
+      .select()
+      .from(orphanedPayments)
+      .where(eq(orphanedPayments.id, id));
+      
+    return payment;
+  }
+  
+  async getOrphanedPaymentByPaymentIntentId(paymentIntentId: string): Promise<OrphanedPayment | undefined> {
+    if (!db) return undefined;
+    const [payment] = await db
+      .select()
+      .from(orphanedPayments)
+      .where(eq(orphanedPayments.paymentIntentId, paymentIntentId));
+      
+    return payment;
+  }
+  
+  async getOrphanedPayments(status?: string): Promise<OrphanedPayment[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(orphanedPayments)
+      .where(status ? eq(orphanedPayments.status, status) : undefined)
+      .orderBy(desc(orphanedPayments.createdAt));
+  }
+  
+  async resolveOrphanedPayment(id: number, resolution: OrphanedPaymentResolution): Promise<OrphanedPayment | undefined> {
+    if (!db) return undefined;
+    
+    const [updatedPayment] = await db
+      .update(orphanedPayments)
+      .set({
+        status: resolution.status,
+        resolvedDonationId: resolution.resolvedDonationId ?? null,
+        resolvedBy: resolution.resolvedBy,
+        notes: resolution.notes ?? null,
+        resolvedAt: new Date()
+      })
+      .where(eq(orphanedPayments.id, id))
+      .returning();
+      
+    return updatedPayment;
+  }
+  
+  // Dispute methods
+  async createDispute(disputeData: InsertDispute): Promise<Dispute> {
+    if (!db) throw new Error('Database not available');
+    const [dispute] = await db
+      .insert(disputes)
+      .values(disputeData)
+      .returning();
+      
+    return dispute;
+  }
+  
+  async getDisputeByStripeDisputeId(stripeDisputeId: string): Promise<Dispute | undefined> {
+    if (!db) return undefined;
+    const [dispute] = await db
+      .select()
+      .from(disputes)
+      .where(eq(disputes.stripeDisputeId, stripeDisputeId));
+      
+    return dispute;
+  }
+  
+  async getDisputes(): Promise<Dispute[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(disputes)
+      .orderBy(desc(disputes.createdAt));
+  }
+  
+  async updateDispute(id: number, updates: Partial<InsertDispute>): Promise<Dispute | undefined> {
+    if (!db) return undefined;
+    
+    const [updatedDispute] = await db
+      .update(disputes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(disputes.id, id))
+      .returning();
+      
+    return updatedDispute;
+  }
+  
+  // Exchange rate methods
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(exchangeRates)
+      .orderBy(asc(exchangeRates.currency));
+  }
+  
+  async saveProviderExchangeRates(rates: Record<string, number>, source: string, fetchedAt: Date): Promise<void> {
+    if (!db) throw new Error('Database not available');
+    const rows = Object.entries(rates).map(([currency, rate]) => ({ currency, rate, source, fetchedAt }));
+    if (rows.length === 0) return;
+    
+    await db
+      .insert(exchangeRates)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: exchangeRates.currency,
+        set: {
+          rate: sql`excluded.rate`,
+          source: sql`excluded.source`,
+          fetchedAt: sql`excluded.fetched_at`,
+          updatedAt: new Date()
+        }
+      });
+  }
+  
+  async setExchangeRateOverride(currency: string, overrideRate: number | null, setBy: string | null): Promise<ExchangeRate> {
+    if (!db) throw new Error('Database not available');
+    const override = {
+      overrideRate,
+      overrideSetBy: overrideRate === null ? null : setBy,
+      overrideSetAt: overrideRate === null ? null : new Date(),
+      updatedAt: new Date()
+    };
+    
+    const [exchangeRate] = await db
+      .insert(exchangeRates)
+      .values({ currency, ...override })
+      .onConflictDoUpdate({ target: exchangeRates.currency, set: override })
+      .returning();
+      
+    return exchangeRate;
+  }
+  
+  // Fee schedule methods
+  async getFeeSchedules(): Promise<FeeSchedule[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(feeSchedules)
+      .orderBy(asc(feeSchedules.paymentMethod), asc(feeSchedules.currency));
+  }
+  
+  async saveFeeSchedule(schedule: InsertFeeSchedule, updatedBy: string | null): Promise<FeeSchedule> {
+    if (!db) throw new Error('Database not available');
+    const fees = {
+      percentage: schedule.percentage,
+      fixedFee: schedule.fixedFee ?? 0,
+      updatedBy,
+      updatedAt: new Date()
+    };
+    
+    const [feeSchedule] = await db
+      .insert(feeSchedules)
+      .values({ paymentMethod: schedule.paymentMethod, currency: schedule.currency, ...fees })
+      .onConflictDoUpdate({ target: [feeSchedules.paymentMethod, feeSchedules.currency], set: fees })
+      .returning();
+      
+    return feeSchedule;
+  }
+  
+  async deleteFeeSchedule(id: number): Promise<boolean> {
+    if (!db) return false;
+    
+    const result = await db
+      .delete(feeSchedules)
+      .where(eq(feeSchedules.id, id));
+      
+    return (result.rowCount ?? 0) > 0;
+  }
+  
+  // Metal price methods
+  async getMetalPrices(): Promise<MetalPrice[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(metalPrices)
+      .orderBy(asc(metalPrices.metal));
+  }
+  
+  async setMetalPrice(metal: string, pricePerGram: number, updatedBy: string | null): Promise<MetalPrice> {
+    if (!db) throw new Error('Database not available');
+    const price = { pricePerGram, updatedBy, updatedAt: new Date() };
+    
+    const [metalPrice] = await db
+      .insert(metalPrices)
+      .values({ metal, ...price })
+      .onConflictDoUpdate({ target: metalPrices.metal, set: price })
+      .returning();
+      
+    return metalPrice;
+  }
+  
+  // Fund ledger methods
+  async getFundLedgerEntries(fund?: string): Promise<FundLedgerEntry[]> {
+    if (!db) return [];
+    return await db
+      .select()
+      .from(fundLedgerEntries)
+      .where(fund ? eq(fundLedgerEntries.fund, fund) : undefined)
+      .orderBy(asc(fundLedgerEntries.createdAt), asc(fundLedgerEntries.id));
+  }
+  
+  async createFundLedgerEntry(entryData: InsertFundLedgerEntry): Promise<FundLedgerEntry> {
+    if (!db) throw new Error('Database not available');
+    const [entry] = await db.insert(fundLedgerEntries).values(entryData).returning();
+    return entry;
+  }
+  
+  async creditDonationToFund(donation: Donation): Promise<FundLedgerEntry | undefined> {
+    if (!db) throw new Error('Database not available');
+    const credit = getDonationFundCredit(donation);
+    if (!credit) return undefined;
+    
+    const [entry] = await db
+      .insert(fundLedgerEntries)
+      .values(credit)
+      .onConflictDoNothing({
+        target: fundLedgerEntries.donationId,
+        where: sql`${fundLedgerEntries.entryType} = 'donation'`
+      })
+      .returning();
+    if (entry) return entry;
+    
+    const [existing] = await db
+      .select()
+      .from(fundLedgerEntries)
+      .where(and(eq(fundLedgerEntries.donationId, donation.id), eq(fundLedgerEntries.entryType, 'donation')));
+    return existing;
+  }
+  
+  async createFundDisbursement(entryData: InsertFundLedgerEntry): Promise<{ entry: FundLedgerEntry } | { balance: number }> {
+    if (!db) throw new Error('Database not available');
+    return await db.transaction(async (tx) => {
+      // Payments out of the same fund wait for each other until the transaction ends
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`fund_ledger_entries:${entryData.fund}`}))`);
+      const [{ total }] = await tx
+        .select({ total: sql<string | null>`SUM(${fundLedgerEntries.amount})` })
+        .from(fundLedgerEntries)
+        .where(eq(fundLedgerEntries.fund, entryData.fund));
+      const balance = roundToMinorUnit(Number(total ?? 0), BASE_CURRENCY);
+      if (-entryData.amount > balance) return { balance };
+      
+      const [entry] = await tx.insert(fundLedgerEntries).values(entryData).returning();
+      return { entry };
+    });
+  }
+  
+  // Matched giving methods
+  async getMatchPledges(): Promise<MatchPledge[]> {
+    if (!db) return [];
+    return await db.select().from(matchPledges).orderBy(desc(matchPledges.startsAt), desc(matchPledges.id));
+  }
+  
+  async getMatchPledge(id: number): Promise<MatchPledge | undefined> {
+    if (!db) return undefined;
+    const [pledge] = await db.select().from(matchPledges).where(eq(matchPledges.id, id));
+    return pledge;
+  }
+  
+  async createMatchPledge(pledgeData: InsertMatchPledge): Promise<MatchPledge> {
+    if (!db) throw new Error('Database not available');
+    const [pledge] = await db.insert(matchPledges).values(pledgeData).returning();
+    return pledge;
+  }
+  
+  async getMatchContributions(filters: MatchContributionFilters = {}): Promise<MatchContribution[]> {
+    if (!db) return [];
+    const conditions = [];
+    if (filters.pledgeId !== undefined) conditions.push(eq(matchContributions.pledgeId, filters.pledgeId));
+    if (filters.donationId !== undefined) conditions.push(eq(matchContributions.donationId, filters.donationId));
+    return await db
+      .select()
+      .from(matchContributions)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(asc(matchContributions.createdAt), asc(matchContributions.id));
+  }
+  
+  async createMatchContribution(contributionData: InsertMatchContribution): Promise<MatchContribution> {
+    if (!db) throw new Error('Database not available');
+    const [contribution] = await db.insert(matchContributions).values(contributionData).returning();
+    return contribution;
+  }
+  
+  async matchDonation(donation: Donation): Promise<MatchContribution[]> {
+    if (!db) throw new Error('Database not available');
+    const created: MatchContribution[] = [];
+    for (const pledge of (await this.getMatchPledges()).filter(p => pledgeMatchesDonation(p, donation))) {
+      const contribution = await db.transaction(async (tx) => {
+        // Donations matched by the same pledge wait for each other, so they can't both take what is left of the cap
+        await tx.select({ id: matchPledges.id }).from(matchPledges).where(eq(matchPledges.id, pledge.id)).for('update');
+        const contributions = await tx.select().from(matchContributions).where(eq(matchContributions.pledgeId, pledge.id));
+        const amount = getMatchAmount(pledge, donation, getMatchedAmount(contributions));
+        if (amount <= 0) return undefined;
+        
+        // A donation completed twice (e.g. a repeated webhook) is only matched once
+        const [inserted] = await tx
+          .insert(matchContributions)
+          .values({ pledgeId: pledge.id, donationId: donation.id, entryType: 'match', amount })
+          .onConflictDoNothing({
+            target: [matchContributions.pledgeId, matchContributions.donationId],
+            where: sql`${matchContributions.entryType} = 'match'`
+          })
+          .returning();
+        return inserted;
+      });
+      if (contribution) created.push(contribution);
+    }
+    return created;
+  }
+  
+  // Fundraiser methods
+  async getFundraisers(filters: FundraiserFilters = {}): Promise<Fundraiser[]> {
+    if (!db) return [];
+    
+    const conditions = [];
+    if (filters.status) conditions.push(eq(fundraisers.status, filters.status));
+    if (filters.ownerUserId !== undefined) conditions.push(eq(fundraisers.ownerUserId, filters.ownerUserId));
+    
+    return await db
+      .select()
+      .from(fundraisers)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(fundraisers.createdAt), desc(fundraisers.id));
+  }
+  
+  async getFundraiser(id: number): Promise<Fundraiser | undefined> {
+    if (!db) return undefined;
+    const [fundraiser] = await db.select().from(fundraisers).where(eq(fundraisers.id, id));
+    return fundraiser;
+  }
+  
+  async getFundraiserBySlug(slug: string): Promise<Fundraiser | undefined> {
+    if (!db) return undefined;
+    const [fundraiser] = await db.select().from(fundraisers).where(eq(fundraisers.slug, slug));
+    return fundraiser;
+  }
+  
+  async createFundraiser(fundraiserData: InsertFundraiser): Promise<Fundraiser> {
+    if (!db) throw new Error('Database not available');
+    const [fundraiser] = await db.insert(fundraisers).values(fundraiserData).returning();
+    return fundraiser;
+  }
+  
+  async updateFundraiser(id: number, updates: Partial<InsertFundraiser>): Promise<Fundraiser | undefined> {
+    if (!db) return undefined;
+    const [fundraiser] = await db
+      .update(fundraisers)
+      .set(updates)
+      .where(eq(fundraisers.id, id))
+      .returning();
+    return fundraiser;
+  }
+  
+  // Campaign methods
+  async getCampaigns(): Promise<Campaign[]> {
+    if (!db) return [];
+    return await db.select().from(campaigns).orderBy(desc(campaigns.startsAt), desc(campaigns.id));
+  }
+  
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    if (!db) return undefined;
+    const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    return campaign;
+  }
+  
+  async getCampaignBySlug(slug: string): Promise<Campaign | undefined> {
+    if (!db) return undefined;
+    const [campaign] = await db.select().from(campaigns).where(eq(campaigns.slug, slug));
+    return campaign;
+  }
+  
+  async createCampaign(campaignData: InsertCampaign): Promise<Campaign> {
+    if (!db) throw new Error('Database not available');
+    const [campaign] = await db.insert(campaigns).values(campaignData).returning();
+    return campaign;
+  }
+  
+  async updateCampaign(id: number, updates: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    if (!db) return undefined;
+    const [campaign] = await db
+      .update(campaigns)
+      .set(updates)
+      .where(eq(campaigns.id, id))
+      .returning();
+    return campaign;
+  }
 }
 
 // Create a singleton storage instance to ensure consistency across all components
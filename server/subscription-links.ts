@@ -0,0 +1,40 @@
+/**
+ * Signed management links for recurring donations
+ * Lets donors manage their subscription from an emailed link without signing in
+ */
+import { createSignedToken, verifySignedToken, getAppBaseUrl } from './signed-links';
+
+// Links in confirmation emails stay valid for 30 days
+const MANAGEMENT_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Create a signed, expiring token that identifies a recurring donation
+ */
+export function createSubscriptionManagementToken(donationId: number, ttlMs: number = MANAGEMENT_LINK_TTL_MS): string {
+  return createSignedToken('subscription', `${donationId}.${Date.now() + ttlMs}`);
+}
+
+/**
+ * Verify a management token and return the donation ID it was issued for,
+ * or null when the signature is wrong or the link has expired
+ */
+export function verifySubscriptionManagementToken(token: string): number | null {
+  const payload = verifySignedToken('subscription', token);
+  const parts = payload?.split('.') ?? [];
+  if (parts.length !== 2) return null;
+
+  const [donationId, expiresAt] = parts;
+  if (Number(expiresAt) < Date.now()) {
+    return null;
+  }
+
+  const id = parseInt(donationId);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * Build the public URL of the management page for a recurring donation
+ */
+export function buildSubscriptionManagementUrl(donationId: number): string {
+  return `${getAppBaseUrl()}/manage-subscription/${createSubscriptionManagementToken(donationId)}`;
+}
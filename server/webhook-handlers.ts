@@ -3,13 +3,19 @@
  * Addresses payment synchronization issues between Stripe and database
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { storage } from './storage';
 import type { Donation } from '@shared/schema';
 import { generatePDFReceipt, generateReceiptNumber } from './pdf-receipt-service';
 import { sendPDFReceipt } from './email-service';
+import { recordStripeDispute } from './disputes';
+import { withExchangeRateSnapshot } from './exchange-rates';
+import { getGrossAmount } from './fees';
+import { allocateZakat } from './zakat';
+import { fromMinorUnits, roundToMinorUnit } from '@shared/money';
 
 // Helper function to generate and send PDF receipt
-async function processReceiptGeneration(donation: Donation): Promise<void> {
+export async function processReceiptGeneration(donation: Donation): Promise<void> {
   try {
     // Skip if no email provided
     if (!donation.email) {
@@ -125,8 +131,88 @@ const logWebhookEvent = (event: string, details: any) => {
   }
 };
 
-// Special logging for orphaned payments with high priority in New Relic
-const logOrphanedPayment = (paymentIntent: any) => {
+// What happened while handling one webhook delivery, stored in the webhook event log
+export interface WebhookDeliveryOutcome {
+  status: 'processed' | 'orphaned' | 'failed' | 'ignored';
+  donationId: number | null;
+  matchStrategy: string | null;
+  errorMessage: string | null;
+}
+
+// Handlers swallow their own errors, so the outcome is collected as they run rather than returned
+const webhookDelivery = new AsyncLocalStorage<WebhookDeliveryOutcome>();
+
+export const createWebhookDeliveryOutcome = (): WebhookDeliveryOutcome => ({
+  status: 'processed',
+  donationId: null,
+  matchStrategy: null,
+  errorMessage: null
+});
+
+export const runWebhookDelivery = (outcome: WebhookDeliveryOutcome, handle: () => Promise<void>): Promise<void> => {
+  return webhookDelivery.run(outcome, handle);
+};
+
+export const recordWebhookMatch = (donationId: number, matchStrategy: string) => {
+  const outcome = webhookDelivery.getStore();
+  if (!outcome) return;
+  outcome.donationId = donationId;
+  outcome.matchStrategy = matchStrategy;
+};
+
+export const recordWebhookFailure = (errorMessage: string) => {
+  const outcome = webhookDelivery.getStore();
+  if (!outcome) return;
+  outcome.status = 'failed';
+  outcome.errorMessage = errorMessage;
+};
+
+export const recordWebhookIgnored = () => {
+  const outcome = webhookDelivery.getStore();
+  if (outcome) outcome.status = 'ignored';
+};
+
+// Pull the payment intent and subscription a Stripe event refers to, for searching the event log
+export const getWebhookEventReferences = (event: any): { paymentIntentId: string | null; subscriptionId: string | null } => {
+  const object = event?.data?.object;
+  if (!object || typeof object !== 'object') {
+    return { paymentIntentId: null, subscriptionId: null };
+  }
+  
+  const idOf = (value: any): string | null => {
+    if (!value) return null;
+    return typeof value === 'string' ? value : value.id ?? null;
+  };
+  
+  const type: string = event.type || '';
+  if (type.startsWith('payment_intent.')) {
+    return { paymentIntentId: object.id ?? null, subscriptionId: null };
+  }
+  if (type.startsWith('customer.subscription.')) {
+    return { paymentIntentId: null, subscriptionId: object.id ?? null };
+  }
+  if (type.startsWith('invoice.')) {
+    return {
+      paymentIntentId: getInvoicePaymentIntentId(object),
+      subscriptionId: getInvoiceSubscriptionId(object)
+    };
+  }
+  
+  return {
+    paymentIntentId: idOf(object.payment_intent),
+    subscriptionId: idOf(object.subscription)
+  };
+};
+
+// Log a payment intent match and remember which strategy found it
+const logMatchFound = (strategy: string, donation: Donation, paymentIntent: any, details: Record<string, any> = {}) => {
+  recordWebhookMatch(donation.id, strategy);
+  logWebhookEvent('MATCH_FOUND', { strategy, donationId: donation.id, paymentIntentId: paymentIntent.id, ...details });
+};
+
+// Special logging for orphaned payments with high priority in New Relic,
+// saved to the orphaned payments queue for an admin to resolve
+const logOrphanedPayment = async (paymentIntent: any) => {
   // Handle invalid timestamps gracefully
   let createdDate = new Date();
   try {
@@ -143,7 +229,7 @@ const logOrphanedPayment = (paymentIntent: any) => {
 
   const orphanedDetails = {
     paymentIntentId: paymentIntent.id,
-    amount: paymentIntent.amount / 100, // Convert from cents
+    amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency || '', 'stripe'),
     currency: paymentIntent.currency?.toUpperCase() || 'UNKNOWN',
     status: paymentIntent.status,
     created: createdDate.toISOString(),
@@ -155,6 +241,9 @@ const logOrphanedPayment = (paymentIntent: any) => {
   // Console logging
   console.log('[WEBHOOK-ORPHANED_PAYMENT]', JSON.stringify(orphanedDetails, null, 2));
   
+  const outcome = webhookDelivery.getStore();
+  if (outcome) outcome.status = 'orphaned';
+  
   // New Relic custom event with high priority
   if (newrelic?.recordCustomEvent) {
     newrelic.recordCustomEvent('OrphanedPayment', {
@@ -171,6 +260,26 @@ const logOrphanedPayment = (paymentIntent: any) => {
       customAttributes: orphanedDetails
     });
   }
+
+  try {
+    // Stripe retries deliveries, so a payment is only queued once
+    const existing = await storage.getOrphanedPaymentByPaymentIntentId(paymentIntent.id);
+    if (!existing) {
+      await storage.createOrphanedPayment({
+        paymentIntentId: paymentIntent.id,
+        amount: orphanedDetails.amount,
+        currency: orphanedDetails.currency,
+        stripeMetadata: orphanedDetails.metadata,
+        description: orphanedDetails.description,
+        stripeCreatedAt: createdDate
+      });
+    }
+  } catch (error: any) {
+    logWebhookEvent('ORPHANED_PAYMENT_SAVE_ERROR', {
+      paymentIntentId: paymentIntent.id,
+      error: error.message
+    });
+  }
 };
 
 // Enhanced payment intent matching with multiple fallback strategies
@@ -186,21 +295,21 @@ const findDonationByPaymentIntent = async (paymentIntent: any): Promise<Donation
   // Strategy 1: Direct payment intent ID match
   let donation = donations.find(d => d.stripePaymentId === paymentIntent.id);
   if (donation) {
-    logWebhookEvent('MATCH_FOUND', { strategy: 'direct_id', donationId: donation.id, paymentIntentId: paymentIntent.id });
+    logMatchFound('direct_id', donation, paymentIntent);
     return donation;
   }
 
   // Strategy 2: Combined ID format match (current format)
   donation = donations.find(d => d.stripePaymentId === `${paymentIntent.id}|${paymentIntent.client_secret}`);
   if (donation) {
-    logWebhookEvent('MATCH_FOUND', { strategy: 'combined_format', donationId: donation.id, paymentIntentId: paymentIntent.id });
+    logMatchFound('combined_format', donation, paymentIntent);
     return donation;
   }
 
   // Strategy 3: Partial ID match (in case of format inconsistencies)
   donation = donations.find(d => d.stripePaymentId && d.stripePaymentId.includes(paymentIntent.id));
   if (donation) {
-    logWebhookEvent('MATCH_FOUND', { strategy: 'partial_match', donationId: donation.id, paymentIntentId: paymentIntent.id });
+    logMatchFound('partial_match', donation, paymentIntent);
     return donation;
   }
 
@@ -210,7 +319,7 @@ const findDonationByPaymentIntent = async (paymentIntent: any): Promise<Donation
     if (!isNaN(donationId)) {
       donation = await storage.getDonation(donationId);
       if (donation) {
-        logWebhookEvent('MATCH_FOUND', { strategy: 'metadata', donationId: donation.id, paymentIntentId: paymentIntent.id });
+        logMatchFound('metadata', donation, paymentIntent);
         return donation;
       }
     }
@@ -223,17 +332,17 @@ const findDonationByPaymentIntent = async (paymentIntent: any): Promise<Donation
     d.id === parseInt(paymentIntent.metadata.donationId)
   );
   if (donation) {
-    logWebhookEvent('MATCH_FOUND', { strategy: 'direct_id', donationId: donation.id, paymentIntentId: paymentIntent.id });
+    logMatchFound('direct_id', donation, paymentIntent);
     return donation;
   }
 
   // Strategy 5: Amount and timestamp proximity match (last resort)
-  const paymentAmount = paymentIntent.amount / 100; // Convert from cents
+  const paymentAmount = fromMinorUnits(paymentIntent.amount, paymentIntent.currency || '', 'stripe');
   const paymentTime = new Date(paymentIntent.created * 1000);
   const timeWindow = 10 * 60 * 1000; // 10 minutes
 
   donation = donations.find(d => {
-    const amountMatch = Math.abs(d.amount - paymentAmount) < 0.01; // Within 1 cent
+    const amountMatch = Math.abs(getGrossAmount(d) - paymentAmount) < 0.01; // Within 1 cent, including any covered fee
     const timeMatch = Math.abs(new Date(d.createdAt).getTime() - paymentTime.getTime()) < timeWindow;
     const statusMatch = d.status === 'processing' || d.status === 'pending';
     
@@ -241,10 +350,7 @@ const findDonationByPaymentIntent = async (paymentIntent: any): Promise<Donation
   });
 
   if (donation) {
-    logWebhookEvent('MATCH_FOUND', { 
-      strategy: 'amount_time_proximity', 
-      donationId: donation.id, 
-      paymentIntentId: paymentIntent.id,
+    logMatchFound('amount_time_proximity', donation, paymentIntent, {
       amountMatch: paymentAmount,
       timeMatch: paymentTime
     });
@@ -294,6 +400,7 @@ export const handlePaymentIntentSucceeded = async (paymentIntent: any) => {
       
       // Check if update was successful
       if (!updatedDonation) {
+        recordWebhookFailure(`Failed to update donation ${donation.id}`);
         logWebhookEvent('DONATION_UPDATE_FAILED', { donationId: donation.id, paymentIntentId: paymentIntent.id });
         return;
       }
@@ -306,29 +413,14 @@ export const handlePaymentIntentSucceeded = async (paymentIntent: any) => {
           currency: donation.currency
         });
 
-        // Update case amount if donation is for a specific case
-        if (donation.caseId) {
-          try {
-            const updatedCase = await storage.updateCaseAmountCollected(donation.caseId, donation.amount);
-            if (updatedCase) {
-              logWebhookEvent('CASE_AMOUNT_UPDATED', { 
-                caseId: donation.caseId, 
-                amount: donation.amount,
-                newTotal: updatedCase.amountCollected
-              });
-            } else {
-              logWebhookEvent('CASE_UPDATE_ERROR', { 
-                caseId: donation.caseId, 
-                error: 'Case not found or update failed'
-              });
-            }
-          } catch (caseError: any) {
-            logWebhookEvent('CASE_UPDATE_ERROR', { 
-              caseId: donation.caseId, 
-              error: caseError.message,
-              amount: donation.amount
-            });
-          }
+        // updateDonationStatus has already credited the case, within any cap on it
+        if (updatedDonation.caseId) {
+          const updatedCase = await storage.getCase(updatedDonation.caseId);
+          logWebhookEvent('CASE_AMOUNT_UPDATED', { 
+            caseId: updatedDonation.caseId, 
+            currency: updatedCase?.currency,
+            newTotal: updatedCase?.amountCollected
+          });
         }
         
         // Generate and send PDF receipt
@@ -339,13 +431,15 @@ export const handlePaymentIntentSucceeded = async (paymentIntent: any) => {
           // Don't fail the entire payment process if receipt generation fails
         }
       } else {
+        recordWebhookFailure(`Failed to update donation ${donation.id}`);
         logWebhookEvent('DONATION_UPDATE_FAILED', { donationId: donation.id, paymentIntentId: paymentIntent.id });
       }
     } else {
       // Log orphaned payment with high priority for New Relic alerting
-      logOrphanedPayment(paymentIntent);
+      await logOrphanedPayment(paymentIntent);
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('HANDLER_ERROR', { 
       paymentIntentId: paymentIntent.id, 
       error: error.message,
@@ -368,12 +462,14 @@ export const handlePaymentIntentFailed = async (paymentIntent: any) => {
       if (updatedDonation) {
         logWebhookEvent('DONATION_FAILED', { donationId: donation.id, paymentIntentId: paymentIntent.id });
       } else {
+        recordWebhookFailure(`Failed to update donation ${donation.id}`);
         logWebhookEvent('DONATION_UPDATE_FAILED', { donationId: donation.id, paymentIntentId: paymentIntent.id });
       }
     } else {
       logWebhookEvent('FAILED_PAYMENT_NO_DONATION', { paymentIntentId: paymentIntent.id });
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('FAILURE_HANDLER_ERROR', { 
       paymentIntentId: paymentIntent.id, 
       error: error.message 
@@ -405,6 +501,7 @@ export const handleCheckoutSessionCompleted = async (session: any) => {
       await handlePaymentIntentSucceeded(mockPaymentIntent);
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('CHECKOUT_HANDLER_ERROR', { 
       sessionId: session.id, 
       error: error.message 
@@ -449,6 +546,7 @@ export const handleSubscriptionCreated = async (subscription: any) => {
       logWebhookEvent('SUBSCRIPTION_NO_DONATION', { subscriptionId: subscription.id });
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('SUBSCRIPTION_HANDLER_ERROR', { 
       subscriptionId: subscription.id, 
       error: error.message 
@@ -479,6 +577,7 @@ export const handleSubscriptionUpdated = async (subscription: any) => {
       });
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('SUBSCRIPTION_UPDATE_ERROR', { 
       subscriptionId: subscription.id, 
       error: error.message 
@@ -508,6 +607,7 @@ export const handleSubscriptionCancelled = async (subscription: any) => {
       });
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('SUBSCRIPTION_CANCEL_ERROR', { 
       subscriptionId: subscription.id, 
       error: error.message 
@@ -515,49 +615,129 @@ export const handleSubscriptionCancelled = async (subscription: any) => {
   }
 };
 
+// Newer Stripe API versions moved the subscription and payment intent off the invoice
+export const getInvoiceSubscriptionId = (invoice: any): string | null => {
+  const subscription = invoice.subscription ?? invoice.parent?.subscription_details?.subscription;
+  if (!subscription) return null;
+  return typeof subscription === 'string' ? subscription : subscription.id;
+};
+
+export const getInvoicePaymentIntentId = (invoice: any): string | null => {
+  const paymentIntent = invoice.payment_intent ?? invoice.payments?.data?.[0]?.payment?.payment_intent;
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+};
+
+// Record a paid subscription invoice as its own completed donation linked to the parent
+export const recordRecurringInstallment = async (parentDonation: Donation, invoice: any): Promise<Donation | null> => {
+  // Stripe retries webhooks, so each invoice must only ever produce one installment
+  const existing = await storage.getDonationByStripeInvoiceId(invoice.id);
+  if (existing) {
+    logWebhookEvent('INSTALLMENT_ALREADY_RECORDED', {
+      donationId: existing.id,
+      parentDonationId: parentDonation.id,
+      invoiceId: invoice.id
+    });
+    return existing;
+  }
+  
+  const currency = (invoice.currency || parentDonation.currency).toUpperCase();
+  // The invoice has already been paid, so zakat for a case that is no longer eligible goes to the most deserving one instead
+  let caseId = parentDonation.caseId;
+  if (parentDonation.type === 'zakaat' && caseId) {
+    const allocation = await allocateZakat(caseId);
+    if ('error' in allocation) {
+      const reallocated = await allocateZakat(null);
+      caseId = 'error' in reallocated ? null : reallocated.caseId;
+      logWebhookEvent('INSTALLMENT_ZAKAT_REALLOCATED', {
+        parentDonationId: parentDonation.id,
+        invoiceId: invoice.id,
+        fromCaseId: parentDonation.caseId,
+        toCaseId: caseId,
+        reason: allocation.error
+      });
+    }
+  }
+  // A fee the donor chose to cover is part of every invoice, on top of the donated amount
+  const feeAmount = parentDonation.feeAmount ?? 0;
+  let installment: Donation;
+  try {
+    // Each installment is converted at the rate on the day it was paid
+    installment = await storage.createDonation(await withExchangeRateSnapshot({
+      type: parentDonation.type as 'zakaat' | 'sadqah' | 'interest',
+      amount: roundToMinorUnit(fromMinorUnits(invoice.amount_paid, currency, 'stripe') - feeAmount, currency), // The amount actually paid, less the covered fee
+      feeAmount,
+      currency,
+      frequency: parentDonation.frequency as 'one-off' | 'weekly' | 'monthly',
+      status: 'pending',
+      email: parentDonation.email,
+      name: parentDonation.name,
+      firstName: parentDonation.firstName,
+      lastName: parentDonation.lastName,
+      userId: parentDonation.userId,
+      paymentMethod: parentDonation.paymentMethod || 'stripe',
+      caseId,
+      destinationProject: parentDonation.destinationProject,
+      fundraiserId: parentDonation.fundraiserId,
+      campaignId: parentDonation.campaignId,
+      anonymous: parentDonation.anonymous,
+      stripeSubscriptionId: null,
+      parentDonationId: parentDonation.id,
+      stripeInvoiceId: invoice.id
+    }));
+  } catch (error: any) {
+    // A concurrent delivery of the same invoice may have won the unique constraint
+    const concurrent = await storage.getDonationByStripeInvoiceId(invoice.id);
+    if (concurrent) return concurrent;
+    throw error;
+  }
+  
+  // Completing through updateDonationStatus adds the installment to the case total exactly once
+  const completed = await storage.updateDonationStatus(
+    installment.id,
+    'completed',
+    getInvoicePaymentIntentId(invoice) || undefined
+  );
+  
+  logWebhookEvent('RECURRING_PAYMENT_PROCESSED', {
+    donationId: installment.id,
+    parentDonationId: parentDonation.id,
+    invoiceId: invoice.id,
+    amount: installment.amount
+  });
+  
+  if (completed) {
+    try {
+      await processReceiptGeneration(completed);
+    } catch (receiptError: any) {
+      console.error(`Receipt generation failed for recurring installment ${installment.id}:`, receiptError);
+      // Don't fail the entire payment process if receipt generation fails
+    }
+  }
+  
+  return completed ?? installment;
+};
+
 // Invoice payment handlers
 export const handleInvoicePaymentSucceeded = async (invoice: any) => {
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  
   logWebhookEvent('INVOICE_PAYMENT_SUCCEEDED', { 
     invoiceId: invoice.id,
-    subscriptionId: invoice.subscription,
+    subscriptionId,
     amount: invoice.amount_paid
   });
   
   try {
-    if (invoice.subscription) {
-      const donations = await storage.getDonations();
-      const donation = donations.find(d => d.stripeSubscriptionId === invoice.subscription);
+    if (subscriptionId && invoice.amount_paid > 0) {
+      const donation = await storage.getDonationByStripeSubscriptionId(subscriptionId);
       
       if (donation) {
-        // For recurring payments, we might want to create a new donation record
-        // or update the existing one - this depends on your business logic
-        logWebhookEvent('RECURRING_PAYMENT_PROCESSED', {
-          donationId: donation.id,
-          invoiceId: invoice.id,
-          amount: invoice.amount_paid / 100
-        });
-        
-        // Update case amount if applicable
-        if (donation.caseId) {
-          await storage.updateCaseAmountCollected(donation.caseId, invoice.amount_paid / 100);
-        }
-        
-        // Generate and send PDF receipt for recurring payment
-        try {
-          // Create a donation object for receipt generation (recurring payments use original donation data)
-          const receiptDonation = {
-            ...donation,
-            amount: invoice.amount_paid / 100, // Use the actual payment amount
-            createdAt: new Date(invoice.created * 1000) // Use invoice date
-          };
-          await processReceiptGeneration(receiptDonation);
-        } catch (receiptError: any) {
-          console.error(`Receipt generation failed for recurring donation ${donation.id}:`, receiptError);
-          // Don't fail the entire payment process if receipt generation fails
-        }
+        await recordRecurringInstallment(donation, invoice);
       }
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('INVOICE_HANDLER_ERROR', { 
       invoiceId: invoice.id, 
       error: error.message 
@@ -586,6 +766,7 @@ export const handleInvoicePaymentFailed = async (invoice: any) => {
       }
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('INVOICE_FAILURE_HANDLER_ERROR', { 
       invoiceId: invoice.id, 
       error: error.message 
@@ -625,7 +806,7 @@ export const handlePaymentIntentCreated = async (paymentIntent: any) => {
       logWebhookEvent('INCOMPLETE_PAYMENT_TRACKED', {
         donationId: donation.id,
         paymentIntentId: paymentIntent.id,
-        amount: paymentIntent.amount / 100, // Convert from cents
+        amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency || '', 'stripe'),
         currency: paymentIntent.currency?.toUpperCase() || 'UNKNOWN',
         status: paymentIntent.status,
         requiresAction: paymentIntent.status === 'requires_action',
@@ -635,13 +816,14 @@ export const handlePaymentIntentCreated = async (paymentIntent: any) => {
       // Track PaymentIntent created without matching donation (potential issue)
       logWebhookEvent('UNMATCHED_PAYMENT_INTENT_CREATED', {
         paymentIntentId: paymentIntent.id,
-        amount: paymentIntent.amount / 100,
+        amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency || '', 'stripe'),
         currency: paymentIntent.currency?.toUpperCase() || 'UNKNOWN',
         status: paymentIntent.status,
         metadata: paymentIntent.metadata || {}
       });
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('PAYMENT_INTENT_CREATED_ERROR', { 
       paymentIntentId: paymentIntent.id, 
       error: error.message 
@@ -673,9 +855,42 @@ export const handlePaymentIntentCanceled = async (paymentIntent: any) => {
       }
     }
   } catch (error: any) {
+    recordWebhookFailure(error.message);
     logWebhookEvent('PAYMENT_INTENT_CANCEL_ERROR', { 
       paymentIntentId: paymentIntent.id, 
       error: error.message 
     });
   }
-};
\ No newline at end of file
+};
+// Handler for charge.dispute.created, charge.dispute.updated and charge.dispute.closed
+export const handleChargeDispute = async (dispute: any) => {
+  logWebhookEvent('CHARGE_DISPUTE', {
+    id: dispute.id,
+    amount: dispute.amount,
+    status: dispute.status,
+    reason: dispute.reason
+  });
+  
+  try {
+    const paymentIntentId = typeof dispute.payment_intent === 'string'
+      ? dispute.payment_intent
+      : dispute.payment_intent?.id;
+    
+    // Only the ID is passed so disputes are never matched by amount and time
+    const donation = paymentIntentId
+      ? await findDonationByPaymentIntent({ id: paymentIntentId })
+      : null;
+    
+    if (!donation) {
+      logWebhookEvent('DISPUTE_WITHOUT_DONATION', { disputeId: dispute.id, paymentIntentId });
+    }
+    
+    await recordStripeDispute(dispute, donation);
+  } catch (error: any) {
+    recordWebhookFailure(error.message);
+    logWebhookEvent('CHARGE_DISPUTE_ERROR', {
+      disputeId: dispute.id,
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,202 @@
+/**
+ * Zakat nisab in a donor's currency, and keeping zakat to eligible cases
+ * Gold and silver prices are set by admins in the base currency and converted at the stored exchange rates.
+ */
+import { storage } from './storage';
+import config from './config';
+import { getRateToBase } from './exchange-rates';
+import { getNetDonatedAmount } from './refunds';
+import { roundToMinorUnit } from '@shared/money';
+import { BASE_CURRENCY, toBaseAmount } from '@shared/currency';
+import { NISAB_GRAMS, type NisabStandard, type ZakatPrices } from '@shared/zakat';
+import { getCaseCreditShares, pickMostDeservingCase } from '@shared/case-lifecycle';
+import type { Case } from '@shared/schema';
+
+export const ZAKAT_METALS = Object.keys(NISAB_GRAMS) as NisabStandard[];
+
+export interface ZakatNisab extends ZakatPrices {
+  standard: NisabStandard;
+  nisabGrams: number;
+  pricesUpdatedAt: Date | null;
+}
+
+/**
+ * Metal prices per gram and the nisab in a currency. Prices are null until an admin has set them,
+ * or when there is no exchange rate for the currency.
+ */
+export async function getZakatPrices(currency: string): Promise<ZakatNisab> {
+  const code = currency.toUpperCase();
+  const [metalPrices, rateToBase] = await Promise.all([storage.getMetalPrices(), getRateToBase(code)]);
+
+  const getPricePerGram = (metal: NisabStandard) => {
+    const price = metalPrices.find(p => p.metal === metal);
+    if (!price || !rateToBase) return null;
+    return Math.round(price.pricePerGram / rateToBase * 10000) / 10000;
+  };
+
+  const goldPricePerGram = getPricePerGram('gold');
+  const silverPricePerGram = getPricePerGram('silver');
+  const standard = config.ZAKAT.NISAB_STANDARD;
+  const standardPrice = standard === 'gold' ? goldPricePerGram : silverPricePerGram;
+
+  const updatedAt = metalPrices.map(p => p.updatedAt.getTime());
+  return {
+    currency: code,
+    goldPricePerGram,
+    silverPricePerGram,
+    nisab: standardPrice === null ? null : roundToMinorUnit(standardPrice * NISAB_GRAMS[standard], code),
+    standard,
+    nisabGrams: NISAB_GRAMS[standard],
+    pricesUpdatedAt: updatedAt.length > 0 ? new Date(Math.max(...updatedAt)) : null
+  };
+}
+
+export type ZakatAllocation = { caseId: number | null } | { error: string };
+
+/**
+ * The active zakat-eligible case that has received the smallest share of what it needs,
+ * which is where "Most deserving case" zakat is sent
+ */
+export async function getMostDeservingZakatCase(): Promise<Case | undefined> {
+  return pickMostDeservingCase(await storage.getActiveZakaatCases());
+}
+
+/**
+ * Work out which case a zakat donation goes to. A case chosen by the donor must be zakat eligible;
+ * without one the donation goes to the most deserving eligible case, or stays unallocated if there is none.
+ * `withinCaseIds` limits the most deserving case to those cases, e.g. the ones a campaign is raising for.
+ */
+export async function allocateZakat(
+  caseId: number | null | undefined,
+  withinCaseIds?: number[]
+): Promise<ZakatAllocation> {
+  if (caseId) {
+    const caseItem = await storage.getCase(caseId);
+    if (!caseItem) {
+      return { error: "Case not found" };
+    }
+    if (!caseItem.zakaatEligible) {
+      return { error: "This case is not eligible for zakat. Please choose another case or donate as sadqah." };
+    }
+    return { caseId };
+  }
+
+  const mostDeserving = withinCaseIds
+    ? pickMostDeservingCase((await storage.getActiveZakaatCases()).filter(caseItem => withinCaseIds.includes(caseItem.id)))
+    : await getMostDeservingZakatCase();
+  return { caseId: mostDeserving?.id ?? null };
+}
+
+export interface ZakatComplianceCase {
+  caseId: number;
+  title: string | null; // Null when the case has been deleted
+  zakaatEligible: boolean;
+  donationCount: number;
+  baseAmount: number;
+}
+
+export interface ZakatComplianceReport {
+  generatedAt: Date;
+  baseCurrency: string;
+  compliant: boolean;
+  donationCount: number;
+  totalZakat: number;
+  unallocatedZakat: number;
+  cases: ZakatComplianceCase[];
+  ineligibleDonations: Array<{
+    donationId: number;
+    caseId: number;
+    amount: number;
+    currency: string;
+    baseAmount: number;
+    createdAt: Date;
+  }>;
+  // Zakat in another currency with no exchange rate stored yet, left out of the totals above
+  unconvertedDonations: Array<{
+    donationId: number;
+    caseId: number | null;
+    amount: number;
+    currency: string;
+    createdAt: Date;
+  }>;
+}
+
+/**
+ * Zakat received, less refunds, broken down by the case it was credited to. Any zakat credited to a
+ * case that isn't eligible (or no longer exists) is listed so it can be moved, and any that can't be
+ * converted to the base currency yet is listed rather than counted.
+ */
+export async function getZakatComplianceReport(): Promise<ZakatComplianceReport> {
+  const [donations, cases] = await Promise.all([storage.getDonations(), storage.getCases()]);
+  const casesById = new Map(cases.map(caseItem => [caseItem.id, caseItem]));
+  const byCase = new Map<number, ZakatComplianceCase>();
+  const report: ZakatComplianceReport = {
+    generatedAt: new Date(),
+    baseCurrency: BASE_CURRENCY,
+    compliant: true,
+    donationCount: 0,
+    totalZakat: 0,
+    unallocatedZakat: 0,
+    cases: [],
+    ineligibleDonations: [],
+    unconvertedDonations: []
+  };
+
+  for (const donation of donations) {
+    const netAmount = getNetDonatedAmount(donation);
+    if (donation.type !== 'zakaat' || netAmount <= 0) continue;
+
+    const baseAmount = toBaseAmount(donation, netAmount);
+    if (baseAmount === null) {
+      report.unconvertedDonations.push({
+        donationId: donation.id,
+        caseId: donation.caseId ?? null,
+        amount: netAmount,
+        currency: donation.currency,
+        createdAt: donation.createdAt
+      });
+      continue;
+    }
+    report.donationCount++;
+    report.totalZakat = roundToMinorUnit(report.totalZakat + baseAmount, BASE_CURRENCY);
+
+    // A donation that went past its case's goal counts for each case only by the part that case received,
+    // and any part kept by the general fund is unallocated
+    let allocatedBase = 0;
+    for (const share of getCaseCreditShares(donation, netAmount)) {
+      const shareBase = roundToMinorUnit((baseAmount * share.amount) / netAmount, BASE_CURRENCY);
+      allocatedBase = roundToMinorUnit(allocatedBase + shareBase, BASE_CURRENCY);
+
+      const caseItem = casesById.get(share.caseId);
+      const entry = byCase.get(share.caseId) ?? {
+        caseId: share.caseId,
+        title: caseItem?.title ?? null,
+        zakaatEligible: caseItem?.zakaatEligible ?? false,
+        donationCount: 0,
+        baseAmount: 0
+      };
+      entry.donationCount++;
+      entry.baseAmount = roundToMinorUnit(entry.baseAmount + shareBase, BASE_CURRENCY);
+      byCase.set(share.caseId, entry);
+
+      if (!entry.zakaatEligible) {
+        report.ineligibleDonations.push({
+          donationId: donation.id,
+          caseId: share.caseId,
+          amount: share.amount,
+          currency: donation.currency,
+          baseAmount: shareBase,
+          createdAt: donation.createdAt
+        });
+      }
+    }
+
+    if (baseAmount - allocatedBase >= 0.01) {
+      report.unallocatedZakat = roundToMinorUnit(report.unallocatedZakat + baseAmount - allocatedBase, BASE_CURRENCY);
+    }
+  }
+
+  report.cases = Array.from(byCase.values()).sort((a, b) => b.baseAmount - a.baseAmount);
+  report.compliant = report.ineligibleDonations.length === 0;
+  return report;
+}
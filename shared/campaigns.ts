@@ -0,0 +1,12 @@
+import type { Campaign } from './schema';
+
+export type CampaignPhase = 'upcoming' | 'live' | 'ended';
+
+/**
+ * Where a campaign is at the given time: not started yet, taking donations, or over
+ */
+export function getCampaignPhase(campaign: Pick<Campaign, 'startsAt' | 'endsAt'>, now: Date = new Date()): CampaignPhase {
+  if (now.getTime() < new Date(campaign.startsAt).getTime()) return 'upcoming';
+  if (now.getTime() < new Date(campaign.endsAt).getTime()) return 'live';
+  return 'ended';
+}
@@ -0,0 +1,133 @@
+import type { Case, CaseStatus, Donation } from './schema';
+import { toCaseAmount } from './currency';
+import { getCurrencyExponent, roundToMinorUnit } from './money';
+
+type LifecycleCase = Pick<Case, 'status' | 'currency' | 'amountRequired' | 'amountCollected' | 'deadline' | 'completedAt'>;
+
+type CreditedDonation = Pick<Donation, 'amount' | 'currency' | 'caseId' | 'caseCreditAmount' | 'surplusCaseId'>;
+
+/**
+ * Whether a case has passed its deadline
+ */
+export function isPastDeadline(caseItem: Pick<Case, 'deadline'>, now: Date = new Date()): boolean {
+  return caseItem.deadline != null && new Date(caseItem.deadline).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a case can take new donations: it is open and its deadline, if it has one, hasn't passed
+ */
+export function isAcceptingDonations(caseItem: Pick<Case, 'status' | 'deadline'>, now: Date = new Date()): boolean {
+  return caseItem.status === 'open' && !isPastDeadline(caseItem, now);
+}
+
+/**
+ * How much a case still needs to reach its goal, in the case currency
+ */
+export function getRemainingGoal(caseItem: Pick<Case, 'currency' | 'amountRequired' | 'amountCollected'>): number {
+  return Math.max(roundToMinorUnit(caseItem.amountRequired - caseItem.amountCollected, caseItem.currency), 0);
+}
+
+/**
+ * The status a case should have once its total or goal has changed: an open case that reaches its goal
+ * is funded, and a funded case that drops back below it (a refund, or a higher goal) opens again,
+ * or closes if its deadline has passed in the meantime
+ */
+export function getFundingStatus(caseItem: LifecycleCase, now: Date = new Date()): CaseStatus {
+  const status = caseItem.status as CaseStatus;
+  const goalReached = getRemainingGoal(caseItem) === 0;
+
+  if (status === 'open' && goalReached) return 'funded';
+  if (status === 'funded' && !goalReached) return isPastDeadline(caseItem, now) ? 'closed' : 'open';
+  return status;
+}
+
+/**
+ * The status a case should have after an admin edit. A request to change `active` (from older clients)
+ * opens or closes the case; either way the goal is checked again, as it may have changed.
+ */
+export function getUpdatedStatus(
+  caseItem: LifecycleCase & Pick<Case, 'active'>,
+  changes: Partial<Pick<Case, 'status' | 'active' | 'amountRequired' | 'deadline'>>,
+  now: Date = new Date()
+): CaseStatus {
+  let status = caseItem.status;
+  if (changes.status) {
+    status = changes.status;
+  } else if (changes.active !== undefined && changes.active !== caseItem.active) {
+    status = changes.active ? 'open' : 'closed';
+  }
+  return getFundingStatus({ ...caseItem, ...changes, status }, now);
+}
+
+/**
+ * The zakat-eligible case furthest from its goal among the cases taking donations, lowest ID first on a tie
+ */
+export function pickMostDeservingCase<T extends Pick<Case, 'id' | 'status' | 'deadline' | 'zakaatEligible' | 'currency' | 'amountRequired' | 'amountCollected'>>(
+  cases: T[],
+  now: Date = new Date()
+): T | undefined {
+  const fundedShare = (caseItem: T) => caseItem.amountCollected / caseItem.amountRequired;
+  return cases
+    .filter(caseItem => caseItem.zakaatEligible && isAcceptingDonations(caseItem, now) && getRemainingGoal(caseItem) > 0)
+    .sort((a, b) => fundedShare(a) - fundedShare(b) || a.id - b.id)[0];
+}
+
+/**
+ * The fields that go with a case status. `active` mirrors whether the case is open, and only
+ * completed cases keep a completion date.
+ */
+export function getStatusFields(caseItem: LifecycleCase, status: CaseStatus): Pick<Case, 'status' | 'active' | 'completedAt'> {
+  return {
+    status,
+    active: status === 'open',
+    completedAt: status === 'completed' ? caseItem.completedAt ?? new Date() : null
+  };
+}
+
+/**
+ * Work out how much of a donation its case keeps when the donation takes the case past its goal.
+ * Returns a null credit when the case keeps all of it; the rest goes to `surplusCase` when one is given,
+ * otherwise it stays in the general fund.
+ */
+export function planCaseCredit(
+  donation: Parameters<typeof toCaseAmount>[0] & Pick<Donation, 'amount'>,
+  caseItem: Pick<Case, 'currency' | 'amountRequired' | 'amountCollected' | 'overfundingPolicy'>,
+  surplusCase?: Pick<Case, 'id'>
+): Pick<Donation, 'caseCreditAmount' | 'surplusCaseId'> {
+  const credit = toCaseAmount(donation, caseItem.currency);
+  const remaining = getRemainingGoal(caseItem);
+  // Without a rate the case isn't credited yet, so there is nothing to split
+  if (caseItem.overfundingPolicy === 'allow_surplus' || credit === null || credit <= remaining) {
+    return { caseCreditAmount: null, surplusCaseId: null };
+  }
+
+  // Round up a minor unit when conversion would leave the case just short of its goal
+  let caseCreditAmount = roundToMinorUnit((donation.amount * remaining) / credit, donation.currency);
+  if (toCaseAmount(donation, caseItem.currency, caseCreditAmount)! < remaining) {
+    caseCreditAmount = roundToMinorUnit(caseCreditAmount + 10 ** -getCurrencyExponent(donation.currency), donation.currency);
+  }
+
+  return {
+    caseCreditAmount,
+    surplusCaseId: caseItem.overfundingPolicy === 'redirect_to_case' ? surplusCase?.id ?? null : null
+  };
+}
+
+/**
+ * Split an amount of a donation (the whole donation by default, or a refund) between the case it was
+ * given to and the case its surplus went to, in the donation currency
+ */
+export function getCaseCreditShares(
+  donation: CreditedDonation,
+  amount: number = donation.amount
+): Array<{ caseId: number; amount: number }> {
+  if (!donation.caseId) return [];
+  if (donation.caseCreditAmount == null) return [{ caseId: donation.caseId, amount }];
+
+  const caseShare = donation.amount > 0 ? roundToMinorUnit((amount * donation.caseCreditAmount) / donation.amount, donation.currency) : 0;
+  const shares = [{ caseId: donation.caseId, amount: caseShare }];
+  if (donation.surplusCaseId) {
+    shares.push({ caseId: donation.surplusCaseId, amount: roundToMinorUnit(amount - caseShare, donation.currency) });
+  }
+  return shares;
+}
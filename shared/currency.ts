@@ -0,0 +1,68 @@
+import { roundToMinorUnit } from './money';
+
+// The organisation's reporting currency; admin statistics and case totals are kept in it
+export const BASE_CURRENCY = 'AUD';
+
+type ConvertibleDonation = {
+  amount: number;
+  currency: string;
+  exchangeRate: number | null;
+  baseAmount: number | null;
+};
+
+type CaseDonation = ConvertibleDonation & {
+  caseExchangeRate: number | null;
+};
+
+/**
+ * Convert an amount in a donation's own currency (the whole donation by default) to the base currency,
+ * at the rate stored when the donation was made. Returns null for a donation in another currency that
+ * has no stored rate yet, so it is left out of totals until one is stored rather than counted at face value.
+ */
+export function toBaseAmount(donation: ConvertibleDonation, amount: number = donation.amount): number | null {
+  if (amount === donation.amount && donation.baseAmount != null) {
+    return donation.baseAmount;
+  }
+  if (donation.currency.toUpperCase() === BASE_CURRENCY) {
+    return roundToMinorUnit(amount, BASE_CURRENCY);
+  }
+  return donation.exchangeRate != null ? roundToMinorUnit(amount * donation.exchangeRate, BASE_CURRENCY) : null;
+}
+
+/**
+ * Total an amount from each donation in the base currency. Donations without a stored rate are left out
+ * of the total and returned separately so they can be flagged.
+ */
+export function sumBaseAmounts<T extends ConvertibleDonation>(
+  donations: T[],
+  getAmount: (donation: T) => number = donation => donation.amount
+): { total: number; unconverted: T[] } {
+  let total = 0;
+  const unconverted: T[] = [];
+  for (const donation of donations) {
+    const baseAmount = toBaseAmount(donation, getAmount(donation));
+    if (baseAmount === null) {
+      unconverted.push(donation);
+    } else {
+      total += baseAmount;
+    }
+  }
+  return { total: roundToMinorUnit(total, BASE_CURRENCY), unconverted };
+}
+
+/**
+ * Convert an amount in a donation's own currency to the currency of the case it was given to,
+ * at the rate stored when the donation was made. Returns null when there is no stored rate to convert with.
+ */
+export function toCaseAmount(donation: CaseDonation, caseCurrency: string, amount: number = donation.amount): number | null {
+  if (donation.currency.toUpperCase() === caseCurrency.toUpperCase()) {
+    return roundToMinorUnit(amount, caseCurrency);
+  }
+  if (donation.caseExchangeRate != null) {
+    return roundToMinorUnit(amount * donation.caseExchangeRate, caseCurrency);
+  }
+  if (caseCurrency.toUpperCase() === BASE_CURRENCY) {
+    return toBaseAmount(donation, amount);
+  }
+  return null;
+}
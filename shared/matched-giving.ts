@@ -0,0 +1,54 @@
+import type { Donation, MatchContribution, MatchPledge } from './schema';
+import { BASE_CURRENCY, toBaseAmount } from './currency';
+import { roundToMinorUnit } from './money';
+
+type MatchableDonation = Pick<Donation, 'type' | 'caseId' | 'amount' | 'currency' | 'exchangeRate' | 'baseAmount'>;
+
+/**
+ * Whether a pledge is matching gifts at the given time
+ */
+export function isPledgeLive(pledge: Pick<MatchPledge, 'startsAt' | 'endsAt'>, now: Date = new Date()): boolean {
+  return new Date(pledge.startsAt).getTime() <= now.getTime() && now.getTime() < new Date(pledge.endsAt).getTime();
+}
+
+/**
+ * Whether a pledge matches a donation completed at the given time: it is live, and the donation
+ * is to the pledge's case and of its type when it is limited to one
+ */
+export function pledgeMatchesDonation(pledge: MatchPledge, donation: Pick<Donation, 'type' | 'caseId'>, now: Date = new Date()): boolean {
+  return isPledgeLive(pledge, now)
+    && (pledge.caseId == null || pledge.caseId === donation.caseId)
+    && (pledge.donationType == null || pledge.donationType === donation.type);
+}
+
+/**
+ * How much of a pledge has been given so far, in the base currency, net of reversals
+ */
+export function getMatchedAmount(contributions: Pick<MatchContribution, 'amount'>[]): number {
+  return Math.max(roundToMinorUnit(contributions.reduce((sum, c) => sum + c.amount, 0), BASE_CURRENCY), 0);
+}
+
+/**
+ * How much of a pledge's cap is still to be given
+ */
+export function getRemainingCap(pledge: Pick<MatchPledge, 'capAmount'>, matchedAmount: number): number {
+  return Math.max(roundToMinorUnit(pledge.capAmount - matchedAmount, BASE_CURRENCY), 0);
+}
+
+/**
+ * What a pledge gives towards a donation, in the base currency: the donation times the pledge's
+ * ratio, up to what is left of its cap. A donation with no exchange rate yet isn't matched.
+ */
+export function getMatchAmount(pledge: Pick<MatchPledge, 'ratio' | 'capAmount'>, donation: MatchableDonation, matchedAmount: number): number {
+  const baseAmount = toBaseAmount(donation);
+  if (baseAmount === null) return 0;
+  return Math.min(roundToMinorUnit(baseAmount * pledge.ratio, BASE_CURRENCY), getRemainingCap(pledge, matchedAmount));
+}
+
+/**
+ * The share of a match that comes back off when part of the matched donation is refunded
+ */
+export function getMatchReversal(matchAmount: number, donationAmount: number, refundedAmount: number): number {
+  if (donationAmount <= 0) return 0;
+  return Math.min(roundToMinorUnit(matchAmount * refundedAmount / donationAmount, BASE_CURRENCY), matchAmount);
+}
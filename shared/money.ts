@@ -0,0 +1,79 @@
+/**
+ * Amounts in a currency's minor units, as payment providers take them
+ * Most currencies have cents, but ISO 4217 gives some no minor unit (JPY, KRW, CLP) and some three
+ * decimals (KWD, BHD), so multiplying by 100 overcharges or undercharges them. Providers don't always
+ * follow ISO 4217 either, so amounts sent to a provider are converted with that provider's exponents.
+ */
+
+// Currencies donors can give in; the checkout only offers these and the payment routes only accept them
+export const DONATION_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'HKD', 'SGD',
+  'SEK', 'KRW', 'NOK', 'NZD', 'INR', 'MXN', 'TWD', 'ZAR', 'BRL', 'DKK',
+  'PLN', 'THB', 'IDR', 'HUF', 'CZK', 'ILS', 'CLP', 'PHP', 'AED', 'COP',
+  'SAR', 'MYR', 'RON', 'TRY', 'PKR', 'ISK'
+] as const;
+
+export type PaymentProvider = 'stripe' | 'paypal';
+
+// ISO 4217 currencies whose minor unit is not 1/100; every other currency has two decimals
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0,
+  PYG: 0, RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4
+};
+
+// Where a provider's amounts don't follow ISO 4217
+const PROVIDER_EXPONENTS: Record<PaymentProvider, Record<string, number>> = {
+  // Stripe takes ISK and UGX in hundredths for backwards compatibility, though only whole amounts can be charged
+  stripe: { ISK: 2, UGX: 2 },
+  // PayPal doesn't accept decimals for these
+  paypal: { HUF: 0, JPY: 0, TWD: 0 }
+};
+
+/**
+ * Whether donations can be made in a currency
+ */
+export function isDonationCurrency(currency: string): boolean {
+  return (DONATION_CURRENCIES as readonly string[]).includes(currency.toUpperCase());
+}
+
+/**
+ * Number of decimal places in a currency's minor unit, as ISO 4217 or the given provider counts them
+ */
+export function getCurrencyExponent(currency: string, provider?: PaymentProvider): number {
+  const code = currency.toUpperCase();
+  return (provider && PROVIDER_EXPONENTS[provider][code]) ?? CURRENCY_EXPONENTS[code] ?? 2;
+}
+
+/**
+ * Round an amount to the currency's smallest unit, e.g. whole yen or fils, or the smallest
+ * amount the given provider can charge when that is larger
+ */
+export function roundToMinorUnit(amount: number, currency: string, provider?: PaymentProvider): number {
+  const decimals = Math.min(getCurrencyExponent(currency), getCurrencyExponent(currency, provider));
+  const factor = 10 ** decimals;
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Convert a display amount to the integer minor units a provider expects (cents, yen, fils)
+ */
+export function toMinorUnits(amount: number, currency: string, provider: PaymentProvider): number {
+  return Math.round(roundToMinorUnit(amount, currency, provider) * 10 ** getCurrencyExponent(currency, provider));
+}
+
+/**
+ * Convert a provider amount in minor units back to a display amount
+ */
+export function fromMinorUnits(minorUnits: number, currency: string, provider: PaymentProvider): number {
+  return minorUnits / 10 ** getCurrencyExponent(currency, provider);
+}
+
+/**
+ * Format an amount as a decimal string with the currency's number of decimals, or the number
+ * the given provider accepts (PayPal takes amounts this way)
+ */
+export function toDecimalString(amount: number, currency: string, provider?: PaymentProvider): string {
+  return roundToMinorUnit(amount, currency, provider).toFixed(getCurrencyExponent(currency, provider));
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, json, unique, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -26,23 +27,89 @@ export const cases = pgTable("cases", {
   imageUrl: text("image_url"),
   amountRequired: real("amount_required").notNull(),
   amountCollected: real("amount_collected").notNull().default(0),
-  active: boolean("active").notNull().default(true),
+  amountDisbursed: real("amount_disbursed").notNull().default(0), // Paid out to the patient or hospital so far
+  currency: text("currency").notNull().default("AUD"), // Currency of amountRequired, amountCollected and amountDisbursed
+  status: text("status").notNull().default("open"), // 'draft', 'open', 'funded', 'closed', 'completed'
+  active: boolean("active").notNull().default(true), // Taking donations, i.e. status is 'open'
   recurringAllowed: boolean("recurring_allowed").notNull().default(false),
   zakaatEligible: boolean("zakaat_eligible").notNull().default(true),
+  category: text("category").notNull().default("other"), // One of CASE_CATEGORIES
+  location: text("location"), // Where the patient is, e.g. 'Karachi, Pakistan'
+  urgency: text("urgency").notNull().default("medium"), // 'low', 'medium', 'high', 'critical'
+  deadline: timestamp("deadline"), // The case closes to donations after this
+  overfundingPolicy: text("overfunding_policy").notNull().default("allow_surplus"), // What happens to money past the goal
+  completedAt: timestamp("completed_at"), // When everything collected had been paid out and the case was closed
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// 'funded' is set automatically when a case reaches its goal and 'completed' once it has paid everything out
+export const CASE_STATUSES = ["draft", "open", "funded", "closed", "completed"] as const;
+export type CaseStatus = typeof CASE_STATUSES[number];
+// Drafts are only for admins, so the public can only list cases in these statuses
+export const PUBLIC_CASE_STATUSES = ["open", "funded", "closed", "completed"] as const;
+
+// What happens to the part of a donation that takes a case past its goal:
+// refuse donations larger than what is left, keep it on the case, move it to the most deserving
+// zakat-eligible case, or leave it unrestricted in the general fund
+export const OVERFUNDING_POLICIES = ["cap", "allow_surplus", "redirect_to_case", "redirect_to_general_fund"] as const;
+export type OverfundingPolicy = typeof OVERFUNDING_POLICIES[number];
+
+export const CASE_CATEGORIES = [
+  "surgery",
+  "medication",
+  "maternity",
+  "cancer_care",
+  "dialysis",
+  "emergency",
+  "rehabilitation",
+  "other",
+] as const;
+export type CaseCategory = typeof CASE_CATEGORIES[number];
+
+export const CASE_URGENCIES = ["low", "medium", "high", "critical"] as const;
+export type CaseUrgency = typeof CASE_URGENCIES[number];
+
 export const insertCaseSchema = createInsertSchema(cases).omit({
   id: true,
   amountCollected: true,
+  amountDisbursed: true,
+  completedAt: true,
   createdAt: true,
 }).extend({
   title: z.string().min(1, "Title is required"),
   description: z.string().min(10, "Description must be at least 10 characters"),
-  imageUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  // An external URL, or a path on this site such as an uploaded case image
+  imageUrl: z.string().url("Must be a valid URL").or(z.string().regex(/^\/[^/]/, "Must be a valid URL")).optional().or(z.literal("")),
   amountRequired: z.number().min(1, "Amount must be at least 1"),
+  currency: z.string().length(3, "Currency must be a valid 3-letter code").toUpperCase().optional(),
+  // Admins open, close or draft a case; 'funded' and 'completed' are only reached through the lifecycle
+  status: z.enum(["draft", "open", "closed"]).optional(),
+  deadline: z.coerce.date().nullable().optional(),
+  overfundingPolicy: z.enum(OVERFUNDING_POLICIES).optional(),
+  category: z.enum(CASE_CATEGORIES).optional(),
+  location: z.string().trim().max(120).nullable().optional(),
+  urgency: z.enum(CASE_URGENCIES).optional(),
 });
 
+// How case listings can be ordered: most urgent first, closest to their goal first, or newest first
+export const CASE_SORTS = ["urgent", "closest_to_goal", "newest"] as const;
+export type CaseSort = typeof CASE_SORTS[number];
+
+// Query string for searching cases; an empty filter matches everything
+export const caseSearchQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  category: z.enum(CASE_CATEGORIES).optional(),
+  urgency: z.enum(CASE_URGENCIES).optional(),
+  location: z.string().trim().max(120).optional(),
+  status: z.enum(PUBLIC_CASE_STATUSES).default("open"),
+  zakaatEligible: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: z.enum(CASE_SORTS).default("urgent"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+});
+
+export type CaseSearchQuery = z.infer<typeof caseSearchQuerySchema>;
+
 export const donations = pgTable("donations", {
   id: serial("id").primaryKey(),
   type: text("type").notNull(), // 'zakaat', 'sadqah', 'interest'
@@ -52,7 +119,7 @@ export const donations = pgTable("donations", {
   stripePaymentId: text("stripe_payment_id"),
   stripeSubscriptionId: text("stripe_subscription_id"), // For recurring payments
   paypalSubscriptionId: text("paypal_subscription_id"), // For PayPal recurring payments
-  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed', 'active-subscription', 'subscription-cancelled'
+  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed', 'active-subscription', 'subscription-cancelled', 'partially-refunded', 'refunded'
   subscriptionStatus: text("subscription_status"), // 'active', 'past_due', 'cancelled', 'incomplete', etc.
   nextPaymentDate: timestamp("next_payment_date"), // Next scheduled payment date for subscriptions
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -64,11 +131,25 @@ export const donations = pgTable("donations", {
   paymentMethod: text("payment_method"), // 'stripe', 'apple_pay', 'paypal'
   caseId: integer("case_id"), // For case-specific donations
   destinationProject: text("destination_project"), // For non-case specific donations
+  parentDonationId: integer("parent_donation_id"), // Subscription donation this installment belongs to
+  stripeInvoiceId: text("stripe_invoice_id").unique(), // Stripe invoice paid by this installment
+  refundedAmount: real("refunded_amount").notNull().default(0), // Total refunded so far
+  exchangeRate: real("exchange_rate"), // Base currency (AUD) per unit of `currency` when the donation was made
+  baseAmount: real("base_amount"), // `amount` in the base currency at that rate
+  caseExchangeRate: real("case_exchange_rate"), // Case currency per unit of `currency`, for donations to a case
+  feeAmount: real("fee_amount").notNull().default(0), // Processing fee the donor chose to cover, charged on top of `amount`
+  caseCreditAmount: real("case_credit_amount"), // Part of `amount` credited to the case when it went past its goal; null when all of it was
+  surplusCaseId: integer("surplus_case_id"), // Case the rest was redirected to; the general fund keeps it when null
+  fundraiserId: integer("fundraiser_id"), // Supporter fundraiser page the donation was made through
+  campaignId: integer("campaign_id"), // Campaign landing page the donation was made through
+  anonymous: boolean("anonymous").notNull().default(false), // Leave the donor's name off public supporter lists
 });
 
 export const insertDonationSchema = createInsertSchema(donations).omit({
   id: true,
   createdAt: true,
+  caseCreditAmount: true,
+  surplusCaseId: true,
 }).extend({
   type: z.enum(["zakaat", "sadqah", "interest"], {
     required_error: "Please select a donation type",
@@ -80,6 +161,25 @@ export const insertDonationSchema = createInsertSchema(donations).omit({
   }),
 });
 
+// What donors can set when they start a donation; payment state, account links, fees, refunds, installments
+// and exchange rates are only ever set by the server
+export const donationRequestSchema = insertDonationSchema.omit({
+  status: true,
+  userId: true,
+  feeAmount: true,
+  refundedAmount: true,
+  parentDonationId: true,
+  stripeInvoiceId: true,
+  stripePaymentId: true,
+  stripeSubscriptionId: true,
+  paypalSubscriptionId: true,
+  subscriptionStatus: true,
+  nextPaymentDate: true,
+  exchangeRate: true,
+  baseAmount: true,
+  caseExchangeRate: true,
+});
+
 export const endorsements = pgTable("endorsements", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -109,6 +209,7 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 export type InsertDonation = z.infer<typeof insertDonationSchema>;
+export type DonationRequest = z.infer<typeof donationRequestSchema>;
 export type Donation = typeof donations.$inferSelect;
 
 export type InsertEndorsement = z.infer<typeof insertEndorsementSchema>;
@@ -172,9 +273,10 @@ export const webhookEvents = pgTable("webhook_events", {
   subscriptionId: text("subscription_id"),
   donationId: integer("donation_id"), // Reference to donations table
   matchStrategy: text("match_strategy"), // how donation was found
-  status: text("status").notNull(), // processed, orphaned, failed
+  status: text("status").notNull(), // processed, orphaned, failed, ignored
   rawData: json("raw_data"), // Full webhook payload
   errorMessage: text("error_message"),
+  replayOfEventId: integer("replay_of_event_id"), // Set when an admin replays a stored event
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -211,6 +313,29 @@ export type WebhookEvent = typeof webhookEvents.$inferSelect;
 export type InsertOrphanedPayment = z.infer<typeof insertOrphanedPaymentSchema>;
 export type OrphanedPayment = typeof orphanedPayments.$inferSelect;
 
+// Admin actions for an orphaned payment: link it to a donation, record it as a new donation, or ignore it
+export const orphanedPaymentResolutionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("link"),
+    donationId: z.number().int().positive(),
+    notes: z.string().trim().optional(),
+  }),
+  z.object({
+    action: z.literal("create"),
+    type: z.enum(["zakaat", "sadqah", "interest"]),
+    caseId: z.number().int().positive().nullable().optional(),
+    email: z.string().trim().email().optional(),
+    name: z.string().trim().optional(),
+    notes: z.string().trim().optional(),
+  }),
+  z.object({
+    action: z.literal("ignore"),
+    notes: z.string().trim().min(1, { message: "Please add a note explaining why this payment is ignored" }),
+  }),
+]);
+
+export type OrphanedPaymentResolutionRequest = z.infer<typeof orphanedPaymentResolutionSchema>;
+
 // PDF Receipts tracking table
 export const receipts = pgTable("receipts", {
   id: serial("id").primaryKey(),
@@ -223,7 +348,7 @@ export const receipts = pgTable("receipts", {
   donationType: text("donation_type").notNull(), // zakaat, sadqah, interest
   caseId: integer("case_id"), // If donation was for specific case
   filePath: text("file_path"), // Path to generated PDF
-  status: text("status").notNull().default("pending"), // pending, generated, sent, failed
+  status: text("status").notNull().default("pending"), // pending, generated, sent, failed, amended, voided
   generatedAt: timestamp("generated_at"),
   sentAt: timestamp("sent_at"),
   errorMessage: text("error_message"), // If generation or sending failed
@@ -237,3 +362,493 @@ export const insertReceiptSchema = createInsertSchema(receipts).omit({
 
 export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
 export type Receipt = typeof receipts.$inferSelect;
+
+// Consolidated end-of-year statements, one per donor email and period
+export const donorStatements = pgTable("donor_statements", {
+  id: serial("id").primaryKey(),
+  statementNumber: text("statement_number").notNull().unique(),
+  donorEmail: text("donor_email").notNull(),
+  donorName: text("donor_name"),
+  periodType: text("period_type").notNull(), // financial-year (1 Jul - 30 Jun), calendar-year
+  periodYear: integer("period_year").notNull(), // Year the period ends in, e.g. 2025 for 1 Jul 2024 - 30 Jun 2025
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // Exclusive
+  donationCount: integer("donation_count").notNull(),
+  totals: json("totals").notNull(), // [{ type, currency, amount }]
+  filePath: text("file_path"), // Path to generated PDF
+  status: text("status").notNull().default("pending"), // pending, generated, sent, failed
+  generatedAt: timestamp("generated_at"),
+  sentAt: timestamp("sent_at"),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertDonorStatementSchema = createInsertSchema(donorStatements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertDonorStatement = z.infer<typeof insertDonorStatementSchema>;
+export type DonorStatement = typeof donorStatements.$inferSelect;
+
+export type StatementTotal = {
+  type: string;
+  currency: string;
+  amount: number;
+};
+
+// Admin request to build statements for a period, for every donor or a single donor email
+export const statementRequestSchema = z.object({
+  periodType: z.enum(["financial-year", "calendar-year"]),
+  year: z.number().int().min(2000).max(2100),
+  email: z.string().trim().toLowerCase().email().optional(),
+  send: z.boolean().default(true),
+});
+
+export type StatementRequest = z.infer<typeof statementRequestSchema>;
+
+// Refunds issued from the admin dashboard or picked up from Stripe webhooks
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  donationId: integer("donation_id").notNull(), // Reference to donations table
+  amount: real("amount").notNull(),
+  currency: text("currency").notNull(),
+  provider: text("provider").notNull(), // stripe, paypal
+  providerRefundId: text("provider_refund_id").notNull().unique(), // Stripe refund ID or PayPal refund ID
+  reason: text("reason"),
+  source: text("source").notNull(), // admin, webhook
+  refundedBy: text("refunded_by"), // Admin username for refunds issued from the dashboard
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type Refund = typeof refunds.$inferSelect;
+
+// Admin refund request; leaving out the amount refunds whatever has not been refunded yet
+export const refundRequestSchema = z.object({
+  amount: z.number().positive({ message: "Refund amount must be greater than zero" }).optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Stripe disputes (chargebacks) raised by donors' banks
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  stripeDisputeId: text("stripe_dispute_id").notNull().unique(),
+  stripeChargeId: text("stripe_charge_id"),
+  paymentIntentId: text("payment_intent_id"),
+  donationId: integer("donation_id"), // Reference to donations table, null if no donation matched
+  amount: real("amount").notNull(),
+  currency: text("currency").notNull(),
+  reason: text("reason"), // fraudulent, duplicate, product_not_received, etc.
+  status: text("status").notNull(), // Stripe dispute status: needs_response, under_review, won, lost, etc.
+  outcome: text("outcome"), // won, lost once the dispute is closed
+  evidenceDueBy: timestamp("evidence_due_by"),
+  amountReversedAt: timestamp("amount_reversed_at"), // When a lost dispute was taken off the case total
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertDisputeSchema = createInsertSchema(disputes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertDispute = z.infer<typeof insertDisputeSchema>;
+export type Dispute = typeof disputes.$inferSelect;
+
+// Latest known exchange rates against the base currency, kept so checkout works when the provider is down
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  currency: text("currency").notNull().unique(),
+  rate: real("rate"), // Units of `currency` per unit of the base currency, from the provider
+  source: text("source"), // Provider the rate came from
+  fetchedAt: timestamp("fetched_at"), // When the provider rate was last refreshed
+  overrideRate: real("override_rate"), // Manual rate set by an admin, used instead of the provider rate
+  overrideSetBy: text("override_set_by"),
+  overrideSetAt: timestamp("override_set_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const exchangeRateOverrideSchema = z.object({
+  rate: z.number().positive("Rate must be greater than 0"),
+});
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+// Processing fees charged by each payment provider, quoted to donors who choose to cover them
+export const feeSchedules = pgTable("fee_schedules", {
+  id: serial("id").primaryKey(),
+  paymentMethod: text("payment_method").notNull(), // 'stripe' (cards and wallets), 'paypal'
+  currency: text("currency").notNull(),
+  percentage: real("percentage").notNull(), // Percent of the gift, e.g. 3.5
+  fixedFee: real("fixed_fee").notNull().default(0), // Flat fee per payment, in `currency`
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.paymentMethod, table.currency),
+]);
+
+export const insertFeeScheduleSchema = createInsertSchema(feeSchedules).omit({
+  id: true,
+  updatedBy: true,
+  updatedAt: true,
+}).extend({
+  paymentMethod: z.enum(["stripe", "paypal"], {
+    required_error: "Please select a payment method",
+  }),
+  currency: z.string().length(3, "Currency must be a valid 3-letter code").toUpperCase(),
+  percentage: z.number().min(0, "Percentage cannot be negative").max(100, "Percentage cannot be more than 100"),
+  fixedFee: z.number().min(0, "Fixed fee cannot be negative"),
+});
+
+export const feeQuoteRequestSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be greater than 0"),
+  currency: z.string().length(3, "Currency must be a valid 3-letter code").toUpperCase(),
+  paymentMethod: z.enum(["stripe", "paypal", "apple_pay", "google_pay"]).default("stripe"),
+});
+
+export type InsertFeeSchedule = z.infer<typeof insertFeeScheduleSchema>;
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+
+// Gold and silver prices set by admins, used to work out the zakat nisab
+export const metalPrices = pgTable("metal_prices", {
+  id: serial("id").primaryKey(),
+  metal: text("metal").notNull().unique(), // 'gold', 'silver'
+  pricePerGram: real("price_per_gram").notNull(), // In the base currency
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const metalPriceSchema = z.object({
+  pricePerGram: z.number().positive("Price must be greater than 0"),
+});
+
+export type MetalPrice = typeof metalPrices.$inferSelect;
+
+// Zakat, sadqah and interest money is kept in separate funds, named after the donation type
+export const FUNDS = ["zakaat", "sadqah", "interest"] as const;
+export type Fund = typeof FUNDS[number];
+
+// Money in and out of each fund: completed donations are credits, refunds and disbursements are debits
+export const fundLedgerEntries = pgTable("fund_ledger_entries", {
+  id: serial("id").primaryKey(),
+  fund: text("fund").notNull(), // 'zakaat', 'sadqah', 'interest'
+  entryType: text("entry_type").notNull(), // 'donation', 'reversal' (refund or lost dispute), 'disbursement'
+  amount: real("amount").notNull(), // In the base currency; credits are positive and debits negative
+  donationId: integer("donation_id"), // Donation credited or reversed
+  recipientType: text("recipient_type"), // For disbursements: 'case', 'clinic_operations', 'beneficiary'
+  caseId: integer("case_id"), // Case a disbursement was paid to
+  recipient: text("recipient"), // Beneficiary a disbursement was paid to
+  description: text("description").notNull(),
+  reference: text("reference"), // Bank transfer or cheque reference for a disbursement
+  createdBy: text("created_by"), // Admin who recorded a disbursement
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  // A donation is only credited to its fund once
+  uniqueIndex("fund_ledger_entries_donation_credit_idx").on(table.donationId).where(sql`${table.entryType} = 'donation'`),
+]);
+
+export const insertFundLedgerEntrySchema = createInsertSchema(fundLedgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const fundDisbursementSchema = z.object({
+  fund: z.enum(FUNDS),
+  amount: z.number().positive("Amount must be greater than 0"),
+  recipientType: z.enum(["case", "clinic_operations", "beneficiary"]),
+  caseId: z.number().int().positive().optional(),
+  recipient: z.string().trim().max(200).optional(),
+  description: z.string().trim().min(1, "Description is required").max(500),
+  reference: z.string().trim().max(100).optional(),
+}).refine(data => data.recipientType !== "case" || data.caseId, {
+  message: "Choose the case being paid",
+  path: ["caseId"],
+}).refine(data => data.recipientType !== "beneficiary" || data.recipient, {
+  message: "Enter the beneficiary being paid",
+  path: ["recipient"],
+});
+
+export type InsertFundLedgerEntry = z.infer<typeof insertFundLedgerEntrySchema>;
+export type FundLedgerEntry = typeof fundLedgerEntries.$inferSelect;
+export type FundDisbursement = z.infer<typeof fundDisbursementSchema>;
+
+// Money paid out of a case to the patient, hospital or supplier
+export const caseDisbursements = pgTable("case_disbursements", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(), // Reference to cases table
+  amount: real("amount").notNull(), // In the case currency
+  currency: text("currency").notNull(),
+  paidAt: timestamp("paid_at").notNull(), // When the payment was made, which may be before it was recorded
+  payee: text("payee").notNull(),
+  method: text("method").notNull(), // 'bank_transfer', 'cheque', 'cash', 'card', 'other'
+  documentReference: text("document_reference"), // Invoice, receipt or transfer reference backing the payment
+  notes: text("notes"),
+  recordedBy: text("recorded_by"), // Admin who recorded the payment
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const CASE_DISBURSEMENT_METHODS = ["bank_transfer", "cheque", "cash", "card", "other"] as const;
+
+export const caseDisbursementRequestSchema = z.object({
+  amount: z.number().positive("Amount must be greater than 0"),
+  // A date picked in a time zone ahead of UTC can be up to a day past the server's clock
+  paidAt: z.coerce.date().refine(date => date.getTime() <= Date.now() + 24 * 60 * 60 * 1000, "Payment date cannot be in the future"),
+  payee: z.string().trim().min(1, "Payee is required").max(200),
+  method: z.enum(CASE_DISBURSEMENT_METHODS),
+  documentReference: z.string().trim().max(200).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const insertCaseDisbursementSchema = createInsertSchema(caseDisbursements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCaseDisbursement = z.infer<typeof insertCaseDisbursementSchema>;
+export type CaseDisbursement = typeof caseDisbursements.$inferSelect;
+export type CaseDisbursementRequest = z.infer<typeof caseDisbursementRequestSchema>;
+
+// Progress updates admins post to a case, shown as a timeline on the public case page
+export const caseUpdates = pgTable("case_updates", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(), // Reference to cases table
+  body: text("body").notNull(),
+  imageUrl: text("image_url"),
+  postedBy: text("posted_by"), // Admin who posted the update
+  notifiedDonors: integer("notified_donors").notNull().default(0), // Donors emailed about the update
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const caseUpdateRequestSchema = z.object({
+  body: z.string().trim().min(1, "Update text is required").max(5000),
+  imageUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  notifyDonors: z.boolean().default(false),
+});
+
+export const insertCaseUpdateSchema = createInsertSchema(caseUpdates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCaseUpdate = z.infer<typeof insertCaseUpdateSchema>;
+export type CaseUpdate = typeof caseUpdates.$inferSelect;
+export type CaseUpdateRequest = z.infer<typeof caseUpdateRequestSchema>;
+
+// Donors who no longer want emails about updates to a case
+export const caseUpdateUnsubscribes = pgTable("case_update_unsubscribes", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(), // Reference to cases table
+  email: text("email").notNull(), // Lowercased donor email
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.caseId, table.email),
+]);
+
+export type CaseUpdateUnsubscribe = typeof caseUpdateUnsubscribes.$inferSelect;
+
+// Photos uploaded to a case. Each is stored only as resized, metadata-free variants;
+// the original upload, with any EXIF location in it, is never kept.
+export const caseImages = pgTable("case_images", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull(), // Reference to cases table
+  storageKey: text("storage_key").notNull().unique(), // Prefix of the variant files in file storage
+  width: integer("width").notNull(), // Of the largest variant
+  height: integer("height").notNull(),
+  position: integer("position").notNull().default(0), // Order in the case gallery
+  uploadedBy: text("uploaded_by"), // Admin who uploaded the image
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Sizes each case image is stored in: a gallery thumbnail, one for case cards and pages, and a large one
+export const CASE_IMAGE_VARIANTS = ["thumbnail", "web", "large"] as const;
+export type CaseImageVariant = typeof CASE_IMAGE_VARIANTS[number];
+
+// A case gallery holds at most this many images
+export const MAX_CASE_IMAGES = 8;
+
+export const insertCaseImageSchema = createInsertSchema(caseImages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCaseImage = z.infer<typeof insertCaseImageSchema>;
+export type CaseImage = typeof caseImages.$inferSelect;
+
+// Sponsors who match donors' gifts for a while, such as during a Ramadan appeal
+export const matchPledges = pgTable("match_pledges", {
+  id: serial("id").primaryKey(),
+  sponsorName: text("sponsor_name").notNull(),
+  ratio: real("ratio").notNull(), // Given by the sponsor for each dollar donated; 1 doubles a gift
+  capAmount: real("cap_amount").notNull(), // The most the sponsor will give, in the base currency
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  caseId: integer("case_id"), // Only gifts to this case are matched
+  donationType: text("donation_type"), // Only gifts of this type are matched: 'zakaat', 'sadqah', 'interest'
+  createdBy: text("created_by"), // Admin who recorded the pledge
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// What each pledge has given towards each donation. Refunds take back the same share of the match as a reversal.
+export const matchContributions = pgTable("match_contributions", {
+  id: serial("id").primaryKey(),
+  pledgeId: integer("pledge_id").notNull(), // Reference to match_pledges table
+  donationId: integer("donation_id").notNull(), // Reference to donations table
+  entryType: text("entry_type").notNull(), // 'match', 'reversal'
+  amount: real("amount").notNull(), // In the base currency; matches are positive and reversals negative
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  // A pledge only matches a donation once
+  uniqueIndex("match_contributions_donation_match_idx").on(table.pledgeId, table.donationId).where(sql`${table.entryType} = 'match'`),
+]);
+
+export const matchPledgeRequestSchema = z.object({
+  sponsorName: z.string().trim().min(1, "Sponsor name is required").max(200),
+  ratio: z.number().positive("Ratio must be greater than 0").max(10, "Ratio can be at most 10"),
+  capAmount: z.number().positive("Cap must be greater than 0"),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  caseId: z.number().int().positive().nullable().optional(),
+  donationType: z.enum(FUNDS).nullable().optional(),
+}).refine(data => data.endsAt.getTime() > data.startsAt.getTime(), {
+  message: "The match must end after it starts",
+  path: ["endsAt"],
+});
+
+export const insertMatchPledgeSchema = createInsertSchema(matchPledges).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMatchContributionSchema = createInsertSchema(matchContributions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertMatchPledge = z.infer<typeof insertMatchPledgeSchema>;
+export type MatchPledge = typeof matchPledges.$inferSelect;
+export type MatchPledgeRequest = z.infer<typeof matchPledgeRequestSchema>;
+export type InsertMatchContribution = z.infer<typeof insertMatchContributionSchema>;
+export type MatchContribution = typeof matchContributions.$inferSelect;
+
+// Supporters' own fundraising pages, e.g. for a birthday or a sponsored walk, for a case or the clinic.
+// They are only shown publicly once an admin has approved them.
+export const fundraisers = pgTable("fundraisers", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(), // Public page is /fundraise/:slug
+  ownerUserId: integer("owner_user_id").notNull(), // Donor account that runs the fundraiser
+  ownerName: text("owner_name").notNull(), // Shown on the page
+  title: text("title").notNull(),
+  story: text("story").notNull(),
+  goalAmount: real("goal_amount").notNull(), // In the base currency
+  caseId: integer("case_id"), // Case donations go to; the clinic's general funds when null
+  status: text("status").notNull().default("pending_review"), // 'pending_review', 'approved', 'rejected'
+  moderatedBy: text("moderated_by"), // Admin who approved or rejected the fundraiser
+  moderatedAt: timestamp("moderated_at"),
+  moderationNote: text("moderation_note"), // Reason given to the owner when it was rejected
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const FUNDRAISER_STATUSES = ["pending_review", "approved", "rejected"] as const;
+export type FundraiserStatus = typeof FUNDRAISER_STATUSES[number];
+
+export const fundraiserRequestSchema = z.object({
+  ownerName: z.string().trim().min(1, "Your name is required").max(100),
+  title: z.string().trim().min(3, "Title must be at least 3 characters").max(150),
+  story: z.string().trim().min(20, "Tell supporters a little more about why you're fundraising").max(5000),
+  goalAmount: z.number().positive("Goal must be greater than 0").max(1000000),
+  caseId: z.number().int().positive().nullable().optional(),
+});
+
+export const fundraiserModerationSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  note: z.string().trim().max(500).optional(),
+}).refine(data => data.action !== "reject" || data.note, {
+  message: "Give the owner a reason for rejecting the fundraiser",
+  path: ["note"],
+});
+
+export const insertFundraiserSchema = createInsertSchema(fundraisers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertFundraiser = z.infer<typeof insertFundraiserSchema>;
+export type Fundraiser = typeof fundraisers.$inferSelect;
+export type FundraiserRequest = z.infer<typeof fundraiserRequestSchema>;
+export type FundraiserModeration = z.infer<typeof fundraiserModerationSchema>;
+
+// Time-boxed appeals such as a Ramadan eye camp, each with a shareable landing page at /campaigns/:slug
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  title: text("title").notNull(),
+  summary: text("summary").notNull(), // One or two lines under the title
+  heroImageUrl: text("hero_image_url"),
+  heroContent: text("hero_content").notNull(), // The appeal itself, shown on the landing page
+  goalAmount: real("goal_amount").notNull(), // In the base currency
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  donationTypes: json("donation_types").$type<Fund[]>().notNull(), // Offered on the landing page, the first one selected
+  caseIds: json("case_ids").$type<number[]>().notNull(), // Cases donors can choose between on the landing page
+  createdBy: text("created_by"), // Admin who set up the campaign
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const campaignRequestSchema = z.object({
+  slug: z.string().trim().toLowerCase().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes for the link").max(80),
+  title: z.string().trim().min(3, "Title must be at least 3 characters").max(150),
+  summary: z.string().trim().min(1, "Summary is required").max(300),
+  heroImageUrl: z.string().url("Must be a valid URL").or(z.string().regex(/^\/[^/]/, "Must be a valid URL")).nullable().optional(),
+  heroContent: z.string().trim().min(20, "Tell donors a little more about the campaign").max(10000),
+  goalAmount: z.number().positive("Goal must be greater than 0"),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  donationTypes: z.array(z.enum(FUNDS)).min(1, "Choose at least one donation type").default(["sadqah"]),
+  caseIds: z.array(z.number().int().positive()).max(20).default([]),
+}).refine(data => data.endsAt.getTime() > data.startsAt.getTime(), {
+  message: "The campaign must end after it starts",
+  path: ["endsAt"],
+});
+
+export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  donationTypes: z.array(z.enum(FUNDS)),
+  caseIds: z.array(z.number().int()),
+});
+
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type Campaign = typeof campaigns.$inferSelect;
+export type CampaignRequest = z.infer<typeof campaignRequestSchema>;
+
+// One-time sign-in links for donor accounts (only the SHA-256 hash of the token is stored)
+export const donorLoginTokens = pgTable("donor_login_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // Reference to users table
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertDonorLoginTokenSchema = createInsertSchema(donorLoginTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type InsertDonorLoginToken = z.infer<typeof insertDonorLoginTokenSchema>;
+export type DonorLoginToken = typeof donorLoginTokens.$inferSelect;
+
+// Donor sign-in request schema with validation
+export const donorLoginRequestSchema = z.object({
+  email: z.string().email({ message: 'Please enter a valid email address.' }).trim().toLowerCase(),
+});
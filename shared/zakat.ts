@@ -0,0 +1,72 @@
+import { roundToMinorUnit } from './money';
+
+// Zakat is due at 2.5% on zakatable wealth held above the nisab
+export const ZAKAT_RATE = 0.025;
+
+// Nisab by weight: 20 mithqal of gold or 200 dirhams of silver
+export const NISAB_GRAMS = {
+  gold: 87.48,
+  silver: 612.36
+} as const;
+
+export type NisabStandard = keyof typeof NISAB_GRAMS;
+
+export interface ZakatAssets {
+  cash: number; // Cash in hand and in bank accounts
+  goldGrams: number;
+  silverGrams: number;
+  investments: number; // Shares, funds and business stock
+  receivables: number; // Money owed to the donor that they expect to be repaid
+  liabilities: number; // Debts due now, deducted from wealth
+}
+
+// Metal prices and nisab in the donor's currency; null when no price has been set
+export interface ZakatPrices {
+  currency: string;
+  goldPricePerGram: number | null;
+  silverPricePerGram: number | null;
+  nisab: number | null;
+}
+
+export interface ZakatCalculation {
+  goldValue: number;
+  silverValue: number;
+  totalAssets: number;
+  netWealth: number;
+  nisab: number | null;
+  // False when there is no nisab, or no price for gold or silver the donor holds, so the threshold can't be checked
+  nisabAvailable: boolean;
+  aboveNisab: boolean;
+  zakatDue: number;
+}
+
+/**
+ * Work out the zakat due on a donor's assets. Without a nisab, or a price for metal they hold, their
+ * wealth can't be checked against the threshold, so no zakat is worked out.
+ */
+export function calculateZakat(assets: ZakatAssets, prices: ZakatPrices): ZakatCalculation {
+  const round = (amount: number) => roundToMinorUnit(amount, prices.currency);
+  const positive = (amount: number) => (Number.isFinite(amount) && amount > 0 ? amount : 0);
+
+  const goldValue = round(positive(assets.goldGrams) * (prices.goldPricePerGram ?? 0));
+  const silverValue = round(positive(assets.silverGrams) * (prices.silverPricePerGram ?? 0));
+  const totalAssets = round(
+    positive(assets.cash) + goldValue + silverValue + positive(assets.investments) + positive(assets.receivables)
+  );
+  const netWealth = round(totalAssets - positive(assets.liabilities));
+  const nisabAvailable = prices.nisab !== null
+    && (positive(assets.goldGrams) === 0 || prices.goldPricePerGram !== null)
+    && (positive(assets.silverGrams) === 0 || prices.silverPricePerGram !== null);
+  const aboveNisab = nisabAvailable && netWealth > 0 && netWealth >= prices.nisab!;
+
+  return {
+    goldValue,
+    silverValue,
+    totalAssets,
+    netWealth,
+    nisab: prices.nisab,
+    nisabAvailable,
+    aboveNisab,
+    zakatDue: aboveNisab ? round(netWealth * ZAKAT_RATE) : 0
+  };
+}
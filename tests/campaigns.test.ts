@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { reverseDonationAmount } from "../server/refunds";
+import { createTestApp, signInAsAdmin, createTestCase } from "./helpers";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Campaigns", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const campaignRequest = (overrides: Record<string, unknown> = {}) => ({
+    slug: `eye-camp-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+    title: "Ramadan 2027 Eye Camp",
+    summary: "Free cataract surgery for 200 patients",
+    heroContent: "Every gift this Ramadan pays for cataract surgery at our eye camp.",
+    goalAmount: 1000,
+    startsAt: new Date(Date.now() - DAY).toISOString(),
+    endsAt: new Date(Date.now() + 30 * DAY).toISOString(),
+    donationTypes: ["sadqah", "zakaat"],
+    ...overrides,
+  });
+
+  const donate = (campaignId: number, amount: number, extra: Record<string, unknown> = {}) =>
+    request(app)
+      .post("/api/donations")
+      .send({ type: "sadqah", amount, currency: "AUD", frequency: "one-off", status: "pending", campaignId, ...extra });
+
+  it("should only let admins create and edit campaigns", async () => {
+    await request(app).get("/api/admin/campaigns").expect(401);
+    await request(app).post("/api/admin/campaigns").send(campaignRequest()).expect(401);
+
+    const admin = await signInAsAdmin(app);
+    const ending = await admin.post("/api/admin/campaigns").send(campaignRequest({ endsAt: new Date(Date.now() - 2 * DAY).toISOString() })).expect(400);
+    expect(ending.body.message).toContain("The campaign must end after it starts");
+    await admin.post("/api/admin/campaigns").send(campaignRequest({ slug: "Not a slug!" })).expect(400);
+    const missingCase = await admin.post("/api/admin/campaigns").send(campaignRequest({ caseIds: [999999] })).expect(400);
+    expect(missingCase.body.message).toBe("Case 999999 not found");
+
+    const created = await admin.post("/api/admin/campaigns").send(campaignRequest()).expect(201);
+    expect(created.body).toMatchObject({ title: "Ramadan 2027 Eye Camp", donationTypes: ["sadqah", "zakaat"], caseIds: [], createdBy: "admin" });
+
+    // Links are unique
+    const taken = await admin.post("/api/admin/campaigns").send(campaignRequest({ slug: created.body.slug })).expect(400);
+    expect(taken.body.message).toBe("Another campaign already uses this link");
+
+    const updated = await admin
+      .put(`/api/admin/campaigns/${created.body.id}`)
+      .send(campaignRequest({ slug: created.body.slug, goalAmount: 2500 }))
+      .expect(200);
+    expect(updated.body.goalAmount).toBe(2500);
+    await admin.put("/api/admin/campaigns/999999").send(campaignRequest()).expect(404);
+
+    const list = await admin.get("/api/admin/campaigns").expect(200);
+    expect(list.body).toContainEqual(expect.objectContaining({ id: created.body.id, phase: "live", raisedAmount: 0, donationCount: 0 }));
+  });
+
+  it("should only take donations while a campaign runs, to its own cases", async () => {
+    const linkedCase = await storage.createCase({ title: "Eye Camp Patient", description: "Cataract surgery for both eyes.", amountRequired: 800 });
+    const otherCase = await storage.createCase({ title: "Unrelated Case", description: "A case outside the campaign.", amountRequired: 800 });
+    const admin = await signInAsAdmin(app);
+    const live = await admin.post("/api/admin/campaigns").send(campaignRequest({ caseIds: [linkedCase.id] })).expect(201);
+    const upcoming = await admin
+      .post("/api/admin/campaigns")
+      .send(campaignRequest({ startsAt: new Date(Date.now() + DAY).toISOString() }))
+      .expect(201);
+
+    const early = await donate(upcoming.body.id, 10).expect(400);
+    expect(early.body.message).toBe("This campaign is not taking donations");
+    await donate(999999, 10).expect(400);
+    const outside = await donate(live.body.id, 10, { caseId: otherCase.id }).expect(400);
+    expect(outside.body.message).toBe("This case is not part of the campaign");
+
+    const toCase = await donate(live.body.id, 10, { caseId: linkedCase.id }).expect(201);
+    // The campaign is recorded by its ID, not in place of where the donor chose to give
+    expect(toCase.body).toMatchObject({ campaignId: live.body.id, caseId: linkedCase.id, destinationProject: null });
+    const general = await donate(live.body.id, 10).expect(201);
+    expect(general.body).toMatchObject({ campaignId: live.body.id, caseId: null });
+
+    // Only the campaign's own cases are offered on its page
+    const page = await request(app).get(`/api/campaigns/${live.body.slug}`).expect(200);
+    expect(page.body.cases).toEqual([expect.objectContaining({ id: linkedCase.id, title: "Eye Camp Patient" })]);
+    expect(page.body.caseIds).toBeUndefined();
+    expect(page.body.createdBy).toBeUndefined();
+    await request(app).get("/api/campaigns/no-such-campaign").expect(404);
+  });
+
+  it("should send zakat given through a campaign to the most deserving of its own cases", async () => {
+    const ineligibleCase = await createTestCase({ zakaatEligible: false });
+    const eligibleCase = await createTestCase({ zakaatEligible: true });
+    await storage.setCaseAmountCollected(eligibleCase.id, 900);
+    // More deserving than the campaign's case, but outside the campaign
+    const outsideCase = await createTestCase({ zakaatEligible: true, amountRequired: 1000000 });
+    const admin = await signInAsAdmin(app);
+    const campaign = await admin
+      .post("/api/admin/campaigns")
+      .send(campaignRequest({ caseIds: [ineligibleCase.id, eligibleCase.id] }))
+      .expect(201);
+
+    const zakat = await donate(campaign.body.id, 10, { type: "zakaat" }).expect(201);
+    expect(zakat.body).toMatchObject({ campaignId: campaign.body.id, caseId: eligibleCase.id });
+    expect(zakat.body.caseId).not.toBe(outsideCase.id);
+  });
+
+  it("should show progress on the landing page and report donations by campaign", async () => {
+    const admin = await signInAsAdmin(app);
+    const created = await admin.post("/api/admin/campaigns").send(campaignRequest({ title: "Winter Clinic Appeal" })).expect(201);
+
+    const paid = [];
+    for (const amount of [100, 250]) {
+      const response = await donate(created.body.id, amount).expect(201);
+      paid.push((await storage.updateDonationStatus(response.body.id, "completed", `pi_campaign_${response.body.id}`))!);
+    }
+    // Unpaid and refunded money doesn't count towards the goal
+    await donate(created.body.id, 500).expect(201);
+    await reverseDonationAmount(paid[1], 50);
+
+    const page = await request(app).get(`/api/campaigns/${created.body.slug}`).expect(200);
+    expect(page.body).toMatchObject({ title: "Winter Clinic Appeal", phase: "live", goalAmount: 1000, raisedAmount: 300, donationCount: 2 });
+
+    const stats = await admin.get("/api/payment-statistics").expect(200);
+    expect(stats.body.byCampaign).toContainEqual({
+      campaignId: created.body.id,
+      title: "Winter Clinic Appeal",
+      goalAmount: 1000,
+      raisedAmount: 300,
+      donationCount: 2,
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Case Disbursements", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const createFundedCase = async (amountCollected: number) => {
+    const caseItem = await storage.createCase({
+      title: "Disbursement Test Case",
+      description: "A case used to check disbursement tracking.",
+      amountRequired: 1000,
+    });
+    await storage.setCaseAmountCollected(caseItem.id, amountCollected);
+    return caseItem;
+  };
+
+  const payment = (amount: number) => ({
+    amount,
+    paidAt: "2026-01-15",
+    payee: "City Hospital",
+    method: "bank_transfer",
+    documentReference: "INV-2041",
+  });
+
+  it("should require an admin session", async () => {
+    const caseItem = await createFundedCase(500);
+    await request(app).get(`/api/admin/cases/${caseItem.id}/disbursements`).expect(401);
+    await request(app).post(`/api/admin/cases/${caseItem.id}/disbursements`).send(payment(100)).expect(401);
+    await request(app).post(`/api/admin/cases/${caseItem.id}/complete`).expect(401);
+  });
+
+  it("should track collected, disbursed and remaining amounts", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createFundedCase(500);
+
+    const first = await agent.post(`/api/admin/cases/${caseItem.id}/disbursements`).send(payment(200)).expect(201);
+    expect(first.body.disbursement).toMatchObject({
+      caseId: caseItem.id,
+      amount: 200,
+      currency: "AUD",
+      payee: "City Hospital",
+      method: "bank_transfer",
+      documentReference: "INV-2041",
+      recordedBy: "admin",
+    });
+    expect(first.body.funding).toEqual({ currency: "AUD", collected: 500, disbursed: 200, remaining: 300 });
+
+    // A case can't pay out more than it has collected
+    const overpaid = await agent.post(`/api/admin/cases/${caseItem.id}/disbursements`).send(payment(300.01)).expect(400);
+    expect(overpaid.body.message).toMatch(/AUD 300.00/);
+
+    await agent
+      .post(`/api/admin/cases/${caseItem.id}/disbursements`)
+      .send({ ...payment(50), payee: "" })
+      .expect(400);
+    await agent
+      .post(`/api/admin/cases/${caseItem.id}/disbursements`)
+      .send({ ...payment(50), paidAt: "2099-01-01" })
+      .expect(400);
+    await agent.post("/api/admin/cases/999999/disbursements").send(payment(50)).expect(404);
+
+    const overview = await agent.get(`/api/admin/cases/${caseItem.id}/disbursements`).expect(200);
+    expect(overview.body.fullyDisbursed).toBe(false);
+    expect(overview.body.disbursements).toHaveLength(1);
+    expect((await storage.getCase(caseItem.id))?.amountDisbursed).toBe(200);
+  });
+
+  it("should only complete fully disbursed cases and show them as completed", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createFundedCase(400);
+
+    await agent.post(`/api/admin/cases/${caseItem.id}/complete`).expect(409);
+
+    await agent.post(`/api/admin/cases/${caseItem.id}/disbursements`).send(payment(400)).expect(201);
+    const completed = await agent.post(`/api/admin/cases/${caseItem.id}/complete`).expect(200);
+    expect(completed.body).toMatchObject({ id: caseItem.id, active: false });
+    expect(completed.body.completedAt).toBeTruthy();
+
+    await agent.post(`/api/admin/cases/${caseItem.id}/complete`).expect(409);
+    await agent.post(`/api/admin/cases/${caseItem.id}/disbursements`).send(payment(1)).expect(409);
+
+    const publicList = await request(app).get("/api/completed-cases").expect(200);
+    const listed = publicList.body.find((c: any) => c.id === caseItem.id);
+    expect(listed.funding).toEqual({ currency: "AUD", collected: 400, disbursed: 400, remaining: 0 });
+
+    const active = await request(app).get("/api/active-zakaat-cases").expect(200);
+    expect(active.body.some((c: any) => c.id === caseItem.id)).toBe(false);
+
+    // Reopening the case takes it off the completed list
+    await storage.toggleCaseStatus(caseItem.id);
+    const afterReopen = await request(app).get("/api/completed-cases").expect(200);
+    expect(afterReopen.body.some((c: any) => c.id === caseItem.id)).toBe(false);
+  });
+});
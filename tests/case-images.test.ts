@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { storage } from "../server/storage";
+import { deleteCaseImages } from "../server/case-images";
+import { LocalFileStorage } from "../server/file-storage";
+import { createTestApp, signInAsAdmin, createTestCase } from "./helpers";
+
+describe("Case Images", () => {
+  let app: Express;
+  const caseIds: number[] = [];
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "case-images-"));
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  afterAll(async () => {
+    for (const caseId of caseIds) {
+      await deleteCaseImages(caseId);
+    }
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const createCase = async () => {
+    const caseItem = await createTestCase();
+    caseIds.push(caseItem.id);
+    return caseItem;
+  };
+
+  // A phone photo, with the camera and where it was taken in its EXIF data
+  const photo = (background = "#336699") =>
+    sharp({ create: { width: 2400, height: 1600, channels: 3, background } })
+      .jpeg()
+      .withExif({ IFD0: { Make: "TestCam" }, IFD3: { GPSLatitudeRef: "N", GPSLatitude: "24/1 51/1 0/1" } })
+      .toBuffer();
+
+  const getImage = (url: string) =>
+    request(app)
+      .get(url)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+
+  it("should only let admins upload images", async () => {
+    const caseItem = await createCase();
+    const image = await photo();
+    await request(app).post(`/api/admin/cases/${caseItem.id}/images`).set("Content-Type", "image/jpeg").send(image).expect(401);
+
+    const agent = await signInAsAdmin(app);
+    await agent.post("/api/admin/cases/999999/images").set("Content-Type", "image/jpeg").send(image).expect(404);
+    const notAnImage = await agent
+      .post(`/api/admin/cases/${caseItem.id}/images`)
+      .set("Content-Type", "image/jpeg")
+      .send(Buffer.from("definitely not a jpeg"))
+      .expect(400);
+    expect(notAnImage.body.message).toMatch(/could not be read/);
+  });
+
+  it("should store resized variants without EXIF data and serve them with cache headers", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const original = await photo();
+    expect((await sharp(original).metadata()).exif).toBeDefined();
+
+    const upload = await agent
+      .post(`/api/admin/cases/${caseItem.id}/images`)
+      .set("Content-Type", "image/jpeg")
+      .send(original)
+      .expect(201);
+    expect(upload.body).toMatchObject({ caseId: caseItem.id, width: 1920, height: 1280, uploadedBy: "admin" });
+    expect(upload.body.storageKey).toBeUndefined();
+
+    const thumbnail = await getImage(upload.body.urls.thumbnail).expect(200);
+    expect(thumbnail.headers["content-type"]).toBe("image/webp");
+    expect(thumbnail.headers["cache-control"]).toBe("public, max-age=31536000, immutable");
+    const metadata = await sharp(thumbnail.body).metadata();
+    expect(metadata).toMatchObject({ format: "webp", width: 320, height: 240 });
+    expect(metadata.exif).toBeUndefined();
+
+    const large = await getImage(upload.body.urls.large).expect(200);
+    expect((await sharp(large.body).metadata()).exif).toBeUndefined();
+    expect(large.body.toString("latin1")).not.toContain("TestCam");
+
+    // The first photo becomes the cover
+    expect((await storage.getCase(caseItem.id))!.imageUrl).toBe(upload.body.urls.web);
+    await request(app).get(`/api/case-images/${upload.body.id}/original`).expect(404);
+  });
+
+  it("should keep a gallery with a cover that moves on when it is deleted", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const upload = (background: string) =>
+      photo(background).then(image =>
+        agent.post(`/api/admin/cases/${caseItem.id}/images`).set("Content-Type", "image/jpeg").send(image).expect(201)
+      );
+
+    const first = await upload("#336699");
+    const second = await upload("#996633");
+    const third = await upload("#669933");
+
+    await agent.post(`/api/admin/cases/${caseItem.id}/images/${third.body.id}/cover`).expect(200);
+    const gallery = await request(app).get(`/api/cases/${caseItem.id}/images`).expect(200);
+    expect(gallery.body.map((image: any) => [image.id, image.isCover])).toEqual([
+      [third.body.id, true],
+      [first.body.id, false],
+      [second.body.id, false],
+    ]);
+
+    await agent.delete(`/api/admin/cases/${caseItem.id}/images/${third.body.id}`).expect(200);
+    await getImage(third.body.urls.web).expect(404);
+    expect((await storage.getCase(caseItem.id))!.imageUrl).toBe(first.body.urls.web);
+
+    // An image can only be changed through its own case
+    const otherCase = await createCase();
+    await agent.delete(`/api/admin/cases/${otherCase.id}/images/${first.body.id}`).expect(404);
+  });
+
+  it("should refuse file keys outside the storage directory", async () => {
+    const fileStorage = new LocalFileStorage(tmpDir);
+    await fileStorage.save("case-images/1/photo-web.webp", Buffer.from("image"));
+    expect((await fileStorage.read("case-images/1/photo-web.webp"))?.toString()).toBe("image");
+    expect(await fileStorage.read("case-images/1/missing-web.webp")).toBeNull();
+
+    await expect(fileStorage.save("../outside.webp", Buffer.from("image"))).rejects.toThrow(/Invalid file key/);
+    await expect(fileStorage.read("case-images/../../etc/passwd")).rejects.toThrow(/Invalid file key/);
+  });
+});
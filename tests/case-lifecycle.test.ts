@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { closeExpiredCases } from "../server/case-lifecycle";
+import { recalculateCaseTotals } from "../server/case-totals";
+import { reverseDonationAmount } from "../server/refunds";
+import type { InsertCase } from "../shared/schema";
+import { createTestApp, signInAsAdmin, createTestCase } from "./helpers";
+
+describe("Case Lifecycle", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const createCase = (overrides: Partial<InsertCase> = {}) =>
+    createTestCase({ amountRequired: 100, ...overrides });
+
+  const donate = async (caseId: number, amount: number) => {
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+      email: "donor@example.com",
+      caseId,
+    });
+    return (await storage.updateDonationStatus(donation.id, "completed", `pi_lifecycle_${donation.id}`))!;
+  };
+
+  const donationRequest = (caseId: number, amount: number) => ({
+    type: "sadqah",
+    amount,
+    currency: "AUD",
+    frequency: "one-off",
+    status: "pending",
+    email: "donor@example.com",
+    caseId,
+  });
+
+  it("should start cases created inactive as drafts and refuse donations to them", async () => {
+    const draft = await createCase({ active: false });
+    expect(draft.status).toBe("draft");
+
+    const response = await request(app).post("/api/donations").send(donationRequest(draft.id, 10)).expect(400);
+    expect(response.body.message).toMatch(/not open/);
+
+    const opened = await storage.updateCase(draft.id, { status: "open" });
+    expect(opened).toMatchObject({ status: "open", active: true });
+    await request(app).post("/api/donations").send(donationRequest(draft.id, 10)).expect(201);
+  });
+
+  it("should hide draft cases from everyone but admins", async () => {
+    const draft = await createCase({ active: false });
+
+    await request(app).get(`/api/cases/${draft.id}`).expect(404);
+    await request(app).get(`/api/cases/${draft.id}/updates`).expect(404);
+    await request(app).get(`/api/cases/${draft.id}/images`).expect(404);
+
+    const admin = await signInAsAdmin(app);
+    await admin.get(`/api/cases/${draft.id}`).expect(200);
+    await admin.get(`/api/cases/${draft.id}/updates`).expect(200);
+    await admin.get(`/api/cases/${draft.id}/images`).expect(200);
+  });
+
+  it("should mark a case funded once it reaches its goal and reopen it after a refund", async () => {
+    const caseItem = await createCase();
+    const donation = await donate(caseItem.id, 100);
+
+    expect(await storage.getCase(caseItem.id)).toMatchObject({ status: "funded", active: false, amountCollected: 100 });
+    const refused = await request(app).post("/api/donations").send(donationRequest(caseItem.id, 10)).expect(400);
+    expect(refused.body.message).toMatch(/reached its goal/);
+
+    await reverseDonationAmount(donation, 20);
+    expect(await storage.getCase(caseItem.id)).toMatchObject({ status: "open", active: true, amountCollected: 80 });
+  });
+
+  it("should refuse donations larger than what a capped case still needs", async () => {
+    const caseItem = await createCase({ overfundingPolicy: "cap" });
+    await donate(caseItem.id, 70);
+
+    const refused = await request(app).post("/api/donations").send(donationRequest(caseItem.id, 50)).expect(400);
+    expect(refused.body.message).toContain("30.00");
+    await request(app).post("/api/donations").send(donationRequest(caseItem.id, 30)).expect(201);
+  });
+
+  it("should keep the surplus in the general fund and follow the split on refunds and recalculation", async () => {
+    const caseItem = await createCase({ overfundingPolicy: "redirect_to_general_fund" });
+    await donate(caseItem.id, 60);
+    const donation = await donate(caseItem.id, 100);
+
+    expect(donation).toMatchObject({ caseCreditAmount: 40, surplusCaseId: null });
+    expect((await storage.getCase(caseItem.id))!.amountCollected).toBe(100);
+
+    // Half the donation comes back, so the case gives back half of what it kept
+    await reverseDonationAmount(donation, 50);
+    expect(await storage.getCase(caseItem.id)).toMatchObject({ status: "open", amountCollected: 80 });
+
+    await recalculateCaseTotals();
+    expect((await storage.getCase(caseItem.id))!.amountCollected).toBe(80);
+  });
+
+  it("should redirect the surplus to the most deserving zakat-eligible case", async () => {
+    const caseItem = await createCase({ overfundingPolicy: "redirect_to_case" });
+    const totalsBefore = new Map((await storage.getCases()).map(c => [c.id, c.amountCollected]));
+    const donation = await donate(caseItem.id, 150);
+
+    expect(donation.caseCreditAmount).toBe(100);
+    expect(donation.surplusCaseId).toEqual(expect.any(Number));
+    expect(donation.surplusCaseId).not.toBe(caseItem.id);
+
+    const surplusCase = (await storage.getCase(donation.surplusCaseId!))!;
+    expect(surplusCase.zakaatEligible).toBe(true);
+    expect(surplusCase.amountCollected).toBe(totalsBefore.get(surplusCase.id)! + 50);
+    expect(await storage.getCase(caseItem.id)).toMatchObject({ status: "funded", amountCollected: 100 });
+  });
+
+  it("should close open cases once their deadline passes", async () => {
+    const caseItem = await createCase({ deadline: new Date("2026-01-31T23:59:59Z") });
+    const later = await createCase({ deadline: new Date("2026-03-31T23:59:59Z") });
+
+    const closed = await closeExpiredCases(new Date("2026-02-01T00:00:00Z"));
+    expect(closed.map(c => c.id)).toContain(caseItem.id);
+    expect(closed.map(c => c.id)).not.toContain(later.id);
+    expect(await storage.getCase(caseItem.id)).toMatchObject({ status: "closed", active: false });
+    expect((await storage.getCase(later.id))!.status).toBe("open");
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import type { Case, InsertCase } from "../shared/schema";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Case Search", () => {
+  let app: Express;
+  const created: Record<string, Case> = {};
+
+  beforeAll(async () => {
+    // Every test case mentions "Kestrel" so searches don't pick up the sample cases
+    const cases: Array<[string, Partial<InsertCase>]> = [
+      ["heart", { category: "surgery", urgency: "critical", location: "Lahore, Pakistan", amountRequired: 1000 }],
+      ["insulin", { category: "medication", urgency: "medium", location: "Dhaka, Bangladesh", amountRequired: 500 }],
+      ["delivery", { category: "maternity", urgency: "high", location: "Karachi, Pakistan", amountRequired: 2000 }],
+      ["hip", { category: "surgery", urgency: "low", location: "Kabul, Afghanistan", amountRequired: 800 }],
+      ["draft", { category: "surgery", urgency: "critical", active: false, amountRequired: 100 }],
+    ];
+    for (const [name, overrides] of cases) {
+      created[name] = await storage.createCase({
+        title: `Kestrel ${name} case`,
+        description: "A case used to check searching and paging through cases.",
+        amountRequired: 1000,
+        ...overrides,
+      });
+    }
+    await storage.setCaseAmountCollected(created.insulin.id, 450);
+    await storage.setCaseAmountCollected(created.hip.id, 200);
+  });
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const titles = (body: { cases: Case[] }) => body.cases.map(c => c.title.replace(/^Kestrel | case$/g, ""));
+
+  it("should still return every case without a query string, with drafts only for admins", async () => {
+    const response = await request(app).get("/api/cases").expect(200);
+    expect(Array.isArray(response.body)).toBe(true);
+    expect(response.body.map((c: Case) => c.id)).toContain(created.heart.id);
+    expect(response.body.map((c: Case) => c.id)).not.toContain(created.draft.id);
+
+    const admin = await signInAsAdmin(app);
+    const adminResponse = await admin.get("/api/cases").expect(200);
+    expect(adminResponse.body.map((c: Case) => c.id)).toContain(created.draft.id);
+  });
+
+  it("should search open cases and filter by category, urgency and location", async () => {
+    const all = await request(app).get("/api/cases").query({ search: "kestrel" }).expect(200);
+    expect(titles(all.body).sort()).toEqual(["delivery", "heart", "hip", "insulin"]);
+    expect(all.body.nextCursor).toBeNull();
+
+    const surgery = await request(app).get("/api/cases").query({ search: "kestrel", category: "surgery" }).expect(200);
+    expect(titles(surgery.body).sort()).toEqual(["heart", "hip"]);
+
+    const pakistan = await request(app).get("/api/cases").query({ search: "kestrel", location: "pakistan" }).expect(200);
+    expect(titles(pakistan.body).sort()).toEqual(["delivery", "heart"]);
+
+    const high = await request(app).get("/api/cases").query({ search: "kestrel", urgency: "high" }).expect(200);
+    expect(titles(high.body)).toEqual(["delivery"]);
+
+    const byLocation = await request(app).get("/api/cases").query({ search: "dhaka" }).expect(200);
+    expect(titles(byLocation.body)).toEqual(["insulin"]);
+
+    // Drafts can't be searched for
+    await request(app).get("/api/cases").query({ search: "kestrel", status: "draft" }).expect(400);
+  });
+
+  it("should sort by urgency, closeness to goal and age", async () => {
+    const urgent = await request(app).get("/api/cases").query({ search: "kestrel", sort: "urgent" }).expect(200);
+    expect(titles(urgent.body)).toEqual(["heart", "delivery", "insulin", "hip"]);
+
+    const closest = await request(app).get("/api/cases").query({ search: "kestrel", sort: "closest_to_goal" }).expect(200);
+    expect(titles(closest.body)).toEqual(["insulin", "hip", "heart", "delivery"]);
+
+    const newest = await request(app).get("/api/cases").query({ search: "kestrel", sort: "newest" }).expect(200);
+    expect(titles(newest.body)).toEqual(["hip", "delivery", "insulin", "heart"]);
+  });
+
+  it("should page through results with a cursor", async () => {
+    const first = await request(app).get("/api/cases").query({ search: "kestrel", limit: 3 }).expect(200);
+    expect(titles(first.body)).toEqual(["heart", "delivery", "insulin"]);
+    expect(first.body.nextCursor).toEqual(expect.any(String));
+
+    // A case funded between requests doesn't shift the next page
+    await storage.setCaseAmountCollected(created.heart.id, 1000);
+
+    const second = await request(app)
+      .get("/api/cases")
+      .query({ search: "kestrel", limit: 3, cursor: first.body.nextCursor })
+      .expect(200);
+    expect(titles(second.body)).toEqual(["hip"]);
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  it("should reject bad filters and cursors", async () => {
+    await request(app).get("/api/cases").query({ category: "holidays" }).expect(400);
+    await request(app).get("/api/cases").query({ limit: 500 }).expect(400);
+    await request(app).get("/api/cases").query({ cursor: "not-a-cursor" }).expect(400);
+  });
+});
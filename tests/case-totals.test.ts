@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { toCaseAmount } from "@shared/currency";
+import { recalculateCaseTotals } from "../server/case-totals";
+import { createTestApp, signInAsAdmin, createTestCase } from "./helpers";
+
+describe("Case Totals", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const createCase = (currency?: string) =>
+    createTestCase({ amountRequired: 5000, active: true, currency });
+
+  describe("toCaseAmount", () => {
+    const pkrDonation = { amount: 10000, currency: "PKR", exchangeRate: 0.0055, baseAmount: 55, caseExchangeRate: null };
+
+    it("should not convert a donation made in the case currency", () => {
+      expect(toCaseAmount({ ...pkrDonation, caseExchangeRate: 2 }, "PKR")).toBe(10000);
+    });
+
+    it("should use the case rate stored on the donation", () => {
+      expect(toCaseAmount({ ...pkrDonation, caseExchangeRate: 0.0036 }, "USD")).toBe(36);
+      expect(toCaseAmount({ ...pkrDonation, caseExchangeRate: 0.0036 }, "USD", -5000)).toBe(-18);
+    });
+
+    it("should fall back to the base currency amount for base currency cases", () => {
+      expect(toCaseAmount(pkrDonation, "AUD")).toBe(55);
+    });
+
+    it("should not convert a donation without a stored rate to the case currency", () => {
+      expect(toCaseAmount(pkrDonation, "USD")).toBeNull();
+      expect(toCaseAmount({ ...pkrDonation, exchangeRate: null, baseAmount: null }, "AUD")).toBeNull();
+    });
+  });
+
+  it("should default new cases to the base currency", async () => {
+    const testCase = await createCase();
+    expect(testCase.currency).toBe("AUD");
+    await storage.deleteCase(testCase.id);
+  });
+
+  it("should convert a completed donation into the case currency", async () => {
+    const testCase = await createCase();
+    const donation = await storage.createDonation({
+      type: "zakaat",
+      amount: 10000,
+      currency: "PKR",
+      frequency: "one-off",
+      status: "pending",
+      caseId: testCase.id,
+      exchangeRate: 0.0055,
+      baseAmount: 55,
+      caseExchangeRate: 0.0055,
+    });
+
+    await storage.updateDonationStatus(donation.id, "completed", `pi_test_case_fx_${Date.now()}`);
+
+    const updatedCase = await storage.getCase(testCase.id);
+    expect(updatedCase?.amountCollected).toBe(55);
+
+    await storage.deleteCase(testCase.id);
+  });
+
+  it("should leave a case total alone until a donation has a rate to the case currency", async () => {
+    const testCase = await createCase("USD");
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 100,
+      currency: "EUR",
+      frequency: "one-off",
+      status: "pending",
+      caseId: testCase.id,
+    });
+
+    await storage.updateDonationStatus(donation.id, "completed", `pi_test_case_no_rate_${Date.now()}`);
+    expect((await storage.getCase(testCase.id))?.amountCollected).toBe(0);
+
+    // Once the rate is stored, recalculating picks the donation up
+    await storage.updateDonationExchangeRate(donation.id, { exchangeRate: 1.6, baseAmount: 160, caseExchangeRate: 1.08 });
+    await recalculateCaseTotals();
+    expect((await storage.getCase(testCase.id))?.amountCollected).toBe(108);
+
+    await storage.deleteCase(testCase.id);
+  });
+
+  describe("POST /api/admin/cases/recalculate-totals", () => {
+    it("should require an admin session", async () => {
+      await request(app).post("/api/admin/cases/recalculate-totals").expect(401);
+    });
+
+    it("should rebuild case totals from completed donations less refunds", async () => {
+      const testCase = await createCase("USD");
+      const donation = await storage.createDonation({
+        type: "sadqah",
+        amount: 100,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "pending",
+        caseId: testCase.id,
+        exchangeRate: 1,
+        baseAmount: 100,
+        caseExchangeRate: 0.65,
+      });
+      await storage.updateDonationStatus(donation.id, "completed", `pi_test_recalc_${Date.now()}`);
+      await storage.updateDonationRefund(donation.id, 20, "partially-refunded");
+      await storage.createDonation({
+        type: "sadqah",
+        amount: 40,
+        currency: "USD",
+        frequency: "one-off",
+        status: "pending",
+        caseId: testCase.id,
+      });
+      // A total that drifted, e.g. from amounts added before conversion existed
+      await storage.updateCaseAmountCollected(testCase.id, 999);
+
+      const agent = await signInAsAdmin(app);
+      const response = await agent.post("/api/admin/cases/recalculate-totals").expect(200);
+
+      const result = response.body.cases.find((c: any) => c.caseId === testCase.id);
+      expect(result.amountCollected).toBe(52);
+      expect(result.currency).toBe("USD");
+      expect((await storage.getCase(testCase.id))?.amountCollected).toBe(52);
+
+      await storage.deleteCase(testCase.id);
+    });
+  });
+
+  describe("PUT /api/cases/:id", () => {
+    it("should not change the currency of a case that has donations", async () => {
+      const testCase = await createCase();
+      await storage.createDonation({
+        type: "sadqah",
+        amount: 10,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "pending",
+        caseId: testCase.id,
+      });
+
+      await request(app).put(`/api/cases/${testCase.id}`).send({ currency: "USD" }).expect(409);
+      await request(app).put(`/api/cases/${testCase.id}`).send({ currency: "aud" }).expect(200);
+
+      await storage.deleteCase(testCase.id);
+    });
+  });
+});
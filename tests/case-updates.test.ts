@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import {
+  createCaseUpdateUnsubscribeToken,
+  verifyCaseUpdateUnsubscribeToken,
+  getCaseUpdateRecipients,
+  waitForCaseUpdateEmails,
+} from "../server/case-updates";
+import { createTestApp, signInAsAdmin, createTestCase } from "./helpers";
+
+describe("Case Updates", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const donate = async (caseId: number, email: string, status = "completed") => {
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 50,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+      email,
+      caseId,
+    });
+    if (status !== "pending") {
+      await storage.updateDonationStatus(donation.id, status, `pi_update_${donation.id}`);
+    }
+    return donation;
+  };
+
+  it("should only let admins post updates", async () => {
+    const caseItem = await createTestCase();
+    await request(app).post(`/api/admin/cases/${caseItem.id}/updates`).send({ body: "Surgery booked" }).expect(401);
+
+    const agent = await signInAsAdmin(app);
+    await agent.post(`/api/admin/cases/${caseItem.id}/updates`).send({ body: "  " }).expect(400);
+    await agent.post(`/api/admin/cases/${caseItem.id}/updates`).send({ body: "Surgery booked", imageUrl: "not-a-url" }).expect(400);
+    await agent.post("/api/admin/cases/999999/updates").send({ body: "Surgery booked" }).expect(404);
+  });
+
+  it("should show posted updates on the case timeline, newest first", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createTestCase();
+
+    await agent.post(`/api/admin/cases/${caseItem.id}/updates`).send({ body: "Surgery booked" }).expect(201);
+    const second = await agent
+      .post(`/api/admin/cases/${caseItem.id}/updates`)
+      .send({ body: "Surgery went well", imageUrl: "https://example.com/recovery.jpg" })
+      .expect(201);
+    expect(second.body).toMatchObject({
+      caseId: caseItem.id,
+      body: "Surgery went well",
+      imageUrl: "https://example.com/recovery.jpg",
+      postedBy: "admin",
+      notifiedDonors: 0,
+      queued: 0,
+    });
+
+    const timeline = await request(app).get(`/api/cases/${caseItem.id}/updates`).expect(200);
+    expect(timeline.body.map((u: any) => u.body)).toEqual(["Surgery went well", "Surgery booked"]);
+
+    await request(app).get("/api/cases/999999/updates").expect(404);
+  });
+
+  it("should email each donor to the case once and respect unsubscribes", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createTestCase();
+    const otherCase = await createTestCase();
+
+    await donate(caseItem.id, "amina@example.com");
+    await donate(caseItem.id, "Amina@Example.com");
+    await donate(caseItem.id, "yusuf@example.com");
+    await donate(caseItem.id, "pending@example.com", "pending");
+    await donate(otherCase.id, "other@example.com");
+
+    expect((await getCaseUpdateRecipients(caseItem.id)).sort()).toEqual(["amina@example.com", "yusuf@example.com"]);
+
+    const notified = await agent
+      .post(`/api/admin/cases/${caseItem.id}/updates`)
+      .send({ body: "Discharged from hospital", notifyDonors: true })
+      .expect(201);
+    expect(notified.body).toMatchObject({ queued: 2, notifiedDonors: 0 });
+
+    // The emails go out after the response; the update records how many were sent
+    await waitForCaseUpdateEmails();
+    const timeline = await request(app).get(`/api/cases/${caseItem.id}/updates`).expect(200);
+    expect(timeline.body.find((u: any) => u.id === notified.body.id).notifiedDonors).toBe(2);
+
+    const token = createCaseUpdateUnsubscribeToken(caseItem.id, "Yusuf@example.com");
+    const link = await request(app).get(`/api/case-updates/unsubscribe/${token}`).expect(200);
+    expect(link.body).toMatchObject({ caseId: caseItem.id, email: "yusuf@example.com", unsubscribed: false });
+
+    await request(app).post(`/api/case-updates/unsubscribe/${token}`).expect(200);
+    const afterUnsubscribe = await request(app).get(`/api/case-updates/unsubscribe/${token}`).expect(200);
+    expect(afterUnsubscribe.body.unsubscribed).toBe(true);
+
+    expect(await getCaseUpdateRecipients(caseItem.id)).toEqual(["amina@example.com"]);
+    const next = await agent
+      .post(`/api/admin/cases/${caseItem.id}/updates`)
+      .send({ body: "Follow-up appointment done", notifyDonors: true })
+      .expect(201);
+    expect(next.body.queued).toBe(1);
+    await waitForCaseUpdateEmails();
+    expect((await storage.getCaseUpdates(caseItem.id)).find(u => u.id === next.body.id)?.notifiedDonors).toBe(1);
+  });
+
+  it("should reject tampered unsubscribe links", async () => {
+    const caseItem = await createTestCase();
+    const token = createCaseUpdateUnsubscribeToken(caseItem.id, "amina@example.com");
+    expect(verifyCaseUpdateUnsubscribeToken(token)).toEqual({ caseId: caseItem.id, email: "amina@example.com" });
+
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from(`${caseItem.id}:someone@example.com`).toString("base64url")}.${signature}`;
+    expect(verifyCaseUpdateUnsubscribeToken(forged)).toBeNull();
+
+    await request(app).post(`/api/case-updates/unsubscribe/${forged}`).expect(404);
+    await request(app).get("/api/case-updates/unsubscribe/not-a-token").expect(404);
+  });
+});
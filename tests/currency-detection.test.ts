@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { importIpDataset, lookupCountry, parseIpRangeCsv } from "../server/ip-geolocation";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Currency Detection", () => {
+  let app: Express;
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ip-dataset-"));
+
+  const csv = [
+    "start_ip,end_ip,country",
+    "1.0.0.0,1.0.0.255,AU",
+    "\"39.32.0.0\",\"39.63.255.255\",\"PK\"",
+    "3232235520,3232301055,ZZ",
+    "2001:db8::,2001:db8:ffff:ffff:ffff:ffff:ffff:ffff,GB",
+    "not,an,ip",
+  ].join("\n");
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("parseIpRangeCsv", () => {
+    it("should keep IPv4 and IPv6 ranges with a known country", () => {
+      const table = parseIpRangeCsv(csv);
+
+      expect(table.ipv4.countries).toEqual(["AU", "PK"]);
+      expect(table.ipv6.countries).toEqual(["GB"]);
+    });
+
+    it("should read integer ranges", () => {
+      const table = parseIpRangeCsv("\"16777216\",\"16777471\",\"AU\",\"Australia\"");
+
+      expect(table.ipv4.starts).toEqual([16777216]);
+      expect(table.ipv4.ends).toEqual([16777471]);
+    });
+  });
+
+  describe("GET /api/currency-by-ip", () => {
+    it("should honour the region parameter", async () => {
+      const response = await request(app).get("/api/currency-by-ip?region=uk").expect(200);
+      expect(response.body).toEqual({ currency: "GBP", source: "url-param" });
+
+      const country = await request(app).get("/api/currency-by-ip?region=nz").expect(200);
+      expect(country.body).toEqual({ currency: "NZD", source: "url-param" });
+    });
+
+    it("should use the imported dataset and report the method", async () => {
+      expect(await importIpDataset(csv, path.join(tmpDir, "ip-country.csv"))).toBe(3);
+
+      expect(lookupCountry("::ffff:39.40.1.2")).toBe("PK");
+      expect(lookupCountry("2001:db8::1")).toBe("GB");
+      expect(lookupCountry("8.8.8.8")).toBeNull();
+
+      const response = await request(app)
+        .get("/api/currency-by-ip")
+        .set("X-Forwarded-For", "39.40.1.2, 10.0.0.1")
+        .expect(200);
+      expect(response.body).toEqual({ currency: "PKR", country: "PK", source: "ip-dataset" });
+
+      const unknown = await request(app)
+        .get("/api/currency-by-ip")
+        .set("X-Forwarded-For", "8.8.8.8")
+        .expect(200);
+      expect(unknown.body).toEqual({ currency: "AUD", source: "default" });
+    });
+  });
+
+  describe("POST /api/admin/ip-country-dataset", () => {
+    it("should require an admin session", async () => {
+      await request(app)
+        .post("/api/admin/ip-country-dataset")
+        .set("Content-Type", "text/csv")
+        .send(csv)
+        .expect(401);
+    });
+
+    it("should reject a CSV without any IP ranges", async () => {
+      const agent = await signInAsAdmin(app);
+
+      const response = await agent
+        .post("/api/admin/ip-country-dataset")
+        .set("Content-Type", "text/csv")
+        .send("network,geoname_id\n1.0.0.0/24,2077456")
+        .expect(400);
+      expect(response.body.message).toContain("No IP ranges found");
+    });
+  });
+});
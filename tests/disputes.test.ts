@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { handleChargeDispute } from "../server/webhook-handlers";
+import { createMockWebhookEvent } from "./setup";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Disputes", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const createStripeDispute = (paymentIntentId: string, overrides: Record<string, any> = {}) => ({
+    id: `dp_test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    object: "dispute",
+    amount: 5000,
+    currency: "aud",
+    charge: `ch_test_${Date.now()}`,
+    payment_intent: paymentIntentId,
+    reason: "fraudulent",
+    status: "needs_response",
+    evidence_details: { due_by: 1893456000 },
+    ...overrides,
+  });
+
+  it("should attach a new dispute to its donation with the evidence due date", async () => {
+    const paymentIntentId = `pi_test_dispute_${Date.now()}`;
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 50,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+    });
+    await storage.updateDonationStatus(donation.id, "completed", paymentIntentId);
+
+    const stripeDispute = createStripeDispute(paymentIntentId);
+    await handleChargeDispute(stripeDispute);
+
+    const dispute = await storage.getDisputeByStripeDisputeId(stripeDispute.id);
+    expect(dispute?.donationId).toBe(donation.id);
+    expect(dispute?.amount).toBe(50);
+    expect(dispute?.status).toBe("needs_response");
+    expect(dispute?.outcome).toBeNull();
+    expect(dispute?.evidenceDueBy?.getTime()).toBe(1893456000 * 1000);
+
+    const agent = await signInAsAdmin(app);
+    const response = await agent.get("/api/admin/disputes").expect(200);
+    const listed = response.body.find((d: any) => d.stripeDisputeId === stripeDispute.id);
+    expect(listed.donation.id).toBe(donation.id);
+  });
+
+  it("should take a lost dispute off the case total once", async () => {
+    const testCase = await storage.createCase({
+      title: "Dispute Test Case",
+      description: "Case used to check lost disputes are taken off the case total.",
+      amountRequired: 1000,
+      active: true,
+    });
+    const paymentIntentId = `pi_test_dispute_lost_${Date.now()}`;
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 80,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+      caseId: testCase.id,
+    });
+    await storage.updateDonationStatus(donation.id, "completed", paymentIntentId);
+
+    const stripeDispute = createStripeDispute(paymentIntentId, { amount: 8000 });
+    const closed = await storage.createWebhookEvent({
+      eventType: "charge.dispute.closed",
+      paymentIntentId,
+      status: "processed",
+      rawData: createMockWebhookEvent("charge.dispute.closed", { ...stripeDispute, status: "lost" }),
+    });
+
+    await handleChargeDispute(stripeDispute);
+
+    const agent = await signInAsAdmin(app);
+    await agent.post(`/api/admin/webhook-events/${closed.id}/replay`).expect(200);
+    await agent.post(`/api/admin/webhook-events/${closed.id}/replay`).expect(200);
+
+    const dispute = await storage.getDisputeByStripeDisputeId(stripeDispute.id);
+    expect(dispute?.outcome).toBe("lost");
+    expect(dispute?.amountReversedAt).not.toBeNull();
+
+    const updated = await storage.getDonation(donation.id);
+    expect(updated?.status).toBe("refunded");
+
+    const updatedCase = await storage.getCase(testCase.id);
+    expect(updatedCase?.amountCollected).toBe(0);
+
+    await storage.deleteCase(testCase.id);
+  });
+
+  it("should leave the case total alone when a dispute is won", async () => {
+    const testCase = await storage.createCase({
+      title: "Won Dispute Test Case",
+      description: "Case used to check won disputes keep the case total.",
+      amountRequired: 1000,
+      active: true,
+    });
+    const paymentIntentId = `pi_test_dispute_won_${Date.now()}`;
+    const donation = await storage.createDonation({
+      type: "zakaat",
+      amount: 30,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+      caseId: testCase.id,
+    });
+    await storage.updateDonationStatus(donation.id, "completed", paymentIntentId);
+
+    const stripeDispute = createStripeDispute(paymentIntentId, { amount: 3000 });
+    await handleChargeDispute(stripeDispute);
+    await handleChargeDispute({ ...stripeDispute, status: "won" });
+
+    const dispute = await storage.getDisputeByStripeDisputeId(stripeDispute.id);
+    expect(dispute?.outcome).toBe("won");
+    expect(dispute?.amountReversedAt).toBeNull();
+
+    const updatedCase = await storage.getCase(testCase.id);
+    expect(updatedCase?.amountCollected).toBe(30);
+
+    await storage.deleteCase(testCase.id);
+  });
+});
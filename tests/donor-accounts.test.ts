@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createHash } from "crypto";
+import { storage } from "../server/storage";
+import { createTestApp } from "./helpers";
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+describe("Donor Accounts", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const signIn = async (email: string) => {
+    const user =
+      (await storage.getUserByEmail(email)) ??
+      (await storage.createUser({ username: `donor-${Date.now()}`, password: "unused", email }));
+    const token = `token-${Date.now()}-${Math.random()}`;
+    await storage.createDonorLoginToken({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const agent = request.agent(app);
+    await agent.post("/api/donor/verify-login").send({ token }).expect(200);
+    return { agent, user, token };
+  };
+
+  describe("POST /api/donor/request-login", () => {
+    it("should reject an invalid email address", async () => {
+      const response = await request(app)
+        .post("/api/donor/request-login")
+        .send({ email: "not-an-email" })
+        .expect(400);
+
+      expect(response.body.message).toBeDefined();
+    });
+
+    it("should create a donor account for a new email", async () => {
+      const email = `new-donor-${Date.now()}@example.com`;
+
+      await request(app).post("/api/donor/request-login").send({ email }).expect(200);
+
+      const user = await storage.getUserByEmail(email);
+      expect(user).toBeDefined();
+    });
+  });
+
+  describe("POST /api/donor/verify-login", () => {
+    it("should link earlier donations made with the same email", async () => {
+      const email = `returning-${Date.now()}@example.com`;
+      const earlierDonation = await storage.createDonation({
+        type: "sadqah",
+        amount: 50,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "completed",
+        email: email.toUpperCase(),
+      });
+
+      const { agent, user } = await signIn(email);
+
+      const linked = await storage.getDonation(earlierDonation.id);
+      expect(linked?.userId).toBe(user.id);
+
+      const response = await agent.get("/api/donor/donations").expect(200);
+      expect(response.body.map((d: any) => d.id)).toContain(earlierDonation.id);
+    });
+
+    it("should not accept the same link twice", async () => {
+      const { token } = await signIn(`reuse-${Date.now()}@example.com`);
+
+      await request(app).post("/api/donor/verify-login").send({ token }).expect(401);
+    });
+
+    it("should reject an expired link", async () => {
+      const user = await storage.createUser({
+        username: `expired-${Date.now()}`,
+        password: "unused",
+        email: `expired-${Date.now()}@example.com`,
+      });
+      const token = `expired-token-${Date.now()}`;
+      await storage.createDonorLoginToken({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await request(app).post("/api/donor/verify-login").send({ token }).expect(401);
+    });
+  });
+
+  describe("GET /api/donor/donations", () => {
+    it("should require a signed-in donor", async () => {
+      await request(app).get("/api/donor/donations").expect(401);
+    });
+
+    it("should not expose another donor's receipts", async () => {
+      const otherDonation = await storage.createDonation({
+        type: "zakaat",
+        amount: 20,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "completed",
+        email: `other-${Date.now()}@example.com`,
+      });
+
+      const { agent } = await signIn(`owner-${Date.now()}@example.com`);
+
+      await agent.get(`/api/donor/donations/${otherDonation.id}/receipt`).expect(404);
+    });
+  });
+
+  describe("Checkout linking", () => {
+    const completeDonation = (agent: ReturnType<typeof request.agent>, donationId: number, email: string) =>
+      agent
+        .post("/api/update-donation-status")
+        .send({
+          donationId,
+          status: "completed",
+          paymentMethod: "stripe",
+          paymentId: `pi_test_${Date.now()}`,
+          email,
+          name: "Test Donor",
+          skipReceipt: true,
+        })
+        .expect(200);
+
+    const pendingDonation = () =>
+      storage.createDonation({
+        type: "sadqah",
+        amount: 25,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "pending",
+      });
+
+    it("should link a completed donation to the signed-in donor with the same email", async () => {
+      const email = `checkout-${Date.now()}@example.com`;
+      const { agent, user } = await signIn(email);
+      const donation = await pendingDonation();
+
+      await completeDonation(agent, donation.id, email.toUpperCase());
+
+      const updated = await storage.getDonation(donation.id);
+      expect(updated?.userId).toBe(user.id);
+    });
+
+    it("should not link someone else's donation to the signed-in donor", async () => {
+      const { agent } = await signIn(`signed-in-${Date.now()}@example.com`);
+      const donation = await pendingDonation();
+
+      await completeDonation(agent, donation.id, `someone-else-${Date.now()}@example.com`);
+
+      const updated = await storage.getDonation(donation.id);
+      expect(updated?.userId).toBeNull();
+    });
+
+    it("should not let a donation be attached to another donor's account by its request", async () => {
+      const { user } = await signIn(`victim-${Date.now()}@example.com`);
+
+      const response = await request(app)
+        .post("/api/donations")
+        .send({ type: "sadqah", amount: 25, currency: "AUD", frequency: "one-off", status: "pending", userId: user.id })
+        .expect(201);
+      expect(response.body.userId).toBeNull();
+      expect((await storage.getDonationsByUserId(user.id)).map(d => d.id)).not.toContain(response.body.id);
+    });
+
+    it("should leave a signed-out donation to be linked when its donor signs in", async () => {
+      const email = `later-${Date.now()}@example.com`;
+      const donation = await pendingDonation();
+
+      await completeDonation(request.agent(app), donation.id, email);
+      expect((await storage.getDonation(donation.id))?.userId).toBeNull();
+
+      const { user } = await signIn(email);
+      expect((await storage.getDonation(donation.id))?.userId).toBe(user.id);
+    });
+  });
+});
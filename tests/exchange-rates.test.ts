@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { sumBaseAmounts, toBaseAmount } from "@shared/currency";
+import {
+  getRateToBase,
+  refreshExchangeRates,
+  setExchangeRateProvider,
+  type ExchangeRateProvider,
+} from "../server/exchange-rates";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Exchange Rates", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  describe("toBaseAmount", () => {
+    const usdDonation = { amount: 100, currency: "USD", exchangeRate: 1.5, baseAmount: 150 };
+
+    it("should use the stored base amount for the whole donation", () => {
+      expect(toBaseAmount({ ...usdDonation, baseAmount: 149.99 })).toBe(149.99);
+    });
+
+    it("should convert part of a donation at the stored rate", () => {
+      expect(toBaseAmount(usdDonation, 33.33)).toBe(50);
+    });
+
+    it("should not convert a donation in another currency without a rate", () => {
+      expect(toBaseAmount({ amount: 80, currency: "USD", exchangeRate: null, baseAmount: null })).toBeNull();
+      expect(toBaseAmount({ amount: 80, currency: "AUD", exchangeRate: 2, baseAmount: null })).toBe(80);
+    });
+
+    it("should leave donations without a rate out of a total", () => {
+      const unconverted = { amount: 80, currency: "USD", exchangeRate: null, baseAmount: null };
+      const result = sumBaseAmounts([usdDonation, unconverted, { amount: 20, currency: "AUD", exchangeRate: 1, baseAmount: 20 }]);
+
+      expect(result.total).toBe(170);
+      expect(result.unconverted).toEqual([unconverted]);
+    });
+  });
+
+  describe("POST /api/donations", () => {
+    it("should store a rate of 1 for base currency donations and ignore a rate sent by the client", async () => {
+      const response = await request(app)
+        .post("/api/donations")
+        .send({
+          type: "sadqah",
+          amount: 75,
+          currency: "AUD",
+          frequency: "one-off",
+          exchangeRate: 10,
+          baseAmount: 750,
+        })
+        .expect(201);
+
+      expect(response.body.exchangeRate).toBe(1);
+      expect(response.body.baseAmount).toBe(75);
+    });
+  });
+
+  describe("case totals", () => {
+    it("should add the base currency amount to the case when a foreign donation completes", async () => {
+      const testCase = await storage.createCase({
+        title: "FX Test Case",
+        description: "Case for exchange rate tests",
+        amountRequired: 1000,
+        active: true,
+      });
+
+      const donation = await storage.createDonation({
+        type: "sadqah",
+        amount: 100,
+        currency: "USD",
+        frequency: "one-off",
+        status: "pending",
+        caseId: testCase.id,
+        exchangeRate: 1.5,
+        baseAmount: 150,
+      });
+      await storage.updateDonationStatus(donation.id, "completed", `pi_test_fx_${Date.now()}`);
+
+      const updatedCase = await storage.getCase(testCase.id);
+      expect(updatedCase?.amountCollected).toBe(150);
+
+      await storage.deleteCase(testCase.id);
+    });
+  });
+
+  describe("rate service", () => {
+    const createProvider = (rates: Record<string, number> | Error): ExchangeRateProvider => ({
+      name: "test-provider",
+      fetchRates: async () => {
+        if (rates instanceof Error) throw rates;
+        return rates;
+      },
+    });
+
+    it("should serve stored rates with staleness metadata", async () => {
+      setExchangeRateProvider(createProvider({ AUD: 1, USD: 0.65, PKR: 180, XXX: 0 }));
+      expect(await refreshExchangeRates()).toBe(true);
+
+      const response = await request(app).get("/api/exchange-rates").expect(200);
+
+      expect(response.body.base).toBe("AUD");
+      expect(response.body.provider).toBe("test-provider");
+      expect(response.body.rates).toMatchObject({ AUD: 1, USD: 0.65, PKR: 180 });
+      expect(response.body.rates.XXX).toBeUndefined();
+      expect(response.body.stale).toBe(false);
+      expect(response.body.fetchedAt).toBeTruthy();
+    });
+
+    it("should keep the last known rates when the provider is unreachable", async () => {
+      setExchangeRateProvider(createProvider(new Error("getaddrinfo ENOTFOUND")));
+      expect(await refreshExchangeRates()).toBe(false);
+
+      const response = await request(app).get("/api/exchange-rates").expect(200);
+      expect(response.body.rates.USD).toBe(0.65);
+      expect(response.body.lastError).toBe("getaddrinfo ENOTFOUND");
+      expect(await getRateToBase("USD")).toBeCloseTo(1 / 0.65);
+
+      const agent = await signInAsAdmin(app);
+      await agent.post("/api/admin/exchange-rates/refresh").expect(502);
+    });
+
+    it("should let admins set and clear manual rates", async () => {
+      await request(app).put("/api/admin/exchange-rates/PKR/override").send({ rate: 200 }).expect(401);
+
+      const agent = await signInAsAdmin(app);
+      await agent.put("/api/admin/exchange-rates/AUD/override").send({ rate: 2 }).expect(400);
+      await agent.put("/api/admin/exchange-rates/PKR/override").send({ rate: -1 }).expect(400);
+
+      const set = await agent.put("/api/admin/exchange-rates/pkr/override").send({ rate: 200 }).expect(200);
+      expect(set.body.overrideRate).toBe(200);
+      expect(set.body.overrideSetBy).toBe("admin");
+
+      let response = await request(app).get("/api/exchange-rates").expect(200);
+      expect(response.body.rates.PKR).toBe(200);
+      expect(response.body.overrides).toEqual(["PKR"]);
+      expect(await getRateToBase("PKR")).toBeCloseTo(1 / 200);
+
+      await agent.delete("/api/admin/exchange-rates/PKR/override").expect(200);
+      response = await request(app).get("/api/exchange-rates").expect(200);
+      expect(response.body.rates.PKR).toBe(180);
+      expect(response.body.overrides).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { refreshExchangeRates, setExchangeRateProvider } from "../server/exchange-rates";
+import { getDonationCharge } from "../server/fees";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Processing Fees", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  describe("GET /api/fees/quote", () => {
+    it("should quote the default fee before any schedule is saved", async () => {
+      const response = await request(app)
+        .get("/api/fees/quote?amount=100&currency=aud&paymentMethod=stripe")
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        currency: "AUD",
+        percentage: 3.5,
+        fixedFee: 0.3,
+        fee: 3.8,
+        totalWithFee: 103.8,
+        source: "default",
+      });
+    });
+
+    it("should reject invalid quote requests", async () => {
+      await request(app).get("/api/fees/quote?amount=0&currency=AUD").expect(400);
+      await request(app).get("/api/fees/quote?amount=10&currency=AUD&paymentMethod=cash").expect(400);
+    });
+  });
+
+  describe("fee schedules", () => {
+    it("should require an admin session to change schedules", async () => {
+      await request(app).get("/api/admin/fee-schedules").expect(401);
+      await request(app)
+        .put("/api/admin/fee-schedules")
+        .send({ paymentMethod: "stripe", currency: "AUD", percentage: 2.9, fixedFee: 0.25 })
+        .expect(401);
+    });
+
+    it("should quote saved schedules and convert the base schedule for other currencies", async () => {
+      const agent = await signInAsAdmin(app);
+      await agent
+        .put("/api/admin/fee-schedules")
+        .send({ paymentMethod: "stripe", currency: "AUD", percentage: 150, fixedFee: 0.25 })
+        .expect(400);
+
+      const saved = await agent
+        .put("/api/admin/fee-schedules")
+        .send({ paymentMethod: "stripe", currency: "aud", percentage: 2.9, fixedFee: 0.25 })
+        .expect(200);
+      expect(saved.body).toMatchObject({ currency: "AUD", updatedBy: "admin" });
+
+      // Wallet payments share the Stripe schedule
+      const wallet = await request(app)
+        .get("/api/fees/quote?amount=100&currency=AUD&paymentMethod=apple_pay")
+        .expect(200);
+      expect(wallet.body).toMatchObject({ fee: 3.15, source: "schedule" });
+
+      setExchangeRateProvider({ name: "test-provider", fetchRates: async () => ({ AUD: 1, USD: 0.65 }) });
+      expect(await refreshExchangeRates()).toBe(true);
+
+      const converted = await request(app)
+        .get("/api/fees/quote?amount=100&currency=USD&paymentMethod=stripe")
+        .expect(200);
+      expect(converted.body).toMatchObject({ fixedFee: 0.16, fee: 3.06, source: "converted" });
+
+      // Saving the same method and currency again replaces the schedule
+      await agent
+        .put("/api/admin/fee-schedules")
+        .send({ paymentMethod: "stripe", currency: "AUD", percentage: 3, fixedFee: 0 })
+        .expect(200);
+      const list = await agent.get("/api/admin/fee-schedules").expect(200);
+      expect(list.body.schedules).toHaveLength(1);
+      expect(list.body.schedules[0].percentage).toBe(3);
+
+      await agent.delete(`/api/admin/fee-schedules/${list.body.schedules[0].id}`).expect(200);
+      await agent.delete(`/api/admin/fee-schedules/${list.body.schedules[0].id}`).expect(404);
+    });
+  });
+
+  describe("covered fees", () => {
+    it("should only add the fee when the donor covers it", async () => {
+      const donation = await storage.createDonation({
+        type: "sadqah",
+        amount: 50,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "pending",
+        paymentMethod: "stripe",
+      });
+
+      expect(await getDonationCharge(donation, true)).toEqual({ feeAmount: 2.05, total: 52.05 });
+      expect(await getDonationCharge(donation, false)).toEqual({ feeAmount: 0, total: 50 });
+    });
+
+    it("should report gross, fees covered and net amounts", async () => {
+      const agent = await signInAsAdmin(app);
+      const before = (await agent.get("/api/payment-statistics").expect(200)).body;
+
+      const donation = await storage.createDonation({
+        type: "sadqah",
+        amount: 100,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "pending",
+        exchangeRate: 1,
+        baseAmount: 100,
+      });
+      await storage.updateDonationFee(donation.id, 3.8);
+      await storage.updateDonationStatus(donation.id, "completed", `pi_test_fee_${Date.now()}`);
+
+      const after = (await agent.get("/api/payment-statistics").expect(200)).body;
+      expect(after.totalDonated - before.totalDonated).toBeCloseTo(100);
+      expect(after.totalFeesCovered - before.totalFeesCovered).toBeCloseTo(3.8);
+      expect(after.totalGross - before.totalGross).toBeCloseTo(103.8);
+
+      const history = await agent.get("/api/payment-history").expect(200);
+      const entry = history.body.find((d: any) => d.id === donation.id);
+      expect(entry).toMatchObject({ amount: 100, feeAmount: 3.8, grossAmount: 103.8 });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { applyRefund, reverseDonationAmount } from "../server/refunds";
+import { backfillFundLedger, fundLedgerToCsv } from "../server/fund-ledger";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Fund Ledger", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const getBalance = async (agent: request.Agent, fund: string) => {
+    const response = await agent.get("/api/admin/fund-ledger").expect(200);
+    return response.body.balances.find((b: any) => b.fund === fund);
+  };
+
+  const completeDonation = async (type: string, amount: number, currency = "AUD", exchangeRate = 1) => {
+    const donation = await storage.createDonation({
+      type,
+      amount,
+      currency,
+      frequency: "one-off",
+      status: "pending",
+      exchangeRate,
+      baseAmount: Math.round(amount * exchangeRate * 100) / 100,
+    });
+    await storage.updateDonationStatus(donation.id, "completed", `pi_fund_${donation.id}`);
+    return donation;
+  };
+
+  it("should require an admin session", async () => {
+    await request(app).get("/api/admin/fund-ledger").expect(401);
+    await request(app).get("/api/admin/fund-ledger/export").expect(401);
+    await request(app)
+      .post("/api/admin/fund-ledger/disbursements")
+      .send({ fund: "sadqah", amount: 10, recipientType: "clinic_operations", description: "Medicines" })
+      .expect(401);
+  });
+
+  it("should credit completed donations to their fund once, in the base currency", async () => {
+    const agent = await signInAsAdmin(app);
+    const before = await getBalance(agent, "interest");
+
+    const donation = await completeDonation("interest", 100, "USD", 1.5);
+    // A repeated completion, e.g. a webhook after the client confirmed, is not credited again
+    await storage.updateDonationStatus(donation.id, "completed", `pi_fund_${donation.id}`);
+
+    const after = await getBalance(agent, "interest");
+    expect(after.credits - before.credits).toBeCloseTo(150);
+
+    const ledger = await agent.get("/api/admin/fund-ledger?fund=interest").expect(200);
+    const credits = ledger.body.entries.filter((e: any) => e.donationId === donation.id);
+    expect(credits).toHaveLength(1);
+    expect(credits[0]).toMatchObject({ fund: "interest", entryType: "donation", amount: 150 });
+
+    await agent.get("/api/admin/fund-ledger?fund=general").expect(400);
+  });
+
+  it("should debit refunds from the donation's fund", async () => {
+    const agent = await signInAsAdmin(app);
+    const donation = await completeDonation("sadqah", 80);
+    const before = await getBalance(agent, "sadqah");
+
+    await applyRefund({
+      donationId: donation.id,
+      amount: 30,
+      provider: "stripe",
+      providerRefundId: `re_fund_${donation.id}`,
+      source: "admin",
+    });
+
+    const after = await getBalance(agent, "sadqah");
+    expect(after.debits - before.debits).toBeCloseTo(30);
+    expect(after.balance - before.balance).toBeCloseTo(-30);
+  });
+
+  it("should record disbursements and refuse to overdraw a fund", async () => {
+    const agent = await signInAsAdmin(app);
+    await completeDonation("zakaat", 500);
+    const { balance } = await getBalance(agent, "zakaat");
+
+    const eligible = await storage.createCase({
+      title: "Fund Ledger Eligible Case",
+      description: "A case that can receive zakat disbursements.",
+      amountRequired: 1000,
+    });
+    const ineligible = await storage.createCase({
+      title: "Fund Ledger Ineligible Case",
+      description: "A case that cannot receive zakat disbursements.",
+      amountRequired: 1000,
+      zakaatEligible: false,
+    });
+
+    await agent
+      .post("/api/admin/fund-ledger/disbursements")
+      .send({ fund: "zakaat", amount: 100, recipientType: "case", description: "Surgery" })
+      .expect(400);
+    const notEligible = await agent
+      .post("/api/admin/fund-ledger/disbursements")
+      .send({ fund: "zakaat", amount: 100, recipientType: "case", caseId: ineligible.id, description: "Surgery" })
+      .expect(400);
+    expect(notEligible.body.message).toMatch(/eligible for zakat/);
+    const overdrawn = await agent
+      .post("/api/admin/fund-ledger/disbursements")
+      .send({ fund: "zakaat", amount: balance + 1, recipientType: "case", caseId: eligible.id, description: "Surgery" })
+      .expect(400);
+    expect(overdrawn.body.message).toMatch(/only holds/);
+
+    const paid = await agent
+      .post("/api/admin/fund-ledger/disbursements")
+      .send({ fund: "zakaat", amount: 200, recipientType: "case", caseId: eligible.id, description: "Surgery", reference: "TRX-1" })
+      .expect(201);
+    expect(paid.body).toMatchObject({
+      fund: "zakaat",
+      entryType: "disbursement",
+      amount: -200,
+      caseId: eligible.id,
+      reference: "TRX-1",
+      createdBy: "admin",
+    });
+
+    const after = await getBalance(agent, "zakaat");
+    expect(after.balance).toBeCloseTo(balance - 200);
+
+    const csv = await agent.get("/api/admin/fund-ledger/export?fund=zakaat").expect(200);
+    expect(csv.headers["content-type"]).toMatch(/text\/csv/);
+    expect(csv.headers["content-disposition"]).toMatch(/aafiyaa-zakaat-fund-ledger/);
+    expect(csv.text).toContain(`,${paid.body.id},zakaat,disbursement,Surgery,`);
+  });
+
+  it("should not let two disbursements spend the same money", async () => {
+    const agent = await signInAsAdmin(app);
+    await completeDonation("interest", 100);
+    const { balance } = await getBalance(agent, "interest");
+    const amount = Math.round(balance * 60) / 100;
+
+    const disburse = () =>
+      agent
+        .post("/api/admin/fund-ledger/disbursements")
+        .send({ fund: "interest", amount, recipientType: "clinic_operations", description: "Clinic rent" });
+    const statuses = (await Promise.all([disburse(), disburse()])).map((response) => response.status).sort();
+
+    expect(statuses).toEqual([201, 400]);
+    expect((await getBalance(agent, "interest")).balance).toBeCloseTo(balance - amount);
+  });
+
+  it("should backfill donations completed before they could be credited, less earlier refunds", async () => {
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 100,
+      currency: "USD",
+      frequency: "one-off",
+      status: "pending",
+    });
+    // Without an exchange rate the donation and its refund are both left out of the ledger
+    const completed = await storage.updateDonationStatus(donation.id, "completed", `pi_fund_${donation.id}`);
+    await reverseDonationAmount(completed!, 40);
+    await storage.updateDonationExchangeRate(donation.id, { exchangeRate: 1.5, baseAmount: 150, caseExchangeRate: null });
+
+    await backfillFundLedger();
+    await backfillFundLedger();
+
+    const entries = (await storage.getFundLedgerEntries("sadqah")).filter((e) => e.donationId === donation.id);
+    expect(entries.map(({ entryType, amount }) => ({ entryType, amount }))).toEqual([
+      { entryType: "donation", amount: 150 },
+      { entryType: "reversal", amount: -60 },
+    ]);
+  });
+
+  it("should quote CSV cells and keep a running balance per fund", () => {
+    const entry = (id: number, fund: string, amount: number, description: string) => ({
+      id,
+      fund,
+      entryType: amount > 0 ? "donation" : "disbursement",
+      amount,
+      donationId: null,
+      recipientType: null,
+      caseId: null,
+      recipient: null,
+      description,
+      reference: null,
+      createdBy: null,
+      createdAt: new Date("2026-01-01T00:00:00Z"),
+    });
+
+    const lines = fundLedgerToCsv([
+      entry(1, "sadqah", 100, "Donation #1"),
+      entry(2, "zakaat", 50, "Donation #2"),
+      entry(3, "sadqah", -40, 'Rent, "March"'),
+    ]).trim().split("\r\n");
+
+    expect(lines).toHaveLength(4);
+    expect(lines[1].endsWith(",100.00,100.00")).toBe(true);
+    expect(lines[2].endsWith(",50.00,50.00")).toBe(true);
+    expect(lines[3]).toContain('"Rent, ""March"""');
+    expect(lines[3].endsWith(",-40.00,60.00")).toBe(true);
+  });
+});
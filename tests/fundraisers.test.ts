@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createHash } from "crypto";
+import { storage } from "../server/storage";
+import { reverseDonationAmount } from "../server/refunds";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+describe("Fundraisers", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const signInAsDonor = async () => {
+    const user = await storage.createUser({
+      username: `fundraiser-${Date.now()}-${Math.random()}`,
+      password: "unused",
+      email: `fundraiser-${Date.now()}@example.com`,
+    });
+    const token = `token-${Date.now()}-${Math.random()}`;
+    await storage.createDonorLoginToken({ userId: user.id, tokenHash: hashToken(token), expiresAt: new Date(Date.now() + 60_000) });
+
+    const agent = request.agent(app);
+    await agent.post("/api/donor/verify-login").send({ token }).expect(200);
+    return { agent, user };
+  };
+
+  const fundraiserRequest = (overrides: Record<string, unknown> = {}) => ({
+    ownerName: "Sara Ahmed",
+    title: "Sara's 30th Birthday!",
+    story: "Instead of presents this year, I'm raising money for surgery.",
+    goalAmount: 500,
+    ...overrides,
+  });
+
+  const donateThrough = async (fundraiserId: number, amount: number, firstName: string, anonymous = false) => {
+    const response = await request(app)
+      .post("/api/donations")
+      .send({ type: "sadqah", amount, currency: "AUD", frequency: "one-off", status: "pending", fundraiserId, anonymous })
+      .expect(201);
+    await storage.updateDonationStatus(response.body.id, "completed", `pi_fundraiser_${response.body.id}`);
+    return (await storage.updateDonationDonor(response.body.id, `${firstName} Khan`, "supporter@example.com", firstName, "Khan"))!;
+  };
+
+  it("should let signed-in supporters start fundraisers that wait for review", async () => {
+    await request(app).post("/api/fundraisers").send(fundraiserRequest()).expect(401);
+
+    const { agent, user } = await signInAsDonor();
+    await agent.post("/api/fundraisers").send(fundraiserRequest({ story: "Too short" })).expect(400);
+    const missingCase = await agent.post("/api/fundraisers").send(fundraiserRequest({ caseId: 999999 })).expect(400);
+    expect(missingCase.body.message).toBe("Case not found");
+
+    const created = await agent.post("/api/fundraisers").send(fundraiserRequest()).expect(201);
+    expect(created.body).toMatchObject({ ownerUserId: user.id, status: "pending_review", caseId: null });
+    expect(created.body.slug).toMatch(/^sara-s-30th-birthday-[0-9a-f]{6}$/);
+
+    // Nobody can see or give to it until it is approved
+    await request(app).get(`/api/fundraisers/${created.body.slug}`).expect(404);
+    const refused = await request(app)
+      .post("/api/donations")
+      .send({ type: "sadqah", amount: 10, currency: "AUD", frequency: "one-off", status: "pending", fundraiserId: created.body.id })
+      .expect(400);
+    expect(refused.body.message).toBe("This fundraiser is not taking donations");
+
+    const mine = await agent.get("/api/donor/fundraisers").expect(200);
+    expect(mine.body).toEqual([expect.objectContaining({ id: created.body.id, raisedAmount: 0, supporterCount: 0 })]);
+  });
+
+  it("should only let admins approve or reject fundraisers", async () => {
+    const { agent: owner } = await signInAsDonor();
+    const created = await owner.post("/api/fundraisers").send(fundraiserRequest()).expect(201);
+
+    await request(app).get("/api/admin/fundraisers").expect(401);
+    await request(app).post(`/api/admin/fundraisers/${created.body.id}/moderate`).send({ action: "approve" }).expect(401);
+
+    const admin = await signInAsAdmin(app);
+    const pending = await admin.get("/api/admin/fundraisers").query({ status: "pending_review" }).expect(200);
+    expect(pending.body.map((f: any) => f.id)).toContain(created.body.id);
+    await admin.get("/api/admin/fundraisers").query({ status: "archived" }).expect(400);
+
+    // A rejection needs a reason for the owner
+    await admin.post(`/api/admin/fundraisers/${created.body.id}/moderate`).send({ action: "reject" }).expect(400);
+    const rejected = await admin
+      .post(`/api/admin/fundraisers/${created.body.id}/moderate`)
+      .send({ action: "reject", note: "Please tell supporters which case this is for" })
+      .expect(200);
+    expect(rejected.body).toMatchObject({ status: "rejected", moderatedBy: "admin" });
+    await request(app).get(`/api/fundraisers/${created.body.slug}`).expect(404);
+
+    const approved = await admin.post(`/api/admin/fundraisers/${created.body.id}/moderate`).send({ action: "approve" }).expect(200);
+    expect(approved.body).toMatchObject({ status: "approved", moderationNote: null });
+    await request(app).get(`/api/fundraisers/${created.body.slug}`).expect(200);
+    await admin.post("/api/admin/fundraisers/999999/moderate").send({ action: "approve" }).expect(404);
+  });
+
+  it("should attribute donations to the fundraiser and roll them up into its case", async () => {
+    const caseItem = await storage.createCase({
+      title: "Fundraiser Test Case",
+      description: "A case used to check supporter fundraisers.",
+      amountRequired: 5000,
+    });
+    const { agent: owner } = await signInAsDonor();
+    const created = await owner.post("/api/fundraisers").send(fundraiserRequest({ caseId: caseItem.id })).expect(201);
+    const admin = await signInAsAdmin(app);
+    await admin.post(`/api/admin/fundraisers/${created.body.id}/moderate`).send({ action: "approve" }).expect(200);
+
+    const first = await donateThrough(created.body.id, 40, "Omar");
+    const second = await donateThrough(created.body.id, 60, "Aisha");
+    expect(first).toMatchObject({ fundraiserId: created.body.id, caseId: caseItem.id });
+    expect((await storage.getCase(caseItem.id))!.amountCollected).toBe(100);
+
+    // Unpaid and fully refunded donations don't count
+    await request(app)
+      .post("/api/donations")
+      .send({ type: "sadqah", amount: 500, currency: "AUD", frequency: "one-off", status: "pending", fundraiserId: created.body.id })
+      .expect(201);
+    await reverseDonationAmount(first, 40);
+
+    const page = await request(app).get(`/api/fundraisers/${created.body.slug}`).expect(200);
+    expect(page.body).toMatchObject({
+      title: "Sara's 30th Birthday!",
+      ownerName: "Sara Ahmed",
+      goalAmount: 500,
+      raisedAmount: 60,
+      acceptingDonations: true,
+      case: { id: caseItem.id, title: "Fundraiser Test Case" },
+    });
+    // Supporters are listed by first name only
+    expect(page.body.supporters).toEqual([expect.objectContaining({ name: "Aisha", amount: 60 })]);
+    expect(page.body.ownerUserId).toBeUndefined();
+    expect(second.caseId).toBe(caseItem.id);
+
+    const mine = await owner.get("/api/donor/fundraisers").expect(200);
+    expect(mine.body[0]).toMatchObject({ raisedAmount: 60, supporterCount: 1, status: "approved" });
+  });
+
+  it("should keep clinic fundraisers out of zakat and leave anonymous supporters unnamed", async () => {
+    const { agent: owner } = await signInAsDonor();
+    const created = await owner.post("/api/fundraisers").send(fundraiserRequest()).expect(201);
+    const admin = await signInAsAdmin(app);
+    await admin.post(`/api/admin/fundraisers/${created.body.id}/moderate`).send({ action: "approve" }).expect(200);
+
+    // Zakat would otherwise be moved to whichever case is most deserving
+    const zakat = await request(app)
+      .post("/api/donations")
+      .send({ type: "zakaat", amount: 100, currency: "AUD", frequency: "one-off", status: "pending", fundraiserId: created.body.id })
+      .expect(400);
+    expect(zakat.body.message).toMatch(/can't take zakat/);
+
+    const named = await donateThrough(created.body.id, 30, "Omar");
+    const hidden = await donateThrough(created.body.id, 20, "Aisha", true);
+    expect(named).toMatchObject({ caseId: null, anonymous: false });
+    expect(hidden).toMatchObject({ caseId: null, anonymous: true });
+
+    const page = await request(app).get(`/api/fundraisers/${created.body.slug}`).expect(200);
+    expect(page.body.supporters.map((s: any) => [s.name, s.amount]).sort()).toEqual([["Anonymous", 20], ["Omar", 30]]);
+  });
+});
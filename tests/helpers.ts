@@ -0,0 +1,36 @@
+import request from "supertest";
+import express, { type Express } from "express";
+import session from "express-session";
+import { registerRoutes } from "../server/routes";
+import { storage } from "../server/storage";
+import type { InsertCase } from "@shared/schema";
+
+// An app with the API routes and sessions, as the server sets them up
+export const createTestApp = async (): Promise<Express> => {
+  const app = express();
+  app.use(express.json());
+  app.use(
+    session({
+      secret: "test-secret",
+      resave: false,
+      saveUninitialized: false,
+    })
+  );
+  await registerRoutes(app);
+  return app;
+};
+
+// An agent that keeps the admin's session cookie between requests
+export const signInAsAdmin = async (app: Express) => {
+  const agent = request.agent(app);
+  await agent.post("/api/admin/login").send({ username: "admin", password: "admin123" }).expect(200);
+  return agent;
+};
+
+export const createTestCase = (overrides: Partial<InsertCase> = {}) =>
+  storage.createCase({
+    title: "Test Case",
+    description: "A case used in tests.",
+    amountRequired: 1000,
+    ...overrides,
+  });
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { reverseDonationAmount } from "../server/refunds";
+import { createTestApp, signInAsAdmin, createTestCase } from "./helpers";
+
+describe("Matched Giving", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+  // Pledges are limited to a case of their own so donations made by other tests aren't matched
+  const createCase = () =>
+    createTestCase({ amountRequired: 10000, zakaatEligible: true });
+
+  const createPledge = async (agent: request.Agent, pledge: Record<string, unknown>) => {
+    const response = await agent
+      .post("/api/admin/match-pledges")
+      .send({ sponsorName: "Ramadan Sponsor", ratio: 1, startsAt: hoursFromNow(-1), endsAt: hoursFromNow(24), ...pledge })
+      .expect(201);
+    return response.body;
+  };
+
+  const completeDonation = async (caseId: number, amount: number, type = "zakaat") => {
+    const donation = await storage.createDonation({
+      type,
+      amount,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+      caseId,
+    });
+    return (await storage.updateDonationStatus(donation.id, "completed", `pi_match_${donation.id}`))!;
+  };
+
+  const getSummary = async (agent: request.Agent, pledgeId: number) => {
+    const response = await agent.get("/api/admin/match-pledges").expect(200);
+    return response.body.pledges.find((p: any) => p.id === pledgeId);
+  };
+
+  it("should only let admins create valid pledges", async () => {
+    const pledge = { sponsorName: "Sponsor", ratio: 1, capAmount: 100, startsAt: hoursFromNow(0), endsAt: hoursFromNow(1) };
+    await request(app).get("/api/admin/match-pledges").expect(401);
+    await request(app).post("/api/admin/match-pledges").send(pledge).expect(401);
+
+    const agent = await signInAsAdmin(app);
+    const backwards = await agent
+      .post("/api/admin/match-pledges")
+      .send({ ...pledge, startsAt: hoursFromNow(1), endsAt: hoursFromNow(0) })
+      .expect(400);
+    expect(backwards.body.message).toMatch(/must end after it starts/);
+    await agent.post("/api/admin/match-pledges").send({ ...pledge, ratio: 0 }).expect(400);
+    const missingCase = await agent.post("/api/admin/match-pledges").send({ ...pledge, caseId: 999999 }).expect(400);
+    expect(missingCase.body.message).toBe("Case not found");
+  });
+
+  it("should match completed donations until the cap is used up", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const pledge = await createPledge(agent, { capAmount: 250, caseId: caseItem.id });
+    expect(pledge).toMatchObject({ sponsorName: "Ramadan Sponsor", createdBy: "admin" });
+
+    const pending = await storage.createDonation({ type: "zakaat", amount: 40, currency: "AUD", frequency: "one-off", status: "pending", caseId: caseItem.id });
+    expect(await storage.getMatchContributions({ donationId: pending.id })).toHaveLength(0);
+
+    const first = await completeDonation(caseItem.id, 100);
+    // A donation is only matched once by each pledge
+    expect(await storage.matchDonation(first)).toHaveLength(0);
+    const second = await completeDonation(caseItem.id, 100);
+    const third = await completeDonation(caseItem.id, 100);
+    const fourth = await completeDonation(caseItem.id, 100);
+
+    const matched = async (donationId: number) =>
+      (await storage.getMatchContributions({ donationId })).reduce((sum, c) => sum + c.amount, 0);
+    expect(await matched(first.id)).toBe(100);
+    expect(await matched(second.id)).toBe(100);
+    expect(await matched(third.id)).toBe(50);
+    expect(await matched(fourth.id)).toBe(0);
+
+    expect(await getSummary(agent, pledge.id)).toMatchObject({
+      matchedAmount: 250,
+      remainingAmount: 0,
+      matchedDonations: 3,
+      live: true,
+    });
+
+    // The sponsor pays the match separately, so it isn't added to the case total
+    expect((await storage.getCase(caseItem.id))!.amountCollected).toBe(400);
+  });
+
+  it("should not let two donations matched at once both take what is left of the cap", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const pledge = await createPledge(agent, { capAmount: 150, caseId: caseItem.id });
+
+    const donate = () =>
+      storage.createDonation({ type: "zakaat", amount: 100, currency: "AUD", frequency: "one-off", status: "completed", caseId: caseItem.id });
+    const [first, second] = await Promise.all([donate(), donate()]);
+    await Promise.all([storage.matchDonation(first), storage.matchDonation(second)]);
+
+    expect(await getSummary(agent, pledge.id)).toMatchObject({ matchedAmount: 150, remainingAmount: 0 });
+  });
+
+  it("should not let a donation request mark itself paid", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const pledge = await createPledge(agent, { capAmount: 1000, caseId: caseItem.id });
+
+    const response = await request(app)
+      .post("/api/donations")
+      .send({
+        type: "zakaat",
+        amount: 900,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "completed",
+        caseId: caseItem.id,
+        feeAmount: 50,
+        refundedAmount: -100,
+        parentDonationId: 1,
+        stripeInvoiceId: "in_forged",
+        stripePaymentId: "pi_forged",
+      })
+      .expect(201);
+    expect(response.body).toMatchObject({
+      status: "pending",
+      feeAmount: 0,
+      refundedAmount: 0,
+      parentDonationId: null,
+      stripeInvoiceId: null,
+      stripePaymentId: null,
+    });
+
+    expect(await storage.getMatchContributions({ donationId: response.body.id })).toHaveLength(0);
+    expect((await getSummary(agent, pledge.id)).matchedAmount).toBe(0);
+    expect((await storage.getCase(caseItem.id))!.amountCollected).toBe(0);
+  });
+
+  it("should only match donations in the pledge's dates, case and type, and stack pledges", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const otherCase = await createCase();
+    const doubler = await createPledge(agent, { capAmount: 1000, caseId: caseItem.id });
+    const zakatOnly = await createPledge(agent, { sponsorName: "Zakat Sponsor", ratio: 0.5, capAmount: 1000, caseId: caseItem.id, donationType: "zakaat" });
+    const ended = await createPledge(agent, { capAmount: 1000, caseId: caseItem.id, startsAt: hoursFromNow(-48), endsAt: hoursFromNow(-24) });
+    const scheduled = await createPledge(agent, { capAmount: 1000, caseId: caseItem.id, startsAt: hoursFromNow(24), endsAt: hoursFromNow(48) });
+
+    const zakat = await completeDonation(caseItem.id, 80);
+    const sadqah = await completeDonation(caseItem.id, 60, "sadqah");
+    const elsewhere = await completeDonation(otherCase.id, 70);
+
+    const byPledge = async (donationId: number) =>
+      Object.fromEntries((await storage.getMatchContributions({ donationId })).map(c => [c.pledgeId, c.amount]));
+    expect(await byPledge(zakat.id)).toEqual({ [doubler.id]: 80, [zakatOnly.id]: 40 });
+    expect(await byPledge(sadqah.id)).toEqual({ [doubler.id]: 60 });
+    expect(await byPledge(elsewhere.id)).toEqual({});
+
+    expect((await getSummary(agent, ended.id)).live).toBe(false);
+    expect((await getSummary(agent, scheduled.id)).matchedAmount).toBe(0);
+  });
+
+  it("should take back the refunded share of a match and free the cap again", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const pledge = await createPledge(agent, { ratio: 2, capAmount: 300, caseId: caseItem.id });
+
+    const donation = await completeDonation(caseItem.id, 100);
+    expect((await getSummary(agent, pledge.id)).remainingAmount).toBe(100);
+
+    const { donation: partlyRefunded } = await reverseDonationAmount(donation, 25);
+    expect((await getSummary(agent, pledge.id)).matchedAmount).toBe(150);
+
+    await reverseDonationAmount(partlyRefunded, 75);
+    const contributions = await storage.getMatchContributions({ donationId: donation.id });
+    expect(contributions.map(c => [c.entryType, c.amount])).toEqual([
+      ["match", 200],
+      ["reversal", -50],
+      ["reversal", -150],
+    ]);
+    expect(await getSummary(agent, pledge.id)).toMatchObject({ matchedAmount: 0, remainingAmount: 300 });
+  });
+
+  it("should tell donors about live matches until the cap is used up", async () => {
+    const agent = await signInAsAdmin(app);
+    const caseItem = await createCase();
+    const pledge = await createPledge(agent, { capAmount: 50, caseId: caseItem.id, donationType: "zakaat" });
+
+    const live = await request(app).get("/api/match-pledges/live").query({ type: "zakaat", caseId: caseItem.id }).expect(200);
+    expect(live.body).toEqual([
+      expect.objectContaining({ id: pledge.id, sponsorName: "Ramadan Sponsor", ratio: 1, remainingAmount: 50 }),
+    ]);
+    expect(live.body[0].capAmount).toBeUndefined();
+
+    // A pledge for one case isn't shown for gifts of another type or without that case
+    const sadqah = await request(app).get("/api/match-pledges/live").query({ type: "sadqah", caseId: caseItem.id }).expect(200);
+    expect(sadqah.body.map((p: any) => p.id)).not.toContain(pledge.id);
+    const general = await request(app).get("/api/match-pledges/live").query({ type: "zakaat" }).expect(200);
+    expect(general.body.map((p: any) => p.id)).not.toContain(pledge.id);
+
+    await completeDonation(caseItem.id, 50);
+    const usedUp = await request(app).get("/api/match-pledges/live").query({ type: "zakaat", caseId: caseItem.id }).expect(200);
+    expect(usedUp.body.map((p: any) => p.id)).not.toContain(pledge.id);
+
+    await request(app).get("/api/match-pledges/live").query({ type: "holidays" }).expect(400);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  DONATION_CURRENCIES,
+  fromMinorUnits,
+  getCurrencyExponent,
+  isDonationCurrency,
+  roundToMinorUnit,
+  toDecimalString,
+  toMinorUnits,
+} from "@shared/money";
+
+describe("Money", () => {
+  it("should use the ISO 4217 exponent for each currency", () => {
+    expect(getCurrencyExponent("aud")).toBe(2);
+    expect(getCurrencyExponent("JPY")).toBe(0);
+    expect(getCurrencyExponent("KRW")).toBe(0);
+    expect(getCurrencyExponent("CLP")).toBe(0);
+    expect(getCurrencyExponent("KWD")).toBe(3);
+  });
+
+  it("should convert display amounts to provider minor units", () => {
+    expect(toMinorUnits(10.5, "usd", "stripe")).toBe(1050);
+    expect(toMinorUnits(5000, "jpy", "stripe")).toBe(5000);
+    expect(toMinorUnits(12.345, "KWD", "stripe")).toBe(12345);
+    expect(toMinorUnits(19.99, "AUD", "stripe")).toBe(1999);
+  });
+
+  it("should convert provider minor units back to display amounts", () => {
+    expect(fromMinorUnits(1050, "usd", "stripe")).toBe(10.5);
+    expect(fromMinorUnits(5000, "krw", "stripe")).toBe(5000);
+    expect(fromMinorUnits(12345, "bhd", "stripe")).toBe(12.345);
+  });
+
+  it("should round and format amounts to the currency's smallest unit", () => {
+    expect(roundToMinorUnit(103.456, "AUD")).toBe(103.46);
+    expect(roundToMinorUnit(3529.6, "JPY")).toBe(3530);
+    expect(toDecimalString(3530, "JPY")).toBe("3530");
+    expect(toDecimalString(12.5, "EUR")).toBe("12.50");
+    expect(toDecimalString(1.2, "OMR")).toBe("1.200");
+  });
+
+  it("should use each provider's exponents where they differ from ISO 4217", () => {
+    // Stripe takes ISK in hundredths, and only whole krónur can be charged
+    expect(getCurrencyExponent("ISK")).toBe(0);
+    expect(getCurrencyExponent("ISK", "stripe")).toBe(2);
+    expect(toMinorUnits(1500, "ISK", "stripe")).toBe(150000);
+    expect(toMinorUnits(1500.4, "isk", "stripe")).toBe(150000);
+    expect(fromMinorUnits(150000, "ISK", "stripe")).toBe(1500);
+    expect(toMinorUnits(1500.25, "HUF", "stripe")).toBe(150025);
+
+    // PayPal takes no decimals for HUF, TWD or JPY
+    expect(toDecimalString(1500.4, "HUF", "paypal")).toBe("1500");
+    expect(toDecimalString(299.5, "TWD", "paypal")).toBe("300");
+    expect(toDecimalString(3529.6, "JPY", "paypal")).toBe("3530");
+    expect(toDecimalString(1500.4, "HUF")).toBe("1500.40");
+    expect(toDecimalString(12.5, "EUR", "paypal")).toBe("12.50");
+  });
+
+  it("should only take donations in the currencies offered at checkout", () => {
+    for (const currency of ["AUD", "jpy", "KRW", "IDR", "CLP", "ISK", "HUF", "TWD"]) {
+      expect(isDonationCurrency(currency)).toBe(true);
+    }
+    expect(isDonationCurrency("XYZ")).toBe(false);
+    expect(DONATION_CURRENCIES).toContain("PKR");
+  });
+});
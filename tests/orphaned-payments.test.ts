@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { handlePaymentIntentSucceeded } from "../server/webhook-handlers";
+import { createMockPaymentIntent } from "./setup";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Orphaned Payments", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const createOrphanedPayment = (amount: number) =>
+    storage.createOrphanedPayment({
+      paymentIntentId: `pi_test_orphan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      amount,
+      currency: "AUD",
+      stripeCreatedAt: new Date(),
+    });
+
+  it("should queue an unmatched payment once", async () => {
+    const paymentIntent = createMockPaymentIntent({
+      id: `pi_test_unmatched_${Date.now()}`,
+      amount: 4321,
+      created: 0,
+    });
+
+    await handlePaymentIntentSucceeded(paymentIntent);
+    await handlePaymentIntentSucceeded(paymentIntent);
+
+    const queued = await storage.getOrphanedPaymentByPaymentIntentId(paymentIntent.id);
+    expect(queued?.amount).toBe(43.21);
+    expect(queued?.status).toBe("unresolved");
+
+    const all = await storage.getOrphanedPayments();
+    expect(all.filter((p) => p.paymentIntentId === paymentIntent.id)).toHaveLength(1);
+  });
+
+  it("should suggest unpaid donations with the same amount and currency", async () => {
+    const payment = await createOrphanedPayment(57.5);
+    const match = await storage.createDonation({
+      type: "sadqah",
+      amount: 57.5,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "processing",
+    });
+    const otherCurrency = await storage.createDonation({
+      type: "sadqah",
+      amount: 57.5,
+      currency: "USD",
+      frequency: "one-off",
+      status: "processing",
+    });
+
+    const agent = await signInAsAdmin(app);
+    const response = await agent.get("/api/admin/orphaned-payments?status=unresolved").expect(200);
+
+    const queued = response.body.find((p: any) => p.id === payment.id);
+    const suggestedIds = queued.suggestedMatches.map((d: any) => d.id);
+    expect(suggestedIds).toContain(match.id);
+    expect(suggestedIds).not.toContain(otherCurrency.id);
+  });
+
+  it("should complete a linked donation and update the case total", async () => {
+    const testCase = await storage.createCase({
+      title: "Orphaned Payment Test Case",
+      description: "Case used to check linking orphaned payments to donations.",
+      amountRequired: 1000,
+      active: true,
+    });
+    const payment = await createOrphanedPayment(64);
+    const donation = await storage.createDonation({
+      type: "zakaat",
+      amount: 64,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "processing",
+      caseId: testCase.id,
+    });
+
+    const agent = await signInAsAdmin(app);
+    const response = await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "link", donationId: donation.id })
+      .expect(200);
+
+    expect(response.body.payment.status).toBe("resolved");
+    expect(response.body.payment.resolvedDonationId).toBe(donation.id);
+    expect(response.body.payment.resolvedBy).toBe("admin");
+
+    const updated = await storage.getDonation(donation.id);
+    expect(updated?.status).toBe("completed");
+    expect(updated?.stripePaymentId).toBe(payment.paymentIntentId);
+
+    const updatedCase = await storage.getCase(testCase.id);
+    expect(updatedCase?.amountCollected).toBe(64);
+
+    await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "ignore", notes: "Duplicate" })
+      .expect(409);
+
+    await storage.deleteCase(testCase.id);
+  });
+
+  it("should match and complete a donation whose donor covered the fee", async () => {
+    const testCase = await storage.createCase({
+      title: "Covered Fee Orphan Case",
+      description: "Case used to check linking payments that include a covered fee.",
+      amountRequired: 1000,
+    });
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 100,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "processing",
+      caseId: testCase.id,
+    });
+    await storage.updateDonationFee(donation.id, 2.05);
+    const payment = await createOrphanedPayment(102.05);
+
+    const agent = await signInAsAdmin(app);
+    const list = await agent.get("/api/admin/orphaned-payments?status=unresolved").expect(200);
+    const queued = list.body.find((p: any) => p.id === payment.id);
+    expect(queued.suggestedMatches.map((d: any) => d.id)).toContain(donation.id);
+
+    await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "link", donationId: donation.id })
+      .expect(200);
+
+    // The gift stays what the donor gave, and only the gift is credited to the case
+    const updated = await storage.getDonation(donation.id);
+    expect(updated?.amount).toBe(100);
+    expect(updated?.feeAmount).toBe(2.05);
+    expect((await storage.getCase(testCase.id))?.amountCollected).toBe(100);
+
+    await storage.deleteCase(testCase.id);
+  });
+
+  it("should not link a payment to a donation in another currency or to zakat for an ineligible case", async () => {
+    const ineligibleCase = await storage.createCase({
+      title: "Sadqah Only Link Case",
+      description: "A case that can't take zakat.",
+      amountRequired: 500,
+      zakaatEligible: false,
+    });
+    const otherCurrency = await storage.createDonation({
+      type: "sadqah",
+      amount: 20,
+      currency: "USD",
+      frequency: "one-off",
+      status: "processing",
+    });
+    const zakat = await storage.createDonation({
+      type: "zakaat",
+      amount: 20,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "processing",
+      caseId: ineligibleCase.id,
+    });
+    const payment = await createOrphanedPayment(20);
+    const agent = await signInAsAdmin(app);
+
+    const currencyMismatch = await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "link", donationId: otherCurrency.id })
+      .expect(400);
+    expect(currencyMismatch.body.message).toContain("is in USD");
+
+    const ineligible = await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "link", donationId: zakat.id })
+      .expect(400);
+    expect(ineligible.body.message).toContain("not eligible for zakat");
+
+    expect((await storage.getOrphanedPayment(payment.id))?.status).toBe("unresolved");
+    expect((await storage.getDonation(zakat.id))?.status).toBe("processing");
+
+    await storage.deleteCase(ineligibleCase.id);
+  });
+
+  it("should record a payment as a new donation", async () => {
+    const payment = await createOrphanedPayment(12.34);
+
+    const agent = await signInAsAdmin(app);
+    const response = await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "create", type: "sadqah" })
+      .expect(200);
+
+    expect(response.body.donation.amount).toBe(12.34);
+    expect(response.body.donation.status).toBe("completed");
+    expect(response.body.payment.resolvedDonationId).toBe(response.body.donation.id);
+  });
+
+  it("should only record zakat against an eligible case that is still open", async () => {
+    const ineligibleCase = await storage.createCase({
+      title: "Sadqah Only Case",
+      description: "A case that can't take zakat.",
+      amountRequired: 500,
+      zakaatEligible: false,
+    });
+    const closedCase = await storage.createCase({
+      title: "Closed Zakat Case",
+      description: "A zakat case that has closed.",
+      amountRequired: 500,
+      zakaatEligible: true,
+    });
+    await storage.updateCase(closedCase.id, { status: "closed" });
+    const payment = await createOrphanedPayment(15);
+    const agent = await signInAsAdmin(app);
+
+    const ineligible = await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "create", type: "zakaat", caseId: ineligibleCase.id })
+      .expect(400);
+    expect(ineligible.body.message).toContain("not eligible for zakat");
+
+    await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "create", type: "zakaat", caseId: closedCase.id })
+      .expect(400);
+    expect((await storage.getOrphanedPayment(payment.id))?.status).toBe("unresolved");
+
+    await storage.deleteCase(ineligibleCase.id);
+    await storage.deleteCase(closedCase.id);
+  });
+
+  it("should require a note to ignore a payment", async () => {
+    const payment = await createOrphanedPayment(8);
+    const agent = await signInAsAdmin(app);
+
+    await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "ignore", notes: "" })
+      .expect(400);
+
+    const response = await agent
+      .post(`/api/admin/orphaned-payments/${payment.id}/resolve`)
+      .send({ action: "ignore", notes: "Test payment made by staff" })
+      .expect(200);
+
+    expect(response.body.payment.status).toBe("ignored");
+    expect(response.body.payment.notes).toBe("Test payment made by staff");
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+
+// What each provider was asked to charge
+const stripeCharges: Array<{ amount: number; currency: string }> = [];
+const paypalOrders: Array<{ value: string; currency_code: string }> = [];
+const stripePrices: Array<{ unit_amount: number; currency: string }> = [];
+
+class FakeStripe {
+  paymentIntents = {
+    create: async (params: { amount: number; currency: string }) => {
+      stripeCharges.push({ amount: params.amount, currency: params.currency });
+      const id = `pi_currency_${stripeCharges.length}`;
+      return { id, client_secret: `${id}_secret`, status: "requires_payment_method", metadata: {} };
+    },
+    retrieve: async () => {
+      throw new Error("No such payment intent");
+    },
+  };
+  customers = {
+    create: async () => ({ id: "cus_currency" }),
+  };
+  prices = {
+    create: async (params: { unit_amount: number; currency: string }) => {
+      stripePrices.push({ unit_amount: params.unit_amount, currency: params.currency });
+      return { id: `price_currency_${stripePrices.length}` };
+    },
+  };
+  subscriptions = {
+    create: async () => ({ id: `sub_currency_${stripePrices.length}`, status: "incomplete", latest_invoice: "in_currency" }),
+  };
+  invoices = {
+    retrieve: async () => ({ id: "in_currency", payment_intent: "pi_subscription" }),
+  };
+}
+
+const fakePayPal = async (url: string, init?: { body?: string }) => {
+  if (url.endsWith("/v1/oauth2/token")) {
+    return new Response(JSON.stringify({ access_token: "paypal-test-token" }));
+  }
+  const order = JSON.parse(init?.body ?? "{}");
+  paypalOrders.push(order.purchase_units[0].amount);
+  return new Response(JSON.stringify({ id: `ORDER-${paypalOrders.length}`, status: "CREATED" }));
+};
+
+// Stripe and PayPal are only set up when their keys are present as the routes load, so the routes
+// are loaded afresh with test keys and fake providers, and put back for the test files that follow
+describe("Charging donations in each currency", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    process.env.STRIPE_SECRET_KEY = "sk_test_currencies";
+    process.env.PAYPAL_CLIENT_ID = "paypal-test-client";
+    process.env.PAYPAL_SECRET_KEY = "paypal-test-secret";
+    vi.resetModules();
+    vi.doMock("stripe", () => ({ default: FakeStripe }));
+    vi.doMock("node-fetch", () => ({ default: fakePayPal }));
+
+    const { registerRoutes } = await import("../server/routes");
+    app = express();
+    app.use(express.json());
+    await registerRoutes(app);
+  });
+
+  afterAll(() => {
+    delete process.env.STRIPE_SECRET_KEY;
+    delete process.env.PAYPAL_CLIENT_ID;
+    delete process.env.PAYPAL_SECRET_KEY;
+    vi.doUnmock("stripe");
+    vi.doUnmock("node-fetch");
+    vi.resetModules();
+  });
+
+  beforeEach(() => {
+    stripeCharges.length = 0;
+    paypalOrders.length = 0;
+    stripePrices.length = 0;
+  });
+
+  const createDonation = async (amount: number, currency: string) => {
+    const response = await request(app)
+      .post("/api/donations")
+      .send({ type: "sadqah", amount, currency, frequency: "one-off", status: "pending" })
+      .expect(201);
+    return response.body;
+  };
+
+  it("should accept every currency donors are offered at checkout", async () => {
+    for (const currency of ["JPY", "KRW", "IDR", "CLP"]) {
+      const donation = await createDonation(1000, currency);
+      await request(app)
+        .post("/api/create-payment-intent")
+        .send({ amount: 1000, currency, donationId: donation.id, coverFees: false })
+        .expect(200);
+    }
+    expect(stripeCharges).toEqual([
+      { amount: 1000, currency: "jpy" },
+      { amount: 1000, currency: "krw" },
+      { amount: 100000, currency: "idr" },
+      { amount: 1000, currency: "clp" },
+    ]);
+
+    const unsupported = await request(app)
+      .post("/api/create-payment-intent")
+      .send({ amount: 1000, currency: "XYZ", donationId: 1 })
+      .expect(400);
+    expect(unsupported.body.message).toBe("Currency XYZ is not supported");
+    await request(app).post("/api/paypal/create-order").send({ amount: 1000, currency: "XYZ" }).expect(400);
+  });
+
+  it("should send Stripe amounts in the minor units it expects", async () => {
+    for (const currency of ["ISK", "HUF", "TWD"]) {
+      const donation = await createDonation(1500, currency);
+      await request(app)
+        .post("/api/create-payment-intent")
+        .send({ amount: 1500, currency, donationId: donation.id, coverFees: false })
+        .expect(200);
+    }
+    // Stripe takes ISK in hundredths though it has no minor unit
+    expect(stripeCharges).toEqual([
+      { amount: 150000, currency: "isk" },
+      { amount: 150000, currency: "huf" },
+      { amount: 150000, currency: "twd" },
+    ]);
+  });
+
+  it("should send PayPal amounts with the decimals it accepts", async () => {
+    for (const currency of ["ISK", "HUF", "TWD"]) {
+      const donation = await createDonation(1500, currency);
+      await request(app)
+        .post("/api/paypal/create-order")
+        .send({ amount: 1500, currency, donationId: donation.id, coverFees: false })
+        .expect(200);
+    }
+    // PayPal doesn't take decimals for HUF or TWD, though they have them
+    expect(paypalOrders).toEqual([
+      { value: "1500", currency_code: "ISK" },
+      { value: "1500", currency_code: "HUF" },
+      { value: "1500", currency_code: "TWD" },
+    ]);
+  });
+
+  it("should charge recurring donations the donation's own total", async () => {
+    const donation = await createDonation(50, "AUD");
+    const subscription = (amount: number, currency: string, coverFees: boolean) =>
+      request(app)
+        .post("/api/create-subscription")
+        .send({ donationId: donation.id, amount, currency, coverFees, email: "recurring@example.com", paymentMethodId: "pm_card" });
+
+    const unsupported = await subscription(50, "XYZ", false).expect(400);
+    expect(unsupported.body.message).toBe("Currency XYZ is not supported");
+    const otherCurrency = await subscription(50, "USD", false).expect(400);
+    expect(otherCurrency.body.message).toBe("Currency USD does not match the donation");
+    const tooLittle = await subscription(1, "AUD", false).expect(400);
+    expect(tooLittle.body.message).toBe("Amount does not match the donation total");
+    expect(stripePrices).toEqual([]);
+
+    // A donor covering the fee is charged the gift and the fee each time
+    const { body: quote } = await request(app).get("/api/fees/quote?amount=50&currency=AUD&paymentMethod=stripe").expect(200);
+    await subscription(quote.totalWithFee, "AUD", true).expect(200);
+    expect(stripePrices).toEqual([{ unit_amount: Math.round(quote.totalWithFee * 100), currency: "aud" }]);
+  });
+});
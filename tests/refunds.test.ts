@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { applyRefund } from "../server/refunds";
+import { createMockWebhookEvent } from "./setup";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Refunds", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const createCompletedDonation = async (caseId: number | null = null) => {
+    const paymentIntentId = `pi_test_refund_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 100,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+      caseId,
+    });
+    await storage.updateDonationStatus(donation.id, "completed", paymentIntentId);
+    const receipt = await storage.createReceipt({
+      donationId: donation.id,
+      receiptNumber: `AAF-TEST-${donation.id}-${Date.now()}`,
+      amount: 100,
+      currency: "AUD",
+      donationType: "sadqah",
+      status: "sent",
+    });
+    return { donation, paymentIntentId, receipt };
+  };
+
+  describe("POST /api/admin/donations/:id/refund", () => {
+    it("should require an admin session", async () => {
+      await request(app).post("/api/admin/donations/1/refund").send({}).expect(401);
+    });
+
+    it("should not refund more than is left on the donation", async () => {
+      const { donation } = await createCompletedDonation();
+      const agent = await signInAsAdmin(app);
+
+      const response = await agent
+        .post(`/api/admin/donations/${donation.id}/refund`)
+        .send({ amount: 150 })
+        .expect(400);
+
+      expect(response.body.message).toContain("100.00");
+    });
+
+    it("should not refund a donation that was never paid", async () => {
+      const donation = await storage.createDonation({
+        type: "sadqah",
+        amount: 10,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "pending",
+      });
+      const agent = await signInAsAdmin(app);
+
+      await agent.post(`/api/admin/donations/${donation.id}/refund`).send({}).expect(409);
+    });
+  });
+
+  describe("charge.refunded webhook", () => {
+    it("should apply a partial refund once and reverse the case total", async () => {
+      const testCase = await storage.createCase({
+        title: "Refund Test Case",
+        description: "Case used to check refunds are taken off the case total.",
+        amountRequired: 1000,
+        active: true,
+      });
+      const { donation, paymentIntentId, receipt } = await createCompletedDonation(testCase.id);
+      const stored = await storage.createWebhookEvent({
+        eventType: "charge.refunded",
+        paymentIntentId,
+        status: "processed",
+        rawData: createMockWebhookEvent("charge.refunded", {
+          id: `ch_test_${Date.now()}`,
+          object: "charge",
+          payment_intent: paymentIntentId,
+          amount_refunded: 4000,
+          refunds: {
+            data: [{ id: `re_test_${Date.now()}`, amount: 4000, status: "succeeded", reason: "requested_by_customer" }],
+          },
+        }),
+      });
+
+      const agent = await signInAsAdmin(app);
+      await agent.post(`/api/admin/webhook-events/${stored.id}/replay`).expect(200);
+      // Stripe retries deliveries; the same refund must not be applied twice
+      await agent.post(`/api/admin/webhook-events/${stored.id}/replay`).expect(200);
+
+      const updated = await storage.getDonation(donation.id);
+      expect(updated?.status).toBe("partially-refunded");
+      expect(updated?.refundedAmount).toBe(40);
+
+      const updatedCase = await storage.getCase(testCase.id);
+      expect(updatedCase?.amountCollected).toBe(60);
+
+      const amendedReceipt = await storage.getReceipt(receipt.id);
+      expect(amendedReceipt?.status).toBe("amended");
+      expect(amendedReceipt?.amount).toBe(60);
+
+      expect(await storage.getRefundsByDonationId(donation.id)).toHaveLength(1);
+
+      await storage.deleteCase(testCase.id);
+    });
+  });
+
+  describe("applyRefund", () => {
+    it("should void the receipt when the whole donation is refunded", async () => {
+      const { donation, receipt } = await createCompletedDonation();
+
+      const result = await applyRefund({
+        donationId: donation.id,
+        amount: 100,
+        provider: "stripe",
+        providerRefundId: `re_test_full_${Date.now()}`,
+        source: "admin",
+        refundedBy: "admin",
+      });
+
+      expect(result?.donation.status).toBe("refunded");
+      expect(result?.donation.refundedAmount).toBe(100);
+
+      const voidedReceipt = await storage.getReceipt(receipt.id);
+      expect(voidedReceipt?.status).toBe("voided");
+    });
+
+    it("should round refunds to the donation currency's smallest unit", async () => {
+      const donation = await storage.createDonation({
+        type: "sadqah",
+        amount: 5000,
+        currency: "JPY",
+        frequency: "one-off",
+        status: "pending",
+      });
+      await storage.updateDonationStatus(donation.id, "completed", `pi_test_refund_jpy_${donation.id}`);
+
+      const result = await applyRefund({
+        donationId: donation.id,
+        amount: 1234.6,
+        provider: "stripe",
+        providerRefundId: `re_test_jpy_${donation.id}`,
+        source: "admin",
+      });
+
+      expect(result?.refund.amount).toBe(1235);
+      expect(result?.donation).toMatchObject({ status: "partially-refunded", refundedAmount: 1235 });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type { Donation } from "@shared/schema";
+import {
+  getStatementPeriod,
+  getLastCompletedPeriod,
+  groupDonationsForStatements,
+} from "../server/statements";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Donor Statements", () => {
+  let nextDonationId = 1;
+
+  const createDonation = (overrides: Partial<Donation>): Donation => ({
+    id: nextDonationId++,
+    type: "sadqah",
+    amount: 100,
+    currency: "AUD",
+    frequency: "one-off",
+    stripePaymentId: null,
+    stripeSubscriptionId: null,
+    paypalSubscriptionId: null,
+    status: "completed",
+    subscriptionStatus: null,
+    nextPaymentDate: null,
+    createdAt: new Date("2025-03-01T00:00:00Z"),
+    email: "donor@example.com",
+    firstName: null,
+    lastName: null,
+    name: null,
+    userId: null,
+    paymentMethod: "stripe",
+    caseId: null,
+    destinationProject: null,
+    parentDonationId: null,
+    stripeInvoiceId: null,
+    refundedAmount: 0,
+    exchangeRate: 1,
+    baseAmount: null,
+    caseExchangeRate: null,
+    ...overrides,
+  });
+
+  describe("getStatementPeriod", () => {
+    it("should cover 1 July to 30 June in Sydney time for a financial year", () => {
+      const period = getStatementPeriod("financial-year", 2025);
+
+      expect(period.start.toISOString()).toBe("2024-06-30T14:00:00.000Z");
+      expect(period.end.toISOString()).toBe("2025-06-30T14:00:00.000Z");
+      expect(period.label).toBe("FY 2024-25");
+    });
+
+    it("should follow daylight saving for a calendar year", () => {
+      const period = getStatementPeriod("calendar-year", 2025);
+
+      expect(period.start.toISOString()).toBe("2024-12-31T13:00:00.000Z");
+      expect(period.end.toISOString()).toBe("2025-12-31T13:00:00.000Z");
+    });
+
+    it("should pick the financial year that finished most recently", () => {
+      expect(getLastCompletedPeriod("financial-year", new Date("2025-07-02T00:00:00Z")).year).toBe(2025);
+      expect(getLastCompletedPeriod("financial-year", new Date("2025-06-15T00:00:00Z")).year).toBe(2024);
+      expect(getLastCompletedPeriod("calendar-year", new Date("2025-01-05T00:00:00Z")).year).toBe(2024);
+    });
+  });
+
+  describe("groupDonationsForStatements", () => {
+    it("should group completed donations by email with totals by type and currency", () => {
+      const period = getStatementPeriod("financial-year", 2025);
+      const donations = [
+        createDonation({ type: "zakaat", amount: 250, firstName: "Aisha", lastName: "Khan" }),
+        createDonation({ type: "zakaat", amount: 50, email: "DONOR@example.com" }),
+        createDonation({ type: "sadqah", amount: 20, currency: "USD" }),
+        createDonation({ type: "sadqah", amount: 80, status: "partially-refunded", refundedAmount: 30 }),
+        createDonation({ status: "refunded", refundedAmount: 100 }),
+        createDonation({ status: "pending" }),
+        createDonation({ createdAt: new Date("2025-06-30T14:30:00Z") }), // 12:30am 1 July in Sydney
+        createDonation({ email: null }),
+        createDonation({ email: "other@example.com", amount: 10 }),
+      ];
+
+      const groups = groupDonationsForStatements(donations, period);
+      const donor = groups.find((g) => g.email === "donor@example.com")!;
+
+      expect(groups).toHaveLength(2);
+      expect(donor.name).toBe("Aisha Khan");
+      expect(donor.donations).toHaveLength(4);
+      expect(donor.totals).toEqual([
+        { type: "sadqah", currency: "AUD", amount: 50 },
+        { type: "sadqah", currency: "USD", amount: 20 },
+        { type: "zakaat", currency: "AUD", amount: 300 },
+      ]);
+    });
+
+    it("should only include the requested donor", () => {
+      const period = getStatementPeriod("calendar-year", 2025);
+      const donations = [
+        createDonation({ email: "one@example.com" }),
+        createDonation({ email: "two@example.com" }),
+      ];
+
+      const groups = groupDonationsForStatements(donations, period, "two@example.com");
+
+      expect(groups.map((g) => g.email)).toEqual(["two@example.com"]);
+    });
+  });
+
+  describe("POST /api/admin/statements", () => {
+    let app: Express;
+
+    beforeEach(async () => {
+      app = await createTestApp();
+    });
+
+    it("should require an admin session", async () => {
+      await request(app)
+        .post("/api/admin/statements")
+        .send({ periodType: "financial-year", year: 2025 })
+        .expect(401);
+    });
+
+    it("should reject an unknown period type", async () => {
+      const agent = await signInAsAdmin(app);
+
+      await agent
+        .post("/api/admin/statements")
+        .send({ periodType: "quarter", year: 2025 })
+        .expect(400);
+    });
+
+    it("should queue statements and respond straight away", async () => {
+      const agent = await signInAsAdmin(app);
+
+      const response = await agent
+        .post("/api/admin/statements")
+        .send({ periodType: "calendar-year", year: 2001, send: false })
+        .expect(202);
+
+      expect(response.body).toEqual({ periodLabel: "2001", queued: 0 });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import { registerRoutes } from "../server/routes";
+import { storage } from "../server/storage";
+import {
+  createSubscriptionManagementToken,
+  verifySubscriptionManagementToken,
+} from "../server/subscription-links";
+
+// Prices the change route asked Stripe to create
+const stripePrices: Array<{ unit_amount: number; currency: string }> = [];
+
+class FakeStripe {
+  prices = {
+    create: async (params: { unit_amount: number; currency: string }) => {
+      stripePrices.push({ unit_amount: params.unit_amount, currency: params.currency });
+      return { id: `price_change_${stripePrices.length}` };
+    },
+  };
+  subscriptions = {
+    retrieve: async (id: string) => ({ id, status: "active", items: { data: [{ id: "si_change" }] } }),
+    update: async (id: string) => ({ id, status: "active" }),
+  };
+}
+
+describe("Recurring Donation Management", () => {
+  describe("Management tokens", () => {
+    it("should verify a token issued for a donation", () => {
+      const token = createSubscriptionManagementToken(42);
+
+      expect(verifySubscriptionManagementToken(token)).toBe(42);
+    });
+
+    it("should reject a token for a different donation", () => {
+      const [, expiresAt, signature] = createSubscriptionManagementToken(42).split(".");
+
+      expect(verifySubscriptionManagementToken(`43.${expiresAt}.${signature}`)).toBeNull();
+    });
+
+    it("should reject an expired token", () => {
+      const token = createSubscriptionManagementToken(42, -1000);
+
+      expect(verifySubscriptionManagementToken(token)).toBeNull();
+    });
+
+    it("should reject malformed tokens", () => {
+      expect(verifySubscriptionManagementToken("not-a-token")).toBeNull();
+      expect(verifySubscriptionManagementToken("42.123.bad-signature")).toBeNull();
+    });
+  });
+
+  describe("Management routes", () => {
+    let app: Express;
+
+    beforeEach(async () => {
+      app = express();
+      app.use(express.json());
+      await registerRoutes(app);
+    });
+
+    it("should reject an invalid link", async () => {
+      await request(app).get("/api/manage-subscription/invalid.token.value").expect(401);
+      await request(app).post("/api/manage-subscription/invalid.token.value/cancel").expect(401);
+    });
+
+    it("should not manage a one-off donation", async () => {
+      const donation = await storage.createDonation({
+        type: "sadqah",
+        amount: 10,
+        currency: "AUD",
+        frequency: "one-off",
+        status: "completed",
+      });
+      const token = createSubscriptionManagementToken(donation.id);
+
+      await request(app).post(`/api/manage-subscription/${token}/pause`).expect(404);
+    });
+
+    it("should validate amount and frequency changes", async () => {
+      const token = createSubscriptionManagementToken(1);
+
+      await request(app)
+        .post(`/api/manage-subscription/${token}/change`)
+        .send({ frequency: "daily" })
+        .expect(400);
+      await request(app).post(`/api/manage-subscription/${token}/change`).send({}).expect(400);
+    });
+  });
+
+  // Stripe is only set up when its key is present as the routes load, so the routes are loaded
+  // afresh with a test key and a fake Stripe, and put back for the test files that follow
+  describe("Changing the amount", () => {
+    let app: Express;
+    let freshStorage: typeof storage;
+
+    beforeAll(async () => {
+      process.env.STRIPE_SECRET_KEY = "sk_test_subscription_change";
+      vi.resetModules();
+      vi.doMock("stripe", () => ({ default: FakeStripe }));
+
+      const routes = await import("../server/routes");
+      freshStorage = (await import("../server/storage")).storage;
+      app = express();
+      app.use(express.json());
+      await routes.registerRoutes(app);
+    });
+
+    afterAll(() => {
+      delete process.env.STRIPE_SECRET_KEY;
+      vi.doUnmock("stripe");
+      vi.resetModules();
+    });
+
+    it("should keep charging the fee a donor covers, quoted for the new amount", async () => {
+      const donation = await freshStorage.createDonation({
+        type: "sadqah",
+        amount: 50,
+        currency: "AUD",
+        frequency: "monthly",
+        status: "completed",
+      });
+      await freshStorage.updateDonationFee(donation.id, 1.2);
+      await freshStorage.updateDonationSubscription(donation.id, "stripe", "sub_change", "active", null);
+      const { body: quote } = await request(app).get("/api/fees/quote?amount=80&currency=AUD&paymentMethod=stripe").expect(200);
+      const token = createSubscriptionManagementToken(donation.id);
+
+      await request(app).post(`/api/manage-subscription/${token}/change`).send({ amount: 80 }).expect(200);
+
+      expect(stripePrices).toEqual([{ unit_amount: Math.round(quote.totalWithFee * 100), currency: "aud" }]);
+      const changed = await freshStorage.getDonation(donation.id);
+      expect(changed?.amount).toBe(80);
+      expect(changed?.feeAmount).toBe(quote.fee);
+    });
+  });
+});
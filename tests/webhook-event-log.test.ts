@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import {
+  createWebhookDeliveryOutcome,
+  runWebhookDelivery,
+  handlePaymentIntentSucceeded,
+} from "../server/webhook-handlers";
+import { createMockWebhookEvent, createMockPaymentIntent } from "./setup";
+import { createTestApp, signInAsAdmin } from "./helpers";
+
+describe("Webhook Event Log", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  it("should require an admin session", async () => {
+    await request(app).get("/api/admin/webhook-events").expect(401);
+    await request(app).post("/api/admin/webhook-events/1/replay").expect(401);
+  });
+
+  it("should record the match strategy and outcome of a delivery", async () => {
+    const paymentIntentId = `pi_test_log_${Date.now()}`;
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 20,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "processing",
+      stripePaymentId: paymentIntentId,
+    });
+
+    const outcome = createWebhookDeliveryOutcome();
+    await runWebhookDelivery(outcome, () =>
+      handlePaymentIntentSucceeded(createMockPaymentIntent({ id: paymentIntentId }))
+    );
+
+    expect(outcome.status).toBe("processed");
+    expect(outcome.matchStrategy).toBe("direct_id");
+    expect(outcome.donationId).toBe(donation.id);
+  });
+
+  it("should mark unmatched payments as orphaned", async () => {
+    const outcome = createWebhookDeliveryOutcome();
+    await runWebhookDelivery(outcome, () =>
+      handlePaymentIntentSucceeded(
+        createMockPaymentIntent({ id: `pi_test_orphan_${Date.now()}`, amount: 987654, created: 0 })
+      )
+    );
+
+    expect(outcome.status).toBe("orphaned");
+    expect(outcome.donationId).toBeNull();
+  });
+
+  it("should search events and leave out the raw payload", async () => {
+    const paymentIntentId = `pi_test_search_${Date.now()}`;
+    await storage.createWebhookEvent({
+      eventType: "payment_intent.succeeded",
+      stripeEventId: `evt_test_search_${Date.now()}`,
+      paymentIntentId,
+      status: "orphaned",
+      rawData: createMockWebhookEvent("payment_intent.succeeded", { id: paymentIntentId }),
+    });
+
+    const agent = await signInAsAdmin(app);
+    const response = await agent
+      .get(`/api/admin/webhook-events?search=${paymentIntentId}`)
+      .expect(200);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0].paymentIntentId).toBe(paymentIntentId);
+    expect(response.body[0].rawData).toBeUndefined();
+  });
+
+  it("should replay a stored event through the webhook handler", async () => {
+    const paymentIntentId = `pi_test_replay_${Date.now()}`;
+    const donation = await storage.createDonation({
+      type: "sadqah",
+      amount: 20,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "processing",
+      stripePaymentId: paymentIntentId,
+    });
+    const stored = await storage.createWebhookEvent({
+      eventType: "payment_intent.succeeded",
+      paymentIntentId,
+      status: "failed",
+      errorMessage: "Database timeout",
+      rawData: createMockWebhookEvent(
+        "payment_intent.succeeded",
+        createMockPaymentIntent({ id: paymentIntentId })
+      ),
+    });
+
+    const agent = await signInAsAdmin(app);
+    const response = await agent.post(`/api/admin/webhook-events/${stored.id}/replay`).expect(200);
+
+    expect(response.body.replayOfEventId).toBe(stored.id);
+    expect(response.body.status).toBe("processed");
+    expect(response.body.donationId).toBe(donation.id);
+
+    const updated = await storage.getDonation(donation.id);
+    expect(updated?.status).toBe("completed");
+  });
+});
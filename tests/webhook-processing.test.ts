@@ -4,6 +4,7 @@ import express from 'express';
 import { storage } from '../server/storage';
 import { TEST_CONFIG, createMockWebhookEvent, createMockPaymentIntent } from './setup';
 import { registerRoutes } from '../server/routes';
+import { recordRecurringInstallment, handlePaymentIntentSucceeded } from '../server/webhook-handlers';
 
 describe('Enhanced Webhook Processing', () => {
   let app: express.Application;
@@ -361,6 +362,41 @@ describe('Enhanced Webhook Processing', () => {
       // Let's check if it's at least what we expected or the new total
       expect(updatedCase?.amountCollected).toBeGreaterThanOrEqual(200.00);
     });
+
+    it('should credit the case once per completed donation, within its cap', async () => {
+      const completeForCase = async (caseId: number, amount: number) => {
+        const donation = await storage.createDonation({
+          type: 'sadqah',
+          amount,
+          currency: 'AUD',
+          frequency: 'one-off',
+          status: 'pending',
+          caseId
+        });
+        await handlePaymentIntentSucceeded(createMockPaymentIntent({
+          id: `pi_test_case_credit_${donation.id}`,
+          amount: amount * 100,
+          metadata: { donationId: donation.id.toString() }
+        }));
+      };
+
+      const cappedCase = await storage.createCase({
+        title: 'Capped Webhook Case',
+        description: 'Case that only takes what it needs',
+        amountRequired: 100,
+        overfundingPolicy: 'cap'
+      });
+      await completeForCase(cappedCase.id, 150);
+      expect((await storage.getCase(cappedCase.id))?.amountCollected).toBe(100);
+
+      const openCase = await storage.createCase({
+        title: 'Uncapped Webhook Case',
+        description: 'Case that keeps everything given to it',
+        amountRequired: 1000
+      });
+      await completeForCase(openCase.id, 80);
+      expect((await storage.getCase(openCase.id))?.amountCollected).toBe(80);
+    });
   });
 
   describe('Error Handling and Resilience', () => {
@@ -431,4 +467,124 @@ describe('Enhanced Webhook Processing', () => {
       expect(finalDonation?.status).toBe('completed');
     }, 4000);
   });
+
+  describe('Recurring Installments', () => {
+    const createSubscriptionDonation = async (caseId: number | null = null) => {
+      const donation = await storage.createDonation({
+        type: 'sadqah',
+        amount: 30,
+        currency: 'AUD',
+        frequency: 'monthly',
+        status: 'pending',
+        caseId
+      });
+      const subscriptionId = `sub_test_installments_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      return storage.updateDonationSubscription(donation.id, 'stripe', subscriptionId, 'active', new Date());
+    };
+
+    const createMockInvoice = (overrides: any = {}) => ({
+      id: `in_test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      object: 'invoice',
+      amount_paid: 3000,
+      currency: 'aud',
+      payment_intent: `pi_test_invoice_${Date.now()}`,
+      created: Math.floor(Date.now() / 1000),
+      ...overrides
+    });
+
+    it('should record each paid invoice as a completed child donation', async () => {
+      const parent = await createSubscriptionDonation();
+      const invoice = createMockInvoice({ subscription: parent!.stripeSubscriptionId });
+
+      const installment = await recordRecurringInstallment(parent!, invoice);
+
+      expect(installment?.parentDonationId).toBe(parent!.id);
+      expect(installment?.stripeInvoiceId).toBe(invoice.id);
+      expect(installment?.status).toBe('completed');
+      expect(installment?.amount).toBe(30);
+
+      const installments = await storage.getInstallmentDonations(parent!.id);
+      expect(installments).toHaveLength(1);
+    });
+
+    it('should keep the parent\'s fundraiser and covered fee on each installment', async () => {
+      const parent = await storage.createDonation({
+        type: 'sadqah',
+        amount: 30,
+        feeAmount: 1.35,
+        currency: 'AUD',
+        frequency: 'monthly',
+        status: 'pending',
+        fundraiserId: 4242
+      });
+      const invoice = createMockInvoice({ amount_paid: 3135 });
+
+      const installment = await recordRecurringInstallment(parent, invoice);
+
+      expect(installment).toMatchObject({ amount: 30, feeAmount: 1.35, fundraiserId: 4242 });
+    });
+
+    it('should send zakat installments elsewhere once the case is no longer eligible', async () => {
+      const testCase = await storage.createCase({
+        title: 'Installment Zakat Case',
+        description: 'Case used to check zakat installments stay with eligible cases.',
+        amountRequired: 1000,
+        zakaatEligible: true
+      });
+      const parent = await storage.createDonation({
+        type: 'zakaat',
+        amount: 30,
+        currency: 'AUD',
+        frequency: 'monthly',
+        status: 'pending',
+        caseId: testCase.id
+      });
+
+      const eligible = await recordRecurringInstallment(parent, createMockInvoice());
+      expect(eligible?.caseId).toBe(testCase.id);
+
+      await storage.updateCase(testCase.id, { zakaatEligible: false });
+      const reallocated = await recordRecurringInstallment(parent, createMockInvoice());
+
+      expect(reallocated?.caseId).not.toBe(testCase.id);
+      if (reallocated?.caseId) {
+        expect((await storage.getCase(reallocated.caseId))?.zakaatEligible).toBe(true);
+      }
+      expect((await storage.getCase(testCase.id))?.amountCollected).toBe(30);
+
+      await storage.deleteCase(testCase.id);
+    });
+
+    it('should read invoice amounts in the currency\'s minor units', async () => {
+      const parent = await createSubscriptionDonation();
+      const invoice = createMockInvoice({ subscription: parent!.stripeSubscriptionId, amount_paid: 5000, currency: 'jpy' });
+
+      const installment = await recordRecurringInstallment(parent!, invoice);
+
+      expect(installment?.currency).toBe('JPY');
+      expect(installment?.amount).toBe(5000);
+    });
+
+    it('should not record the same invoice twice', async () => {
+      const testCase = await storage.createCase({
+        title: 'Installment Test Case',
+        description: 'Case used to check recurring installments are only counted once.',
+        amountRequired: 1000,
+        active: true
+      });
+      const parent = await createSubscriptionDonation(testCase.id);
+      const invoice = createMockInvoice({ subscription: parent!.stripeSubscriptionId });
+
+      const first = await recordRecurringInstallment(parent!, invoice);
+      const second = await recordRecurringInstallment(parent!, invoice);
+
+      expect(second?.id).toBe(first?.id);
+      expect(await storage.getInstallmentDonations(parent!.id)).toHaveLength(1);
+
+      const updatedCase = await storage.getCase(testCase.id);
+      expect(updatedCase?.amountCollected).toBe(30);
+
+      await storage.deleteCase(testCase.id);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "../server/storage";
+import { refreshExchangeRates, setExchangeRateProvider } from "../server/exchange-rates";
+import { calculateZakat, NISAB_GRAMS } from "../shared/zakat";
+import { createTestApp, signInAsAdmin, createTestCase } from "./helpers";
+
+describe("Zakat", () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  const noAssets = { cash: 0, goldGrams: 0, silverGrams: 0, investments: 0, receivables: 0, liabilities: 0 };
+  const prices = { currency: "AUD", goldPricePerGram: 100, silverPricePerGram: 1.5, nisab: 918.54 };
+
+  describe("calculateZakat", () => {
+    it("should charge 2.5% of net wealth at or above the nisab", () => {
+      const result = calculateZakat(
+        { ...noAssets, cash: 5000, goldGrams: 10, silverGrams: 100, investments: 2000, receivables: 500, liabilities: 1150 },
+        prices
+      );
+
+      expect(result).toEqual({
+        goldValue: 1000,
+        silverValue: 150,
+        totalAssets: 8650,
+        netWealth: 7500,
+        nisab: 918.54,
+        nisabAvailable: true,
+        aboveNisab: true,
+        zakatDue: 187.5,
+      });
+    });
+
+    it("should not charge zakat below the nisab or on negative inputs", () => {
+      expect(calculateZakat({ ...noAssets, cash: 900 }, prices)).toMatchObject({ aboveNisab: false, zakatDue: 0 });
+      expect(calculateZakat({ ...noAssets, cash: 1000, liabilities: 200 }, prices)).toMatchObject({ netWealth: 800, zakatDue: 0 });
+      expect(calculateZakat({ ...noAssets, cash: -5000, investments: 1000 }, prices)).toMatchObject({ netWealth: 1000, zakatDue: 25 });
+    });
+
+    it("should round to the currency's minor unit", () => {
+      const yen = { currency: "JPY", goldPricePerGram: 15000, silverPricePerGram: 200, nisab: 122472 };
+      expect(calculateZakat({ ...noAssets, cash: 123457 }, yen)).toMatchObject({ aboveNisab: true, zakatDue: 3086 });
+    });
+
+    it("should not work out zakat when the nisab or a held metal's price is unavailable", () => {
+      const noPrices = { currency: "AUD", goldPricePerGram: null, silverPricePerGram: null, nisab: null };
+      expect(calculateZakat({ ...noAssets, cash: 50000, goldGrams: 100 }, noPrices)).toMatchObject({
+        goldValue: 0,
+        nisab: null,
+        nisabAvailable: false,
+        aboveNisab: false,
+        zakatDue: 0,
+      });
+
+      const silverOnly = { ...prices, goldPricePerGram: null };
+      expect(calculateZakat({ ...noAssets, cash: 5000, goldGrams: 10 }, silverOnly)).toMatchObject({ nisabAvailable: false, zakatDue: 0 });
+      expect(calculateZakat({ ...noAssets, cash: 5000 }, silverOnly)).toMatchObject({ nisabAvailable: true, zakatDue: 125 });
+    });
+  });
+
+  describe("allocation to eligible cases", () => {
+    const createCase = (zakaatEligible: boolean) =>
+      createTestCase({ amountRequired: 1000000, zakaatEligible });
+
+    const donation = (type: string, caseId?: number) => ({
+      type,
+      amount: 100,
+      currency: "AUD",
+      frequency: "one-off",
+      status: "pending",
+      ...(caseId ? { caseId } : {}),
+    });
+
+    it("should reject zakat for a case that is not eligible", async () => {
+      const ineligible = await createCase(false);
+
+      const rejected = await request(app).post("/api/donations").send(donation("zakaat", ineligible.id)).expect(400);
+      expect(rejected.body.message).toMatch(/not eligible for zakat/);
+      await request(app).post("/api/donations").send(donation("zakaat", 999999)).expect(400);
+
+      // Sadqah can still go to the case
+      const sadqah = await request(app).post("/api/donations").send(donation("sadqah", ineligible.id)).expect(201);
+      expect(sadqah.body.caseId).toBe(ineligible.id);
+    });
+
+    it("should send zakat without a case to the most deserving eligible case", async () => {
+      const ineligible = await createCase(false);
+      await createCase(true);
+
+      const response = await request(app).post("/api/donations").send(donation("zakaat")).expect(201);
+      const allocated = await storage.getCase(response.body.caseId);
+      expect(allocated?.zakaatEligible).toBe(true);
+      expect(allocated?.id).not.toBe(ineligible.id);
+    });
+
+    it("should report zakat credited to ineligible cases", async () => {
+      await request(app).get("/api/admin/zakat-compliance").expect(401);
+      const agent = await signInAsAdmin(app);
+      const before = (await agent.get("/api/admin/zakat-compliance").expect(200)).body;
+
+      const eligible = await createCase(true);
+      const ineligible = await createCase(true);
+      const toEligible = await storage.createDonation({ ...donation("zakaat", eligible.id), exchangeRate: 1, baseAmount: 100 });
+      const toIneligible = await storage.createDonation({ ...donation("zakaat", ineligible.id), exchangeRate: 1, baseAmount: 100 });
+      await storage.updateDonationStatus(toEligible.id, "completed", `pi_zakat_${toEligible.id}`);
+      await storage.updateDonationStatus(toIneligible.id, "completed", `pi_zakat_${toIneligible.id}`);
+
+      const compliant = (await agent.get("/api/admin/zakat-compliance").expect(200)).body;
+      expect(compliant.compliant).toBe(before.compliant);
+      expect(compliant.totalZakat - before.totalZakat).toBeCloseTo(200);
+
+      // The case was made ineligible after receiving zakat
+      await storage.updateCase(ineligible.id, { zakaatEligible: false });
+      const report = (await agent.get("/api/admin/zakat-compliance").expect(200)).body;
+      expect(report.compliant).toBe(false);
+      expect(report.ineligibleDonations).toContainEqual(
+        expect.objectContaining({ donationId: toIneligible.id, caseId: ineligible.id, baseAmount: 100 })
+      );
+      expect(report.cases).toContainEqual(
+        expect.objectContaining({ caseId: eligible.id, zakaatEligible: true, donationCount: 1, baseAmount: 100 })
+      );
+    });
+
+    it("should count only the part of a donation its case kept", async () => {
+      const agent = await signInAsAdmin(app);
+      const before = (await agent.get("/api/admin/zakat-compliance").expect(200)).body;
+
+      const capped = await createTestCase({ amountRequired: 100, zakaatEligible: true, overfundingPolicy: "redirect_to_general_fund" });
+      const overGoal = await storage.createDonation({ ...donation("zakaat", capped.id), amount: 150, exchangeRate: 1, baseAmount: 150 });
+      await storage.updateDonationStatus(overGoal.id, "completed", `pi_zakat_${overGoal.id}`);
+
+      const report = (await agent.get("/api/admin/zakat-compliance").expect(200)).body;
+      expect(report.cases).toContainEqual(expect.objectContaining({ caseId: capped.id, donationCount: 1, baseAmount: 100 }));
+      expect(report.totalZakat - before.totalZakat).toBeCloseTo(150);
+      expect(report.unallocatedZakat - before.unallocatedZakat).toBeCloseTo(50);
+    });
+
+    it("should list zakat with no exchange rate instead of counting it at face value", async () => {
+      const agent = await signInAsAdmin(app);
+      const before = (await agent.get("/api/admin/zakat-compliance").expect(200)).body;
+
+      const unconverted = await storage.createDonation({ ...donation("zakaat"), currency: "USD" });
+      await storage.updateDonationStatus(unconverted.id, "completed", `pi_zakat_${unconverted.id}`);
+
+      const report = (await agent.get("/api/admin/zakat-compliance").expect(200)).body;
+      expect(report.totalZakat).toBeCloseTo(before.totalZakat);
+      expect(report.unconvertedDonations).toContainEqual(
+        expect.objectContaining({ donationId: unconverted.id, amount: 100, currency: "USD" })
+      );
+    });
+  });
+
+  describe("nisab and metal prices", () => {
+    it("should require an admin session to set metal prices", async () => {
+      await request(app).get("/api/admin/metal-prices").expect(401);
+      await request(app).put("/api/admin/metal-prices/gold").send({ pricePerGram: 100 }).expect(401);
+    });
+
+    it("should reject unknown metals and invalid prices", async () => {
+      const agent = await signInAsAdmin(app);
+      await agent.put("/api/admin/metal-prices/platinum").send({ pricePerGram: 50 }).expect(400);
+      await agent.put("/api/admin/metal-prices/gold").send({ pricePerGram: 0 }).expect(400);
+      await request(app).get("/api/zakat/nisab?currency=dollars").expect(400);
+    });
+
+    it("should convert admin-set prices and the nisab to the donor's currency", async () => {
+      const agent = await signInAsAdmin(app);
+      const saved = await agent.put("/api/admin/metal-prices/silver").send({ pricePerGram: 1.5 }).expect(200);
+      expect(saved.body).toMatchObject({ metal: "silver", pricePerGram: 1.5, updatedBy: "admin" });
+      await agent.put("/api/admin/metal-prices/gold").send({ pricePerGram: 120 }).expect(200);
+
+      // Saving a metal again replaces its price
+      await agent.put("/api/admin/metal-prices/gold").send({ pricePerGram: 130 }).expect(200);
+      const overview = await agent.get("/api/admin/metal-prices").expect(200);
+      expect(overview.body.prices).toHaveLength(2);
+      expect(overview.body.nisab).toMatchObject({ currency: "AUD", standard: "silver", nisab: 918.54 });
+
+      setExchangeRateProvider({ name: "test-provider", fetchRates: async () => ({ AUD: 1, USD: 0.65 }) });
+      expect(await refreshExchangeRates()).toBe(true);
+
+      const response = await request(app).get("/api/zakat/nisab?currency=usd").expect(200);
+      expect(response.body).toMatchObject({
+        currency: "USD",
+        goldPricePerGram: 84.5,
+        silverPricePerGram: 0.975,
+        nisab: 597.05,
+        nisabGrams: NISAB_GRAMS.silver,
+      });
+    });
+  });
+});